@@ -0,0 +1,65 @@
+// app/(auth)/forgot/page.tsx
+"use client";
+
+import { useState } from "react";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [sent, setSent] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg(null);
+    setSubmitting(true);
+    try {
+      const r = await fetch("/api/auth/forgot", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim() }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Something went wrong");
+      setSent(j?.message || "Check your email for a reset link.");
+    } catch (e: any) {
+      setMsg(e?.message || "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div style={{ minHeight: "100dvh", display: "grid", placeItems: "center", background: "#fff", padding: 24 }}>
+      <div className="card" style={{ width: 420, maxWidth: "90vw", padding: 20 }}>
+        {sent ? (
+          <div className="grid" style={{ gap: 12 }}>
+            <p className="small">{sent}</p>
+            <a className="small" href="/login" style={{ textDecoration: "underline" }}>Back to sign in</a>
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} className="grid" style={{ gap: 12 }}>
+            <h2 style={{ margin: 0 }}>Forgot your password?</h2>
+            <p className="small muted" style={{ margin: 0 }}>We&apos;ll email you a link to choose a new one.</p>
+            <input
+              type="email"
+              className="input"
+              placeholder="Email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              autoComplete="username"
+            />
+            <button className="primary" type="submit" disabled={submitting}>
+              {submitting ? "Sending…" : "Send reset link"}
+            </button>
+            {msg && <div className="small" style={{ color: "#b91c1c", textAlign: "center" }}>{msg}</div>}
+            <a className="small" href="/login" style={{ textAlign: "center", textDecoration: "underline" }}>
+              Back to sign in
+            </a>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -7,10 +7,17 @@ export default function LoginPage() {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [show, setShow] = useState(false);
+  const [remember, setRemember] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
   const [nextUrl, setNextUrl] = useState("/");
 
+  // second factor: "code" = enrolled, "setup" = must enrol now (ADMIN/MANAGER)
+  const [mfaStep, setMfaStep] = useState<null | "code" | "setup">(null);
+  const [code, setCode] = useState("");
+  const [setup, setSetup] = useState<{ secret: string; qrSvg: string } | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
   // Read ?next=... without useSearchParams (avoids suspense warning)
   useEffect(() => {
     try {
@@ -29,10 +36,25 @@ export default function LoginPage() {
       const fd = new FormData();
       fd.set("email", email.trim());
       fd.set("password", password);
+      if (remember) fd.set("remember", "1");
+      if (mfaStep) fd.set("code", code.trim());
 
       const res = await fetch("/api/login", { method: "POST", body: fd });
       const json = await res.json().catch(() => ({}));
-      if (!res.ok) throw new Error(json?.error || "Sign-in failed");
+      if (!res.ok) {
+        if (json?.mfaRequired) setMfaStep("code");
+        if (json?.mfaSetupRequired) {
+          setMfaStep("setup");
+          if (json?.setup) setSetup(json.setup);
+        }
+        throw new Error(json?.error || "Sign-in failed");
+      }
+
+      // Just enrolled: show the recovery codes once before continuing
+      if (Array.isArray(json?.recoveryCodes) && json.recoveryCodes.length) {
+        setRecoveryCodes(json.recoveryCodes);
+        return;
+      }
 
       // Cookie is set by the API; send them on their way
       window.location.href = nextUrl;
@@ -54,7 +76,21 @@ export default function LoginPage() {
       }}
     >
       <div className="card" style={{ width: 420, maxWidth: "90vw", padding: 20 }}>
-        {/* Login form (no in-card logo) */}
+        {recoveryCodes ? (
+          <div className="grid" style={{ gap: 12 }}>
+            <h2 style={{ margin: 0 }}>Save your recovery codes</h2>
+            <p className="small">
+              Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+            </p>
+            <pre style={{ background: "#f8fafc", padding: 12, borderRadius: 8, margin: 0 }}>
+              {recoveryCodes.join("\n")}
+            </pre>
+            <button className="primary" type="button" onClick={() => (window.location.href = nextUrl)}>
+              I&apos;ve saved them — continue
+            </button>
+          </div>
+        ) : (
+        /* Login form (no in-card logo) */
         <form method="post" action="/api/login" onSubmit={onSubmit} className="grid" style={{ gap: 12 }}>
           <div>
             <label className="sr-only">Email</label>
@@ -96,6 +132,43 @@ export default function LoginPage() {
             </div>
           </div>
 
+          {mfaStep === "setup" && setup && (
+            <div className="grid" style={{ gap: 6, justifyItems: "center" }}>
+              <div dangerouslySetInnerHTML={{ __html: setup.qrSvg }} style={{ width: 200, height: 200 }} />
+              <div className="small muted" style={{ textAlign: "center", wordBreak: "break-all" }}>
+                Or enter this key in your authenticator app: <b>{setup.secret}</b>
+              </div>
+            </div>
+          )}
+
+          {mfaStep && (
+            <div>
+              <label className="sr-only">Authentication code</label>
+              <input
+                name="code"
+                className="input"
+                placeholder={mfaStep === "code" ? "6-digit code or recovery code" : "6-digit code from your app"}
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                autoComplete="one-time-code"
+                inputMode={mfaStep === "setup" ? "numeric" : undefined}
+              />
+            </div>
+          )}
+
+          <label className="row small" style={{ gap: 8 }}>
+            <input
+              type="checkbox"
+              name="remember"
+              value="1"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+            />
+            Keep me signed in for 30 days
+          </label>
+
           <button className="primary" type="submit" disabled={submitting}>
             {submitting ? "Signing in…" : "Sign in"}
           </button>
@@ -107,12 +180,14 @@ export default function LoginPage() {
           )}
 
           <p className="small muted" style={{ marginTop: 6, textAlign: "center" }}>
-            Trouble signing in? Contact your admin.
+            <a href="/forgot" style={{ textDecoration: "underline" }}>Forgot your password?</a>
+            {" "}Still stuck? Contact your admin.
           </p>
 
           {/* Progressive enhancement: if JS is disabled, the form still posts to /api/login */}
           <input type="hidden" name="__enhanced" value="1" />
         </form>
+        )}
       </div>
     </div>
   );
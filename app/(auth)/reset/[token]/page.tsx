@@ -0,0 +1,111 @@
+// app/(auth)/reset/[token]/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type LinkInfo = { purpose: "INVITE" | "RESET"; email: string; fullName: string };
+
+export default function ResetPasswordPage({ params }: { params: { token: string } }) {
+  const token = decodeURIComponent(params.token);
+  const [info, setInfo] = useState<LinkInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const r = await fetch(`/api/auth/reset?token=${encodeURIComponent(token)}`, { cache: "no-store" });
+        const j = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(j?.error || "This link is invalid or has expired.");
+        setInfo(j);
+      } catch (e: any) {
+        setMsg(e?.message || "This link is invalid or has expired.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [token]);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setMsg(null);
+    if (password.length < 8) return setMsg("Password must be at least 8 characters.");
+    if (password !== confirm) return setMsg("Passwords do not match.");
+
+    setSubmitting(true);
+    try {
+      const r = await fetch("/api/auth/reset", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password, confirm }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Could not set password");
+      setDone(true);
+    } catch (e: any) {
+      setMsg(e?.message || "Could not set password");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const isInvite = info?.purpose === "INVITE";
+
+  return (
+    <div style={{ minHeight: "100dvh", display: "grid", placeItems: "center", background: "#fff", padding: 24 }}>
+      <div className="card" style={{ width: 420, maxWidth: "90vw", padding: 20 }}>
+        {loading ? (
+          <div className="small muted">Checking link…</div>
+        ) : done ? (
+          <div className="grid" style={{ gap: 12 }}>
+            <h2 style={{ margin: 0 }}>{isInvite ? "You're all set" : "Password updated"}</h2>
+            <p className="small">Sign in with {info?.email} and your new password.</p>
+            <a className="primary" href="/login" style={{ textAlign: "center" }}>Go to sign in</a>
+          </div>
+        ) : !info ? (
+          <div className="grid" style={{ gap: 12 }}>
+            <div className="small" style={{ color: "#b91c1c" }}>{msg}</div>
+            <a className="small" href="/forgot" style={{ textDecoration: "underline" }}>Request a new link</a>
+          </div>
+        ) : (
+          <form onSubmit={onSubmit} className="grid" style={{ gap: 12 }}>
+            <div>
+              <h2 style={{ margin: 0 }}>{isInvite ? `Welcome, ${info.fullName || info.email}` : "Choose a new password"}</h2>
+              <p className="small muted" style={{ marginTop: 4 }}>
+                {isInvite ? "Set a password to finish creating your account." : info.email}
+              </p>
+            </div>
+            <input
+              type="password"
+              className="input"
+              placeholder="New password (at least 8 characters)"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              minLength={8}
+              required
+              autoComplete="new-password"
+            />
+            <input
+              type="password"
+              className="input"
+              placeholder="Confirm password"
+              value={confirm}
+              onChange={(e) => setConfirm(e.target.value)}
+              minLength={8}
+              required
+              autoComplete="new-password"
+            />
+            <button className="primary" type="submit" disabled={submitting}>
+              {submitting ? "Saving…" : "Set password"}
+            </button>
+            {msg && <div className="small" style={{ color: "#b91c1c", textAlign: "center" }}>{msg}</div>}
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+// app/api/admin/api-keys/[id]/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** DELETE — revoke a key. The row stays for the audit trail. */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const key = await prisma.apiKey.findUnique({ where: { id: params.id }, select: { id: true, name: true, prefix: true, revokedAt: true } });
+  if (!key) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (key.revokedAt) return NextResponse.json({ ok: true, revokedAt: key.revokedAt });
+
+  const revokedAt = new Date();
+  await prisma.apiKey.update({ where: { id: key.id }, data: { revokedAt } });
+  await writeAudit({
+    userId: me!.id,
+    action: "api_key.revoke",
+    entityType: "ApiKey",
+    entityId: key.id,
+    details: { name: key.name, prefix: key.prefix },
+  });
+  return NextResponse.json({ ok: true, revokedAt });
+}
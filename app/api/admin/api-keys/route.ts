@@ -0,0 +1,70 @@
+// app/api/admin/api-keys/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { createApiKey } from "@/lib/apiKeys";
+import { isApiKeyScope } from "@/lib/permissions";
+import { writeAudit } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — all API keys (never the secrets), newest first. */
+export async function GET() {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const keys = await prisma.apiKey.findMany({
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      createdAt: true,
+      name: true,
+      prefix: true,
+      scopes: true,
+      expiresAt: true,
+      lastUsedAt: true,
+      lastUsedIp: true,
+      revokedAt: true,
+      createdBy: { select: { fullName: true, email: true } },
+    },
+  });
+  return NextResponse.json({ keys });
+}
+
+/**
+ * POST { name, scopes: string[], expiresInDays?: number }
+ * Returns the full key once; only its prefix is shown afterwards.
+ */
+export async function POST(req: Request) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const body = await req.json().catch(() => ({}));
+  const name = String(body?.name ?? "").trim();
+  const rawScopes: unknown[] = Array.isArray(body?.scopes) ? body.scopes : [];
+  const scopes = Array.from(new Set(rawScopes.filter(isApiKeyScope)));
+  const days = body?.expiresInDays == null || body.expiresInDays === "" ? null : Number(body.expiresInDays);
+
+  if (!name) return NextResponse.json({ error: "Name is required" }, { status: 400 });
+  if (!scopes.length) return NextResponse.json({ error: "Pick at least one scope" }, { status: 400 });
+  if (rawScopes.length !== scopes.length) {
+    return NextResponse.json({ error: "Unknown scope" }, { status: 400 });
+  }
+  if (days !== null && (!Number.isFinite(days) || days <= 0 || days > 3650)) {
+    return NextResponse.json({ error: "Expiry must be between 1 and 3650 days" }, { status: 400 });
+  }
+
+  const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+  const { key, apiKey } = await createApiKey({ name, scopes, expiresAt, createdById: me!.id });
+
+  await writeAudit({
+    userId: me!.id,
+    action: "api_key.create",
+    entityType: "ApiKey",
+    entityId: apiKey.id,
+    details: { name, prefix: apiKey.prefix, scopes, expiresAt: expiresAt?.toISOString() ?? null },
+  });
+
+  return NextResponse.json({ key, apiKey }, { status: 201 });
+}
@@ -0,0 +1,74 @@
+// app/api/admin/audit/route.ts
+import { NextResponse } from "next/server";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const PAGE_SIZE = 50;
+
+/**
+ * GET — audit log (admin only), newest first.
+ * Filters: userId, entityType, entityId, action (exact, or a prefix ending in "."),
+ * from/to (YYYY-MM-DD). Paginate with ?cursor=<last id>.
+ */
+export async function GET(req: Request) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const sp = new URL(req.url).searchParams;
+  const where: Prisma.AuditLogWhereInput = {};
+  const userId = sp.get("userId");
+  const entityType = sp.get("entityType");
+  const entityId = sp.get("entityId");
+  const action = sp.get("action");
+  const from = sp.get("from");
+  const to = sp.get("to");
+
+  if (userId) where.userId = userId;
+  if (entityType) where.entityType = entityType;
+  if (entityId) where.entityId = entityId;
+  if (action) where.action = action.endsWith(".") ? { startsWith: action } : action;
+  if (from || to) {
+    where.createdAt = {
+      ...(from ? { gte: new Date(`${from}T00:00:00Z`) } : {}),
+      ...(to ? { lt: new Date(new Date(`${to}T00:00:00Z`).getTime() + 86_400_000) } : {}),
+    };
+  }
+
+  const cursor = sp.get("cursor");
+  const rows = await prisma.auditLog.findMany({
+    where,
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: PAGE_SIZE + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    include: {
+      user: { select: { id: true, fullName: true, email: true } },
+      impersonator: { select: { id: true, fullName: true, email: true } },
+    },
+  });
+
+  const hasMore = rows.length > PAGE_SIZE;
+  const entries = hasMore ? rows.slice(0, PAGE_SIZE) : rows;
+
+  // Filter options (first page only)
+  let facets: { actions: string[]; entityTypes: string[] } | undefined;
+  if (!cursor) {
+    const [actions, entityTypes] = await Promise.all([
+      prisma.auditLog.groupBy({ by: ["action"], orderBy: { action: "asc" } }),
+      prisma.auditLog.groupBy({ by: ["entityType"], where: { entityType: { not: null } }, orderBy: { entityType: "asc" } }),
+    ]);
+    facets = {
+      actions: actions.map((a) => a.action),
+      entityTypes: entityTypes.map((e) => e.entityType!).filter(Boolean),
+    };
+  }
+
+  return NextResponse.json({
+    entries,
+    nextCursor: hasMore ? entries[entries.length - 1].id : null,
+    facets,
+  });
+}
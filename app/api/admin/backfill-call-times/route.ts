@@ -2,6 +2,7 @@ export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { auditBackfill } from "@/lib/audit";
 
 // One-time backfill: recompute durationMinutes (if missing) from start/end,
 // and normalize appointmentBooked from outcome/callType/stage.
@@ -55,6 +56,7 @@ async function runBackfill() {
     }
   }
 
+  await auditBackfill("call-times", { scanned: rows.length, updated });
   return { ok: true as const, scanned: rows.length, updated };
 }
 
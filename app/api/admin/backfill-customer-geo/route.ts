@@ -0,0 +1,58 @@
+// app/api/admin/backfill-customer-geo/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { auditBackfill } from "@/lib/audit";
+import { PENDING_GEOCODE, geocodePendingCustomers } from "@/lib/geocode";
+
+async function requireAdmin() {
+  const me = await getCurrentUser();
+  if (!me) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({
+    where: { id: me.id },
+    select: { role: true, isActive: true },
+  });
+  if (!user?.isActive || user.role !== "ADMIN") {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { adminId: me.id };
+}
+
+/**
+ * GET = preview how many customers still need coordinates. `areaOnly` customers
+ * were only matched to a postcode area and have no position; a finer
+ * POSTCODE_CENTROIDS_FILE or GEOCODER=postcodes.io (then POST ?redo=1) places them.
+ */
+export async function GET() {
+  const guard = await requireAdmin();
+  if ("error" in guard) return guard.error;
+
+  const [pending, located, areaOnly, total] = await Promise.all([
+    prisma.customer.count({ where: PENDING_GEOCODE }),
+    prisma.customer.count({ where: { latitude: { not: null } } }),
+    prisma.customer.count({ where: { geoPrecision: "area", latitude: null } }),
+    prisma.customer.count(),
+  ]);
+  return NextResponse.json({ wouldGeocode: pending, located, areaOnly, total });
+}
+
+/**
+ * POST = geocode pending customers (runs for up to ~50s; call again while
+ * `remaining` > 0). ?redo=1 first marks every customer as pending, e.g. after
+ * switching GEOCODER or adding a finer POSTCODE_CENTROIDS_FILE.
+ */
+export async function POST(req: Request) {
+  const guard = await requireAdmin();
+  if ("error" in guard) return guard.error;
+
+  const redo = new URL(req.url).searchParams.get("redo") === "1";
+  if (redo) await prisma.customer.updateMany({ data: { geocodedAt: null } });
+
+  const result = await geocodePendingCustomers();
+  await auditBackfill("customer-geo", { ...result, redo });
+  return NextResponse.json(result);
+}
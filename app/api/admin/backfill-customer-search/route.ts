@@ -0,0 +1,50 @@
+// app/api/admin/backfill-customer-search/route.ts
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { auditBackfill } from "@/lib/audit";
+import { indexPendingCustomerSearch, pendingSearchIndex } from "@/lib/customerSearch";
+
+async function requireAdmin() {
+  const me = await getCurrentUser();
+  if (!me) return { error: NextResponse.json({ error: "Unauthorized" }, { status: 401 }) };
+
+  const user = await prisma.user.findUnique({
+    where: { id: me.id },
+    select: { role: true, isActive: true },
+  });
+  if (!user?.isActive || user.role !== "ADMIN") {
+    return { error: NextResponse.json({ error: "Forbidden" }, { status: 403 }) };
+  }
+  return { adminId: me.id };
+}
+
+/** GET = preview how many customers are missing from (or stale in) the search index */
+export async function GET() {
+  const guard = await requireAdmin();
+  if ("error" in guard) return guard.error;
+
+  const [pending, total] = await Promise.all([
+    prisma.customer.count({ where: pendingSearchIndex() }),
+    prisma.customer.count(),
+  ]);
+  return NextResponse.json({ wouldIndex: pending, total });
+}
+
+/**
+ * POST = index pending customers (runs for up to ~50s; call again while
+ * `remaining` > 0). ?redo=1 re-indexes everyone, e.g. after changing what
+ * customerSearchText() includes.
+ */
+export async function POST(req: Request) {
+  const guard = await requireAdmin();
+  if ("error" in guard) return guard.error;
+
+  const redo = new URL(req.url).searchParams.get("redo") === "1";
+  const result = await indexPendingCustomerSearch(Date.now() + 50_000, redo);
+  await auditBackfill("customer-search", { ...result, redo });
+  return NextResponse.json(result);
+}
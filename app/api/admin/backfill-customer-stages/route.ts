@@ -3,8 +3,10 @@ export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 import { NextResponse } from "next/server";
+import type { CustomerStage } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth";
+import { auditBackfill } from "@/lib/audit";
 
 async function requireAdmin() {
   const me = await getCurrentUser();
@@ -20,40 +22,55 @@ async function requireAdmin() {
   return { adminId: me.id };
 }
 
+// customers with a real order who aren't marked CUSTOMER yet
+const PENDING = `
+  FROM "Customer" c
+  WHERE c."stage" <> 'CUSTOMER'
+    AND EXISTS (
+      SELECT 1 FROM "Order" o
+      WHERE o."customerId" = c."id"
+        AND (o."processedAt" IS NOT NULL OR o."total" IS NOT NULL)
+    )
+`;
+
 /** GET = preview how many would change */
 export async function GET() {
   const guard = await requireAdmin();
   if ("error" in guard) return guard.error;
 
-  const rows = await prisma.$queryRawUnsafe<{ count: number }[]>(`
-    SELECT COUNT(*)::int AS count
-    FROM "Customer" c
-    WHERE c."stage" <> 'CUSTOMER'
-      AND EXISTS (
-        SELECT 1 FROM "Order" o
-        WHERE o."customerId" = c."id"
-          AND (o."processedAt" IS NOT NULL OR o."total" IS NOT NULL)
-      )
-  `);
+  const rows = await prisma.$queryRawUnsafe<{ count: number }[]>(`SELECT COUNT(*)::int AS count ${PENDING}`);
 
   return NextResponse.json({ wouldUpdate: rows?.[0]?.count ?? 0 });
 }
 
-/** POST = perform the backfill */
+/** POST = perform the backfill, recording each move in the stage history */
 export async function POST() {
   const guard = await requireAdmin();
   if ("error" in guard) return guard.error;
 
-  const updated = await prisma.$executeRawUnsafe(`
-    UPDATE "Customer" c
-    SET "stage" = 'CUSTOMER'
-    WHERE c."stage" <> 'CUSTOMER'
-      AND EXISTS (
-        SELECT 1 FROM "Order" o
-        WHERE o."customerId" = c."id"
-          AND (o."processedAt" IS NOT NULL OR o."total" IS NOT NULL)
-      )
-  `);
+  const pending = await prisma.$queryRawUnsafe<{ id: string; stage: CustomerStage }[]>(`SELECT c."id", c."stage" ${PENDING}`);
+
+  let updated = 0;
+  for (let i = 0; i < pending.length; i += 500) {
+    const batch = pending.slice(i, i + 500);
+    const [res] = await prisma.$transaction([
+      prisma.customer.updateMany({
+        where: { id: { in: batch.map((c) => c.id) }, stage: { not: "CUSTOMER" } },
+        data: { stage: "CUSTOMER" },
+      }),
+      prisma.stageChange.createMany({
+        data: batch.map((c) => ({
+          customerId: c.id,
+          fromStage: c.stage,
+          toStage: "CUSTOMER" as const,
+          cause: "BACKFILL" as const,
+          userId: guard.adminId,
+        })),
+      }),
+    ]);
+    updated += res.count;
+  }
 
+  await auditBackfill("customer-stages", { updated });
   return NextResponse.json({ updated });
 }
@@ -6,6 +6,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth";
 import { normRepName, getOrCreateRepIdByName } from "@/lib/reps";
+import { auditBackfill } from "@/lib/audit";
 
 export async function GET(req: Request) {
   try {
@@ -81,6 +82,11 @@ export async function GET(req: Request) {
       callUpdated += r.count;
     }
 
+    await auditBackfill("reps", {
+      repsEnsured: nameToId.size,
+      customersBackfilled: custUpdated,
+      callsBackfilled: callUpdated,
+    });
     return NextResponse.json({
       ok: true,
       repsEnsured: nameToId.size,
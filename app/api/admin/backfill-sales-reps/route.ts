@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getSalesRepForTags, shopifyRest } from "@/lib/shopify";
 import type { Prisma } from "@prisma/client";
+import { auditBackfill } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -135,6 +136,7 @@ export async function GET(req: Request) {
   }
 
   const nextCursor = batch.length === limit ? batch[batch.length - 1].id : null;
+  if (apply) await auditBackfill("sales-reps", { source, reeval, processed: batch.length, updated, nextCursor });
 
   return NextResponse.json({
     mode: apply ? "apply" : "dry-run",
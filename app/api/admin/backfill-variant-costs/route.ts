@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { fetchVariantCostsOnce } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -124,6 +125,7 @@ export async function GET(req: NextRequest) {
       }
     }
 
+    await auditBackfill("variant-costs", { discovered: allVariantIds.length, fetched, upserted });
     return NextResponse.json({
       ok: true,
       discovered: allVariantIds.length,
@@ -1,17 +1,18 @@
-// app/api/debug/find-order/route.ts
+// app/api/admin/diagnostics/find-order/route.ts
 import { NextResponse } from "next/server";
+import { diagnosticRoute } from "@/lib/diagnostics";
 import { prisma } from "@/lib/prisma";
 
 export const dynamic = "force-dynamic";
 
 /**
- * GET /api/debug/find-order?number=12345
- *     /api/debug/find-order?name=#1001
- *     /api/debug/find-order?id=gid://shopify/Order/...
+ * GET /api/admin/diagnostics/find-order?number=12345
+ *     /api/admin/diagnostics/find-order?name=#1001
+ *     /api/admin/diagnostics/find-order?id=gid://shopify/Order/...
  *
  * Returns the matching order (if any), including its customer link.
  */
-export async function GET(req: Request) {
+async function run(req: Request) {
   const url = new URL(req.url);
   const number = url.searchParams.get("number")?.trim() || "";
   const name = url.searchParams.get("name")?.trim() || "";
@@ -40,3 +41,5 @@ export async function GET(req: Request) {
 
   return NextResponse.json({ found: orders.length, orders });
 }
+
+export const GET = diagnosticRoute("find-order", run);
@@ -1,7 +1,9 @@
+// app/api/admin/diagnostics/linnworks-auth/route.ts
 import { NextResponse } from "next/server";
+import { diagnosticRoute } from "@/lib/diagnostics";
 export const dynamic = "force-dynamic";
 
-export async function GET() {
+async function run() {
   try {
     const res = await fetch("https://api.linnworks.net/api/Auth/AuthorizeByApplication", {
       method: "POST",
@@ -21,3 +23,5 @@ export async function GET() {
     return NextResponse.json({ ok: false, error: e?.message || String(e) }, { status: 500 });
   }
 }
+
+export const GET = diagnosticRoute("linnworks-auth", run);
@@ -1,4 +1,6 @@
+// app/api/admin/diagnostics/linnworks-scripts/route.ts
 import { NextRequest, NextResponse } from "next/server";
+import { diagnosticRoute } from "@/lib/diagnostics";
 import { lwSession } from "@/lib/linnworks";
 
 export const dynamic = "force-dynamic";
@@ -24,7 +26,7 @@ function isoDaysAgo(days: number) {
   return { from: from.toISOString(), to: to.toISOString() };
 }
 
-export async function GET() {
+async function run() {
   try {
     const { token, server } = await lwSession();
     const { from, to } = isoDaysAgo(30);
@@ -64,3 +66,5 @@ export async function GET() {
     return NextResponse.json({ ok: false, error: err?.message || String(err) }, { status: 500 });
   }
 }
+
+export const GET = diagnosticRoute("linnworks-scripts", run);
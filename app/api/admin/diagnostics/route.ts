@@ -0,0 +1,14 @@
+// app/api/admin/diagnostics/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { DIAGNOSTIC_TOOLS, diagnosticsEnabled } from "@/lib/diagnostics";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — the diagnostics tools available to admins, and whether the area is switched on. */
+export async function GET() {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+  return NextResponse.json({ enabled: diagnosticsEnabled(), tools: DIAGNOSTIC_TOOLS });
+}
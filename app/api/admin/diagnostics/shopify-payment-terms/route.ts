@@ -1,4 +1,6 @@
+// app/api/admin/diagnostics/shopify-payment-terms/route.ts
 import { NextResponse } from "next/server";
+import { diagnosticRoute } from "@/lib/diagnostics";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -80,7 +82,7 @@ const LIST_TEMPLATES = /* GraphQL */ `
  *   - mutationsSubset: only mutations whose name includes "draftOrder" and ("paymentTerms" or "PaymentTerms")
  *   - templates: available payment terms templates with ids
  */
-export async function GET() {
+async function run() {
   try {
     if (!process.env.SHOPIFY_SHOP_DOMAIN || !process.env.SHOPIFY_ADMIN_ACCESS_TOKEN) {
       return NextResponse.json(
@@ -128,3 +130,5 @@ export async function GET() {
     );
   }
 }
+
+export const GET = diagnosticRoute("shopify-payment-terms", run);
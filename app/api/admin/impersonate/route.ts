@@ -0,0 +1,102 @@
+// app/api/admin/impersonate/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { prisma } from "@/lib/prisma";
+import {
+  getCurrentSession,
+  isAdmin,
+  createSessionToken,
+  requestMeta,
+  revokeSession,
+  validateSession,
+} from "@/lib/auth";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+import { writeAudit } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Holds the admin's own session while they act as someone else */
+const ADMIN_COOKIE = "sbp_admin_session";
+const IMPERSONATION_MAX_AGE = 60 * 60; // 1 hour
+
+const cookieOpts = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
+
+/** POST /api/admin/impersonate { userId } — start acting as another user (admin only) */
+export async function POST(req: Request) {
+  const current = await getCurrentSession();
+  if (!current || !isAdmin(current.user) || current.impersonatorId) {
+    return NextResponse.json({ error: "Admin only" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const userId = String(body?.userId || "").trim();
+  if (!userId) return NextResponse.json({ error: "userId required" }, { status: 400 });
+  if (userId === current.user.id) {
+    return NextResponse.json({ error: "You are already signed in as this user" }, { status: 400 });
+  }
+
+  const target = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, email: true, fullName: true, isActive: true },
+  });
+  if (!target) return NextResponse.json({ error: "User not found" }, { status: 404 });
+  if (!target.isActive) return NextResponse.json({ error: "User is inactive" }, { status: 400 });
+
+  const token = await createSessionToken(target.id, IMPERSONATION_MAX_AGE, {
+    ...requestMeta(req),
+    impersonatorId: current.user.id,
+  });
+
+  await writeAudit({
+    userId: current.user.id,
+    action: "impersonation.start",
+    entityType: "User",
+    entityId: target.id,
+    details: { targetUserId: target.id, targetEmail: target.email },
+  });
+
+  const adminToken = cookies().get(SESSION_COOKIE)?.value || "";
+  const res = NextResponse.json({ ok: true, user: { id: target.id, email: target.email, fullName: target.fullName } });
+  res.cookies.set(ADMIN_COOKIE, adminToken, cookieOpts(IMPERSONATION_MAX_AGE));
+  res.cookies.set(SESSION_COOKIE, token, cookieOpts(IMPERSONATION_MAX_AGE));
+  return res;
+}
+
+/** DELETE /api/admin/impersonate — stop impersonating and return to the admin's own session */
+export async function DELETE() {
+  const current = await getCurrentSession();
+  if (!current?.impersonatorId) {
+    return NextResponse.json({ error: "Not impersonating" }, { status: 400 });
+  }
+
+  await revokeSession(current.sessionId);
+  await writeAudit({
+    userId: current.impersonatorId,
+    action: "impersonation.stop",
+    entityType: "User",
+    entityId: current.user.id,
+    details: { targetUserId: current.user.id, targetEmail: current.user.email },
+  });
+
+  // Restore the admin's session if it's still live; otherwise they sign in again
+  const adminToken = cookies().get(ADMIN_COOKIE)?.value;
+  const admin = await validateSession(adminToken);
+  const restored = !!admin && admin.user.id === current.impersonatorId;
+
+  const res = NextResponse.json({ ok: true, restored, redirectTo: restored ? "/settings/users" : "/login" });
+  res.cookies.set(ADMIN_COOKIE, "", cookieOpts(0));
+  if (restored) {
+    const exp = verifySessionToken(adminToken)?.exp ?? 0;
+    res.cookies.set(SESSION_COOKIE, adminToken!, cookieOpts(Math.max(0, exp - Math.floor(Date.now() / 1000))));
+  } else {
+    res.cookies.set(SESSION_COOKIE, "", cookieOpts(0));
+  }
+  return res;
+}
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { getCurrentUser } from "@/lib/auth";
 import { pushCustomerToShopifyById } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -96,6 +97,7 @@ export async function GET(req: Request) {
     }
   }
 
+  await auditBackfill("unassign-inactive-reps", { days, unassignedCrm, shopifyUpdated, shopifyFailed });
   return NextResponse.json({
     ok: true,
     dryRun: false,
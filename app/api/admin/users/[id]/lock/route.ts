@@ -0,0 +1,20 @@
+// app/api/admin/users/[id]/lock/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { unlockUser } from "@/lib/loginThrottle";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** DELETE — clear a sign-in lockout and the failed-attempt counter (admin only) */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const exists = await prisma.user.findUnique({ where: { id: params.id }, select: { id: true } });
+  if (!exists) return NextResponse.json({ error: "User not found" }, { status: 404 });
+
+  await unlockUser(params.id, me!.id);
+  return NextResponse.json({ ok: true });
+}
@@ -1,8 +1,9 @@
 // app/api/admin/users/[id]/permissions/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { getCurrentUser } from "@/lib/auth";
+import { getCurrentUser, revokeAllSessions } from "@/lib/auth";
 import { Role } from "@prisma/client";
+import { isPermission } from "@/lib/permissions";
 
 export const dynamic = "force-dynamic";
 
@@ -44,6 +45,31 @@ export async function PUT(
     data.isActive = body.isActive;
   }
 
+  // Optional: replace the user's permission overrides (granted on top of role defaults)
+  const overrides = Array.isArray(body?.overrides)
+    ? Array.from(new Set(body.overrides.map((p: any) => String(p).toUpperCase()).filter(isPermission)))
+    : null;
+  if (overrides) {
+    data.overrides = {
+      deleteMany: {},
+      create: overrides.map((perm) => ({ perm })),
+    };
+  }
+
+  // Optional: link the login to a SalesRep (REP row scoping) — "" / null unlinks
+  if (body?.salesRepId !== undefined) {
+    data.salesRep = body.salesRepId
+      ? { connect: { id: String(body.salesRepId) } }
+      : { disconnect: true };
+  }
+
+  // Optional: reps a MANAGER can see (empty = all reps)
+  if (Array.isArray(body?.managedRepIds)) {
+    data.managedReps = {
+      set: Array.from(new Set(body.managedRepIds.map(String))).map((id) => ({ id })),
+    };
+  }
+
   if (!Object.keys(data).length) {
     return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
   }
@@ -61,11 +87,20 @@ export async function PUT(
         isActive: true,
         createdAt: true,
         updatedAt: true,
+        overrides: { select: { perm: true } },
+        salesRepId: true,
+        managedReps: { select: { id: true } },
       },
     });
 
+    // Deactivated users are signed out everywhere straight away
+    if (data.isActive === false) await revokeAllSessions(updated.id);
+
     return NextResponse.json(updated);
   } catch (e: any) {
+    if (e?.code === "P2002") {
+      return NextResponse.json({ error: "That rep is already linked to another user" }, { status: 400 });
+    }
     return NextResponse.json(
       { error: e?.message || "Update failed" },
       { status: 400 }
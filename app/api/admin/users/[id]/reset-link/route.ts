@@ -0,0 +1,55 @@
+// app/api/admin/users/[id]/reset-link/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { appOrigin, AuthLinkError, issueAuthToken, sendInviteEmail, sendResetEmail } from "@/lib/authTokens";
+import { writeAudit } from "@/lib/audit";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST { invite?: boolean } — email the user a fresh invite or password-reset link
+ * (admin only). The link is returned too, for when email isn't set up.
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const body = await req.json().catch(() => ({}));
+  const purpose = body?.invite ? "INVITE" : "RESET";
+
+  const user = await prisma.user.findUnique({
+    where: { id: params.id },
+    select: { id: true, email: true, fullName: true, isActive: true },
+  });
+  if (!user) return NextResponse.json({ error: "User not found" }, { status: 404 });
+  if (!user.isActive) return NextResponse.json({ error: "User is inactive" }, { status: 400 });
+
+  let origin: string;
+  try {
+    origin = appOrigin();
+  } catch (e) {
+    if (e instanceof AuthLinkError) return NextResponse.json({ error: e.message }, { status: 500 });
+    throw e;
+  }
+  const { token, expiresAt } = await issueAuthToken(user.id, purpose, me!.id);
+  let emailed = true;
+  try {
+    if (purpose === "INVITE") await sendInviteEmail(user, token, origin);
+    else await sendResetEmail(user, token, origin);
+  } catch (e) {
+    console.error("[reset-link] mail failed", e);
+    emailed = false;
+  }
+
+  await writeAudit({
+    userId: me!.id,
+    action: purpose === "INVITE" ? "invite.sent" : "password.reset_sent",
+    entityType: "User",
+    entityId: user.id,
+    details: { targetUserId: user.id, targetEmail: user.email, emailed },
+  });
+
+  return NextResponse.json({ ok: true, emailed, url: `${origin}/reset/${token}`, expiresAt });
+}
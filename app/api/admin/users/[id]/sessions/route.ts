@@ -0,0 +1,27 @@
+// app/api/admin/users/[id]/sessions/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin, revokeAllSessions } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — number of live sessions for the user (admin only) */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const live = await prisma.session.count({
+    where: { userId: params.id, revokedAt: null, expiresAt: { gt: new Date() } },
+  });
+  return NextResponse.json({ live });
+}
+
+/** DELETE — revoke every session for the user, signing them out on all devices (admin only) */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const revoked = await revokeAllSessions(params.id);
+  return NextResponse.json({ ok: true, revoked });
+}
@@ -39,6 +39,9 @@ export async function GET() {
       isActive: true,
       createdAt: true,
       updatedAt: true,
+      overrides: { select: { perm: true } },
+      salesRepId: true,
+      managedReps: { select: { id: true } },
     },
   });
 
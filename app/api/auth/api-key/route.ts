@@ -0,0 +1,18 @@
+// app/api/auth/api-key/route.ts
+// Used by middleware (edge, no Prisma) to check an `Authorization: Bearer sbp_…` key.
+import { NextResponse } from "next/server";
+import { requestMeta } from "@/lib/auth";
+import { bearerApiKey, verifyApiKey } from "@/lib/apiKeys";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: Request) {
+  const raw = bearerApiKey(req);
+  const key = raw ? await verifyApiKey(raw, requestMeta(req).ip) : null;
+  if (!key) return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+
+  const res = NextResponse.json({ apiKeyId: key.id, scopes: key.scopes });
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
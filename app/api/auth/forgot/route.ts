@@ -0,0 +1,53 @@
+// app/api/auth/forgot/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { appOrigin, issueAuthToken, sendResetEmail } from "@/lib/authTokens";
+import { writeAudit } from "@/lib/audit";
+import { clientIp } from "@/lib/auth";
+import { throttleResetRequest } from "@/lib/loginThrottle";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * POST { email } — email a password-reset link. Always answers the same way so the
+ * response doesn't reveal which addresses have accounts. Rate-limited per email and
+ * per IP (lib/loginThrottle).
+ */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const email = String(body?.email || "").trim().toLowerCase();
+  const done = NextResponse.json({
+    ok: true,
+    message: "If that email has an account, a reset link is on its way.",
+  });
+  if (!email) return NextResponse.json({ error: "Email required" }, { status: 400 });
+
+  const retryAfter = await throttleResetRequest(email, clientIp(req));
+  if (retryAfter > 0) {
+    const mins = Math.ceil(retryAfter / 60);
+    return NextResponse.json(
+      {
+        error: `Too many reset requests. Try again in ${retryAfter < 60 ? `${retryAfter} seconds` : `${mins} minute${mins === 1 ? "" : "s"}`}.`,
+        retryAfter,
+      },
+      { status: 429, headers: { "Retry-After": String(retryAfter) } }
+    );
+  }
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email, mode: "insensitive" }, isActive: true },
+    select: { id: true, email: true, fullName: true },
+  });
+  if (!user) return done;
+
+  try {
+    const origin = appOrigin();
+    const { token } = await issueAuthToken(user.id, "RESET");
+    await sendResetEmail(user, token, origin);
+    await writeAudit({ userId: user.id, action: "password.reset_requested" });
+  } catch (e) {
+    console.error("[forgot] failed to send reset link", e);
+  }
+  return done;
+}
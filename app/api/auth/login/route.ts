@@ -1,52 +1,102 @@
 // app/api/auth/login/route.ts
+// The one sign-in implementation; /api/login (used by the login form) re-exports it.
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import bcrypt from "bcryptjs";
-import { createSessionToken } from "@/lib/auth";
+import { createSessionToken, requestMeta } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/session";
+import { loginSecondFactor } from "@/lib/mfa";
+import { loginRetryAfter, recordLoginFailure, recordLoginSuccess } from "@/lib/loginThrottle";
 
 export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** Accept JSON or form posts (the login form works without JS too). */
+async function readCredentials(req: Request) {
+  const ct = req.headers.get("content-type") || "";
+  let j: any = {};
+  if (ct.includes("application/json")) {
+    j = await req.json().catch(() => ({}));
+  } else {
+    const fd = await req.formData().catch(() => null);
+    j = fd ? Object.fromEntries(fd.entries()) : {};
+  }
+  return {
+    email: String(j?.email ?? "").trim().toLowerCase(),
+    password: String(j?.password ?? ""),
+    code: String(j?.code ?? ""),
+    remember: j?.remember === true || j?.remember === "true" || j?.remember === "1",
+  };
+}
+
+function tooMany(retryAfter: number) {
+  const mins = Math.ceil(retryAfter / 60);
+  return NextResponse.json(
+    {
+      error:
+        retryAfter < 60
+          ? `Too many failed attempts. Try again in ${retryAfter} seconds.`
+          : `Too many failed attempts. Try again in ${mins} minute${mins === 1 ? "" : "s"}, or ask an admin to unlock your account.`,
+      retryAfter,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
 
 export async function POST(req: Request) {
   try {
-    const { email, password, remember } = await req.json();
+    const { email, password, code, remember } = await readCredentials(req);
 
     if (!email || !password) {
       return NextResponse.json({ error: "Email and password required" }, { status: 400 });
     }
 
+    const meta = requestMeta(req);
+    const retryAfter = await loginRetryAfter(email, meta.ip ?? null);
+    if (retryAfter > 0) return tooMany(retryAfter);
+
     const user = await prisma.user.findFirst({
-      where: { email: { equals: String(email), mode: "insensitive" } },
+      where: { email: { equals: email, mode: "insensitive" } },
       select: {
         id: true,
         email: true,
         fullName: true,
+        role: true,
         passwordHash: true,
         isActive: true,
       },
     });
 
-    if (!user || !user.isActive) {
-      return NextResponse.json({ error: "Invalid credentials" }, { status: 401 });
-    }
-
-    const ok = await bcrypt.compare(String(password), user.passwordHash);
+    const ok = !!user && user.isActive && (await bcrypt.compare(password, user.passwordHash));
     if (!ok) {
+      await recordLoginFailure(email, meta.ip ?? null, "password");
       return NextResponse.json({ error: "Invalid credentials" }, { status: 401 });
     }
 
+    // Second factor is checked before any session exists
+    const mfa = await loginSecondFactor(user, { code });
+    if (mfa.failed) await recordLoginFailure(email, meta.ip ?? null, "mfa");
+    if (mfa.response) return mfa.response;
+
+    await recordLoginSuccess(user.id, email, meta.ip ?? null);
+
     const maxAge = remember ? 60 * 60 * 24 * 30 : 60 * 60 * 24 * 7; // 30d or 7d
-    const token = createSessionToken(user.id, maxAge);
+    const token = await createSessionToken(user.id, maxAge, meta);
 
-    const res = NextResponse.json({ ok: true, user: { id: user.id, email: user.email, fullName: user.fullName } });
-    res.cookies.set("sbp_session", token, {
+    const res = NextResponse.json({
+      ok: true,
+      user: { id: user.id, email: user.email, fullName: user.fullName, role: user.role },
+      ...(mfa.recoveryCodes ? { recoveryCodes: mfa.recoveryCodes } : {}),
+    });
+    res.cookies.set(SESSION_COOKIE, token, {
       httpOnly: true,
-      secure: true,
+      secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
       path: "/",
       maxAge,
     });
     return res;
   } catch (e: any) {
-    return NextResponse.json({ error: e?.message || "Login failed" }, { status: 400 });
+    return NextResponse.json({ error: e?.message || "Login failed" }, { status: 500 });
   }
 }
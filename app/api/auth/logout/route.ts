@@ -1,9 +1,14 @@
 // app/api/auth/logout/route.ts
 import { NextResponse } from "next/server";
+import { getCurrentSession, revokeSession } from "@/lib/auth";
 
 export const dynamic = "force-dynamic";
 
 export async function POST() {
+  // revoke server-side so a copied cookie stops working too
+  const session = await getCurrentSession();
+  if (session) await revokeSession(session.sessionId);
+
   const res = NextResponse.json({ ok: true });
   // expire cookie
   res.cookies.set("sbp_session", "", {
@@ -0,0 +1,45 @@
+// app/api/auth/reset/route.ts
+import { NextResponse } from "next/server";
+import { consumeAuthToken, readAuthToken } from "@/lib/authTokens";
+import { writeAudit } from "@/lib/audit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const INVALID = "This link is invalid or has expired. Ask for a new one.";
+
+/** GET ?token= — who the link is for (so the page can greet them) */
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get("token") || "";
+  const row = await readAuthToken(token);
+  if (!row) return NextResponse.json({ error: INVALID }, { status: 400 });
+  return NextResponse.json({
+    purpose: row.purpose,
+    email: row.user.email,
+    fullName: row.user.fullName,
+  });
+}
+
+/** POST { token, password, confirm } — set the password and use up the link */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  const token = String(body?.token || "");
+  const password = String(body?.password || "");
+  const confirm = body?.confirm != null ? String(body.confirm) : undefined;
+
+  if (password.length < 8) {
+    return NextResponse.json({ error: "Password must be at least 8 characters" }, { status: 400 });
+  }
+  if (typeof confirm === "string" && confirm !== password) {
+    return NextResponse.json({ error: "Passwords do not match" }, { status: 400 });
+  }
+
+  const row = await consumeAuthToken(token, password);
+  if (!row) return NextResponse.json({ error: INVALID }, { status: 400 });
+
+  await writeAudit({
+    userId: row.user.id,
+    action: row.purpose === "INVITE" ? "invite.accepted" : "password.reset",
+  });
+  return NextResponse.json({ ok: true, email: row.user.email });
+}
@@ -0,0 +1,17 @@
+// app/api/auth/session/route.ts
+// Used by middleware (edge, no Prisma) to check the cookie against the Session table.
+import { NextResponse } from "next/server";
+import { getCurrentSession, getUserPermissions } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const session = await getCurrentSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { role, perms } = await getUserPermissions(session.user.id);
+  const res = NextResponse.json({ userId: session.user.id, sessionId: session.sessionId, role, perms });
+  res.headers.set("Cache-Control", "no-store");
+  return res;
+}
@@ -0,0 +1,69 @@
+// app/api/calls/route.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const session = vi.hoisted(() => ({ user: null as { id: string } | null }));
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/auth", () => ({ getCurrentUser: async () => session.user }));
+vi.mock("@/lib/google", () => ({ createCalendarEvent: async () => {} }));
+vi.mock("@/lib/tasks", () => ({ createFollowUpTask: async () => {}, closeTasksFromCall: async () => {} }));
+
+import { NextRequest } from "next/server";
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { POST } from "@/app/api/calls/route";
+
+function logCall(key: string, summary = "Intro call") {
+  return POST(
+    new NextRequest("http://localhost/api/calls", {
+      method: "POST",
+      headers: { "content-type": "application/json", "idempotency-key": key },
+      body: JSON.stringify({
+        isExistingCustomer: false,
+        customer: "New Salon",
+        salesRep: "Amy",
+        summary,
+        latitude: 52.48,
+        longitude: -1.9,
+        startTime: "10:00",
+        endTime: "10:20",
+      }),
+    })
+  );
+}
+
+describe("POST /api/calls idempotency", () => {
+  beforeEach(() => {
+    session.user = { id: "amy" };
+    fakeDb.reset({}, { unique: { callLog: [["loggedById", "idempotencyKey"]] } });
+  });
+
+  it("answers a retry with the call already saved", async () => {
+    const first = await logCall("key-1");
+    const retry = await logCall("key-1");
+
+    expect(first.status).toBe(201);
+    const saved = await first.json();
+    expect(await retry.json()).toMatchObject({ id: saved.id, replayed: true });
+    expect(fakeDb.rows("callLog")).toHaveLength(1);
+    expect(fakeDb.rows("callLog")[0]).toMatchObject({ loggedById: "amy", idempotencyKey: "key-1" });
+  });
+
+  it("never replays another user's call", async () => {
+    const amys = await (await logCall("key-1", "Amy's call")).json();
+    session.user = { id: "bob" };
+    const bobs = await logCall("key-1", "Bob's call");
+
+    expect(bobs.status).toBe(201);
+    expect((await bobs.json()).id).not.toBe(amys.id);
+    expect(fakeDb.rows("callLog").map((c) => c.summary)).toEqual(["Amy's call", "Bob's call"]);
+  });
+
+  it("ignores the key without a signed-in user", async () => {
+    session.user = null;
+    await logCall("key-1");
+    await logCall("key-1");
+
+    expect(fakeDb.rows("callLog")).toHaveLength(2);
+    expect(fakeDb.rows("callLog")[0].idempotencyKey).toBeNull();
+  });
+});
@@ -3,25 +3,15 @@ export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 import { NextResponse, NextRequest } from "next/server";
-import { prisma } from "@/lib/prisma";
-import { resolveStageAfterOutcome } from "@/lib/pipeline";
+import { prisma, unscopedPrisma } from "@/lib/prisma";
+import { findPipelineOption, parseStage, resolveStageAfterOutcome, type PipelineOptionDef } from "@/lib/pipeline";
+import { getPipelineOptions } from "@/lib/pipelineOptions";
+import { parseStageLoss, setCustomerStage, StageError, type StageLoss } from "@/lib/stageHistory";
+import { applyCallRules } from "@/lib/stageRules";
 import { createCalendarEvent } from "@/lib/google";
 import { getCurrentUser } from "@/lib/auth";
-
-type Stage = "LEAD" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER";
-
-function normalizeStage(input: unknown): Stage | null {
-  if (!input) return null;
-  const s = String(input).trim().toLowerCase().replace(/[_-]+/g, " ");
-  switch (s) {
-    case "lead": return "LEAD";
-    case "appointment booked":
-    case "appointmentbooked": return "APPOINTMENT_BOOKED";
-    case "sampling": return "SAMPLING";
-    case "customer": return "CUSTOMER";
-    default: return null;
-  }
-}
+import { contactOf } from "@/lib/contacts";
+import { closeTasksFromCall, createFollowUpTask } from "@/lib/tasks";
 
 /* ---------------- calendar helper ---------------- */
 async function maybeCreateFollowUpEvent(saved: {
@@ -166,11 +156,37 @@ function toArr<T>(v: T | T[] | null | undefined): T[] {
   return Array.isArray(v) ? v : [v];
 }
 
+/** The response for a call already saved under the same idempotency key. */
+function replayedCall(call: { id: string; customerId: string | null }) {
+  return NextResponse.json({
+    ok: true,
+    id: call.id,
+    customerId: call.customerId,
+    redirectTo: call.customerId ? `/customers/${call.customerId}` : null,
+    replayed: true,
+  });
+}
+
 /* --------------- POST /api/calls --------------- */
 export async function POST(req: NextRequest) {
   try {
     const body: any = await readBody(req);
 
+    // Retries (the offline queue, double taps) send the same key; answer them with
+    // the call the same user already saved. Keys are per user, so only signed-in
+    // callers get replays, and they're looked up unscoped as the key pins the owner.
+    const me = await getCurrentUser();
+    const idempotencyKey =
+      (me && String(req.headers.get("idempotency-key") ?? body.idempotencyKey ?? "").trim().slice(0, 100)) || null;
+    const replayKey = me && idempotencyKey ? { loggedById: me.id, idempotencyKey } : null;
+    if (replayKey) {
+      const existing = await unscopedPrisma.callLog.findUnique({
+        where: { loggedById_idempotencyKey: replayKey },
+        select: { id: true, customerId: true },
+      });
+      if (existing) return replayedCall(existing);
+    }
+
     const isExisting = toBool(body.isExistingCustomer ?? body.existingCustomer ?? body.existing);
     if (isExisting === null) {
       return NextResponse.json({ error: "Please choose if this is an existing customer." }, { status: 400 });
@@ -211,7 +227,16 @@ export async function POST(req: NextRequest) {
     if (durationMinutes <= 0) durationMinutes += 24 * 60; // wrap past midnight
     durationMinutes = Math.max(1, Math.round(durationMinutes));
 
-    const stageProvided = normalizeStage(body.stage ?? body.customerStage ?? body.stageValue);
+    const stageProvided = parseStage(body.stage ?? body.customerStage ?? body.stageValue);
+    let stageLoss: StageLoss | null = null;
+    if (stageProvided) {
+      try {
+        stageLoss = parseStageLoss(stageProvided, body);
+      } catch (e) {
+        if (e instanceof StageError) return NextResponse.json({ error: e.message }, { status: 400 });
+        throw e;
+      }
+    }
 
     // existing customer must have valid id
     let customerId: string | null = null;
@@ -263,77 +288,94 @@ export async function POST(req: NextRequest) {
       displayCustomerName = cust?.salonName || cust?.customerName || null;
     }
 
+    // Who was spoken to; ignored unless it's one of this customer's contacts
+    const contact = await contactOf(customerId, body.contactId);
+
     // Normalize multi-selects so .map() is always safe
     const stockedBrandIds = toArr<string>(body.stockedBrandIds ?? body.stocked ?? body.stockedBrands).filter(Boolean);
     const competitorBrandIds = toArr<string>(body.competitorBrandIds ?? body.competitors ?? body.competitorBrands).filter(Boolean);
 
-    const created = await prisma.callLog.create({
-      data: {
-        isExistingCustomer: !!isExisting,
-        customerId,
-        customerName: leadCustomerName,
-        contactPhone: !isExisting && body.contactPhone ? String(body.contactPhone) : null,
-        contactEmail: !isExisting && body.contactEmail ? String(body.contactEmail) : null,
-        callType,
-        summary,
-        outcome,
-        nextStep: body.nextStep ? String(body.nextStep) : null,
-        staff,
-        stage: stageProvided ?? undefined,
-        followUpRequired: !!followUpAt,
-        followUpAt,
-
-        // times & derived metrics
-        startTime,
-        endTime,
-        durationMinutes,
-        appointmentBooked,
-
-        // ✅ persist geolocation
-        latitude,
-        longitude,
-        accuracyM: accuracyM != null ? Math.round(accuracyM) : null,
-        geoCollectedAt,
-
-        ...(hasClientLoggedAt ? { createdAt: anchor } : {}),
-
-        // ✅ optional join-table links (safe whether string or array came in)
-        ...(stockedBrandIds.length
-          ? {
-              stockedBrandLinks: {
-                create: stockedBrandIds.map((brandId) => ({ brandId: String(brandId) })),
-              },
-            }
-          : {}),
-        ...(competitorBrandIds.length
-          ? {
-              competitorBrandLinks: {
-                create: competitorBrandIds.map((brandId) => ({ brandId: String(brandId) })),
-              },
-            }
-          : {}),
-      },
-      select: { id: true, customerId: true },
-    });
+    let created: { id: string; customerId: string | null };
+    try {
+      created = await prisma.callLog.create({
+        data: {
+          loggedById: me?.id ?? null,
+          idempotencyKey,
+          isExistingCustomer: !!isExisting,
+          customerId,
+          customerName: leadCustomerName,
+          contactPhone: !isExisting && body.contactPhone ? String(body.contactPhone) : null,
+          contactEmail: !isExisting && body.contactEmail ? String(body.contactEmail) : null,
+          contactId: contact?.id ?? null,
+          callType,
+          summary,
+          outcome,
+          nextStep: body.nextStep ? String(body.nextStep) : null,
+          staff,
+          stage: stageProvided ?? undefined,
+          followUpRequired: !!followUpAt,
+          followUpAt,
+
+          // times & derived metrics
+          startTime,
+          endTime,
+          durationMinutes,
+          appointmentBooked,
+
+          // ✅ persist geolocation
+          latitude,
+          longitude,
+          accuracyM: accuracyM != null ? Math.round(accuracyM) : null,
+          geoCollectedAt,
+
+          ...(hasClientLoggedAt ? { createdAt: anchor } : {}),
+
+          // ✅ optional join-table links (safe whether string or array came in)
+          ...(stockedBrandIds.length
+            ? {
+                stockedBrandLinks: {
+                  create: stockedBrandIds.map((brandId) => ({ brandId: String(brandId) })),
+                },
+              }
+            : {}),
+          ...(competitorBrandIds.length
+            ? {
+                competitorBrandLinks: {
+                  create: competitorBrandIds.map((brandId) => ({ brandId: String(brandId) })),
+                },
+              }
+            : {}),
+        },
+        select: { id: true, customerId: true },
+      });
+    } catch (e: any) {
+      // the same key racing in twice: the other request won
+      if (replayKey && e?.code === "P2002") {
+        const existing = await unscopedPrisma.callLog.findUnique({
+          where: { loggedById_idempotencyKey: replayKey },
+          select: { id: true, customerId: true },
+        });
+        if (existing) return replayedCall(existing);
+      }
+      throw e;
+    }
 
     if (stageProvided && customerId) {
-      await prisma.customer.update({
-        where: { id: customerId },
-        data: { stage: stageProvided },
-      });
+      await setCustomerStage(customerId, stageProvided, "CALL", { callLogId: created.id, loss: stageLoss });
     } else if (customerId && outcome) {
-      // Auto-advance pipeline stage based on call outcome (forward-only)
+      // Auto-advance pipeline stage based on call outcome (forward-only); otherwise
+      // a run of losing outcomes may mark the customer lost
       try {
         const cust = await prisma.customer.findUnique({
           where: { id: customerId },
           select: { stage: true },
         });
-        const newStage = resolveStageAfterOutcome(cust?.stage as any, outcome);
+        const { OUTCOME } = await getPipelineOptions();
+        const newStage = resolveStageAfterOutcome(cust?.stage, outcome, OUTCOME);
         if (newStage) {
-          await prisma.customer.update({
-            where: { id: customerId },
-            data: { stage: newStage as any },
-          });
+          await setCustomerStage(customerId, newStage, "CALL", { callLogId: created.id });
+        } else {
+          await applyCallRules(customerId, created.id, OUTCOME);
         }
       } catch (e) {
         console.error("Auto-advance stage failed:", e);
@@ -361,9 +403,10 @@ export async function POST(req: NextRequest) {
               customerId,
               status: "REQUESTED",
               salonName: cust.salonName ?? null,
-              contactName: cust.customerName ?? null,
-              phone: cust.customerTelephone ?? null,
-              email: cust.customerEmailAddress ?? null,
+              contactId: contact?.id ?? null,
+              contactName: contact?.name ?? cust.customerName ?? null,
+              phone: contact ? contact.phone : cust.customerTelephone ?? null,
+              email: contact ? contact.email : cust.customerEmailAddress ?? null,
               addressLine1: cust.addressLine1 ?? null,
               addressLine2: cust.addressLine2 ?? null,
               town: cust.town ?? null,
@@ -385,6 +428,29 @@ export async function POST(req: NextRequest) {
       }
     }
 
+    // Close the customer's open tasks ticked on the form ("a,b" from FormData), then
+    // raise a task for this call's own follow-up
+    if (customerId) {
+      const closeTaskIds = toArr<string>(body.closeTaskIds)
+        .flatMap((v) => String(v).split(","))
+        .map((v) => v.trim())
+        .filter(Boolean);
+      try {
+        await closeTasksFromCall(customerId, created.id, closeTaskIds);
+      } catch (e) {
+        console.error("Close tasks from call failed:", e);
+      }
+    }
+    await createFollowUpTask({
+      id: created.id,
+      customerId: created.customerId,
+      label: displayCustomerName ?? "Customer",
+      staff,
+      nextStep: body.nextStep ? String(body.nextStep) : null,
+      summary,
+      followUpAt,
+    });
+
     await maybeCreateFollowUpEvent({
       id: created.id,
       summary,
@@ -431,7 +497,7 @@ export async function GET(req: NextRequest) {
   const customerId = sp?.get?.("customerId") ?? undefined;
 
   const stageParam  = sp?.get?.("stage") ?? null;
-  const stageFilter = stageParam ? normalizeStage(stageParam) : null;
+  const stageFilter = stageParam ? parseStage(stageParam) : null;
 
   const limit = Math.min(Math.max(Number(sp?.get?.("limit") || 100), 1), 200);
 
@@ -441,8 +507,13 @@ export async function GET(req: NextRequest) {
     if (from) where.createdAt.gte = from;
     if (to)   where.createdAt.lte = to;
   }
-  if (callType)   where.callType = callType;
-  if (outcome)    where.outcome  = outcome;
+  if (callType || outcome) {
+    // a configured option also matches the older spellings it stands for
+    const options = await getPipelineOptions();
+    const spellings = (o: PipelineOptionDef | null, v: string) => (o ? { in: [o.label, ...o.aliases] } : v);
+    if (callType) where.callType = spellings(findPipelineOption(options.CALL_TYPE, callType), callType);
+    if (outcome)  where.outcome  = spellings(findPipelineOption(options.OUTCOME, outcome), outcome);
+  }
   if (staff)      where.staff    = staff;
   if (stageFilter) where.stage   = stageFilter;
 
@@ -451,7 +522,7 @@ export async function GET(req: NextRequest) {
     orderBy: { createdAt: "desc" },
     take: limit,
     include: {
-      customer: { select: { salonName: true, customerName: true } },
+      customer: { select: { salonName: true, customerName: true, latitude: true, longitude: true } },
     },
   });
 
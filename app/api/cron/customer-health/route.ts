@@ -0,0 +1,24 @@
+// app/api/cron/customer-health/route.ts
+import { NextResponse } from "next/server";
+import { requireApiScope } from "@/lib/apiKeys";
+import { recordCustomerHealth } from "@/lib/customerHealth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Daily via vercel.json: scores every customer who has ordered and stores the day's
+ * row (see lib/customerHealth.ts). CRON_SECRET needs the cron:health scope. Admins
+ * can also run it; running it twice in a day replaces that day's scores.
+ */
+export async function GET(req: Request) {
+  const denied = await requireApiScope(req, "cron:health");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ ok: true, ...(await recordCustomerHealth()) });
+  } catch (err: any) {
+    console.error("GET /api/cron/customer-health failed:", err);
+    return NextResponse.json({ ok: false, error: err?.message || "Scoring failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/cron/geocode-customers/route.ts
+import { NextResponse } from "next/server";
+import { requireApiScope } from "@/lib/apiKeys";
+import { geocodePendingCustomers } from "@/lib/geocode";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Nightly via vercel.json: picks up any customer that still has no coordinates
+ * (e.g. created while the geocoder was down). CRON_SECRET needs the cron:geocode
+ * scope as well as cron:inventory. Admins can also run it.
+ */
+export async function GET(req: Request) {
+  const denied = await requireApiScope(req, "cron:geocode");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ ok: true, ...(await geocodePendingCustomers()) });
+  } catch (err: any) {
+    console.error("GET /api/cron/geocode-customers failed:", err);
+    return NextResponse.json({ ok: false, error: err?.message || "Geocoding failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+// app/api/cron/index-customer-search/route.ts
+import { NextResponse } from "next/server";
+import { requireApiScope } from "@/lib/apiKeys";
+import { indexPendingCustomerSearch } from "@/lib/customerSearch";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Nightly via vercel.json: re-indexes customers edited by something that doesn't
+ * call indexCustomerSearch (bulk updates, scripts). CRON_SECRET needs the
+ * cron:search scope. Admins can also run it.
+ */
+export async function GET(req: Request) {
+  const denied = await requireApiScope(req, "cron:search");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ ok: true, ...(await indexPendingCustomerSearch()) });
+  } catch (err: any) {
+    console.error("GET /api/cron/index-customer-search failed:", err);
+    return NextResponse.json({ ok: false, error: err?.message || "Indexing failed" }, { status: 500 });
+  }
+}
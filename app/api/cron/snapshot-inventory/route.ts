@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { requireShopifyEnv, shopifyGraphql, shopifyRest } from "@/lib/shopify";
+import { requireApiScope } from "@/lib/apiKeys";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -52,7 +53,14 @@ function nextPageInfo(linkHeader?: string | null) {
   return url.searchParams.get("page_info");
 }
 
+/**
+ * Daily via vercel.json. Vercel sends `Authorization: Bearer $CRON_SECRET`, so set
+ * CRON_SECRET to an API key with the cron:inventory scope. Admins can also run it.
+ */
 export async function GET(req: Request) {
+  const denied = await requireApiScope(req, "cron:inventory");
+  if (denied) return denied;
+
   try {
     requireShopifyEnv();
 
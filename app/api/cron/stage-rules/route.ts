@@ -0,0 +1,24 @@
+// app/api/cron/stage-rules/route.ts
+import { NextResponse } from "next/server";
+import { requireApiScope } from "@/lib/apiKeys";
+import { markDormantCustomers } from "@/lib/stageRules";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * Daily via vercel.json: moves customers with no order in the configured number of
+ * days to DORMANT (see lib/stageRules.ts). CRON_SECRET needs the cron:stages scope.
+ * Admins can also run it; customers already lost or dormant are skipped.
+ */
+export async function GET(req: Request) {
+  const denied = await requireApiScope(req, "cron:stages");
+  if (denied) return denied;
+
+  try {
+    return NextResponse.json({ ok: true, ...(await markDormantCustomers()) });
+  } catch (err: any) {
+    console.error("GET /api/cron/stage-rules failed:", err);
+    return NextResponse.json({ ok: false, error: err?.message || "Stage rules failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/custom-fields/[id]/route.ts
+import { NextResponse } from "next/server";
+import { CustomFieldError, deleteCustomField, updateCustomField } from "@/lib/customFields";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** PATCH { label?, options?, sortOrder?, active? } — key and type can't change. */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    const field = await updateCustomField(params.id, body);
+    if (!field) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ field });
+  } catch (e: any) {
+    if (e instanceof CustomFieldError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[custom-fields] update failed:", e);
+    return NextResponse.json({ error: "Could not update the field" }, { status: 500 });
+  }
+}
+
+/** DELETE — removes the field and every customer's value for it. */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  if (!(await deleteCustomField(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,24 @@
+// app/api/custom-fields/route.ts
+import { NextResponse } from "next/server";
+import { CustomFieldError, createCustomField, listCustomFields } from "@/lib/customFields";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET ?all=1 — field definitions in display order (retired ones only with all=1). */
+export async function GET(req: Request) {
+  const all = new URL(req.url).searchParams.get("all") === "1";
+  return NextResponse.json({ fields: await listCustomFields({ includeInactive: all }) });
+}
+
+/** POST { label, type, key?, options? } — admins only (see lib/permissions.ts). */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    return NextResponse.json({ field: await createCustomField(body) }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof CustomFieldError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[custom-fields] create failed:", e);
+    return NextResponse.json({ error: "Could not add the field" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/customer-views/[id]/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { canEditView, parseViewInput, VIEW_SELECT, ViewError, visibleView } from "@/lib/customerViews";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const view = await visibleView(params.id, me);
+  if (!view) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ view });
+}
+
+/** PATCH { name?, filters?, columns?, shared? } — owner or admin only. */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const view = await visibleView(params.id, me);
+  if (!view) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (!canEditView(view, me)) return NextResponse.json({ error: "Only the owner can change this view" }, { status: 403 });
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const updated = await prisma.customerView.update({
+      where: { id: view.id },
+      data: parseViewInput(body, true),
+      select: VIEW_SELECT,
+    });
+    return NextResponse.json({ view: updated });
+  } catch (e: any) {
+    if (e instanceof ViewError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[customer-views] update failed:", e);
+    return NextResponse.json({ error: "Could not update the view" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const view = await visibleView(params.id, me);
+  if (!view) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (!canEditView(view, me)) return NextResponse.json({ error: "Only the owner can delete this view" }, { status: 403 });
+
+  await prisma.customerView.delete({ where: { id: view.id } });
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,41 @@
+// app/api/customer-views/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { parseViewInput, VIEW_SELECT, ViewError, viewsFor } from "@/lib/customerViews";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — my saved customer views plus everyone's shared ones. */
+export async function GET() {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  return NextResponse.json({ views: await viewsFor(me) });
+}
+
+/** POST { name, filters, columns, shared } — save a view owned by the current user. */
+export async function POST(req: Request) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const input = parseViewInput(body, false);
+    const view = await prisma.customerView.create({
+      data: {
+        name: input.name!,
+        filters: input.filters!,
+        columns: input.columns!,
+        shared: input.shared!,
+        ownerId: me.id,
+      },
+      select: VIEW_SELECT,
+    });
+    return NextResponse.json({ view });
+  } catch (e: any) {
+    if (e instanceof ViewError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[customer-views] create failed:", e);
+    return NextResponse.json({ error: "Could not save the view" }, { status: 500 });
+  }
+}
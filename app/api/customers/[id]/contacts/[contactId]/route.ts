@@ -0,0 +1,44 @@
+// app/api/customers/[id]/contacts/[contactId]/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ContactError, deleteContact, updateContact } from "@/lib/contacts";
+import { pushCustomerToShopifyById } from "@/lib/shopify";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+type Params = { params: { id: string; contactId: string } };
+
+async function customerExists(id: string) {
+  return !!(await prisma.customer.findUnique({ where: { id }, select: { id: true } }));
+}
+
+/** PATCH { name?, role?, phone?, email?, marketingConsent?, isPrimary: true? } */
+export async function PATCH(req: Request, { params }: Params) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const contact = await updateContact(params.id, params.contactId, body);
+    if (contact.isPrimary) {
+      await pushCustomerToShopifyById(params.id).catch((e) => console.error("pushCustomerToShopifyById error:", e?.message || e));
+    }
+    return NextResponse.json({ contact });
+  } catch (e: any) {
+    if (e instanceof ContactError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[contacts] update failed:", e);
+    return NextResponse.json({ error: "Could not update the contact" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  try {
+    await deleteContact(params.id, params.contactId);
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof ContactError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[contacts] delete failed:", e);
+    return NextResponse.json({ error: "Could not delete the contact" }, { status: 500 });
+  }
+}
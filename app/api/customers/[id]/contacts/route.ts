@@ -0,0 +1,36 @@
+// app/api/customers/[id]/contacts/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { ContactError, createContact, listContacts } from "@/lib/contacts";
+import { pushCustomerToShopifyById } from "@/lib/shopify";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function customerExists(id: string) {
+  return !!(await prisma.customer.findUnique({ where: { id }, select: { id: true } }));
+}
+
+/** GET — the customer's contacts, primary first. */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ contacts: await listContacts(params.id) });
+}
+
+/** POST { name, role, phone, email, marketingConsent, isPrimary } */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    const contact = await createContact(params.id, body);
+    if (contact.isPrimary) {
+      await pushCustomerToShopifyById(params.id).catch((e) => console.error("pushCustomerToShopifyById error:", e?.message || e));
+    }
+    return NextResponse.json({ contact }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof ContactError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[contacts] create failed:", e);
+    return NextResponse.json({ error: "Could not add the contact" }, { status: 500 });
+  }
+}
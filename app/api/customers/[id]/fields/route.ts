@@ -0,0 +1,31 @@
+// app/api/customers/[id]/fields/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { CustomFieldError, customerFieldValues, setCustomerFieldValues } from "@/lib/customFields";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function customerExists(id: string) {
+  return !!(await prisma.customer.findUnique({ where: { id }, select: { id: true } }));
+}
+
+/** GET — active custom fields with this customer's values. */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  return NextResponse.json({ fields: await customerFieldValues(params.id) });
+}
+
+/** PUT { values: { fieldKey: value } } — null or "" clears a value; other fields are left alone. */
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  try {
+    return NextResponse.json({ fields: await setCustomerFieldValues(params.id, body?.values) });
+  } catch (e: any) {
+    if (e instanceof CustomFieldError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[custom-fields] save values failed:", e);
+    return NextResponse.json({ error: "Could not save the fields" }, { status: 500 });
+  }
+}
@@ -2,6 +2,11 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { pushCustomerToShopifyById } from "@/lib/shopify";
+import { syncPrimaryFromCustomer } from "@/lib/contacts";
+import { geocodeCustomer } from "@/lib/geocode";
+import { indexCustomerSearch } from "@/lib/customerSearch";
+import { isClosedStage, parseStage } from "@/lib/pipeline";
+import { parseStageLoss, recordStageChange, stageLossData, StageError, type StageLoss } from "@/lib/stageHistory";
 
 export const dynamic = "force-dynamic";
 
@@ -74,6 +79,14 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
       );
     }
 
+    const finalStage = body.stage !== undefined ? parseStage(body.stage) ?? existing.stage : existing.stage;
+    // lost/dormant need a reason when set, or when the reason is edited
+    let loss: StageLoss | null = null;
+    if (isClosedStage(finalStage) && (finalStage !== existing.stage || body.lossReason !== undefined)) {
+      loss = parseStageLoss(finalStage, body);
+    }
+    const lossData = !isClosedStage(finalStage) || loss ? stageLossData(finalStage, loss) : {};
+
     const data = {
       salonName:            finalSalonName,
       customerName:         finalCustomerName,
@@ -91,12 +104,21 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
       customerEmailAddress: (body.customerEmailAddress !== undefined ? normEmail(body.customerEmailAddress) : existing.customerEmailAddress),
       openingHours:         (body.openingHours !== undefined ? (body.openingHours ?? null) : existing.openingHours),
       numberOfChairs:       (body.numberOfChairs !== undefined ? toInt(body.numberOfChairs) : existing.numberOfChairs),
+      stage:                finalStage,
+      ...lossData,
     };
 
     const updated = await prisma.customer.update({
       where: { id: params.id },
       data,
     });
+    if (updated.stage !== existing.stage) {
+      await recordStageChange({ customerId: updated.id, from: existing.stage, to: updated.stage, cause: "MANUAL", loss });
+    }
+    // name/phone/email edits belong to the primary contact
+    await syncPrimaryFromCustomer(updated.id);
+    await geocodeCustomer(updated.id);
+    await indexCustomerSearch(updated.id);
 
     // Push safe subset + ensure rep tag is maintained on Shopify
     try {
@@ -108,6 +130,7 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
 
     return NextResponse.json(updated);
   } catch (err: any) {
+    if (err instanceof StageError) return NextResponse.json({ error: err.message }, { status: 400 });
     console.error("PATCH /api/customers/[id] error:", err);
     return NextResponse.json({ error: err?.message ?? "Update failed" }, { status: 500 });
   }
@@ -0,0 +1,43 @@
+// app/api/customers/[id]/tags/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { CustomerTagError, parseTagsInput } from "@/lib/customerTags";
+import { pushCustomerToShopifyById } from "@/lib/shopify";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * PUT { tags: string[] } — replace the customer's CRM tags. Customers linked to
+ * Shopify are pushed straight away; the response has the tags as they stand after
+ * that sync (Shopify may have added some in the meantime).
+ */
+export async function PUT(req: Request, { params }: { params: { id: string } }) {
+  const existing = await prisma.customer.findUnique({ where: { id: params.id }, select: { id: true, shopifyCustomerId: true } });
+  if (!existing) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  let tags: string[];
+  try {
+    tags = parseTagsInput(body?.tags);
+  } catch (e: any) {
+    if (e instanceof CustomerTagError) return NextResponse.json({ error: e.message }, { status: 400 });
+    throw e;
+  }
+
+  await prisma.customer.update({ where: { id: existing.id }, data: { tags } });
+
+  let synced = false;
+  if (existing.shopifyCustomerId) {
+    try {
+      await pushCustomerToShopifyById(existing.id);
+      synced = true;
+    } catch (e: any) {
+      // kept in the CRM; the next push or Shopify update merges them
+      console.error("pushCustomerToShopifyById error:", e?.message || e);
+    }
+  }
+
+  const after = await prisma.customer.findUnique({ where: { id: existing.id }, select: { tags: true } });
+  return NextResponse.json({ tags: after?.tags ?? tags, synced });
+}
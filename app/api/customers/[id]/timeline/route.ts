@@ -0,0 +1,37 @@
+// app/api/customers/[id]/timeline/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { customerTimeline, isTimelineType } from "@/lib/timeline";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+async function customerExists(id: string) {
+  return !!(await prisma.customer.findUnique({ where: { id }, select: { id: true } }));
+}
+
+/**
+ * GET — one page of the customer's activity, newest first.
+ * ?type=call,order (repeatable; default all) · ?before=<nextCursor> · ?take=30 (max 100)
+ */
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  if (!(await customerExists(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const sp = new URL(req.url).searchParams;
+  const requested = sp.getAll("type").flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+  const unknown = requested.find((t) => !isTimelineType(t));
+  if (unknown) return NextResponse.json({ error: `Unknown activity type "${unknown}"` }, { status: 400 });
+
+  try {
+    return NextResponse.json(
+      await customerTimeline(params.id, {
+        types: requested.filter(isTimelineType),
+        before: sp.get("before"),
+        take: Number(sp.get("take")) || undefined,
+      })
+    );
+  } catch (e) {
+    console.error("[timeline] load failed:", e);
+    return NextResponse.json({ error: "Could not load the timeline" }, { status: 500 });
+  }
+}
@@ -0,0 +1,55 @@
+// app/api/customers/duplicates/[id]/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { MergeError, mergeCustomers } from "@/lib/duplicates";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST { action: "merge", survivorId } — merge the other customer of the pair into survivorId
+ *      { action: "dismiss" }           — not duplicates; keep out of the queue
+ *      { action: "reopen" }            — put a dismissed pair back in the queue
+ */
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const pair = await prisma.customerDuplicate.findUnique({ where: { id: params.id } });
+  if (!pair) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const body = await req.json().catch(() => ({}));
+  const action = String(body?.action ?? "");
+
+  if (action === "dismiss" || action === "reopen") {
+    const dismiss = action === "dismiss";
+    await prisma.customerDuplicate.update({
+      where: { id: pair.id },
+      data: {
+        status: dismiss ? "DISMISSED" : "OPEN",
+        resolvedAt: dismiss ? new Date() : null,
+        resolvedById: dismiss ? me!.id : null,
+      },
+    });
+    return NextResponse.json({ ok: true });
+  }
+
+  if (action === "merge") {
+    const survivorId = String(body?.survivorId ?? "");
+    if (survivorId !== pair.customerAId && survivorId !== pair.customerBId) {
+      return NextResponse.json({ error: "survivorId must be one of the pair" }, { status: 400 });
+    }
+    const mergedId = survivorId === pair.customerAId ? pair.customerBId : pair.customerAId;
+    try {
+      const result = await mergeCustomers(survivorId, mergedId, me!.id);
+      return NextResponse.json({ ok: true, ...result });
+    } catch (e: any) {
+      if (e instanceof MergeError) return NextResponse.json({ error: e.message }, { status: 400 });
+      console.error("[duplicates] merge failed:", e);
+      return NextResponse.json({ error: e?.message || "Merge failed" }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+}
@@ -0,0 +1,39 @@
+// app/api/customers/duplicates/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const SIDE_SELECT = {
+  id: true,
+  createdAt: true,
+  salonName: true,
+  customerName: true,
+  addressLine1: true,
+  town: true,
+  postCode: true,
+  customerTelephone: true,
+  customerEmailAddress: true,
+  salesRep: true,
+  stage: true,
+  shopifyCustomerId: true,
+  _count: { select: { orders: true, callLogs: true, visits: true, notesLog: true } },
+} as const;
+
+/** GET ?status=OPEN|DISMISSED — the duplicate review queue, highest score first. */
+export async function GET(req: Request) {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  const status = new URL(req.url).searchParams.get("status") === "DISMISSED" ? "DISMISSED" : "OPEN";
+  const pairs = await prisma.customerDuplicate.findMany({
+    where: { status },
+    orderBy: [{ score: "desc" }, { createdAt: "asc" }],
+    take: 200,
+    include: { customerA: { select: SIDE_SELECT }, customerB: { select: SIDE_SELECT } },
+  });
+  const open = await prisma.customerDuplicate.count({ where: { status: "OPEN" } });
+  return NextResponse.json({ pairs, open });
+}
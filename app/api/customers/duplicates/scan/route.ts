@@ -0,0 +1,19 @@
+// app/api/customers/duplicates/scan/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { scanDuplicates } from "@/lib/duplicates";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** POST — rescan all customers and refresh the review queue. */
+export async function POST() {
+  const me = await getCurrentUser();
+  if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+  try {
+    return NextResponse.json({ ok: true, ...(await scanDuplicates()) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "Scan failed" }, { status: 500 });
+  }
+}
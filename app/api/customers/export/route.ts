@@ -0,0 +1,62 @@
+// app/api/customers/export/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { writeAudit } from "@/lib/audit";
+import { filtersFromParams, hasFilters, normaliseFilters } from "@/lib/customerFilters";
+import { customerExportRows, ExportError, exportCsv, exportXlsx } from "@/lib/customerExport";
+import { viewColumns, visibleView } from "@/lib/customerViews";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 120;
+
+/**
+ * GET ?format=csv|xlsx&columns=a,b,c&<filters>
+ *     ?view=<id>&format=…   — a saved view's filters and columns
+ * Filters in the query string win over the view's; so does `columns`.
+ */
+export async function GET(req: Request) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const sp = new URL(req.url).searchParams;
+  const format = sp.get("format") === "xlsx" ? "xlsx" : "csv";
+
+  const viewId = sp.get("view");
+  const view = viewId ? await visibleView(viewId, me) : null;
+  if (viewId && !view) return NextResponse.json({ error: "View not found" }, { status: 404 });
+
+  const fromQuery = filtersFromParams(sp);
+  const filters = view && !hasFilters(fromQuery) ? normaliseFilters(view.filters) : fromQuery;
+  const columns = viewColumns(sp.get("columns") ? sp.get("columns")!.split(",") : view?.columns);
+
+  try {
+    const { header, rows } = await customerExportRows(filters, columns);
+    await writeAudit({
+      userId: me.id,
+      action: "customer.export",
+      entityType: "CustomerView",
+      entityId: view?.id ?? null,
+      details: { format, rows: rows.length, columns, filters },
+    });
+
+    const base = (view?.name || "customers").replace(/[^\w\- ]+/g, "").trim().replace(/\s+/g, "-") || "customers";
+    const name = `${base}-${new Date().toISOString().slice(0, 10)}.${format}`;
+    const headers = {
+      "Content-Disposition": `attachment; filename="${name}"`,
+      "Cache-Control": "no-store",
+    };
+    if (format === "xlsx") {
+      return new NextResponse(exportXlsx(header, rows), {
+        headers: { ...headers, "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" },
+      });
+    }
+    return new NextResponse(exportCsv(header, rows), {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    });
+  } catch (e: any) {
+    if (e instanceof ExportError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[customers/export] failed:", e);
+    return NextResponse.json({ error: "Export failed" }, { status: 500 });
+  }
+}
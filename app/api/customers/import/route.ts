@@ -0,0 +1,65 @@
+// app/api/customers/import/route.ts
+import { NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import {
+  IMPORT_FIELDS,
+  ImportError,
+  commitImport,
+  dryRunImport,
+  type ImportDefaults,
+  type ImportMapping,
+} from "@/lib/customerImport";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+const MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * POST { csv, fileName?, mapping?, defaults?: { salesRep, stage, country }, commit?,
+ *        skipDuplicates? (default true), pushToShopify? (default false) }
+ *
+ * Without `commit` nothing is written: returns the mapped rows with validation errors
+ * and likely duplicates. Without `mapping` the columns are guessed from the headers.
+ */
+export async function POST(req: Request) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const csv = String(body?.csv ?? "");
+  if (!csv.trim()) return NextResponse.json({ error: "Upload a CSV file" }, { status: 400 });
+  if (csv.length > MAX_BYTES) return NextResponse.json({ error: "File is larger than 5 MB" }, { status: 413 });
+
+  const mapping: ImportMapping | null = body?.mapping && typeof body.mapping === "object" ? body.mapping : null;
+  const defaults: ImportDefaults = {
+    salesRep: body?.defaults?.salesRep ? String(body.defaults.salesRep) : undefined,
+    stage: body?.defaults?.stage ? String(body.defaults.stage) : undefined,
+    country: body?.defaults?.country ? String(body.defaults.country) : undefined,
+  };
+
+  try {
+    if (!body?.commit) {
+      const preview = await dryRunImport(csv, mapping, defaults);
+      return NextResponse.json({ ...preview, fields: IMPORT_FIELDS.map(({ key, label }) => ({ key, label })) });
+    }
+
+    const result = await commitImport(
+      csv,
+      mapping,
+      defaults,
+      {
+        skipDuplicates: body?.skipDuplicates !== false,
+        pushToShopify: body?.pushToShopify === true,
+        fileName: body?.fileName ? String(body.fileName) : null,
+      },
+      me.id
+    );
+    return NextResponse.json({ ok: true, ...result });
+  } catch (e: any) {
+    if (e instanceof ImportError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[import] failed:", e);
+    return NextResponse.json({ error: e?.message || "Import failed" }, { status: 500 });
+  }
+}
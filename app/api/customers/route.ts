@@ -1,6 +1,12 @@
 // app/api/customers/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { flagDuplicatesOf } from "@/lib/duplicates";
+import { syncPrimaryFromCustomer } from "@/lib/contacts";
+import { geocodeCustomer } from "@/lib/geocode";
+import { indexCustomerSearch, orderByIds, searchCustomers } from "@/lib/customerSearch";
+import { normalizeCountry, normalizeStage } from "@/lib/customers";
+import { parseStageLoss, recordStageChange, stageLossData, StageError } from "@/lib/stageHistory";
 
 export const dynamic = "force-dynamic";
 
@@ -29,85 +35,6 @@ const toInt = (v: unknown) => {
   return Number.isFinite(n) ? n : null;
 };
 
-// Normalize incoming country values to ISO-2 codes for Shopify friendliness
-function normalizeCountry(input: unknown): string | null {
-  if (input == null) return null;
-  const raw = String(input).trim();
-  if (!raw) return null;
-
-  const up = raw.toUpperCase();
-
-  // If already a 2-letter code, accept
-  if (/^[A-Z]{2}$/.test(up)) return up;
-
-  // Common name → code mappings (extend as needed)
-  const map: Record<string, string> = {
-    "UNITED KINGDOM": "GB",
-    "GREAT BRITAIN": "GB",
-    "UK": "GB",
-    "ENGLAND": "GB",
-    "SCOTLAND": "GB",
-    "WALES": "GB",
-    "NORTHERN IRELAND": "GB",
-
-    "UNITED STATES": "US",
-    "UNITED STATES OF AMERICA": "US",
-    "USA": "US",
-    "AMERICA": "US",
-
-    "IRELAND": "IE",
-    "REPUBLIC OF IRELAND": "IE",
-
-    "CANADA": "CA",
-    "AUSTRALIA": "AU",
-    "NEW ZEALAND": "NZ",
-    "FRANCE": "FR",
-    "GERMANY": "DE",
-    "SPAIN": "ES",
-    "ITALY": "IT",
-    "NETHERLANDS": "NL",
-    "BELGIUM": "BE",
-    "SWEDEN": "SE",
-    "NORWAY": "NO",
-    "DENMARK": "DK",
-    "SWITZERLAND": "CH",
-    "AUSTRIA": "AT",
-    "PORTUGAL": "PT",
-    "POLAND": "PL",
-  };
-
-  return map[up] || raw; // fall back to original text if not mapped
-}
-
-/* ---- Customer Stage normalizer (accepts many human variants) ---- */
-const STAGES = ["LEAD", "APPOINTMENT_BOOKED", "SAMPLING", "CUSTOMER"] as const;
-type Stage = typeof STAGES[number];
-
-function normalizeStage(input: unknown): Stage {
-  const s = String(input ?? "").trim().toUpperCase();
-  if (!s) return "LEAD";
-
-  // direct matches
-  if ((STAGES as readonly string[]).includes(s)) return s as Stage;
-
-  // accept common human variants
-  const map: Record<string, Stage> = {
-    "APPOINTMENT BOOKED": "APPOINTMENT_BOOKED",
-    "APPOINTMENT-BOOKED": "APPOINTMENT_BOOKED",
-    "APPT BOOKED": "APPOINTMENT_BOOKED",
-    "APPT_BOOKED": "APPOINTMENT_BOOKED",
-    "APPT": "APPOINTMENT_BOOKED",
-    "SAMPLE": "SAMPLING",
-    "SAMPLING": "SAMPLING",
-    "CUSTOMER": "CUSTOMER",
-    "CLIENT": "CUSTOMER",
-    "LEAD": "LEAD",
-    "PROSPECT": "LEAD",
-  };
-
-  return map[s] || "LEAD";
-}
-
 /* ------------------ POST /api/customers ------------------ */
 export async function POST(req: Request) {
   try {
@@ -155,13 +82,22 @@ export async function POST(req: Request) {
       );
     }
 
-    const created = await prisma.customer.create({ data });
+    // lost/dormant need a reason
+    const loss = parseStageLoss(data.stage, body);
+
+    const created = await prisma.customer.create({ data: { ...data, ...stageLossData(data.stage, loss) } });
+    await recordStageChange({ customerId: created.id, from: null, to: created.stage, cause: "CREATED", loss });
+    await syncPrimaryFromCustomer(created.id);
+    await geocodeCustomer(created.id);
+    await indexCustomerSearch(created.id);
+    await flagDuplicatesOf(created.id);
 
     if (isForm) {
       return NextResponse.redirect(new URL(`/customers/${created.id}`, req.url), { status: 303 });
     }
     return NextResponse.json(created, { status: 201 });
   } catch (err: any) {
+    if (err instanceof StageError) return NextResponse.json({ error: err.message }, { status: 400 });
     console.error("Create customer error:", err);
     return NextResponse.json({ error: err?.message ?? "Internal error" }, { status: 500 });
   }
@@ -177,44 +113,35 @@ export async function GET(req: Request) {
   const stageFilterRaw = searchParams.get("stage");
   const stageFilter = stageFilterRaw ? normalizeStage(stageFilterRaw) : null;
 
-  const where: any = q
-    ? {
-        OR: [
-          { salonName:            { contains: q, mode: "insensitive" as const } },
-          { customerName:         { contains: q, mode: "insensitive" as const } },
-          { customerEmailAddress: { contains: q, mode: "insensitive" as const } },
-          { town:                 { contains: q, mode: "insensitive" as const } },
-          { county:               { contains: q, mode: "insensitive" as const } },
-          { postCode:             { contains: q, mode: "insensitive" as const } },
-          { country:              { contains: q, mode: "insensitive" as const } },
-        ],
-      }
-    : {};
-
-  if (stageFilter) {
-    where.stage = stageFilter;
+  const select = {
+    id: true,
+    salonName: true,
+    customerName: true,
+    addressLine1: true,
+    addressLine2: true,
+    town: true,
+    county: true,
+    postCode: true,
+    country: true,
+    customerEmailAddress: true,
+    customerNumber: true,
+    customerTelephone: true,
+    salesRep: true,
+    stage: true, // ✅ expose stage to the UI/autocomplete
+  } as const;
+
+  // ranked search (lib/customerSearch.ts); without a query, the newest customers
+  if (q) {
+    const ids = (await searchCustomers(q, { take, stage: stageFilter })).map((h) => h.id);
+    const rows = await prisma.customer.findMany({ where: { id: { in: ids } }, select });
+    return NextResponse.json(orderByIds(rows, ids));
   }
 
   const customers = await prisma.customer.findMany({
-    where,
-    orderBy: q ? { salonName: "asc" } : { createdAt: "desc" },
-    take: q ? take : 50,
-    select: {
-      id: true,
-      salonName: true,
-      customerName: true,
-      addressLine1: true,
-      addressLine2: true,
-      town: true,
-      county: true,
-      postCode: true,
-      country: true,
-      customerEmailAddress: true,
-      customerNumber: true,
-      customerTelephone: true,
-      salesRep: true,
-      stage: true, // ✅ expose stage to the UI/autocomplete
-    },
+    where: stageFilter ? { stage: stageFilter } : {},
+    orderBy: { createdAt: "desc" },
+    take: 50,
+    select,
   });
 
   return NextResponse.json(customers);
@@ -1,32 +1,28 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { orderByIds, searchCustomers } from "@/lib/customerSearch";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
 
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
   const q = (searchParams.get("q") || "").trim();
   if (!q) return NextResponse.json([]);
 
-  const matches = await prisma.customer.findMany({
-    where: {
-      OR: [
-        { salonName: { contains: q, mode: "insensitive" } },
-        { customerName: { contains: q, mode: "insensitive" } },
-        { customerEmailAddress: { contains: q, mode: "insensitive" } },
-        { postCode: { contains: q, mode: "insensitive" } },
-      ],
-    },
+  const ids = (await searchCustomers(q, { take: 10 })).map((h) => h.id);
+  const rows = await prisma.customer.findMany({
+    where: { id: { in: ids } },
     select: {
       id: true,
       salonName: true,
       customerName: true,
       postCode: true,
     },
-    orderBy: { createdAt: "desc" },
-    take: 10,
   });
 
   return NextResponse.json(
-    matches.map((c) => ({
+    orderByIds(rows, ids).map((c) => ({
       id: c.id,
       label: [c.salonName, c.customerName, c.postCode].filter(Boolean).join(" — "),
     }))
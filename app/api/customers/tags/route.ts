@@ -0,0 +1,11 @@
+// app/api/customers/tags/route.ts
+import { NextResponse } from "next/server";
+import { tagsInUse } from "@/lib/customerTags";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — every CRM tag in use, A–Z (tag pickers and filters). */
+export async function GET() {
+  return NextResponse.json({ tags: await tagsInUse() });
+}
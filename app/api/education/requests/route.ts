@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import type { EducationType, EducationRequestStatus } from "@prisma/client";
+import { contactOf } from "@/lib/contacts";
 
 export const dynamic = "force-dynamic";
 
@@ -81,6 +82,7 @@ export async function POST(req: Request) {
 
       payload = {
         customerId,
+        contactId: getS("contactId") || null,
         salonName: getS("salonName") || null,
         contactName: getS("contactName") || getS("customerName") || null,
         phone: getS("phone") || getS("customerTelephone") || null,
@@ -100,6 +102,7 @@ export async function POST(req: Request) {
       const j = await readJsonBody(req);
       payload = {
         customerId: String(j.customerId || ""),
+        contactId: j.contactId ?? null,
         salonName: j.salonName ?? null,
         contactName: j.contactName ?? null,
         phone: j.phone ?? null,
@@ -138,6 +141,14 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Customer not found" }, { status: 404 });
     }
 
+    // Chosen contact: snapshot its details over whatever the form sent
+    const contact = await contactOf(customer.id, payload.contactId);
+    if (contact) {
+      payload.contactName = contact.name;
+      payload.phone = contact.phone;
+      payload.email = contact.email;
+    }
+
     // Resolve brand names
     let brandNames: string[] = [];
     if (multi.brandIds && multi.brandIds.length > 0) {
@@ -165,6 +176,7 @@ export async function POST(req: Request) {
     const created = await prisma.educationRequest.create({
       data: {
         customerId: payload.customerId,
+        contactId: contact?.id ?? null,
         status,
         salonName: payload.salonName,
         contactName: payload.contactName,
@@ -1,5 +1,6 @@
 // app/api/auth/logout/route.ts
 import { NextResponse, NextRequest } from "next/server";
+import { getCurrentSession, revokeSession } from "@/lib/auth";
 
 const COOKIE_NAME = "sbp_session";
 
@@ -15,6 +16,10 @@ function clearCookie(res: NextResponse, name: string) {
 }
 
 export async function POST(_req: NextRequest) {
+  // revoke server-side so a copied cookie stops working too
+  const session = await getCurrentSession();
+  if (session) await revokeSession(session.sessionId);
+
   const res = NextResponse.json({ ok: true });
   clearCookie(res, COOKIE_NAME);
   clearCookie(res, "sbp_email"); // legacy helper cookie (if present)
@@ -1,13 +1,14 @@
 // app/api/me/route.ts
 import { NextResponse } from "next/server";
-import { getCurrentUser } from "@/lib/auth";
+import { getCurrentSession, getUserPermissions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 
 export const dynamic = "force-dynamic";
 
 export async function GET() {
-  const me = await getCurrentUser();
-  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const session = await getCurrentSession();
+  if (!session) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const me = session.user;
 
   // Only read what's needed. Never return tokens to the client.
   const g = await prisma.user.findUnique({
@@ -21,6 +22,16 @@ export async function GET() {
     },
   });
 
+  const { perms } = await getUserPermissions(me.id);
+
+  // Admin acting as this user (drives the impersonation banner)
+  const impersonator = session.impersonatorId
+    ? await prisma.user.findUnique({
+        where: { id: session.impersonatorId },
+        select: { id: true, fullName: true, email: true },
+      })
+    : null;
+
   const now = new Date();
   const hasAccess = Boolean(g?.googleAccessToken);
   const hasRefresh = Boolean(g?.googleRefreshToken);
@@ -41,6 +52,8 @@ export async function GET() {
     isActive: me.isActive,
     createdAt: me.createdAt,
     updatedAt: me.updatedAt,
+    permissions: perms,
+    impersonator,
 
     // for UI
     googleConnected,
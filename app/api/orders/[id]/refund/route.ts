@@ -4,6 +4,8 @@ import Stripe from "stripe";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest } from "@/lib/shopify";
 import { upsertOrderFromShopify } from "@/lib/shopify";
+import { requireAccess } from "@/lib/auth";
+import { writeAudit } from "@/lib/audit";
 
 /* Runtime */
 export const runtime = "nodejs";
@@ -67,6 +69,10 @@ function pickParentTransaction(transactions: any[]): { id: string | null; gatewa
 /* ---------------- main handler ---------------- */
 
 export async function POST(req: Request, ctx: { params: { id: string } }) {
+  // Money moves here: re-check against live permissions, not the session snapshot
+  const guard = await requireAccess("ISSUE_REFUNDS");
+  if (guard) return guard;
+
   const debug = new URL(req.url).searchParams.get("debug") === "1";
   const debugOut: any = { steps: [] };
 
@@ -219,7 +225,7 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
           // Fall back to credit note
         } else {
           const stripeAmount = Math.round(calcAmount * 100);
-          await stripe.refunds.create({
+          const stripeRefund = await stripe.refunds.create({
             payment_intent: paymentIntentId,
             amount: stripeAmount,
             reason: "requested_by_customer",
@@ -290,6 +296,14 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
 
           // success via Stripe path
           await refreshCrmFromShopify(shopifyOrderId);
+          await auditRefund(crmOrder, {
+            mode: "stripe",
+            amount: calcAmount,
+            currency: shopCurrency,
+            reason,
+            lines: refund_line_items,
+            stripeRefundId: stripeRefund.id,
+          });
           if (debug) return NextResponse.json({ ok: true, mode: "stripe", debug: debugOut }, { status: 200 });
 
           const back1 = new URL(req.url);
@@ -332,6 +346,13 @@ export async function POST(req: Request, ctx: { params: { id: string } }) {
     }
 
     await refreshCrmFromShopify(shopifyOrderId);
+    await auditRefund(crmOrder, {
+      mode: "credit-note",
+      amount: calcAmount,
+      currency: shopCurrency,
+      reason,
+      lines: refund_line_items,
+    });
     if (debug) return NextResponse.json({ ok: true, mode: "credit-note", debug: debugOut }, { status: 200 });
 
     const back = new URL(req.url);
@@ -357,6 +378,28 @@ async function refreshCrmFromShopify(shopifyOrderId: number | string) {
   }
 }
 
+/** Audit entry for an issued refund, with the order's refunded total before and after */
+async function auditRefund(
+  order: { id: string; customerId: string | null; refundedTotal: any },
+  info: Record<string, any>
+) {
+  const after = await prisma.order
+    .findUnique({ where: { id: order.id }, select: { refundedTotal: true } })
+    .catch(() => null);
+  const from = order.refundedTotal == null ? null : String(order.refundedTotal);
+  const to = after?.refundedTotal == null ? null : String(after.refundedTotal);
+  await writeAudit({
+    action: "order.refund",
+    entityType: "Order",
+    entityId: order.id,
+    details: {
+      ...info,
+      customerId: order.customerId,
+      changes: { refundedTotal: { from, to } },
+    },
+  });
+}
+
 /** 405 for GET */
 export async function GET() {
   return NextResponse.json({ error: "Method Not Allowed" }, { status: 405 });
@@ -2,6 +2,7 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { prisma } from "@/lib/prisma";
 import { shopifyGraphql, shopifyRest } from "@/lib/shopify";
+import { auditPaymentLink } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -216,6 +217,18 @@ export async function POST(req: Request) {
       },
     });
 
+    await auditPaymentLink(crm.id, link, {
+      amountPence: lines.reduce(
+        (sum, li) =>
+          sum +
+          Math.round((catalog[String(li.variantId)]?.priceExVat ?? 0) * (1 + VAT_RATE) * 100) *
+            Number(li.quantity || 1),
+        0
+      ),
+      draftOrderId: draftId,
+      via: "api",
+    });
+
     // Store the link on the draft so future clicks reuse it (de-dupe)
     if (draftId && link?.url) {
       await shopifyRest(`/draft_orders/${draftId}.json`, {
@@ -2,6 +2,8 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest } from "@/lib/shopify";
+import { auditPaymentLink } from "@/lib/audit";
+import { contactOf, orderingContact } from "@/lib/contacts";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -67,20 +69,24 @@ async function readBody(req: Request) {
 
 export async function POST(req: Request) {
   try {
-    const { draftId, customerId, to: toRaw } = await readBody(req);
+    const { draftId, customerId, contactId, to: toRaw } = await readBody(req);
 
     if (!draftId) {
       return NextResponse.json({ error: "draftId is required" }, { status: 400 });
     }
 
-    // Pull CRM customer (to get phone + shopify id) if not provided explicitly
+    // Pull CRM customer (to get phone + shopify id) if not provided explicitly.
+    // The SMS goes to the chosen contact, else the ordering contact, else the customer's phone.
     let crm: { id: string; tel?: string | null; shopifyCustomerId?: string | null } | null = null;
     if (customerId) {
       const c = await prisma.customer.findUnique({
         where: { id: String(customerId) },
         select: { id: true, customerTelephone: true, shopifyCustomerId: true },
       });
-      crm = c ? { id: c.id, tel: c.customerTelephone, shopifyCustomerId: c.shopifyCustomerId } : null;
+      if (c) {
+        const contact = (await contactOf(c.id, contactId)) ?? (await orderingContact(c.id));
+        crm = { id: c.id, tel: contact?.phone || c.customerTelephone, shopifyCustomerId: c.shopifyCustomerId };
+      }
     }
 
     // Destination number
@@ -119,10 +125,12 @@ export async function POST(req: Request) {
     const stripe = new Stripe(stripeSecret, { apiVersion: "2023-10-16" });
 
     const line_items: Stripe.PaymentLinkCreateParams.LineItem[] = [];
+    let totalPence = 0;
     for (const li of draftLines) {
       const ex = Number(li.price ?? 0);
       const inc = ex * (1 + VAT_RATE);
       const unit_amount = Math.round(inc * 100);
+      totalPence += unit_amount * Number(li.quantity || 1);
 
       const name = `${li.title ?? "Item"}${li.variant_title ? ` — ${li.variant_title}` : ""}`;
 
@@ -171,6 +179,7 @@ export async function POST(req: Request) {
     // Fire the SMS
     const msg = `Salon Brands Pro – secure payment link: ${link.url}`;
     await sendTwilioSMS(toNumber, msg);
+    await auditPaymentLink(crm?.id, link, { amountPence: totalPence, draftOrderId: draftId, via: "sms", sentTo: toNumber });
 
     // Optional: annotate draft for audit
     try {
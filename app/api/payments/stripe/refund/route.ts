@@ -2,6 +2,9 @@
 import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { shopifyRest } from "@/lib/shopify";
+import { requireAccess } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -59,6 +62,10 @@ async function resolvePaymentIntentId(
 }
 
 export async function POST(req: Request) {
+  // Money moves here: re-check against live permissions, not the session snapshot
+  const guard = await requireAccess("ISSUE_REFUNDS");
+  if (guard) return guard;
+
   try {
     const stripeSecret = process.env.STRIPE_SECRET_KEY || "";
     if (!stripeSecret) {
@@ -106,6 +113,23 @@ export async function POST(req: Request) {
       },
     });
 
+    const order = await prisma.order
+      .findUnique({ where: { id: body.orderId }, select: { customerId: true } })
+      .catch(() => null);
+    await writeAudit({
+      action: "order.refund",
+      entityType: "Order",
+      entityId: body.orderId,
+      details: {
+        mode: "stripe-direct",
+        customerId: order?.customerId ?? null,
+        amount: totalGross,
+        currency: refund.currency?.toUpperCase() ?? null,
+        stripeRefundId: refund.id,
+        lines: body.lines.map((l) => ({ sku: l.sku ?? null, quantity: l.quantity, unitGross: l.unitGross })),
+      },
+    });
+
     return NextResponse.json({ ok: true, refund }, { status: 200 });
   } catch (err: any) {
     console.error("Stripe refund error:", err);
@@ -0,0 +1,32 @@
+// app/api/pipeline-options/[id]/route.ts
+import { NextResponse } from "next/server";
+import { deletePipelineOption, PipelineOptionError, updatePipelineOption } from "@/lib/pipelineOptions";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** PATCH { label?, stage?, lossReason?, aliases?, sortOrder?, active? } — the kind can't change. */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    const option = await updatePipelineOption(params.id, body);
+    if (!option) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ option });
+  } catch (e: any) {
+    if (e instanceof PipelineOptionError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[pipeline-options] update failed:", e);
+    return NextResponse.json({ error: "Could not update the option" }, { status: 500 });
+  }
+}
+
+/** DELETE — calls saved with it keep their text but stop mapping to a stage. */
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    if (!(await deletePipelineOption(params.id))) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (e: any) {
+    if (e instanceof PipelineOptionError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[pipeline-options] delete failed:", e);
+    return NextResponse.json({ error: "Could not delete the option" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+// app/api/pipeline-options/route.ts
+import { NextResponse } from "next/server";
+import { createPipelineOption, getPipelineOptions, listPipelineOptionRows, PipelineOptionError } from "@/lib/pipelineOptions";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET — outcomes, call types and next steps by kind, for the call forms (retired ones
+ * included, flagged inactive). GET ?all=1 — the stored rows, for the settings page.
+ */
+export async function GET(req: Request) {
+  if (new URL(req.url).searchParams.get("all") === "1") {
+    return NextResponse.json({ options: await listPipelineOptionRows() });
+  }
+  return NextResponse.json({ options: await getPipelineOptions() });
+}
+
+/** POST { kind, label, stage?, lossReason?, aliases? } — managers (see lib/permissions.ts). */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    return NextResponse.json({ option: await createPipelineOption(body) }, { status: 201 });
+  } catch (e: any) {
+    if (e instanceof PipelineOptionError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[pipeline-options] create failed:", e);
+    return NextResponse.json({ error: "Could not add the option" }, { status: 500 });
+  }
+}
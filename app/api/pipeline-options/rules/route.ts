@@ -0,0 +1,23 @@
+// app/api/pipeline-options/rules/route.ts
+import { NextResponse } from "next/server";
+import { getPipelineSettings, PipelineSettingsError, updatePipelineSettings } from "@/lib/stageRules";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** GET — the lost/dormant rule thresholds (lib/stageRules.ts). */
+export async function GET() {
+  return NextResponse.json({ settings: await getPipelineSettings() });
+}
+
+/** PATCH { dormantAfterDays?, lostAfterCalls? } — 0 switches a rule off. */
+export async function PATCH(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    return NextResponse.json({ settings: await updatePipelineSettings(body) });
+  } catch (e: any) {
+    if (e instanceof PipelineSettingsError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[pipeline-options] rules update failed:", e);
+    return NextResponse.json({ error: "Could not save the rules" }, { status: 500 });
+  }
+}
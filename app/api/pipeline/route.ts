@@ -1,30 +1,20 @@
 // app/api/pipeline/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { prisma, getDataScope } from "@/lib/prisma";
+import { customerScopeSql } from "@/lib/scope";
+import { parseStage } from "@/lib/pipeline";
 
 export const dynamic = "force-dynamic";
 
-type Stage = "LEAD" | "ENGAGED" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER";
-
-function normStage(input?: string | null): Stage | null {
-  if (!input) return null;
-  const s = String(input).trim().toUpperCase().replace(/\s+/g, "_");
-  if (s === "CUSTOMER" || s === "CLIENT" || s === "EXISTING_CUSTOMER") return "CUSTOMER";
-  if (s === "LEAD") return "LEAD";
-  if (s === "ENGAGED") return "ENGAGED";
-  if (s === "SAMPLING" || s === "SAMPLE") return "SAMPLING";
-  if (s === "APPOINTMENT_BOOKED" || s === "APPT_BOOKED" || s === "APPT") return "APPOINTMENT_BOOKED";
-  return null;
-}
-
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
 
   // Accept ?rep= or ?salesRep=
   const repRaw = searchParams.get("rep") || searchParams.get("salesRep") || "";
   const rep = repRaw && repRaw !== "ALL" && repRaw !== "All reps" ? repRaw : "";
-  // Optional: ?stage=LEAD|APPOINTMENT_BOOKED|SAMPLING|CUSTOMER (synonyms normalized)
-  const stageFilter = normStage(searchParams.get("stage"));
+  // Optional: ?stage=LEAD|APPOINTMENT_BOOKED|SAMPLING|CUSTOMER|LOST|DORMANT (synonyms normalized)
+  const stageFilter = parseStage(searchParams.get("stage"));
   // Optional limit for table rows
   const take = Math.min(Math.max(Number(searchParams.get("take") || 200), 1), 500);
 
@@ -32,13 +22,21 @@ export async function GET(req: Request) {
   if (rep) whereBase.salesRep = rep;
 
   // Counts respect Sales Rep filter, but not the stage filter (so you can see the whole breakdown)
-  const [lead, engaged, appt, sampling, customer, total] = await Promise.all([
+  const [lead, engaged, appt, sampling, customer, lost, dormant, total, reasons, competitors] = await Promise.all([
     prisma.customer.count({ where: { ...whereBase, stage: "LEAD" } }),
     prisma.customer.count({ where: { ...whereBase, stage: "ENGAGED" } }),
     prisma.customer.count({ where: { ...whereBase, stage: "APPOINTMENT_BOOKED" } }),
     prisma.customer.count({ where: { ...whereBase, stage: "SAMPLING" } }),
     prisma.customer.count({ where: { ...whereBase, stage: "CUSTOMER" } }),
+    prisma.customer.count({ where: { ...whereBase, stage: "LOST" } }),
+    prisma.customer.count({ where: { ...whereBase, stage: "DORMANT" } }),
     prisma.customer.count({ where: whereBase }),
+    prisma.customer.groupBy({
+      by: ["stage", "lossReason"],
+      where: { ...whereBase, stage: { in: ["LOST", "DORMANT"] } },
+      _count: { _all: true },
+    }),
+    competitorWinLoss(rep),
   ]);
 
   // Table rows (apply stage filter if present)
@@ -59,6 +57,7 @@ export async function GET(req: Request) {
       customerName: true,
       salesRep: true,
       stage: true,
+      lossReason: true,
       createdAt: true,
     },
   });
@@ -68,7 +67,8 @@ export async function GET(req: Request) {
     salonName: c.salonName,
     customerName: c.customerName,
     salesRep: c.salesRep,
-    stage: (c.stage as Stage) ?? "LEAD",
+    stage: c.stage ?? "LEAD",
+    lossReason: c.lossReason,
     createdAt: c.createdAt.toISOString(),
   }));
 
@@ -79,9 +79,49 @@ export async function GET(req: Request) {
       APPOINTMENT_BOOKED: appt,
       SAMPLING: sampling,
       CUSTOMER: customer,
+      LOST: lost,
+      DORMANT: dormant,
       total,
     },
+    lossReasons: reasons
+      .map((r) => ({ stage: r.stage, reason: r.lossReason, count: r._count._all }))
+      .sort((a, b) => b.count - a.count),
+    competitors,
     stageFilter: stageFilter ?? null,
     items: rows,
   });
 }
+
+type CompetitorRow = { brandId: string; brand: string; customers: number; won: number; lost: number; dormant: number; lostTo: number };
+
+/**
+ * Win/loss by competitor brand: customers whose calls recorded the brand (or who
+ * were lost to it), and how many of them are now customers, lost or dormant.
+ * `lostTo` counts only those lost to that brand; win rate is won / (won + lost).
+ */
+async function competitorWinLoss(rep: string) {
+  const repFilter = rep ? Prisma.sql`AND c."salesRep" = ${rep}` : Prisma.empty;
+  const rows = await prisma.$queryRaw<CompetitorRow[]>(Prisma.sql`
+    WITH seen AS (
+      SELECT cb."brandId", cl."customerId"
+      FROM "CallLogCompetitorBrand" cb
+      JOIN "CallLog" cl ON cl."id" = cb."callLogId"
+      WHERE cl."customerId" IS NOT NULL
+      UNION
+      SELECT "lossBrandId", "id" FROM "Customer" WHERE "lossBrandId" IS NOT NULL
+    )
+    SELECT b."id" AS "brandId", b."name" AS "brand",
+           count(*)::int AS "customers",
+           count(*) FILTER (WHERE c."stage" = 'CUSTOMER')::int AS "won",
+           count(*) FILTER (WHERE c."stage" = 'LOST')::int AS "lost",
+           count(*) FILTER (WHERE c."stage" = 'DORMANT')::int AS "dormant",
+           count(*) FILTER (WHERE c."lossBrandId" = b."id")::int AS "lostTo"
+    FROM seen s
+    JOIN "Brand" b ON b."id" = s."brandId"
+    JOIN "Customer" c ON c."id" = s."customerId"
+    WHERE TRUE ${repFilter} ${customerScopeSql(await getDataScope(), "c")}
+    GROUP BY b."id", b."name"
+    ORDER BY count(*) DESC, b."name" ASC
+  `);
+  return rows.map((r) => ({ ...r, winRate: r.won + r.lost > 0 ? Math.round((r.won / (r.won + r.lost)) * 100) : null }));
+}
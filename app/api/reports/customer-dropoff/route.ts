@@ -1,6 +1,10 @@
 // app/api/reports/customer-dropoff/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { distanceKm, parseLatLng } from "@/lib/geocode";
+import { bandRange, healthBand, isHealthBand } from "@/lib/healthScore";
+import { customerWhere, filtersFromParams } from "@/lib/customerFilters";
+import { csvEscape } from "@/lib/csv";
 
 export const dynamic = "force-dynamic";
 
@@ -10,11 +14,6 @@ function parseIntStrict(v: any, dflt: number) {
   return Number.isFinite(n) ? Math.max(0, Math.floor(n)) : dflt;
 }
 
-function csvEscape(s: any): string {
-  const raw = s == null ? "" : String(s);
-  return /[",\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw;
-}
-
 function wantsCSV(req: Request, sp: URLSearchParams) {
   if ((sp.get("format") || "").toLowerCase() === "csv") return true;
   if (sp.get("csv") === "1") return true;
@@ -32,6 +31,11 @@ function ymd(d?: Date | string | null): string {
   return `${y}-${m}-${da}`;
 }
 
+function csvHeader(withDistance: boolean) {
+  const header = ["Salon Name", "Customer Name", "Sales Rep", "Last Order", "Days Since", "Health Score", "Tags", "Postcode", "Latitude", "Longitude"];
+  return withDistance ? [...header, "Distance (km)"] : header;
+}
+
 /* ---------- GET /api/reports/customer-dropoff ---------- */
 export async function GET(req: Request) {
   const { searchParams } = new URL(req.url);
@@ -53,9 +57,26 @@ export async function GET(req: Request) {
       : (searchParams.get("reps") || "").split(",");
   const reps = repsRaw.map(s => s.trim()).filter(Boolean);
 
-  // Base customers set (optionally filtered by sales rep)
+  // optional area: ?near=lat,lng&withinKm=25 (uses the customers' geocoded positions)
+  const near = parseLatLng(searchParams.get("near"));
+  const withinKm = near ? parseIntStrict(searchParams.get("withinKm"), 0) : 0;
+
+  // health bands: ?health=at_risk,watch (customers who never ordered have no score)
+  const health = (searchParams.get("health") || "").split(",").map(s => s.trim()).filter(isHealthBand);
+
+  // tags and custom fields, as on the customer list: ?tag=VIP&cf.salon_type=Barber
+  const { tags, fields } = filtersFromParams(searchParams);
+
+  // Base customers set (optionally filtered by sales rep / health / tags / fields)
   const whereCustomer: any = {};
+  if (tags || fields) whereCustomer.AND = [customerWhere({ tags, fields })];
   if (reps.length) whereCustomer.salesRep = { in: reps };
+  if (health.length) {
+    whereCustomer.OR = health.map(h => {
+      const [min, max] = bandRange(h);
+      return { healthScore: { gte: min, lte: max } };
+    });
+  }
 
   const customers = await prisma.customer.findMany({
     where: whereCustomer,
@@ -65,6 +86,11 @@ export async function GET(req: Request) {
       customerName: true,
       salesRep: true,
       createdAt: true,
+      postCode: true,
+      latitude: true,
+      longitude: true,
+      healthScore: true,
+      tags: true,
     },
   });
 
@@ -79,8 +105,7 @@ export async function GET(req: Request) {
         rows: [],
       });
     } else {
-      const header = ["Salon Name", "Customer Name", "Sales Rep", "Last Order", "Days Since"];
-      return new NextResponse(header.join("\n"), {
+      return new NextResponse(csvHeader(!!near).join(","), {
         headers: {
           "Content-Type": "text/csv; charset=utf-8",
           "Content-Disposition": 'attachment; filename="customer-dropoff.csv"',
@@ -112,6 +137,7 @@ export async function GET(req: Request) {
     .map(c => {
       const last = lastMap.get(c.id);
       const daysSince = last ? Math.floor((now - new Date(last).getTime()) / msPerDay) : Number.POSITIVE_INFINITY;
+      const placed = c.latitude != null && c.longitude != null;
       return {
         customerId: c.id,
         salonName: c.salonName || c.customerName || "(Unnamed)",
@@ -119,9 +145,20 @@ export async function GET(req: Request) {
         salesRep: c.salesRep || null,
         lastOrderAt: last ? new Date(last).toISOString() : null,
         daysSince,
+        healthScore: c.healthScore,
+        health: healthBand(c.healthScore)?.key ?? null,
+        tags: c.tags,
+        postCode: c.postCode || null,
+        latitude: c.latitude,
+        longitude: c.longitude,
+        distanceKm:
+          near && placed
+            ? Math.round(distanceKm(near, { latitude: c.latitude!, longitude: c.longitude! }) * 10) / 10
+            : null,
       };
     })
-    .filter(r => r.daysSince >= days);
+    .filter(r => r.daysSince >= days)
+    .filter(r => !withinKm || (r.distanceKm != null && r.distanceKm <= withinKm));
 
   // Stable sort: most overdue first, then salon
   rows.sort((a, b) => {
@@ -134,14 +171,18 @@ export async function GET(req: Request) {
     return NextResponse.json({
       asOf: new Date().toISOString(),
       days,
+      health,
+      tags: tags ?? [],
+      fields: fields ?? [],
+      near,
+      withinKm: withinKm || null,
       total: rows.length,
       rows,
     });
   }
 
   // ---------- CSV (when requested) ----------
-  const header = ["Salon Name", "Customer Name", "Sales Rep", "Last Order", "Days Since"];
-  const lines: string[] = [header.join(",")];
+  const lines: string[] = [csvHeader(!!near).join(",")];
 
   for (const r of rows) {
     const lastOut = r.lastOrderAt ? ymd(r.lastOrderAt) : "Never";
@@ -153,6 +194,12 @@ export async function GET(req: Request) {
       csvEscape(r.salesRep ?? ""),
       csvEscape(lastOut),
       csvEscape(daysOut),
+      csvEscape(r.healthScore ?? ""),
+      csvEscape(r.tags.join(", ")),
+      csvEscape(r.postCode ?? ""),
+      csvEscape(r.latitude ?? ""),
+      csvEscape(r.longitude ?? ""),
+      ...(near ? [csvEscape(r.distanceKm ?? "")] : []),
     ].join(","));
   }
 
@@ -54,6 +54,12 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: "Missing customerId or brand" }, { status: 400 });
     }
 
+    // Raw SQL below bypasses row scoping: confirm the customer is visible first
+    const visible = await prisma.customer.findFirst({ where: { id: customerId }, select: { id: true } });
+    if (!visible) {
+      return NextResponse.json({ error: "Customer not found" }, { status: 404 });
+    }
+
     const { start, end, monthsEq } = computeWindow(timeframe);
 
     // --- Variant-aware, grouped by SKU (uses variantTitle when present) ---
@@ -0,0 +1,45 @@
+// app/api/reports/pipeline-funnel/route.ts
+import { NextResponse } from "next/server";
+import { formatCsv } from "@/lib/csv";
+import { pipelineFunnelCsvRows, pipelineFunnelReport } from "@/lib/pipelineReport";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function parseDay(s: string | null): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec((s ?? "").trim());
+  if (!m) return null;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * GET ?from=yyyy-mm-dd&to=yyyy-mm-dd&rep=<name>&format=csv — funnel for customers
+ * created in the range (inclusive; defaults to the last 12 months), overall, per
+ * rep and per month created. See lib/pipelineReport.ts.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const now = new Date();
+  const to = parseDay(searchParams.get("to")) ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const from = parseDay(searchParams.get("from")) ?? new Date(Date.UTC(to.getUTCFullYear() - 1, to.getUTCMonth() + 1, 1));
+  if (from > to) return NextResponse.json({ error: "from must be on or before to" }, { status: 400 });
+  const rep = (searchParams.get("rep") || "").trim() || null;
+
+  try {
+    const report = await pipelineFunnelReport({ from, to: new Date(to.getTime() + 86_400_000), rep });
+    if ((searchParams.get("format") || "").toLowerCase() !== "csv") return NextResponse.json(report);
+
+    const repPart = rep ? `_${rep.replace(/\s+/g, "-")}` : "";
+    return new NextResponse(formatCsv(pipelineFunnelCsvRows(report)), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="pipeline-funnel_${report.range.from}_to_${report.range.to}${repPart}.csv"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e) {
+    console.error("[reports] pipeline funnel failed:", e);
+    return NextResponse.json({ error: "Could not build the report" }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 // app/api/reports/vendor-scorecard/route.ts
 import { NextResponse } from "next/server";
-import { prisma } from "@/lib/prisma";
+import { prisma, getDataScope } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
+import { customerScopeSql } from "@/lib/scope";
 
 export const dynamic = "force-dynamic";
 
@@ -77,10 +78,12 @@ export async function GET(req: Request) {
     });
   }
 
-  const repClause =
+  const repFilter =
     reps.length > 0
       ? Prisma.sql`AND c."salesRep" IN (${Prisma.join(reps)})`
       : Prisma.sql``;
+  // Raw SQL bypasses the client's row scoping, so apply it here
+  const repClause = Prisma.sql`${repFilter} ${customerScopeSql(await getDataScope(), "c")}`;
 
   // ---------- Current period (revenue, orders, customers) ----------
   const currRows = await prisma.$queryRaw<
@@ -1,6 +1,7 @@
 // app/api/reports/vendor-spend/route.ts
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { csvEscape } from "@/lib/csv";
 
 export const dynamic = "force-dynamic";
 
@@ -57,10 +58,6 @@ function normVendor(input: string): string {
 }
 
 /* CSV helpers */
-function csvEscape(s: any): string {
-  const raw = s == null ? "" : String(s);
-  return /[",\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw;
-}
 function wantsCSV(req: Request, sp: URLSearchParams) {
   if ((sp.get("format") || "").toLowerCase() === "csv") return true;
   if (sp.get("csv") === "1") return true;
@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import type { Prisma } from "@prisma/client";
+import { nearestNeighbourOrder, parseLatLng } from "@/lib/geocode";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -123,6 +124,8 @@ export async function GET(req: Request) {
       county: true,
       postCode: true,
       country: true,
+      latitude: true,
+      longitude: true,
       customerEmailAddress: true,
       customerNumber: true,
       salesRep: true,
@@ -151,5 +154,10 @@ export async function GET(req: Request) {
           return daysOpenFilter.some(d => csv.has(d) || oh.has(d));
         });
 
+  // A day's route (or ?order=route) is put in driving order by geocoded position,
+  // starting from ?from=lat,lng when given; otherwise it stays in postcode order.
+  if (day || searchParams.get("order") === "route") {
+    return NextResponse.json(nearestNeighbourOrder(filtered, parseLatLng(searchParams.get("from"))));
+  }
   return NextResponse.json(filtered);
 }
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { orderByIds, searchCustomers } from "@/lib/customerSearch";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -8,37 +9,31 @@ export async function GET(req: Request) {
   try {
     const { searchParams } = new URL(req.url);
     const q = (searchParams.get("q") || "").trim();
-    const take = Math.min(parseInt(searchParams.get("limit") || "10", 10), 50);
+    const take = Math.min(parseInt(searchParams.get("limit") || "10", 10) || 10, 50);
 
     if (!q || q.length < 2) {
       return NextResponse.json({ results: [] });
     }
 
+    const ids = (await searchCustomers(q, { take })).map((h) => h.id);
     const results = await prisma.customer.findMany({
-      where: {
-        OR: [
-          { salonName: { contains: q, mode: "insensitive" } },
-          { customerName: { contains: q, mode: "insensitive" } },
-          { customerEmailAddress: { contains: q, mode: "insensitive" } },
-          { postCode: { contains: q, mode: "insensitive" } },
-          { town: { contains: q, mode: "insensitive" } },
-        ],
-      },
+      where: { id: { in: ids } },
       select: {
         id: true,
         salonName: true,
         customerName: true,
+        addressLine1: true,
+        addressLine2: true,
         town: true,
+        county: true,
         postCode: true,
       },
-      take,
-      orderBy: { updatedAt: "desc" },
     });
 
-    const shaped = results.map((c) => {
+    const shaped = orderByIds(results, ids).map((c) => {
       const name = c.salonName || c.customerName || "Unnamed";
       const extra = [c.town, c.postCode].filter(Boolean).join(" · ");
-      return { id: c.id, name, extra };
+      return { ...c, name, extra };
     });
 
     return NextResponse.json({ results: shaped });
@@ -0,0 +1,91 @@
+// app/api/settings/account/mfa/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentUser } from "@/lib/auth";
+import { writeAudit } from "@/lib/audit";
+import {
+  beginEnrolment,
+  confirmEnrolment,
+  disableMfa,
+  mfaRequiredForRole,
+  regenerateRecoveryCodes,
+  verifySecondFactor,
+} from "@/lib/mfa";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET — my two-factor status */
+export async function GET() {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const u = await prisma.user.findUnique({
+    where: { id: me.id },
+    select: { totpEnabledAt: true, totpRecoveryCodes: true },
+  });
+
+  return NextResponse.json({
+    enabled: !!u?.totpEnabledAt,
+    enabledAt: u?.totpEnabledAt ?? null,
+    required: mfaRequiredForRole(me.role),
+    recoveryCodesLeft: u?.totpRecoveryCodes.length ?? 0,
+  });
+}
+
+/**
+ * POST { action }
+ *  - "start": new pending secret + QR code
+ *  - "confirm" { code }: enable with a code from the pending secret, returns recovery codes
+ *  - "regenerate" { code }: replace recovery codes (needs a current code)
+ */
+export async function POST(req: Request) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = await req.json().catch(() => ({}));
+  const action = String(body?.action || "");
+  const code = String(body?.code || "").trim();
+
+  if (action === "start") {
+    const setup = await beginEnrolment(me.id, me.email);
+    return NextResponse.json({ ok: true, ...setup });
+  }
+
+  if (action === "confirm") {
+    if (!code) return NextResponse.json({ error: "Code required" }, { status: 400 });
+    const recoveryCodes = await confirmEnrolment(me.id, code);
+    if (!recoveryCodes) return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    await writeAudit({ userId: me.id, action: "mfa.enable" });
+    return NextResponse.json({ ok: true, recoveryCodes });
+  }
+
+  if (action === "regenerate") {
+    if (!(await verifySecondFactor(me.id, code))) {
+      return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+    }
+    const recoveryCodes = await regenerateRecoveryCodes(me.id);
+    await writeAudit({ userId: me.id, action: "mfa.recovery_codes.regenerate" });
+    return NextResponse.json({ ok: true, recoveryCodes });
+  }
+
+  return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+}
+
+/** DELETE { code } — turn two-factor off (not allowed for roles that require it) */
+export async function DELETE(req: Request) {
+  const me = await getCurrentUser();
+  if (!me) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  if (mfaRequiredForRole(me.role)) {
+    return NextResponse.json({ error: `Two-factor is required for ${me.role} accounts` }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  if (!(await verifySecondFactor(me.id, String(body?.code || "").trim()))) {
+    return NextResponse.json({ error: "Invalid code" }, { status: 400 });
+  }
+
+  await disableMfa(me.id);
+  await writeAudit({ userId: me.id, action: "mfa.disable" });
+  return NextResponse.json({ ok: true });
+}
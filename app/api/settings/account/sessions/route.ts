@@ -0,0 +1,43 @@
+// app/api/settings/account/sessions/route.ts
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { getCurrentSession, revokeSession, revokeAllSessions } from "@/lib/auth";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** GET — my signed-in devices (live sessions only) */
+export async function GET() {
+  const current = await getCurrentSession();
+  if (!current) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const rows = await prisma.session.findMany({
+    where: { userId: current.user.id, revokedAt: null, expiresAt: { gt: new Date() } },
+    orderBy: { lastSeenAt: "desc" },
+    select: { id: true, createdAt: true, lastSeenAt: true, expiresAt: true, userAgent: true, ip: true },
+  });
+
+  return NextResponse.json({
+    sessions: rows.map((s) => ({ ...s, current: s.id === current.sessionId })),
+  });
+}
+
+/** DELETE ?id=… revokes one device; ?others=1 revokes every device except this one */
+export async function DELETE(req: Request) {
+  const current = await getCurrentSession();
+  if (!current) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const sp = new URL(req.url).searchParams;
+  if (sp.get("others") === "1") {
+    const revoked = await revokeAllSessions(current.user.id, current.sessionId);
+    return NextResponse.json({ ok: true, revoked });
+  }
+
+  const id = sp.get("id");
+  if (!id) return NextResponse.json({ error: "id required" }, { status: 400 });
+
+  // scoped to my own sessions
+  const revoked = await revokeSession(id, current.user.id);
+  if (!revoked) return NextResponse.json({ error: "Session not found" }, { status: 404 });
+  return NextResponse.json({ ok: true, revoked });
+}
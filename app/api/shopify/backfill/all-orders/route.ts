@@ -1,6 +1,7 @@
 // app/api/shopify/backfill/all-orders/route.ts
 import { NextResponse } from "next/server";
 import { shopifyRest, upsertCustomerFromShopify, upsertOrderFromShopify } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -99,5 +100,6 @@ export async function POST(req: Request) {
     }
   }
 
+  await auditBackfill("shopify-all-orders", { imported, nextPageInfo: nextPageInfo ?? null });
   return NextResponse.json({ imported, nextPageInfo });
 }
@@ -1,14 +1,14 @@
 // app/api/shopify/backfill/customers/route.ts
 import { NextResponse } from "next/server";
 import { shopifyRest, upsertCustomerFromShopify } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
+import { requireApiScope } from "@/lib/apiKeys";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(req: Request) {
-  const auth = req.headers.get("authorization");
-  if (auth !== `Bearer ${process.env.SYNC_ADMIN_TOKEN}`) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
+  const denied = await requireApiScope(req, "backfill:shopify");
+  if (denied) return denied;
 
   const url = new URL(req.url);
   const pageInfo = url.searchParams.get("page_info");
@@ -27,5 +27,6 @@ export async function POST(req: Request) {
   const match = link.match(/<[^>]*page_info=([^>]+)>;\s*rel="next"/i);
   const nextPageInfo = match ? match[1] : null;
 
+  await auditBackfill("shopify-customers", { imported: (json.customers || []).length, nextPageInfo: nextPageInfo ?? null });
   return NextResponse.json({ imported: (json.customers || []).length, nextPageInfo });
 }
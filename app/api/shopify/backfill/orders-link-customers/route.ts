@@ -2,6 +2,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest, upsertCustomerFromShopify } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -64,7 +65,7 @@ export async function POST(req: Request) {
 
       // Find the CRM customer
       const crmCust = await prisma.customer.findFirst({
-        where: { shopifyCustomerId: sCustId },
+        where: { OR: [{ shopifyCustomerId: sCustId }, { mergedShopifyCustomerIds: { has: sCustId } }] },
         select: { id: true },
       });
 
@@ -95,6 +96,7 @@ export async function POST(req: Request) {
     },
   });
 
+  await auditBackfill("shopify-orders-link-customers", { processed, linked, skipped, remaining });
   return NextResponse.json({ ok: true, processed, linked, skipped, remaining, rpm });
 }
 
@@ -1,14 +1,14 @@
 // app/api/shopify/backfill/orders/route.ts
 import { NextResponse } from "next/server";
 import { shopifyRest, upsertOrderFromShopify } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
+import { requireApiScope } from "@/lib/apiKeys";
 
 export const dynamic = "force-dynamic";
 
 export async function POST(req: Request) {
-  const auth = req.headers.get("authorization");
-  if (auth !== `Bearer ${process.env.SYNC_ADMIN_TOKEN}`) {
-    return new NextResponse("Unauthorized", { status: 401 });
-  }
+  const denied = await requireApiScope(req, "backfill:shopify");
+  if (denied) return denied;
 
   const url = new URL(req.url);
   const pageInfo = url.searchParams.get("page_info");
@@ -29,5 +29,6 @@ export async function POST(req: Request) {
   const match = link.match(/<[^>]*page_info=([^>]+)>;\s*rel="next"/i);
   const nextPageInfo = match ? match[1] : null;
 
+  await auditBackfill("shopify-orders", { imported: (json.orders || []).length, nextPageInfo: nextPageInfo ?? null });
   return NextResponse.json({ imported: (json.orders || []).length, nextPageInfo });
 }
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest } from "@/lib/shopify";
+import { auditBackfill } from "@/lib/audit";
 
 export const dynamic = "force-dynamic";
 
@@ -84,6 +85,7 @@ export async function POST(req: Request) {
     await sleep(delayMs);
   }
 
+  await auditBackfill("shopify-vendors", { productIds: groups.length, lookedUp, updated, skipped, missingCount });
   return NextResponse.json({
     productIds: groups.length, lookedUp, updated, skipped, missingCount,
   });
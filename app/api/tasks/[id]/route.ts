@@ -0,0 +1,30 @@
+// app/api/tasks/[id]/route.ts
+import { NextResponse } from "next/server";
+import { deleteTask, TaskError, updateTask } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/** PATCH { title?, notes?, dueAt?, priority?, assigneeRepId?, status? } */
+export async function PATCH(req: Request, { params }: { params: { id: string } }) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    const task = await updateTask(params.id, body);
+    if (!task) return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    return NextResponse.json({ task });
+  } catch (e) {
+    if (e instanceof TaskError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[tasks] update failed:", e);
+    return NextResponse.json({ error: "Could not save the task" }, { status: 500 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    if (!(await deleteTask(params.id))) return NextResponse.json({ error: "Task not found" }, { status: 404 });
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("[tasks] delete failed:", e);
+    return NextResponse.json({ error: "Could not delete the task" }, { status: 500 });
+  }
+}
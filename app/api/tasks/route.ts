@@ -0,0 +1,48 @@
+// app/api/tasks/route.ts
+import { NextResponse } from "next/server";
+import { currentActorId } from "@/lib/auditTrail";
+import { createTask, listTasks, parseTaskStatus, repIdOfUser, TaskError } from "@/lib/tasks";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET ?assignee=me|none|<repId>&status=OPEN|DONE|CANCELLED|ALL&customerId=&overdue=1
+ * — tasks within the caller's data scope, soonest due first. "me" is the rep linked
+ * to the signed-in user; `myRepId` is returned so the page can offer it.
+ */
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const status = parseTaskStatus(searchParams.get("status") || "OPEN");
+  if (!status) return NextResponse.json({ error: "Unknown status" }, { status: 400 });
+
+  const myRepId = await repIdOfUser(currentActorId());
+  let assignee = (searchParams.get("assignee") || "").trim() || null;
+  if (assignee === "me") assignee = myRepId ?? "none";
+
+  try {
+    const tasks = await listTasks({
+      assigneeRepId: assignee,
+      status,
+      customerId: searchParams.get("customerId"),
+      overdue: searchParams.get("overdue") === "1",
+      take: Number(searchParams.get("take")) || undefined,
+    });
+    return NextResponse.json({ tasks, myRepId });
+  } catch (e) {
+    console.error("[tasks] list failed:", e);
+    return NextResponse.json({ error: "Could not load tasks" }, { status: 500 });
+  }
+}
+
+/** POST { title, notes?, dueAt?, priority?, assigneeRepId?, customerId? } */
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => ({}));
+  try {
+    return NextResponse.json({ task: await createTask(body) }, { status: 201 });
+  } catch (e) {
+    if (e instanceof TaskError) return NextResponse.json({ error: e.message }, { status: 400 });
+    console.error("[tasks] create failed:", e);
+    return NextResponse.json({ error: "Could not create the task" }, { status: 500 });
+  }
+}
@@ -7,6 +7,8 @@ import { prisma } from "@/lib/prisma";
 import { Role, Permission } from "@prisma/client";
 import bcrypt from "bcryptjs";
 import { getCurrentUser } from "@/lib/auth";
+import { appOrigin, AuthLinkError, issueAuthToken, sendInviteEmail, unusablePasswordHash } from "@/lib/authTokens";
+import { writeAudit } from "@/lib/audit";
 
 /* ----------------------- helpers ----------------------- */
 async function requireAdmin() {
@@ -52,6 +54,7 @@ export async function GET() {
       phone: true,
       role: true,
       isActive: true,
+      lockedUntil: true,
       overrides: { select: { perm: true } },
     },
   });
@@ -72,6 +75,8 @@ export async function POST(req: Request) {
   const phone = phoneRaw || null;
   const password = String(body.password || "");
   const confirm = body.confirm != null ? String(body.confirm) : undefined;
+  // invite: the user picks their own password from an emailed link
+  const invite = body.invite === true || body.invite === "true" || body.invite === "1";
 
   // Map incoming role to Prisma enum. Legacy "USER" -> REP by default.
   const roleInput = String(body.role || "USER").toUpperCase();
@@ -98,24 +103,36 @@ export async function POST(req: Request) {
     )
   ) as Permission[];
 
-  if (!fullName || !email || !password) {
+  if (!fullName || !email || (!invite && !password)) {
     return NextResponse.json(
-      { error: "fullName, email and password are required" },
+      { error: invite ? "fullName and email are required" : "fullName, email and password are required" },
       { status: 400 }
     );
   }
-  if (password.length < 8) {
+  if (!invite && password.length < 8) {
     return NextResponse.json(
       { error: "Password must be at least 8 characters" },
       { status: 400 }
     );
   }
-  if (typeof confirm === "string" && confirm !== password) {
+  if (!invite && typeof confirm === "string" && confirm !== password) {
     return NextResponse.json({ error: "Passwords do not match" }, { status: 400 });
   }
 
+  // checked before creating the user, so a missing APP_URL doesn't leave an
+  // invited account nobody can get into
+  let origin = "";
+  if (invite) {
+    try {
+      origin = appOrigin();
+    } catch (e) {
+      if (e instanceof AuthLinkError) return NextResponse.json({ error: e.message }, { status: 500 });
+      throw e;
+    }
+  }
+
   try {
-    const passwordHash = await bcrypt.hash(password, 10);
+    const passwordHash = invite ? await unusablePasswordHash() : await bcrypt.hash(password, 10);
 
     const created = await prisma.user.create({
       data: {
@@ -143,7 +160,28 @@ export async function POST(req: Request) {
       },
     });
 
-    return NextResponse.json({ user: created }, { status: 201 });
+    if (!invite) return NextResponse.json({ user: created }, { status: 201 });
+
+    const { token } = await issueAuthToken(created.id, "INVITE", guard.adminId);
+    let emailed = true;
+    try {
+      await sendInviteEmail(created, token, origin);
+    } catch (e) {
+      console.error("[users] invite mail failed", e);
+      emailed = false;
+    }
+    await writeAudit({
+      userId: guard.adminId,
+      action: "invite.sent",
+      entityType: "User",
+      entityId: created.id,
+      details: { targetUserId: created.id, targetEmail: created.email, emailed },
+    });
+
+    return NextResponse.json(
+      { user: created, invited: true, emailed, inviteUrl: `${origin}/reset/${token}` },
+      { status: 201 }
+    );
   } catch (e: any) {
     const msg = String(e?.message || "Create failed");
     if (msg.toLowerCase().includes("unique") && msg.toLowerCase().includes("email")) {
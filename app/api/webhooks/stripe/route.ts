@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import Stripe from "stripe";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest, shopifyGraphql, upsertOrderFromShopify } from "@/lib/shopify";
+import { auditPaymentLinkPaid } from "@/lib/audit";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -298,6 +299,8 @@ export async function POST(req: Request) {
           await createPaidShopifyOrderFromSession(s); // fallback: non-draft “Pay by card”
         }
         await disablePaymentLinkIfPresent(s);
+        const linkId = typeof s.payment_link === "string" ? s.payment_link : s.payment_link?.id;
+        if (linkId) await auditPaymentLinkPaid(linkId, { amountPence: s.amount_total, currency: s.currency, sessionId: s.id });
       }
     }
 
@@ -2,6 +2,8 @@
 import Link from "next/link";
 import { prisma } from "@/lib/prisma";
 import { formatDateTimeUK } from "@/lib/dates";
+import { CONTACT_ROLE_LABELS } from "@/lib/contacts";
+import type { ContactRole } from "@prisma/client";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -37,6 +39,7 @@ async function getCallWithFallback(id: string) {
       where: { id },
       include: {
         customer: { select: { salonName: true, customerName: true } },
+        contact: { select: { name: true, role: true, phone: true, email: true } },
       },
     });
     return { call, degraded: false };
@@ -170,14 +173,23 @@ export default async function CallLogViewPage({ params }: { params: { id: string
             <p className="small" style={{ marginTop: 6 }}>{fmt((call as any).followUpAt)}</p>
           </div>
 
+          {(call as any).contact && (
+            <div>
+              <b>Spoke To</b>
+              <p className="small" style={{ marginTop: 6 }}>
+                {(call as any).contact.name} ({CONTACT_ROLE_LABELS[(call as any).contact.role as ContactRole]})
+              </p>
+            </div>
+          )}
+
           <div>
             <b>Contact Phone</b>
-            <p className="small" style={{ marginTop: 6 }}>{(call as any).contactPhone || "—"}</p>
+            <p className="small" style={{ marginTop: 6 }}>{(call as any).contactPhone || (call as any).contact?.phone || "—"}</p>
           </div>
 
           <div>
             <b>Contact Email</b>
-            <p className="small" style={{ marginTop: 6 }}>{(call as any).contactEmail || "—"}</p>
+            <p className="small" style={{ marginTop: 6 }}>{(call as any).contactEmail || (call as any).contact?.email || "—"}</p>
           </div>
 
           <div style={{ gridColumn: "1 / -1" }}>
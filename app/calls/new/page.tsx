@@ -2,6 +2,9 @@
 "use client";
 
 import { useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_PIPELINE_OPTIONS, STAGES, type PipelineOptions } from "@/lib/pipeline";
+import { formFields, newIdempotencyKey, queueCall } from "@/lib/offlineCalls";
+import OfflineCallQueue from "@/components/OfflineCallQueue";
 
 /* Types */
 type Rep = { id: string; name: string };
@@ -18,6 +21,8 @@ type CustomerHit = {
   customerEmailAddress?: string | null;
 };
 type BrandOpt = { id: string; name: string };
+type ContactOpt = { id: string; name: string; role: string; phone: string | null; isPrimary: boolean };
+type OpenTask = { id: string; title: string; dueAt: string | null; assigneeRep: { name: string } | null };
 
 /* Helpers */
 function fmtCustomerLine(c?: CustomerHit | null) {
@@ -101,6 +106,16 @@ export default function NewCallPage() {
       .catch(() => setReps([]));
   }, []);
 
+  /* Outcomes, call types and next steps (managed in Global Settings) */
+  const [options, setOptions] = useState<PipelineOptions>(DEFAULT_PIPELINE_OPTIONS);
+  useEffect(() => {
+    fetch("/api/pipeline-options", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => j?.options && setOptions(j.options))
+      .catch(() => {});
+  }, []);
+  const offered = (kind: keyof PipelineOptions) => options[kind].filter((o) => o.active);
+
   /* URL param pre-fill (customerId, callType, educationRequestId) */
   const [initCallType, setInitCallType] = useState("");
   const [educationRequestId, setEducationRequestId] = useState("");
@@ -203,6 +218,34 @@ export default function NewCallPage() {
     };
   }, [custTerm, isExisting]);
 
+  /* Contacts of the picked customer ("spoke to") */
+  const [contacts, setContacts] = useState<ContactOpt[]>([]);
+  const [contactId, setContactId] = useState("");
+  useEffect(() => {
+    setContacts([]);
+    setContactId("");
+    if (!custSelected?.id) return;
+    fetch(`/api/customers/${custSelected.id}/contacts`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : { contacts: [] }))
+      .then((j) => {
+        const list: ContactOpt[] = Array.isArray(j?.contacts) ? j.contacts : [];
+        setContacts(list);
+        setContactId(list.find((c) => c.isPrimary)?.id ?? "");
+      })
+      .catch(() => {});
+  }, [custSelected?.id]);
+
+  /* Open tasks of the picked customer, offered for closing with this call */
+  const [openTasks, setOpenTasks] = useState<OpenTask[]>([]);
+  useEffect(() => {
+    setOpenTasks([]);
+    if (!custSelected?.id) return;
+    fetch(`/api/tasks?customerId=${encodeURIComponent(custSelected.id)}&status=OPEN`, { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : { tasks: [] }))
+      .then((j) => setOpenTasks(Array.isArray(j?.tasks) ? j.tasks : []))
+      .catch(() => {});
+  }, [custSelected?.id]);
+
   function handlePickCustomer(c: CustomerHit) {
     setCustSelected(c);
     setCustTerm(fmtCustomerLine(c));
@@ -306,6 +349,10 @@ export default function NewCallPage() {
   /* Submission state */
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // one key per form: a resend of this call (retry, offline queue) can't duplicate it
+  const [idemKey] = useState(newIdempotencyKey);
+  const [queued, setQueued] = useState(false);
+  const [queueVersion, setQueueVersion] = useState(0);
 
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
@@ -361,15 +408,37 @@ export default function NewCallPage() {
     if (fDate && fTime) fd.set("followUpAt", `${fDate}T${fTime}`);
     fd.delete("followUpTime");
 
+    // Ticked open tasks travel as one comma-separated field
+    const closeTaskIds = fd.getAll("closeTaskIds").map(String);
+    fd.delete("closeTaskIds");
+    if (closeTaskIds.length) fd.set("closeTaskIds", closeTaskIds.join(","));
+
     // Add geo fields
     fd.set("latitude", String(lat));
     fd.set("longitude", String(lng));
     if (acc != null) fd.set("accuracyM", String(Math.round(acc)));
     if (geoTs) fd.set("geoCollectedAt", geoTs);
 
+    fd.set("idempotencyKey", idemKey);
+
+    // No signal: keep the call on this device and send it later (lib/offlineCalls.ts)
+    const label = existing ? fmtCustomerLine(custSelected) : String(fd.get("customer") || "").trim();
+    const saveOffline = async () => {
+      await queueCall(idemKey, formFields(fd), label || "Call");
+      setQueued(true);
+      setQueueVersion((v) => v + 1);
+    };
+
     try {
       setSubmitting(true);
-      const res = await fetch("/api/calls", { method: "POST", body: fd });
+      if (!navigator.onLine) return await saveOffline();
+      let res: Response;
+      try {
+        res = await fetch("/api/calls", { method: "POST", body: fd, headers: { "Idempotency-Key": idemKey } });
+      } catch {
+        return await saveOffline();
+      }
+      if ([502, 503, 504].includes(res.status)) return await saveOffline();
       const json = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error((json as any)?.error || "Failed to save call");
       if ((json as any).redirectTo) window.location.href = (json as any).redirectTo;
@@ -482,6 +551,7 @@ export default function NewCallPage() {
       />
       {/* Hidden values server can use */}
       <input type="hidden" name="customerId" value={custSelected?.id || ""} />
+      <input type="hidden" name="contactId" value={contactId} />
       <input type="hidden" name="educationRequestId" value={educationRequestId} />
       <input type="hidden" name="customerResolved" value={fmtCustomerLine(custSelected) || ""} />
 
@@ -556,6 +626,19 @@ export default function NewCallPage() {
             {custSelected.customerEmailAddress ? ` • ${custSelected.customerEmailAddress}` : ""}
           </div>
           <div className="small muted" style={{ marginTop: 2 }}>{addressLines(custSelected).join(", ") || "-"}</div>
+          {contacts.length > 0 && (
+            <div className="row" style={{ gap: 8, alignItems: "center", marginTop: 8 }}>
+              <span className="small">Spoke to</span>
+              <select value={contactId} onChange={(e) => setContactId(e.target.value)} style={{ flex: 1 }}>
+                <option value="">— Not recorded —</option>
+                {contacts.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name} ({c.role.charAt(0) + c.role.slice(1).toLowerCase()}){c.phone ? ` • ${c.phone}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
           <div className="right" style={{ marginTop: 8 }}>
             <button type="button" className="btn" onClick={clearPickedCustomer}>
               Change
@@ -575,17 +658,9 @@ export default function NewCallPage() {
         <option value="" disabled>
           — Select —
         </option>
-        <option>Not Available</option>
-        <option>Left Details / Business Card</option>
-        <option>No Interest</option>
-        <option>Interested - Follow-up Booked</option>
-        <option>Interested - Callback Requested</option>
-        <option>Sample Requested</option>
-        <option>Sample Reviewed - Positive</option>
-        <option>Sample Reviewed - Negative</option>
-        <option>Order Placed</option>
-        <option>No Sale</option>
-        <option>Education Requested</option>
+        {offered("OUTCOME").map((o) => (
+          <option key={o.label}>{o.label}</option>
+        ))}
       </select>
       <div className="form-hint">Pipeline stage updates automatically based on this outcome.</div>
     </div>
@@ -596,12 +671,9 @@ export default function NewCallPage() {
       <label>Next Step</label>
       <select name="nextStep" defaultValue="">
         <option value="">— None —</option>
-        <option>Book Follow-up Call</option>
-        <option>Book Sample Review</option>
-        <option>Send Samples</option>
-        <option>Send Payment Link / Close Sale</option>
-        <option>No Further Action</option>
-        <option>Escalate to Manager</option>
+        {offered("NEXT_STEP").map((o) => (
+          <option key={o.label}>{o.label}</option>
+        ))}
       </select>
     </div>
   );
@@ -611,11 +683,11 @@ export default function NewCallPage() {
       <label>Customer Stage</label>
       <select name="stage" defaultValue="">
         <option value="">— Auto (recommended) —</option>
-        <option value="LEAD">Lead</option>
-        <option value="ENGAGED">Engaged</option>
-        <option value="APPOINTMENT_BOOKED">Appointment booked</option>
-        <option value="SAMPLING">Sampling</option>
-        <option value="CUSTOMER">Customer</option>
+        {STAGES.map((st) => (
+          <option key={st.value} value={st.value}>
+            {st.label}
+          </option>
+        ))}
       </select>
       <div className="form-hint">
         Leave on Auto to let the outcome decide. Only override if you need to set it manually.
@@ -631,13 +703,14 @@ const BlockCallType = (
         — Select —
       </option>
 
-      <option value="Cold Call">Cold Call</option>
-      <option value="1st Booked Call">1st Booked Call</option>
-      <option value="Booked Call">Booked Call</option>
-      <option value="Sample Review">Sample Review</option>
-      <option value="Demo">Demo</option>
-      <option value="Account Manage">Account Manage</option>
-      <option value="Education Visit">Education Visit</option>
+      {offered("CALL_TYPE").map((o) => (
+        <option key={o.label} value={o.label}>
+          {o.label}
+        </option>
+      ))}
+      {initCallType && !offered("CALL_TYPE").some((o) => o.label === initCallType) && (
+        <option value={initCallType}>{initCallType}</option>
+      )}
     </select>
   </div>
 );
@@ -715,11 +788,37 @@ const BlockCallType = (
           <input type="date" name="followUpAt" />
           <input type="time" name="followUpTime" />
         </div>
-        <div className="form-hint">If both are set, we’ll create a 30-minute calendar event.</div>
+        <div className="form-hint">
+          If both are set, we’ll create a 30-minute calendar event and a task in My Tasks.
+        </div>
       </div>
     </div>
   );
 
+  const BlockOpenTasks = isExisting && openTasks.length > 0 && (
+    <div className="field">
+      <label>Open tasks for this customer</label>
+      <div className="grid" style={{ gap: 6, gridTemplateColumns: "1fr" }}>
+        {openTasks.map((t) => {
+          const overdue = !!t.dueAt && new Date(t.dueAt) < new Date();
+          return (
+            <label key={t.id} className="row" style={{ gap: 8, alignItems: "center" }}>
+              <input type="checkbox" name="closeTaskIds" value={t.id} />
+              <span>
+                {t.title}
+                <span className="small" style={{ color: overdue ? "#dc2626" : "var(--muted)" }}>
+                  {t.dueAt ? ` • due ${new Date(t.dueAt).toLocaleDateString()}` : ""}
+                  {t.assigneeRep ? ` • ${t.assigneeRep.name}` : ""}
+                </span>
+              </span>
+            </label>
+          );
+        })}
+      </div>
+      <div className="form-hint">Tick any this call takes care of and they’ll be marked done.</div>
+    </div>
+  );
+
   const BlockStockedBrands = (
     <div className="field">
       <label>What brands did you discuss? (Stocked Brands)</label>
@@ -774,80 +873,96 @@ const BlockCallType = (
         <span className="small muted">Timestamp: {timestamp}</span>
       </section>
 
-      <form onSubmit={onSubmit} className="card grid" style={{ gap: 12 }}>
-        {!isMobile ? (
-          <>
-            {/* Desktop/tablet layout (unchanged except call type under Rep) */}
-            {BlockLocation}
+      <OfflineCallQueue refreshKey={queueVersion} />
+
+      {queued && (
+        <section className="card">
+          <div style={{ fontWeight: 600 }}>Call saved on this device</div>
+          <p className="small">
+            It’ll be sent to the CRM automatically when you’re back online, with the location and time captured now.
+          </p>
+          <a className="btn small" href="/calls/new">Log another call</a>
+        </section>
+      )}
 
-            <div className="grid grid-2">
+      {!queued && (
+        <form onSubmit={onSubmit} className="card grid" style={{ gap: 12 }}>
+          {!isMobile ? (
+            <>
+              {/* Desktop/tablet layout (unchanged except call type under Rep) */}
+              {BlockLocation}
+
+              <div className="grid grid-2">
+                {BlockExistingToggle}
+                {BlockSalesRep}
+              </div>
+
+              {/* Call type directly under Sales Rep */}
+              <div className="grid grid-2">
+                <div />
+                {BlockCallType}
+              </div>
+
+              <div className="grid grid-2">
+                {BlockCustomer}
+                {BlockOutcome}
+                {BlockNextStep}
+              </div>
+
+              {BlockStage}
+              {BlockTimes}
+              {BlockDuration}
+              {BlockFollowUp}
+              {BlockOpenTasks}
+              {BlockStockedBrands}
+              {BlockCompetitorBrands}
+              {BlockSummary}
+            </>
+          ) : (
+            <>
+              {/* Mobile layout - existing toggle first */}
               {BlockExistingToggle}
+              {BlockCustomer}
               {BlockSalesRep}
-            </div>
-
-            {/* Call type directly under Sales Rep */}
-            <div className="grid grid-2">
-              <div />
+              {BlockStage}
               {BlockCallType}
-            </div>
-
-            <div className="grid grid-2">
-              {BlockCustomer}
               {BlockOutcome}
-              {BlockNextStep}
-            </div>
-
-            {BlockStage}
-            {BlockTimes}
-            {BlockDuration}
-            {BlockFollowUp}
-            {BlockStockedBrands}
-            {BlockCompetitorBrands}
-            {BlockSummary}
-          </>
-        ) : (
-          <>
-            {/* Mobile layout - existing toggle first */}
-            {BlockExistingToggle}
-            {BlockCustomer}
-            {BlockSalesRep}
-            {BlockStage}
-            {BlockCallType}
-            {BlockOutcome}
-            {BlockLocation}
-            {BlockTimes}
-            {BlockDuration}
-            {BlockFollowUp}
-            {BlockStockedBrands}
-            {BlockCompetitorBrands}
-            {BlockSummary}
-          </>
-        )}
-
-        {error && <div className="form-error">{error}</div>}
+              {BlockLocation}
+              {BlockTimes}
+              {BlockDuration}
+              {BlockFollowUp}
+              {BlockOpenTasks}
+              {BlockStockedBrands}
+              {BlockCompetitorBrands}
+              {BlockSummary}
+            </>
+          )}
 
-        <div
-          className="row"
-          style={{
-            gap: 8,
-            justifyContent: "flex-end",
-            position: isMobile ? "sticky" : "static",
-            bottom: isMobile ? 0 : "auto",
-            background: isMobile ? "#fff" : "transparent",
-            padding: isMobile ? "12px 0" : 0,
-            marginTop: isMobile ? 8 : 0,
-            borderTop: isMobile ? "1px solid var(--border)" : "none",
-            zIndex: 10,
-          }}
-        >
-          <a href="/" className="btn" style={{ background: "#f3f4f6", flex: isMobile ? 1 : "none", textAlign: "center" }}>
-            Cancel
-          </a>
-          <button className="primary" type="submit" disabled={submitting} style={{ flex: isMobile ? 2 : "none" }}>
-            {submitting ? "Saving…" : "Save Call"}
-          </button>
-        </div>
-      </form>
+          {error && <div className="form-error">{error}</div>}
+
+          <div
+            className="row"
+            style={{
+              gap: 8,
+              justifyContent: "flex-end",
+              position: isMobile ? "sticky" : "static",
+              bottom: isMobile ? 0 : "auto",
+              background: isMobile ? "#fff" : "transparent",
+              padding: isMobile ? "12px 0" : 0,
+              marginTop: isMobile ? 8 : 0,
+              borderTop: isMobile ? "1px solid var(--border)" : "none",
+              zIndex: 10,
+            }}
+          >
+            <a href="/" className="btn" style={{ background: "#f3f4f6", flex: isMobile ? 1 : "none", textAlign: "center" }}>
+              Cancel
+            </a>
+            <button className="primary" type="submit" disabled={submitting} style={{ flex: isMobile ? 2 : "none" }}>
+              {submitting ? "Saving…" : "Save Call"}
+            </button>
+          </div>
+        </form>
+      )}
     </div>
   );
 }
@@ -2,6 +2,8 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import CallCustomerSearch, { type PickedCustomer } from "@/components/CallCustomerSearch";
+import { DEFAULT_PIPELINE_OPTIONS, type PipelineOptions } from "@/lib/pipeline";
 
 type CallRecord = {
   id: string;
@@ -33,8 +35,6 @@ function shortDt(d: string | Date) {
   return pad(x.getDate()) + "/" + pad(x.getMonth() + 1) + " " + pad(x.getHours()) + ":" + pad(x.getMinutes());
 }
 
-const CALL_TYPES = ["Cold Call", "Booked Call", "Booked Demo"];
-const OUTCOMES = ["Sale", "No Sale", "Appointment booked", "Demo Booked"];
 
 function minutesFor(c: CallRecord): number | null {
   if (typeof c.durationMinutes === "number" && isFinite(c.durationMinutes)) {
@@ -72,8 +72,11 @@ export default function CallsListPage() {
   const [outcome, setOutcome] = useState("");
   const [rep, setRep] = useState("");
   const [q, setQ] = useState("");
+  const [customer, setCustomer] = useState<PickedCustomer | null>(null);
 
   const [reps, setReps] = useState<SalesRepLite[]>([]);
+  // retired options stay in the filters: older calls still carry them
+  const [options, setOptions] = useState<PipelineOptions>(DEFAULT_PIPELINE_OPTIONS);
 
   useEffect(() => {
     fetch("/api/sales-reps", { cache: "no-store" })
@@ -84,6 +87,10 @@ export default function CallsListPage() {
         else setReps([]);
       })
       .catch(() => setReps([]));
+    fetch("/api/pipeline-options", { cache: "no-store" })
+      .then(r => r.json())
+      .then(j => j?.options && setOptions(j.options))
+      .catch(() => {});
   }, []);
 
   const qs = useMemo(() => {
@@ -93,9 +100,10 @@ export default function CallsListPage() {
     if (callType) p.set("callType", callType);
     if (outcome) p.set("outcome", outcome);
     if (rep) p.set("staff", rep);
+    if (customer) p.set("customerId", customer.id);
     p.set("limit", "100");
     return p.toString();
-  }, [from, to, callType, outcome, rep]);
+  }, [from, to, callType, outcome, rep, customer]);
 
   function load() {
     setLoading(true);
@@ -166,10 +174,11 @@ export default function CallsListPage() {
       <section className="card">
         <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
           <div className="field" style={{ flex: "1 1 200px", margin: 0 }}>
-            <input
-              type="text"
-              value={q}
-              onChange={e => setQ(e.target.value)}
+            <CallCustomerSearch
+              query={q}
+              onQueryChange={setQ}
+              selected={customer}
+              onSelect={setCustomer}
               placeholder="Search customer or salon..."
             />
           </div>
@@ -242,14 +251,14 @@ export default function CallsListPage() {
                 <label>Call Type</label>
                 <select value={callType} onChange={e => setCallType(e.target.value)}>
                   <option value="">Any</option>
-                  {CALL_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  {options.CALL_TYPE.map(t => <option key={t.label} value={t.label}>{t.label}</option>)}
                 </select>
               </div>
               <div className="field">
                 <label>Outcome</label>
                 <select value={outcome} onChange={e => setOutcome(e.target.value)}>
                   <option value="">Any</option>
-                  {OUTCOMES.map(o => <option key={o} value={o}>{o}</option>)}
+                  {options.OUTCOME.map(o => <option key={o.label} value={o.label}>{o.label}</option>)}
                 </select>
               </div>
               <div className="field">
@@ -4,6 +4,7 @@ import { redirect } from "next/navigation";
 import Stripe from "stripe";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest } from "@/lib/shopify";
+import { auditPaymentLink } from "@/lib/audit";
 
 const VAT_RATE = Number(process.env.VAT_RATE ?? "0.20");
 
@@ -57,8 +58,10 @@ export async function createPaymentLink(customerId: string, shopifyCustomerId: s
   if (!draftLines.length) throw new Error("Draft has no line items");
   const stripe = new Stripe(stripeSecret, { apiVersion: "2023-10-16" });
   const line_items: Stripe.PaymentLinkCreateParams.LineItem[] = [];
+  let totalPence = 0;
   for (const li of draftLines) {
     const inc = Number(li.price ?? 0) * (1 + VAT_RATE);
+    totalPence += Math.round(inc * 100) * Number(li.quantity || 1);
     const itemName = (li.title || "Item") + (li.variant_title ? " — " + li.variant_title : "");
     const price = await stripe.prices.create({ currency: "gbp", unit_amount: Math.round(inc * 100), tax_behavior: "inclusive", product_data: { name: itemName } });
     line_items.push({ price: price.id, quantity: Number(li.quantity || 1) });
@@ -66,5 +69,6 @@ export async function createPaymentLink(customerId: string, shopifyCustomerId: s
   const origin = process.env.APP_URL?.replace(/\/$/, "") || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:3000");
   const sharedMeta = { crmCustomerId: customerId, shopifyCustomerId: shopifyCustomerId || "", crmDraftOrderId: String(draftId), source: "SBP-CRM" };
   const link = await stripe.paymentLinks.create({ line_items, after_completion: { type: "redirect", redirect: { url: `${origin}/customers/${customerId}?paid=1` } }, metadata: sharedMeta, payment_intent_data: { metadata: sharedMeta }, automatic_tax: { enabled: false } });
+  await auditPaymentLink(customerId, { id: link.id, url: link.url }, { amountPence: totalPence, draftOrderId: draftId, via: "customer-page" });
   redirect(link.url!);
 }
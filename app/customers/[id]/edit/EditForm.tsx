@@ -3,6 +3,7 @@
 
 import { useMemo, useState } from "react";
 import OpeningHoursEditor from "@/components/OpeningHoursEditor";
+import { CLOSED_STAGES, LOSS_REASONS, STAGES, isClosedStage } from "@/lib/pipeline";
 
 type Rep = { id: string; name: string };
 type Brand = { id: string; name: string };
@@ -56,6 +57,10 @@ type EditFormProps = {
     customerEmailAddress?: string | null;
     brandsInterestedIn?: string | null;
     salesRep?: string | null;
+    stage: string;
+    lossReason?: string | null;
+    lossBrandId?: string | null;
+    lossNote?: string | null;
     numberOfChairs?: number | undefined;
     notes?: string | null;
     openingHours?: string | null;            // ← NEW
@@ -65,6 +70,10 @@ type EditFormProps = {
 };
 
 export default function EditForm({ id, initial, reps, brands }: EditFormProps) {
+  const [stage, setStage] = useState(initial.stage);
+  const [lossReason, setLossReason] = useState(initial.lossReason ?? "");
+  const closed = isClosedStage(stage);
+
   async function onSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
     const form = e.currentTarget;
@@ -165,6 +174,60 @@ export default function EditForm({ id, initial, reps, brands }: EditFormProps) {
           </select>
         </div>
 
+        <div className="field">
+          <label>Customer Stage</label>
+          <select name="stage" value={stage} onChange={(e) => setStage(e.target.value)}>
+            {STAGES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+            <optgroup label="Off the pipeline">
+              {CLOSED_STAGES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </optgroup>
+          </select>
+          <div className="form-hint">Changes are kept in the stage history.</div>
+        </div>
+        {closed && (
+          <div className="field">
+            <label>Reason*</label>
+            <select name="lossReason" required value={lossReason} onChange={(e) => setLossReason(e.target.value)}>
+              <option value="" disabled>
+                — Why was it lost? —
+              </option>
+              {LOSS_REASONS.map((r) => (
+                <option key={r.value} value={r.value}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {closed && lossReason === "COMPETITOR" && (
+          <div className="field">
+            <label>Went with*</label>
+            <select name="lossBrandId" required defaultValue={initial.lossBrandId ?? ""}>
+              <option value="" disabled>
+                — Select a brand —
+              </option>
+              {brands.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {closed && (
+          <div className="field">
+            <label>Loss Note</label>
+            <input name="lossNote" defaultValue={initial.lossNote ?? ""} placeholder="Optional detail" />
+          </div>
+        )}
         <div className="field">
           <label>Number of Chairs</label>
           <input
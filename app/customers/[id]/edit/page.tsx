@@ -84,6 +84,10 @@ export default async function EditCustomerPage({
             customerEmailAddress: customer.customerEmailAddress || "",
             brandsInterestedIn: customer.brandsInterestedIn || "",
             salesRep: customer.salesRep || "",
+            stage: customer.stage,
+            lossReason: customer.lossReason,
+            lossBrandId: customer.lossBrandId,
+            lossNote: customer.lossNote,
             numberOfChairs: customer.numberOfChairs ?? undefined,
             notes: customer.notes || "",
             openingHours: customer.openingHours || "",
@@ -5,6 +5,19 @@ import { notFound } from "next/navigation";
 import { prisma } from "@/lib/prisma";
 import { shopifyRest } from "@/lib/shopify";
 import { savePaymentTerms, createPaymentLink } from "./actions";
+import { customerHistory } from "@/lib/audit";
+import AuditChanges, { ACTION_LABELS, auditActor } from "@/components/AuditChanges";
+import CustomerContacts from "@/components/CustomerContacts";
+import { listContacts } from "@/lib/contacts";
+import CustomerHealthCard from "@/components/CustomerHealthCard";
+import { healthHistory, liveHealth } from "@/lib/customerHealth";
+import { healthBand } from "@/lib/healthScore";
+import CustomerTagsFields from "@/components/CustomerTagsFields";
+import { customerFieldValues } from "@/lib/customFields";
+import { tagsInUse } from "@/lib/customerTags";
+import CustomerTimeline from "@/components/CustomerTimeline";
+import { customerTimeline } from "@/lib/timeline";
+import { LOSS_REASON_LABELS } from "@/lib/pipeline";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -41,13 +54,13 @@ const prettyFulfillment = (s?: string | null) => {
 };
 
 const STAGE_LABEL: Record<string, string> = {
-  LEAD: "Lead", APPOINTMENT_BOOKED: "Appointment", SAMPLING: "Sampling", CUSTOMER: "Customer",
+  LEAD: "Lead", APPOINTMENT_BOOKED: "Appointment", SAMPLING: "Sampling", CUSTOMER: "Customer", DORMANT: "Dormant", LOST: "Lost",
 };
 const STAGE_COLOR: Record<string, string> = {
-  LEAD: "#e0e7ff", APPOINTMENT_BOOKED: "#fef9c3", SAMPLING: "#fce7f3", CUSTOMER: "#dcfce7",
+  LEAD: "#e0e7ff", APPOINTMENT_BOOKED: "#fef9c3", SAMPLING: "#fce7f3", CUSTOMER: "#dcfce7", DORMANT: "#f3f4f6", LOST: "#fee2e2",
 };
 const STAGE_TEXT: Record<string, string> = {
-  LEAD: "#3730a3", APPOINTMENT_BOOKED: "#92400e", SAMPLING: "#9d174d", CUSTOMER: "#166534",
+  LEAD: "#3730a3", APPOINTMENT_BOOKED: "#92400e", SAMPLING: "#9d174d", CUSTOMER: "#166534", DORMANT: "#4b5563", LOST: "#991b1b",
 };
 
 const TERMS = [
@@ -115,7 +128,10 @@ type PageProps = { params: { id: string }; searchParams?: Record<string, string|
 export default async function CustomerPage({ params, searchParams }: PageProps) {
   const tab = (Array.isArray(searchParams?.tab) ? searchParams?.tab[0] : searchParams?.tab) || "overview";
 
-  const customer = await prisma.customer.findUnique({ where: { id: params.id } });
+  const customer = await prisma.customer.findUnique({
+    where: { id: params.id },
+    include: { lossBrand: { select: { name: true } } },
+  });
   if (!customer) return notFound();
 
   const orders = await prisma.order.findMany({
@@ -147,8 +163,21 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
     } catch {}
   }
 
+  const contacts = tab === "overview" ? await listContacts(customer.id) : [];
+  const customFields = tab === "overview" ? await customerFieldValues(customer.id) : [];
+  const knownTags = tab === "overview" ? await tagsInUse() : [];
   const calls = await loadCalls(customer.id);
   const notes = await loadNotes(customer.id);
+  const timeline = tab === "activity" ? await customerTimeline(customer.id) : null;
+  const history = tab === "history" ? await customerHistory(customer.id).catch(() => []) : [];
+  const healthDays = tab === "overview" ? await healthHistory(customer.id) : [];
+  const latestHealth = healthDays[healthDays.length - 1] ?? null;
+  const health = tab !== "overview"
+    ? null
+    : latestHealth
+    ? { score: latestHealth.score, factors: latestHealth.factors, live: false }
+    : await liveHealth(customer.id).then((h) => (h ? { ...h, live: true } : null));
+  const band = healthBand(health?.score ?? customer.healthScore);
 
   const c = customer as any;
   const addr = [c.addressLine1, c.addressLine2, c.town, c.county, c.postCode].filter(Boolean).join(", ");
@@ -167,11 +196,13 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
 
   const tabs = [
     { key: "overview", label: "Overview" },
+    { key: "activity", label: "Activity" },
     { key: "orders", label: "Orders (" + orders.length + ")" },
     { key: "drafts", label: "Drafts (" + drafts.length + ")" },
     { key: "calls", label: "Calls (" + calls.length + ")" },
     { key: "notes", label: "Notes (" + notes.length + ")" },
     { key: "ai", label: "AI Brief" },
+    { key: "history", label: "History" },
   ];
 
   const mapsUrl = "https://maps.google.com?q=" + encodeURIComponent(addr);
@@ -187,6 +218,13 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
               <span style={{ padding: "3px 12px", borderRadius: 999, fontSize: "0.75rem", fontWeight: 700, background: STAGE_COLOR[stage]||"#f3f4f6", color: STAGE_TEXT[stage]||"#374151" }}>
                 {STAGE_LABEL[stage]||stage}
               </span>
+              {c.lossReason && (
+                <span className="small muted" title={c.lossNote || undefined}>
+                  {LOSS_REASON_LABELS[c.lossReason as keyof typeof LOSS_REASON_LABELS]}
+                  {c.lossBrand ? ": " + c.lossBrand.name : ""}
+                  {c.lossNote ? " - " + c.lossNote : ""}
+                </span>
+              )}
             </div>
             <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
               {c.customerName && <span className="small muted">👤 {c.customerName}</span>}
@@ -221,6 +259,12 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
             <div style={{ fontSize: "1.1rem", fontWeight: 700 }}>{lastOrderDate || "—"}</div>
             <div className="small muted">Last order</div>
           </div>
+          {band && (
+            <div style={{ background: band.color, borderRadius: 10, padding: "12px 14px", textAlign: "center" }}>
+              <div style={{ fontSize: "1.4rem", fontWeight: 800, color: band.text }}>{health?.score ?? customer.healthScore}</div>
+              <div className="small" style={{ color: band.text }}>Health · {band.label}</div>
+            </div>
+          )}
           {c.numberOfChairs && (
             <div style={{ background: "var(--surface-2)", borderRadius: 10, padding: "12px 14px", textAlign: "center" }}>
               <div style={{ fontSize: "1.4rem", fontWeight: 800 }}>{c.numberOfChairs}</div>
@@ -327,6 +371,34 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
             </section>
           </div>
 
+          <CustomerTagsFields
+            customerId={customer.id}
+            tags={customer.tags}
+            knownTags={knownTags}
+            fields={customFields.map((f) => ({ key: f.key, label: f.label, type: f.type, options: f.options, value: f.value }))}
+            linked={!!customer.shopifyCustomerId}
+          />
+
+          <CustomerHealthCard
+            score={health?.score ?? null}
+            factors={health?.factors ?? null}
+            history={healthDays.map((d) => ({ date: d.date.toISOString().slice(0, 10), score: d.score }))}
+            live={!!health?.live}
+          />
+
+          <CustomerContacts
+            customerId={customer.id}
+            initial={contacts.map((ct) => ({
+              id: ct.id,
+              name: ct.name,
+              role: ct.role,
+              phone: ct.phone,
+              email: ct.email,
+              isPrimary: ct.isPrimary,
+              marketingConsent: ct.marketingConsent,
+            }))}
+          />
+
           {calls.length > 0 && (
             <section className="card">
               <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
@@ -356,6 +428,10 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
         </div>
       )}
 
+      {tab === "activity" && timeline && (
+        <CustomerTimeline customerId={customer.id} initial={timeline} />
+      )}
+
       {tab === "orders" && (
         <section className="card">
           <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
@@ -473,6 +549,37 @@ export default async function CustomerPage({ params, searchParams }: PageProps)
           )}
         </section>
       )}
+      {tab === "history" && (
+        <section className="card">
+          <h2 style={{ marginBottom: 12 }}>History</h2>
+          {history.length === 0 ? <p className="small muted">No recorded changes yet.</p> : (
+            <div style={{ display: "grid", gap: 8 }}>
+              {history.map((h: any) => (
+                <div key={h.id} style={{ padding: "12px 14px", border: "1px solid var(--border)", borderRadius: 10, background: "#fff" }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap", marginBottom: 4 }}>
+                    <span style={{ fontWeight: 600, fontSize: "0.875rem" }}>{ACTION_LABELS[h.action] || h.action}</span>
+                    <span className="small muted">
+                      {new Date(h.createdAt).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}
+                      {" · "}{auditActor(h)}
+                    </span>
+                  </div>
+                  {h.action === "order.refund" && h.details?.amount != null && (
+                    <div className="small">Amount: {money(h.details.amount, h.details.currency || "GBP")} ({h.details.mode})</div>
+                  )}
+                  {h.action === "payment_link.create" && (
+                    <div className="small">
+                      {money(h.details?.amount)} · via {h.details?.via}
+                      {h.details?.url && <> · <a href={h.details.url} target="_blank" rel="noreferrer" style={{ color: "var(--pink)" }}>link</a></>}
+                    </div>
+                  )}
+                  <AuditChanges details={h.details} />
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
       {tab === "ai" && (
         <AiBriefPanel customerId={customer.id} salonName={c.salonName || "Customer"} />
       )}
@@ -0,0 +1,199 @@
+// app/customers/duplicates/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type Side = {
+  id: string;
+  createdAt: string;
+  salonName: string;
+  customerName: string;
+  addressLine1: string;
+  town: string | null;
+  postCode: string | null;
+  customerTelephone: string | null;
+  customerEmailAddress: string | null;
+  salesRep: string | null;
+  stage: string;
+  shopifyCustomerId: string | null;
+  _count: { orders: number; callLogs: number; visits: number; notesLog: number };
+};
+
+type Pair = {
+  id: string;
+  score: number;
+  reasons: string[];
+  status: "OPEN" | "DISMISSED";
+  customerA: Side;
+  customerB: Side;
+};
+
+const FIELDS: { key: keyof Side; label: string }[] = [
+  { key: "customerName", label: "Contact" },
+  { key: "addressLine1", label: "Address" },
+  { key: "town", label: "Town" },
+  { key: "postCode", label: "Postcode" },
+  { key: "customerTelephone", label: "Phone" },
+  { key: "customerEmailAddress", label: "Email" },
+  { key: "salesRep", label: "Rep" },
+  { key: "stage", label: "Stage" },
+  { key: "shopifyCustomerId", label: "Shopify ID" },
+];
+
+function SideCard({ c, other, onKeep, busy }: { c: Side; other: Side; onKeep: () => void; busy: boolean }) {
+  const same = (k: keyof Side) => {
+    const a = String(c[k] ?? "").trim().toLowerCase();
+    return !!a && a === String(other[k] ?? "").trim().toLowerCase();
+  };
+  return (
+    <div style={{ flex: 1, minWidth: 260, border: "1px solid var(--border)", borderRadius: 8, padding: 12, background: "#fff" }}>
+      <div className="row" style={{ justifyContent: "space-between", alignItems: "baseline", gap: 8 }}>
+        <Link href={`/customers/${c.id}`} target="_blank" style={{ fontWeight: 600 }}>
+          {c.salonName}
+        </Link>
+        <span className="small muted">added {new Date(c.createdAt).toLocaleDateString("en-GB")}</span>
+      </div>
+      <div className="small" style={{ display: "grid", gap: 2, marginTop: 6 }}>
+        {FIELDS.map((f) => (
+          <div key={f.key} style={same(f.key) ? { fontWeight: 600 } : undefined}>
+            <span className="muted">{f.label}:</span> {String(c[f.key] ?? "—")}
+          </div>
+        ))}
+      </div>
+      <div className="small muted" style={{ marginTop: 6 }}>
+        {c._count.orders} orders · {c._count.callLogs} calls · {c._count.visits} visits · {c._count.notesLog} notes
+      </div>
+      <button className="primary" style={{ marginTop: 10 }} disabled={busy} onClick={onKeep}>
+        Keep this one
+      </button>
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  const [status, setStatus] = useState<"OPEN" | "DISMISSED">("OPEN");
+  const [pairs, setPairs] = useState<Pair[]>([]);
+  const [open, setOpen] = useState(0);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load(s = status) {
+    const r = await fetch(`/api/customers/duplicates?status=${s}`, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) return setMsg(j?.error || "Failed to load duplicates");
+    setPairs(j.pairs ?? []);
+    setOpen(j.open ?? 0);
+  }
+
+  useEffect(() => {
+    load(status);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status]);
+
+  async function scan() {
+    setBusy("scan");
+    setMsg(null);
+    try {
+      const r = await fetch("/api/customers/duplicates/scan", { method: "POST" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Scan failed");
+      setMsg(`Scanned ${j.scanned} customers: ${j.pairs} suspected pairs.`);
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || "Scan failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function act(pair: Pair, body: Record<string, string>, confirmText?: string) {
+    if (confirmText && !confirm(confirmText)) return;
+    setBusy(pair.id);
+    setMsg(null);
+    try {
+      const r = await fetch(`/api/customers/duplicates/${pair.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Action failed");
+      if (body.action === "merge") {
+        const m = j.moved ?? {};
+        setMsg(`Merged: moved ${m.orders ?? 0} orders, ${m.calls ?? 0} calls, ${m.visits ?? 0} visits, ${m.notes ?? 0} notes.`);
+      }
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || "Action failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function keep(pair: Pair, survivor: Side, merged: Side) {
+    act(
+      pair,
+      { action: "merge", survivorId: survivor.id },
+      `Merge "${merged.salonName}" into "${survivor.salonName}"? Its calls, orders, visits and notes move across and it is deleted.`
+    );
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 10 }}>
+        <div>
+          <h1>Duplicate Customers</h1>
+          <p className="small muted">
+            Matched on salon name, postcode, phone and email. Keep the better record; the other is merged into it.
+          </p>
+        </div>
+        <div className="row" style={{ gap: 8 }}>
+          <button className="btn" disabled={busy === "scan"} onClick={scan}>
+            {busy === "scan" ? "Scanning…" : "Rescan all"}
+          </button>
+          <Link href="/customers" className="btn">Back to Customers</Link>
+        </div>
+      </section>
+
+      <section className="card row" style={{ gap: 8 }}>
+        <button className={status === "OPEN" ? "primary" : "btn"} onClick={() => setStatus("OPEN")}>
+          To review ({open})
+        </button>
+        <button className={status === "DISMISSED" ? "primary" : "btn"} onClick={() => setStatus("DISMISSED")}>
+          Dismissed
+        </button>
+        {msg && <span className="small" style={{ marginLeft: 8 }}>{msg}</span>}
+      </section>
+
+      {pairs.length === 0 ? (
+        <section className="card small muted">
+          {status === "OPEN" ? "Nothing to review. Run a rescan to check the whole customer list." : "No dismissed pairs."}
+        </section>
+      ) : (
+        pairs.map((p) => (
+          <section key={p.id} className="card">
+            <div className="row" style={{ justifyContent: "space-between", alignItems: "center", marginBottom: 8 }}>
+              <span className="small">
+                <b>{Math.round(p.score * 100)}%</b> match · {p.reasons.join(", ")}
+              </span>
+              {p.status === "OPEN" ? (
+                <button className="btn small" disabled={busy === p.id} onClick={() => act(p, { action: "dismiss" })}>
+                  Not duplicates
+                </button>
+              ) : (
+                <button className="btn small" disabled={busy === p.id} onClick={() => act(p, { action: "reopen" })}>
+                  Reopen
+                </button>
+              )}
+            </div>
+            <div className="row" style={{ gap: 12, flexWrap: "wrap", alignItems: "stretch" }}>
+              <SideCard c={p.customerA} other={p.customerB} busy={busy === p.id} onKeep={() => keep(p, p.customerA, p.customerB)} />
+              <SideCard c={p.customerB} other={p.customerA} busy={busy === p.id} onKeep={() => keep(p, p.customerB, p.customerA)} />
+            </div>
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+// app/customers/import/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { STAGES } from "@/lib/pipeline";
+
+type Rep = { id: string; name: string };
+type Field = { key: string; label: string };
+type Match = { id: string; salonName: string; score: number; reasons: string[] };
+type Row = {
+  line: number;
+  data: Record<string, any>;
+  errors: string[];
+  warnings: string[];
+  duplicateOf: Match | null;
+  duplicateLine: number | null;
+};
+type Preview = {
+  headers: string[];
+  mapping: Record<string, string>;
+  rows: Row[];
+  newReps: string[];
+  fields: Field[];
+  summary: { total: number; valid: number; errors: number; duplicates: number };
+};
+type Result = {
+  created: { line: number; id: string }[];
+  skipped: { line: number; reason: string }[];
+  shopifyErrors: { line: number; error: string }[];
+  newReps: string[];
+};
+
+const PREVIEW_COLS = ["salonName", "customerName", "town", "postCode", "customerTelephone", "customerEmailAddress", "salesRep"];
+
+function rowStatus(r: Row) {
+  if (r.errors.length) return { label: "Error", color: "#b91c1c", bg: "#fef2f2" };
+  if (r.duplicateOf || r.duplicateLine) return { label: "Duplicate?", color: "#92400e", bg: "#fffbeb" };
+  return { label: "OK", color: "#166534", bg: undefined };
+}
+
+export default function ImportCustomersPage() {
+  const [reps, setReps] = useState<Rep[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [csv, setCsv] = useState("");
+  const [mapping, setMapping] = useState<Record<string, string> | null>(null);
+  const [defaults, setDefaults] = useState({ salesRep: "", stage: "LEAD", country: "GB" });
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [pushToShopify, setPushToShopify] = useState(false);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [result, setResult] = useState<Result | null>(null);
+  const [busy, setBusy] = useState<"preview" | "commit" | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/sales-reps", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : []))
+      .then((j) => setReps(Array.isArray(j) ? j : []))
+      .catch(() => {});
+  }, []);
+
+  const rows = preview ? (onlyProblems ? preview.rows.filter((r) => r.errors.length || r.duplicateOf || r.duplicateLine) : preview.rows) : [];
+  const willImport = preview
+    ? preview.rows.filter((r) => !r.errors.length && !(skipDuplicates && (r.duplicateOf || r.duplicateLine))).length
+    : 0;
+
+  async function post(extra: Record<string, any>) {
+    const r = await fetch("/api/customers/import", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ csv, fileName, mapping, defaults, ...extra }),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) throw new Error(j?.error || "Import failed");
+    return j;
+  }
+
+  async function runPreview(nextMapping = mapping, text = csv) {
+    setBusy("preview");
+    setMsg(null);
+    setResult(null);
+    try {
+      const j = await post({ csv: text, mapping: nextMapping });
+      setPreview(j);
+      setMapping(j.mapping);
+    } catch (e: any) {
+      setMsg(e?.message || "Could not read the file");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    setMapping(null);
+    setPreview(null);
+    await runPreview(null, text);
+  }
+
+  async function commit() {
+    if (!preview) return;
+    if (!confirm(`Import ${willImport} customers${pushToShopify ? " and create them in Shopify" : ""}?`)) return;
+    setBusy("commit");
+    setMsg(null);
+    try {
+      const j = await post({ commit: true, skipDuplicates, pushToShopify });
+      setResult(j);
+      setPreview(null);
+    } catch (e: any) {
+      setMsg(e?.message || "Import failed");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 10 }}>
+        <div>
+          <h1>Import Customers</h1>
+          <p className="small muted">
+            Upload a CSV (e.g. a trade-show list), check the column mapping and the dry run, then import.
+          </p>
+        </div>
+        <Link href="/customers" className="btn">Back to Customers</Link>
+      </section>
+
+      {/* 1. file + defaults */}
+      <section className="card grid" style={{ gap: 12 }}>
+        <h3 style={{ margin: 0 }}>1. File</h3>
+        <input type="file" accept=".csv,text/csv" onChange={onFile} />
+        <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+          <div className="field">
+            <label>Default sales rep</label>
+            <select className="input" value={defaults.salesRep} onChange={(e) => setDefaults({ ...defaults, salesRep: e.target.value })}>
+              <option value="">— none —</option>
+              {reps.map((r) => <option key={r.id} value={r.name}>{r.name}</option>)}
+            </select>
+            <div className="form-hint">Used when the file has no rep column or the cell is blank.</div>
+          </div>
+          <div className="field">
+            <label>Default stage</label>
+            <select className="input" value={defaults.stage} onChange={(e) => setDefaults({ ...defaults, stage: e.target.value })}>
+              {STAGES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+          </div>
+          <div className="field">
+            <label>Default country</label>
+            <input className="input" value={defaults.country} onChange={(e) => setDefaults({ ...defaults, country: e.target.value })} />
+          </div>
+        </div>
+      </section>
+
+      {msg && <section className="card"><div className="form-error">{msg}</div></section>}
+
+      {/* 2. mapping */}
+      {preview && mapping && (
+        <section className="card grid" style={{ gap: 12 }}>
+          <h3 style={{ margin: 0 }}>2. Columns</h3>
+          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(220px, 1fr))", gap: 8 }}>
+            {preview.headers.map((h) => (
+              <div key={h} className="field">
+                <label style={{ wordBreak: "break-word" }}>{h}</label>
+                <select className="input" value={mapping[h] ?? ""} onChange={(e) => setMapping({ ...mapping, [h]: e.target.value })}>
+                  <option value="">— ignore —</option>
+                  {preview.fields.map((f) => <option key={f.key} value={f.key}>{f.label}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div>
+            <button className="btn" disabled={busy !== null} onClick={() => runPreview()}>
+              {busy === "preview" ? "Checking…" : "Re-run dry run"}
+            </button>
+          </div>
+        </section>
+      )}
+
+      {/* 3. dry run */}
+      {preview && (
+        <section className="card grid" style={{ gap: 12 }}>
+          <div className="row" style={{ justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 8 }}>
+            <h3 style={{ margin: 0 }}>3. Dry run</h3>
+            <span className="small">
+              {preview.summary.total} rows · <b>{preview.summary.valid}</b> valid · {preview.summary.errors} with errors ·{" "}
+              {preview.summary.duplicates} possible duplicates
+            </span>
+          </div>
+          {preview.newReps.length > 0 && (
+            <div className="small" style={{ color: "#92400e" }}>
+              New sales reps will be created: {preview.newReps.join(", ")}
+            </div>
+          )}
+          <label className="row small" style={{ gap: 6 }}>
+            <input type="checkbox" checked={onlyProblems} onChange={(e) => setOnlyProblems(e.target.checked)} />
+            Only show rows with problems
+          </label>
+          <div style={{ overflowX: "auto", maxHeight: 480, overflowY: "auto" }}>
+            <table className="table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th align="left">Line</th>
+                  <th align="left">Status</th>
+                  {PREVIEW_COLS.map((c) => (
+                    <th key={c} align="left">{preview.fields.find((f) => f.key === c)?.label ?? c}</th>
+                  ))}
+                  <th align="left">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => {
+                  const st = rowStatus(r);
+                  return (
+                    <tr key={r.line} style={st.bg ? { background: st.bg } : undefined}>
+                      <td className="small">{r.line}</td>
+                      <td className="small" style={{ color: st.color, fontWeight: 600 }}>{st.label}</td>
+                      {PREVIEW_COLS.map((c) => <td key={c} className="small">{r.data[c] ?? ""}</td>)}
+                      <td className="small">
+                        {r.errors.map((e) => <div key={e} style={{ color: "#b91c1c" }}>{e}</div>)}
+                        {r.duplicateOf && (
+                          <div>
+                            Looks like{" "}
+                            <Link href={`/customers/${r.duplicateOf.id}`} target="_blank" style={{ textDecoration: "underline" }}>
+                              {r.duplicateOf.salonName}
+                            </Link>{" "}
+                            ({r.duplicateOf.reasons.join(", ")})
+                          </div>
+                        )}
+                        {r.duplicateLine && <div>Same salon as line {r.duplicateLine}</div>}
+                        {r.warnings.map((w) => <div key={w} className="muted">{w}</div>)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <h3 style={{ margin: "8px 0 0" }}>4. Import</h3>
+          <label className="row small" style={{ gap: 6 }}>
+            <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+            Skip likely duplicates (otherwise they are imported and added to the duplicate review queue)
+          </label>
+          <label className="row small" style={{ gap: 6 }}>
+            <input type="checkbox" checked={pushToShopify} onChange={(e) => setPushToShopify(e.target.checked)} />
+            Also create the new customers in Shopify
+          </label>
+          <div>
+            <button className="primary" disabled={busy !== null || willImport === 0} onClick={commit}>
+              {busy === "commit" ? "Importing…" : `Import ${willImport} customer${willImport === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </section>
+      )}
+
+      {result && (
+        <section className="card grid" style={{ gap: 8 }}>
+          <h3 style={{ margin: 0 }}>Done</h3>
+          <div className="small">
+            Created <b>{result.created.length}</b> customers, skipped {result.skipped.length}.
+            {result.newReps.length > 0 && <> New reps: {result.newReps.join(", ")}.</>}
+          </div>
+          {result.shopifyErrors.length > 0 && (
+            <div className="small" style={{ color: "#b91c1c" }}>
+              {result.shopifyErrors.length} could not be created in Shopify:
+              {result.shopifyErrors.slice(0, 20).map((e) => <div key={e.line}>Line {e.line}: {e.error}</div>)}
+            </div>
+          )}
+          {result.skipped.length > 0 && (
+            <details className="small">
+              <summary>Skipped rows</summary>
+              {result.skipped.map((s) => <div key={s.line}>Line {s.line}: {s.reason}</div>)}
+            </details>
+          )}
+          <div>
+            <Link href="/customers" className="btn">View customers</Link>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
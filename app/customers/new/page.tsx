@@ -3,6 +3,7 @@
 
 import { useEffect, useMemo, useState } from "react";
 import OpeningHoursEditor from "@/components/OpeningHoursEditor";
+import { STAGES } from "@/lib/pipeline";
 
 /* ----------------------- tiny safe fetch helper ----------------------- */
 async function safeGetArray<T = any>(url: string): Promise<T[]> {
@@ -186,10 +187,11 @@ export default function NewCustomerPage() {
           <div className="field">
             <label>Customer Stage</label>
             <select name="stage" defaultValue="LEAD">
-              <option value="LEAD">Lead</option>
-              <option value="APPOINTMENT_BOOKED">Appointment booked</option>
-              <option value="SAMPLING">Sampling</option>
-              <option value="CUSTOMER">Customer</option>
+              {STAGES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
             </select>
             <div className="form-hint">Optional – defaults to Lead.</div>
           </div>
@@ -1,9 +1,22 @@
 import Link from "next/link";
 import { prisma } from "@/lib/prisma";
-import type { Prisma } from "@prisma/client";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import {
+  customerOrderBy,
+  customerWhere,
+  filtersFromParams,
+  hasFilters,
+  normaliseFilters,
+  parseCustomerSort,
+} from "@/lib/customerFilters";
+import { healthBand } from "@/lib/healthScore";
+import { viewColumns, viewsFor } from "@/lib/customerViews";
+import { listCustomFields } from "@/lib/customFields";
+import { tagsInUse } from "@/lib/customerTags";
+import CustomerListFilters from "@/components/CustomerListFilters";
 
 type PageProps = {
-  searchParams?: { q?: string };
+  searchParams?: Record<string, string | string[] | undefined>;
 };
 
 const STAGE_LABEL: Record<string, string> = {
@@ -11,45 +24,58 @@ const STAGE_LABEL: Record<string, string> = {
   APPOINTMENT_BOOKED: "Appointment",
   SAMPLING: "Sampling",
   CUSTOMER: "Customer",
+  DORMANT: "Dormant",
+  LOST: "Lost",
 };
 const STAGE_COLOR: Record<string, string> = {
   LEAD: "#e0e7ff",
   APPOINTMENT_BOOKED: "#fef9c3",
   SAMPLING: "#fce7f3",
   CUSTOMER: "#dcfce7",
+  DORMANT: "#f3f4f6",
+  LOST: "#fee2e2",
 };
 const STAGE_TEXT: Record<string, string> = {
   LEAD: "#3730a3",
   APPOINTMENT_BOOKED: "#92400e",
   SAMPLING: "#9d174d",
   CUSTOMER: "#166534",
+  DORMANT: "#4b5563",
+  LOST: "#991b1b",
 };
 
 export default async function CustomersPage({ searchParams }: PageProps) {
-  const q = (searchParams?.q ?? "").trim();
+  const sp = new URLSearchParams();
+  for (const [k, v] of Object.entries(searchParams ?? {})) {
+    for (const one of Array.isArray(v) ? v : v != null ? [v] : []) sp.append(k, one);
+  }
 
-  const ci = (value: string) => ({ contains: value, mode: "insensitive" as const });
+  const me = await getCurrentUser();
+  const views = me ? await viewsFor(me) : [];
+  const view = views.find((v) => v.id === sp.get("view")) ?? null;
 
-  const where: Prisma.CustomerWhereInput = q
-    ? {
-        OR: [
-          { salonName: ci(q) },
-          { customerName: ci(q) },
-          { customerEmailAddress: ci(q) },
-          { town: ci(q) },
-          { county: ci(q) },
-          { postCode: ci(q) },
-          { brandsInterestedIn: ci(q) },
-        ],
-      }
-    : {};
+  // a view's filters apply until the URL carries its own
+  const fromQuery = filtersFromParams(sp);
+  const filters = view && !hasFilters(fromQuery) ? normaliseFilters(view.filters) : fromQuery;
+  const where = customerWhere(filters);
+  const filtered = hasFilters(filters);
+  const sort = parseCustomerSort(sp.get("sort"));
 
-  const customers = await prisma.customer.findMany({
-    where,
-    orderBy: { createdAt: "desc" },
-    take: 100,
-    include: { rep: { select: { name: true } } },
-  });
+  const [customers, total, reps, brands, tags, fields] = await Promise.all([
+    prisma.customer.findMany({
+      where,
+      orderBy: customerOrderBy(sort),
+      take: 100,
+      include: { rep: { select: { name: true } } },
+    }),
+    prisma.customer.count({ where }),
+    prisma.salesRep.findMany({ select: { id: true, name: true }, orderBy: { name: "asc" } }),
+    prisma.stockedBrand.findMany({ select: { name: true }, orderBy: { name: "asc" } }),
+    tagsInUse(),
+    listCustomFields(),
+  ]);
+
+  const openDuplicates = isAdmin(me) ? await prisma.customerDuplicate.count({ where: { status: "OPEN" } }) : 0;
 
   return (
     <div className="grid" style={{ gap: 16 }}>
@@ -57,29 +83,46 @@ export default async function CustomersPage({ searchParams }: PageProps) {
         <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 10 }}>
           <div>
             <h1 style={{ marginBottom: 2 }}>Customers</h1>
-            <p className="small muted">{customers.length} {q ? "results" : "total"}</p>
+            <p className="small muted">
+              {view ? `${view.name} · ` : ""}
+              {total} {filtered ? "results" : "total"}
+              {total > customers.length ? ` (showing the first ${customers.length})` : ""}
+            </p>
+          </div>
+          <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            {openDuplicates > 0 && (
+              <Link className="btn" href="/customers/duplicates">
+                {openDuplicates} possible duplicate{openDuplicates === 1 ? "" : "s"}
+              </Link>
+            )}
+            <Link className="btn" href="/customers/import">Import CSV</Link>
+            <Link className="primary" href="/customers/new">+ New Customer</Link>
           </div>
-          <Link className="primary" href="/customers/new">+ New Customer</Link>
         </div>
       </section>
 
-      <section className="card">
-        <form action="/customers" method="get" style={{ display: "flex", gap: 8 }}>
-          <input
-            type="text"
-            name="q"
-            placeholder="Search name, email, town, postcode..."
-            defaultValue={q}
-            style={{ flex: 1 }}
-          />
-          <button type="submit" className="primary">Search</button>
-        </form>
-        {q && (
-          <div style={{ marginTop: 8 }}>
-            <Link href="/customers" className="small" style={{ color: "var(--pink)" }}>Clear search</Link>
-          </div>
-        )}
-      </section>
+      <CustomerListFilters
+        key={sp.toString()}
+        filters={filters}
+        sort={sort}
+        columns={viewColumns(view?.columns)}
+        views={views.map((v) => ({
+          id: v.id,
+          name: v.name,
+          filters: normaliseFilters(v.filters),
+          columns: viewColumns(v.columns),
+          shared: v.shared,
+          ownerId: v.ownerId,
+          owner: v.owner,
+        }))}
+        activeViewId={view?.id ?? null}
+        reps={reps}
+        brands={brands.map((b) => b.name)}
+        tags={tags}
+        fields={fields.map((f) => ({ key: f.key, label: f.label, type: f.type, options: f.options }))}
+        meId={me?.id ?? ""}
+        admin={isAdmin(me)}
+      />
 
       <section className="card">
         {customers.length === 0 ? (
@@ -89,6 +132,7 @@ export default async function CustomersPage({ searchParams }: PageProps) {
             {customers.map(c => {
               const stage = (c as any).stage || "LEAD";
               const repName = (c as any).rep?.name || (c as any).salesRep || null;
+              const band = healthBand(c.healthScore);
               return (
                 <Link
                   key={c.id}
@@ -114,6 +158,18 @@ export default async function CustomersPage({ searchParams }: PageProps) {
                       {repName && <span className="small muted">{repName}</span>}
                       {c.customerEmailAddress && <span className="small muted">{c.customerEmailAddress}</span>}
                       {c.customerNumber && <span className="small muted">{c.customerNumber}</span>}
+                      {c.tags.slice(0, 4).map((t) => (
+                        <span key={t} style={{ padding: "1px 8px", borderRadius: 999, fontSize: "0.72rem", background: "var(--surface-2)" }}>{t}</span>
+                      ))}
+                      {c.tags.length > 4 && <span className="small muted">+{c.tags.length - 4}</span>}
+                      {band && (
+                        <span
+                          title={`Health score ${c.healthScore}/100`}
+                          style={{ padding: "1px 8px", borderRadius: 999, fontSize: "0.72rem", fontWeight: 600, background: band.color, color: band.text }}
+                        >
+                          {band.label} · {c.healthScore}
+                        </span>
+                      )}
                     </div>
                   </div>
                 </Link>
@@ -1,6 +1,7 @@
 // app/education/requests/new/page.tsx
 import { prisma } from "@/lib/prisma";
 import EducationRequestForm from "@/components/EducationRequestForm";
+import { listContacts } from "@/lib/contacts";
 
 export const dynamic = "force-dynamic";
 
@@ -30,6 +31,7 @@ export default async function NewEducationRequestPage({
         },
       })
     : null;
+  const contacts = customer ? await listContacts(customer.id) : [];
 
   return (
     <div className="grid" style={{ gap: 16 }}>
@@ -44,7 +46,10 @@ export default async function NewEducationRequestPage({
       </section>
 
       <section className="card">
-        <EducationRequestForm customer={customer} />
+        <EducationRequestForm
+          customer={customer}
+          contacts={contacts.map((c) => ({ id: c.id, name: c.name, role: c.role, phone: c.phone, email: c.email, isPrimary: c.isPrimary }))}
+        />
       </section>
     </div>
   );
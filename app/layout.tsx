@@ -4,6 +4,7 @@ import type { Metadata } from "next";
 import Link from "next/link";
 import SettingsMenu from "@/components/SettingsMenu";
 import BackButton from "@/components/BackButton";
+import ImpersonationBanner from "@/components/ImpersonationBanner";
 
 export const metadata: Metadata = {
   title: "Salon Brands Pro CRM",
@@ -58,6 +59,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
             borderBottom: "1px solid #eee",
           }}
         >
+          <ImpersonationBanner />
           {/* 3-column grid: [left/back] [centered logo] [settings] */}
           <div
             className="container header-wrap"
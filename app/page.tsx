@@ -1,19 +1,17 @@
 // app/page.tsx
 import Link from "next/link";
-import { getCurrentUser } from "@/lib/auth";
+import { getCurrentUser, getUserPermissions } from "@/lib/auth";
+import { hasAccess } from "@/lib/permissions";
 
 export default async function Home() {
-  // Optional: use the current user to gate tiles by role if you want
+  // Gate tiles with the same policy middleware enforces
   const me = await getCurrentUser();
-  const role = me?.role ?? null;
+  const granted = me ? await getUserPermissions(me.id) : null;
 
-  // Decide which tiles to show (adjust if you want stricter gating)
-  const canSeeSalesHub = true;              // everyone
-  const canSeeReports = true;               // everyone
-  const canSeeMarketing = true;             // tweak to roles if needed
-
-  // Purchase Ordering tile (leave open to all for now; tighten if needed)
-  const canSeePurchaseOrdering = true;
+  const canSeeSalesHub = hasAccess(granted, "VIEW_SALES_HUB");
+  const canSeeReports = hasAccess(granted, "VIEW_REPORTS");
+  const canSeeMarketing = true;             // everyone
+  const canSeePurchaseOrdering = hasAccess(granted, "VIEW_PURCHASING");
 
   return (
     <div className="grid" style={{ gap: 16 }}>
@@ -4,6 +4,7 @@
 import { useEffect, useMemo, useState, type CSSProperties } from "react";
 
 type Rep = { id: string; name: string };
+type Field = { key: string; label: string; type: string; options: string[] };
 type Row = {
   customerId: string;
   salonName: string;
@@ -11,6 +12,13 @@ type Row = {
   salesRep: string | null;
   lastOrderAt: string | null; // ISO
   daysSince: number; // Infinity if never ordered
+  healthScore: number | null;
+  health: string | null; // healthy | watch | at_risk
+  tags: string[];
+  postCode: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  distanceKm: number | null; // only when the report is limited to an area
 };
 type Resp = {
   asOf: string;
@@ -19,23 +27,54 @@ type Resp = {
   rows: Row[];
 };
 
+const HEALTH: Record<string, { label: string; bg: string; fg: string }> = {
+  healthy: { label: "Healthy", bg: "#dcfce7", fg: "#166534" },
+  watch: { label: "Watch", bg: "#fef9c3", fg: "#92400e" },
+  at_risk: { label: "At risk", bg: "#fee2e2", fg: "#991b1b" },
+};
+
 function dropoffCsvHref({
   bucket,
   days,
   selectedReps,
+  health,
+  tag,
+  field,
+  near,
+  withinKm,
 }: {
   bucket?: string | null;
   days?: number | null;
   selectedReps: string[];
+  health?: string;
+  tag?: string;
+  field?: string;
+  near?: string | null;
+  withinKm?: string;
 }) {
   const qs = new URLSearchParams();
   if (bucket) qs.set("bucket", bucket);
   if (typeof days === "number") qs.set("days", String(days));
   if (selectedReps?.length) qs.set("reps", selectedReps.join(","));
+  if (health) qs.set("health", health);
+  addTagAndField(qs, tag, field);
+  if (near && withinKm) {
+    qs.set("near", near);
+    qs.set("withinKm", withinKm);
+  }
   qs.set("format", "csv");
   return `/api/reports/customer-dropoff?${qs.toString()}`;
 }
 
+/** `field` is a ready-made customer-list condition, e.g. "cf.salon_type=Barber" or "cf.vip.is=yes". */
+function addTagAndField(qs: URLSearchParams, tag?: string, field?: string) {
+  if (tag) qs.set("tag", tag);
+  if (field) {
+    const i = field.indexOf("=");
+    qs.set(field.slice(0, i), field.slice(i + 1));
+  }
+}
+
 function fmtDate(iso?: string | null) {
   if (!iso) return "—";
   const d = new Date(iso);
@@ -61,6 +100,20 @@ export default function CustomerDropOffPage() {
   const [bucket, setBucket] = useState<"7" | "14" | "21" | "28" | "custom">("7");
   const [customDays, setCustomDays] = useState<number>(35);
 
+  /* health bands, comma separated ("" = any) */
+  const [health, setHealth] = useState<string>("");
+
+  /* CRM tag and custom field value ("" = any); both need customer access to list */
+  const [tags, setTags] = useState<string[]>([]);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [tag, setTag] = useState<string>("");
+  const [field, setField] = useState<string>("");
+
+  /* area: within N km of the user's current location ("lat,lng") */
+  const [withinKm, setWithinKm] = useState<string>("");
+  const [near, setNear] = useState<string | null>(null);
+  const [geoError, setGeoError] = useState<string | null>(null);
+
   /* dropdown UI state */
   const [repOpen, setRepOpen] = useState(false);
 
@@ -75,15 +128,51 @@ export default function CustomerDropOffPage() {
       .then((r) => r.json())
       .then((arr) => setReps(Array.isArray(arr) ? arr : []))
       .catch(() => setReps([]));
+    fetch("/api/customers/tags")
+      .then((r) => (r.ok ? r.json() : { tags: [] }))
+      .then((j) => setTags(j.tags ?? []))
+      .catch(() => setTags([]));
+    fetch("/api/custom-fields")
+      .then((r) => (r.ok ? r.json() : { fields: [] }))
+      .then((j) => setFields(j.fields ?? []))
+      .catch(() => setFields([]));
   }, []);
 
+  function currentPosition(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!("geolocation" in navigator)) return reject(new Error("Location isn’t available in this browser"));
+      navigator.geolocation.getCurrentPosition(
+        (pos) => resolve(`${pos.coords.latitude.toFixed(5)},${pos.coords.longitude.toFixed(5)}`),
+        () => reject(new Error("Couldn’t get your location")),
+        { enableHighAccuracy: false, timeout: 8000, maximumAge: 300000 }
+      );
+    });
+  }
+
   async function run() {
     setLoading(true);
+    setGeoError(null);
     try {
       const qs = new URLSearchParams();
       if (bucket) qs.set("bucket", bucket);
       if (bucket === "custom") qs.set("days", String(customDays));
       if (selectedReps.length) qs.set("reps", selectedReps.join(","));
+      if (health) qs.set("health", health);
+      addTagAndField(qs, tag, field);
+      if (withinKm) {
+        let here = near;
+        try {
+          here = await currentPosition();
+          setNear(here);
+        } catch (e: any) {
+          if (!here) {
+            setGeoError(e?.message || "Couldn’t get your location");
+            return;
+          }
+        }
+        qs.set("near", here);
+        qs.set("withinKm", withinKm);
+      }
       const res = await fetch(`/api/reports/customer-dropoff?${qs.toString()}`);
       const json = (await res.json()) as Resp;
       setData(json);
@@ -93,10 +182,12 @@ export default function CustomerDropOffPage() {
   }
 
   const csvHref = useMemo(
-    () => dropoffCsvHref({ bucket, days, selectedReps }),
-    [bucket, days, selectedReps]
+    () => dropoffCsvHref({ bucket, days, selectedReps, health, tag, field, near, withinKm }),
+    [bucket, days, selectedReps, health, tag, field, near, withinKm]
   );
 
+  const hasDistance = !!data?.rows.some((r) => r.distanceKm != null);
+
   // Nice summary for the Sales Reps pill
   const repSummary = useMemo(() => {
     if (!reps.length) return "No reps";
@@ -145,6 +236,67 @@ export default function CustomerDropOffPage() {
               </div>
             )}
 
+            {/* Health score band */}
+            <div className="field">
+              <label>Health</label>
+              <select value={health} onChange={(e) => setHealth(e.target.value)} style={{ minWidth: 140 }}>
+                <option value="">Any</option>
+                <option value="at_risk">At risk</option>
+                <option value="at_risk,watch">At risk or watch</option>
+                <option value="watch">Watch</option>
+                <option value="healthy">Healthy</option>
+              </select>
+            </div>
+
+            {tags.length > 0 && (
+              <div className="field">
+                <label>Tag</label>
+                <select value={tag} onChange={(e) => setTag(e.target.value)} style={{ minWidth: 140 }}>
+                  <option value="">Any</option>
+                  {tags.map((t) => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+            )}
+
+            {/* Custom field value (select and yes/no fields) */}
+            {fields.some((f) => f.options.length || f.type === "BOOLEAN") && (
+              <div className="field">
+                <label>Custom field</label>
+                <select value={field} onChange={(e) => setField(e.target.value)} style={{ minWidth: 160 }}>
+                  <option value="">Any</option>
+                  {fields.map((f) =>
+                    f.type === "BOOLEAN" ? (
+                      <optgroup key={f.key} label={f.label}>
+                        <option value={`cf.${f.key}.is=yes`}>Yes</option>
+                        <option value={`cf.${f.key}.is=no`}>No</option>
+                      </optgroup>
+                    ) : f.options.length ? (
+                      <optgroup key={f.key} label={f.label}>
+                        {f.options.map((o) => <option key={o} value={`cf.${f.key}=${o}`}>{o}</option>)}
+                      </optgroup>
+                    ) : null
+                  )}
+                </select>
+              </div>
+            )}
+
+            {/* Area around the user's current location */}
+            <div className="field">
+              <label>Area</label>
+              <select value={withinKm} onChange={(e) => setWithinKm(e.target.value)} style={{ minWidth: 140 }}>
+                <option value="">Anywhere</option>
+                <option value="10">Within 10 km of me</option>
+                <option value="25">Within 25 km of me</option>
+                <option value="50">Within 50 km of me</option>
+                <option value="100">Within 100 km of me</option>
+              </select>
+              {withinKm && (
+                <div className="small muted" style={{ marginTop: 4 }}>
+                  Leaves out customers with no map position (postcode unknown or only matched to its area).
+                </div>
+              )}
+            </div>
+
             {/* Sales rep multi-select dropdown */}
             <div className="field" style={{ position: "relative" }}>
               <label>Sales Reps</label>
@@ -264,6 +416,7 @@ export default function CustomerDropOffPage() {
 
       {/* Results */}
       <section className="card">
+        {geoError && <p className="form-error">{geoError}</p>}
         {!data ? (
           <p className="small">Choose filters and click <b>Run</b>.</p>
         ) : data.rows.length === 0 ? (
@@ -285,6 +438,14 @@ export default function CustomerDropOffPage() {
                   <th style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
                     Days Since
                   </th>
+                  <th style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
+                    Health
+                  </th>
+                  {hasDistance && (
+                    <th style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
+                      Distance
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody>
@@ -292,6 +453,23 @@ export default function CustomerDropOffPage() {
                   <tr key={r.customerId}>
                     <td style={{ padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
                       {r.salonName}
+                      {r.postCode && (
+                        <span className="muted">
+                          {" · "}
+                          {r.latitude != null && r.longitude != null ? (
+                            <a
+                              href={`https://www.google.com/maps/search/?api=1&query=${r.latitude},${r.longitude}`}
+                              target="_blank"
+                              rel="noopener"
+                            >
+                              {r.postCode}
+                            </a>
+                          ) : (
+                            r.postCode
+                          )}
+                        </span>
+                      )}
+                      {r.tags.length > 0 && <div className="small muted">{r.tags.join(", ")}</div>}
                     </td>
                     <td style={{ padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
                       {r.salesRep || "—"}
@@ -302,6 +480,20 @@ export default function CustomerDropOffPage() {
                     <td style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
                       {r.daysSince === Number.POSITIVE_INFINITY ? "Never" : r.daysSince}
                     </td>
+                    <td style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
+                      {r.health && HEALTH[r.health] ? (
+                        <span style={{ padding: "1px 8px", borderRadius: 999, fontWeight: 600, background: HEALTH[r.health].bg, color: HEALTH[r.health].fg }}>
+                          {r.healthScore} · {HEALTH[r.health].label}
+                        </span>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    {hasDistance && (
+                      <td style={{ textAlign: "right", padding: "6px 8px", borderBottom: "1px solid var(--border)" }}>
+                        {r.distanceKm == null ? "—" : `${r.distanceKm} km`}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
@@ -25,6 +25,11 @@ export default function ReportsHub() {
           <div className="action-sub">GAP analysis, drop-off, sales & PAR</div>
         </Link>
 
+        <Link href="/reports/pipeline-funnel" className="action-tile">
+          <div className="action-title">Pipeline Funnel</div>
+          <div className="action-sub">Stage conversion, days in stage & monthly cohorts</div>
+        </Link>
+
         <Link href="/reports/brand-penetration" className="action-tile">
           <div className="action-title">Brand Penetration</div>
           <div className="action-sub">Which customers stock which brands</div>
@@ -0,0 +1,204 @@
+// app/reports/pipeline-funnel/page.tsx
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { STAGE_LABELS } from "@/lib/pipeline";
+import type { FunnelRow, PipelineFunnelReport } from "@/lib/pipelineReport";
+
+type Rep = { id: string; name: string };
+
+function pad(n: number) { return n < 10 ? `0${n}` : String(n); }
+function ymdLocal(d: Date) { return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`; }
+
+const fmtPct = (n: number | null) => (n == null ? "—" : `${n.toFixed(1)}%`);
+const fmtDays = (n: number | null) => (n == null ? "—" : n.toFixed(1));
+
+function monthLabel(key: string) {
+  const [y, m] = key.split("-").map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString("en-GB", { month: "short", year: "numeric" });
+}
+
+/** Reach and conversion per stage, then median days in each stage. */
+function FunnelTable({ report, rows, label, name = (k) => k }: {
+  report: PipelineFunnelReport;
+  rows: FunnelRow[];
+  label: string;
+  name?: (key: string) => string;
+}) {
+  return (
+    <div style={{ overflowX: "auto" }}>
+      <table className="table" style={{ width: "100%" }}>
+        <thead>
+          <tr>
+            <th align="left">{label}</th>
+            <th align="right">Customers</th>
+            {report.stages.slice(1).map((s) => (
+              <th key={s} align="right">→ {STAGE_LABELS[s]}</th>
+            ))}
+            {report.stages.map((s) => (
+              <th key={"d" + s} align="right" className="small">Days in {STAGE_LABELS[s]}</th>
+            ))}
+            <th align="right">Lost</th>
+            <th align="right">Dormant</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((r) => (
+            <tr key={r.key}>
+              <td>{name(r.key)}</td>
+              <td align="right">{r.customers}</td>
+              {report.stages.slice(1).map((s) => (
+                <td key={s} align="right">
+                  {r.reached[s]} <span className="small muted">{fmtPct(r.conversion[s])}</span>
+                </td>
+              ))}
+              {report.stages.map((s) => (
+                <td key={"d" + s} align="right" className="small">{fmtDays(r.medianDays[s])}</td>
+              ))}
+              <td align="right">{r.lost}</td>
+              <td align="right">{r.dormant}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function PipelineFunnelPage() {
+  const today = useMemo(() => new Date(), []);
+  const [from, setFrom] = useState(ymdLocal(new Date(today.getFullYear() - 1, today.getMonth() + 1, 1)));
+  const [to, setTo] = useState(ymdLocal(today));
+  const [rep, setRep] = useState("");
+  const [reps, setReps] = useState<Rep[]>([]);
+  const [data, setData] = useState<PipelineFunnelReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/sales-reps", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => setReps(Array.isArray(j) ? j : []))
+      .catch(() => setReps([]));
+  }, []);
+
+  const qs = useMemo(() => {
+    const q = new URLSearchParams({ from, to });
+    if (rep) q.set("rep", rep);
+    return q.toString();
+  }, [from, to, rep]);
+
+  useEffect(() => {
+    setLoading(true);
+    setErr(null);
+    fetch(`/api/reports/pipeline-funnel?${qs}`, { cache: "no-store" })
+      .then(async (r) => {
+        const j = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(j?.error || "Failed to load report");
+        setData(j);
+      })
+      .catch((e) => {
+        setErr(e?.message || "Failed to load report");
+        setData(null);
+      })
+      .finally(() => setLoading(false));
+  }, [qs]);
+
+  const overall = data?.overall;
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card" style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+        <div className="row" style={{ justifyContent: "space-between", alignItems: "center", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <h1 style={{ margin: 0 }}>Pipeline Funnel</h1>
+            <p className="small muted" style={{ margin: "4px 0 0" }}>
+              Customers created in the range: how far along the pipeline they got, and how long they spent in each stage.
+            </p>
+          </div>
+          <a className="btn" href={`/api/reports/pipeline-funnel?${qs}&format=csv`}>Export CSV</a>
+        </div>
+        <div className="row" style={{ gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Created from</label>
+            <input type="date" value={from} onChange={(e) => e.target.value && setFrom(e.target.value)} />
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>To</label>
+            <input type="date" value={to} onChange={(e) => e.target.value && setTo(e.target.value)} />
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Sales Rep</label>
+            <select value={rep} onChange={(e) => setRep(e.target.value)}>
+              <option value="">All reps</option>
+              {reps.map((r) => <option key={r.id} value={r.name}>{r.name}</option>)}
+            </select>
+          </div>
+        </div>
+      </section>
+
+      {err && (
+        <div className="card" style={{ borderColor: "#fca5a5" }}>
+          <div className="small" style={{ color: "#b91c1c" }}>{err}</div>
+        </div>
+      )}
+
+      {loading && !data && <section className="card"><p className="small muted">Loading…</p></section>}
+
+      {data && overall && (
+        <>
+          <section className="card">
+            <h2 style={{ marginBottom: 12 }}>Funnel</h2>
+            {overall.customers === 0 ? (
+              <p className="small muted">No customers were created in this range.</p>
+            ) : (
+              <div style={{ display: "grid", gap: 10 }}>
+                {data.stages.map((s, i) => {
+                  const pct = Math.round((overall.reached[s] / overall.customers) * 100);
+                  return (
+                    <div key={s}>
+                      {i > 0 && (
+                        <div style={{ textAlign: "center", padding: "0 0 4px", fontSize: "0.7rem", color: "var(--muted)" }}>
+                          {fmtPct(overall.conversion[s])} converted
+                        </div>
+                      )}
+                      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 4 }}>
+                        <span style={{ fontWeight: 600, fontSize: "0.875rem" }}>{STAGE_LABELS[s]}</span>
+                        <span className="small">
+                          <b>{overall.reached[s]}</b>
+                          <span className="muted"> · median {fmtDays(overall.medianDays[s])} days</span>
+                        </span>
+                      </div>
+                      <div style={{ height: 22, background: "var(--surface-2)", borderRadius: 8, overflow: "hidden", border: "1px solid var(--border)" }}>
+                        <div style={{ height: "100%", width: pct + "%", background: "#818cf8", minWidth: overall.reached[s] > 0 ? 6 : 0 }} />
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="small muted">
+                  Now lost: <b>{overall.lost}</b> · dormant: <b>{overall.dormant}</b>. Median days count customers who left
+                  the stage; customers from before stage history began only count towards reach.
+                </div>
+              </div>
+            )}
+          </section>
+
+          {!rep && data.byRep.length > 0 && (
+            <section className="card">
+              <h2 style={{ marginBottom: 12 }}>By Rep</h2>
+              <FunnelTable report={data} rows={data.byRep} label="Rep" />
+            </section>
+          )}
+
+          {data.cohorts.length > 0 && (
+            <section className="card">
+              <h2 style={{ marginBottom: 2 }}>Cohorts</h2>
+              <p className="small muted" style={{ marginBottom: 12 }}>By the month the customer was created.</p>
+              <FunnelTable report={data} rows={data.cohorts} label="Month" name={monthLabel} />
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
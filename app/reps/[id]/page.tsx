@@ -11,8 +11,8 @@ type Customer = { id: string; salonName: string; town: string | null; stage: str
 type CallEntry = { id: string; createdAt: string; callType: string | null; outcome: string | null; customerName: string | null; customer: { id: string; salonName: string } | null; durationMinutes: number | null; followUpRequired: boolean; followUpAt: string | null; };
 type ProfileData = { rep: Rep; stats: Stats; recentCustomers: Customer[]; recentCalls: CallEntry[]; };
 
-const STAGE_LABEL: Record<string, string> = { LEAD: "Lead", APPOINTMENT_BOOKED: "Appointment", SAMPLING: "Sampling", CUSTOMER: "Customer" };
-const STAGE_COLOR: Record<string, string> = { LEAD: "#e0e7ff", APPOINTMENT_BOOKED: "#fef9c3", SAMPLING: "#fce7f3", CUSTOMER: "#dcfce7" };
+const STAGE_LABEL: Record<string, string> = { LEAD: "Lead", APPOINTMENT_BOOKED: "Appointment", SAMPLING: "Sampling", CUSTOMER: "Customer", DORMANT: "Dormant", LOST: "Lost" };
+const STAGE_COLOR: Record<string, string> = { LEAD: "#e0e7ff", APPOINTMENT_BOOKED: "#fef9c3", SAMPLING: "#fce7f3", CUSTOMER: "#dcfce7", DORMANT: "#f3f4f6", LOST: "#fee2e2" };
 const fmt = (d: string) => new Date(d).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" });
 
 export default function RepProfilePage() {
@@ -40,7 +40,12 @@ type CallRow = {
   createdAt: string;
   latitude: number | null;
   longitude: number | null;
-  customer?: { salonName?: string | null; customerName?: string | null };
+  customer?: {
+    salonName?: string | null;
+    customerName?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+  };
 };
 
 function normReps(payload: any): Rep[] {
@@ -81,11 +86,11 @@ function startOfWeekMonday(d: Date) {
   return x;
 }
 
-function svgPin(color: string) {
-  // Simple SVG pin (24x40) with shadow-ish stroke
+function svgPin(color: string, approximate = false) {
+  // Simple SVG pin (24x40) with shadow-ish stroke; faded when placed from the postcode
   const svg = `
     <svg width="24" height="40" viewBox="0 0 24 40" xmlns="http://www.w3.org/2000/svg">
-      <path d="M12 0C6.477 0 2 4.477 2 10c0 7.5 8.5 17.5 9.1 18.2a1.2 1.2 0 0 0 1.8 0C13.5 27.5 22 17.5 22 10 22 4.477 17.523 0 12 0z" fill="${color}" stroke="#1f2937" stroke-width="1"/>
+      <path d="M12 0C6.477 0 2 4.477 2 10c0 7.5 8.5 17.5 9.1 18.2a1.2 1.2 0 0 0 1.8 0C13.5 27.5 22 17.5 22 10 22 4.477 17.523 0 12 0z" fill="${color}" fill-opacity="${approximate ? 0.45 : 1}" stroke="#1f2937" stroke-width="1"${approximate ? ' stroke-dasharray="2 2"' : ""}/>
       <circle cx="12" cy="10" r="4.5" fill="#fff"/>
     </svg>`;
   return {
@@ -188,11 +193,13 @@ export default function CoverageMapPage() {
 
         const bounds = new window.google.maps.LatLngBounds();
         for (const r of rows) {
-          const lat = Number(r.latitude);
-          const lng = Number(r.longitude);
-          if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+          // Calls without a GPS fix fall back to the customer's geocoded position
+          const gps = r.latitude != null && r.longitude != null;
+          const lat = Number(gps ? r.latitude : r.customer?.latitude);
+          const lng = Number(gps ? r.longitude : r.customer?.longitude);
+          if (!Number.isFinite(lat) || !Number.isFinite(lng) || (!gps && r.customer?.latitude == null)) continue;
 
-          const icon = svgPin(colorForType(r.callType));
+          const icon = svgPin(colorForType(r.callType), !gps);
           const marker = new window.google.maps.Marker({
             position: { lat, lng },
             map: mapRef.current,
@@ -216,6 +223,7 @@ export default function CoverageMapPage() {
                 <div style="color:#6b7280;margin:4px 0">${when}</div>
                 <div><b>Rep:</b> ${staff}</div>
                 <div><b>Type:</b> ${type}</div>
+                ${gps ? "" : `<div style="color:#6b7280;margin-top:4px">Placed at the customer's postcode (no GPS on this call)</div>`}
                 ${r.summary ? `<div style="margin-top:6px">${(r.summary || "").replace(/</g,"&lt;")}</div>` : ""}
               </div>
             `;
@@ -289,7 +297,8 @@ export default function CoverageMapPage() {
       <section className="card">
         <h1>Coverage map</h1>
         <p className="small">
-          View logged calls; filter by sales rep and date range. Pins are colour-coded by call type.
+          View logged calls; filter by sales rep and date range. Pins are colour-coded by call type;
+          faded pins are calls without GPS, placed at the customer&apos;s postcode.
         </p>
       </section>
 
@@ -56,6 +56,11 @@ export default function SalesHubPage() {
           <div className="action-sub">Follow-up actions</div>
         </Link>
 
+        <Link href="/saleshub/tasks" className="action-tile">
+          <div className="action-title">My Tasks</div>
+          <div className="action-sub">Follow-ups due &amp; overdue</div>
+        </Link>
+
         {/* Coverage Map (new) */}
         <Link href="/saleshub/coverage-map" className="action-tile">
           <div className="action-title">Coverage Map</div>
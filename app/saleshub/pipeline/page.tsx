@@ -2,17 +2,11 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { CLOSED_STAGES, LOSS_REASON_LABELS, STAGE_ORDER, type LossReasonValue, type StageValue } from "@/lib/pipeline";
 
-type Stage = "LEAD" | "ENGAGED" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER";
+type Stage = StageValue;
 
-type Counts = {
-  LEAD: number;
-  ENGAGED: number;
-  APPOINTMENT_BOOKED: number;
-  SAMPLING: number;
-  CUSTOMER: number;
-  total: number;
-};
+type Counts = Record<Stage, number> & { total: number };
 
 type Row = {
   id: string;
@@ -20,16 +14,31 @@ type Row = {
   customerName: string | null;
   salesRep: string | null;
   stage: Stage;
+  lossReason: LossReasonValue | null;
   createdAt: string;
 };
 
-const STAGE_ORDER: Stage[] = ["LEAD", "ENGAGED", "APPOINTMENT_BOOKED", "SAMPLING", "CUSTOMER"];
+type LossRow = { stage: Stage; reason: LossReasonValue | null; count: number };
+
+type CompetitorRow = {
+  brandId: string;
+  brand: string;
+  customers: number;
+  won: number;
+  lost: number;
+  dormant: number;
+  lostTo: number;
+  winRate: number | null;
+};
+
 const STAGE_LABELS: Record<Stage, string> = {
   LEAD: "Lead",
   ENGAGED: "Engaged",
   APPOINTMENT_BOOKED: "Appointment Booked",
   SAMPLING: "Sampling",
   CUSTOMER: "Customer",
+  DORMANT: "Dormant",
+  LOST: "Lost",
 };
 const STAGE_COLORS: Record<Stage, { bg: string; fg: string; bar: string }> = {
   LEAD: { bg: "#e0e7ff", fg: "#3730a3", bar: "#818cf8" },
@@ -37,6 +46,8 @@ const STAGE_COLORS: Record<Stage, { bg: string; fg: string; bar: string }> = {
   APPOINTMENT_BOOKED: { bg: "#fef9c3", fg: "#92400e", bar: "#facc15" },
   SAMPLING: { bg: "#fce7f3", fg: "#9d174d", bar: "#f472b6" },
   CUSTOMER: { bg: "#dcfce7", fg: "#166534", bar: "#4ade80" },
+  DORMANT: { bg: "#f3f4f6", fg: "#4b5563", bar: "#9ca3af" },
+  LOST: { bg: "#fee2e2", fg: "#991b1b", bar: "#f87171" },
 };
 
 function daysAgo(iso: string) {
@@ -52,6 +63,8 @@ export default function PipelinePage() {
   const [stageFilter, setStageFilter] = useState<Stage | "">("");
   const [counts, setCounts] = useState<Counts | null>(null);
   const [rows, setRows] = useState<Row[]>([]);
+  const [lossReasons, setLossReasons] = useState<LossRow[]>([]);
+  const [competitors, setCompetitors] = useState<CompetitorRow[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -71,8 +84,10 @@ export default function PipelinePage() {
       .then(j => {
         setCounts(j.counts || null);
         setRows(Array.isArray(j.items) ? j.items : []);
+        setLossReasons(Array.isArray(j.lossReasons) ? j.lossReasons : []);
+        setCompetitors(Array.isArray(j.competitors) ? j.competitors : []);
       })
-      .catch(() => { setCounts(null); setRows([]); })
+      .catch(() => { setCounts(null); setRows([]); setLossReasons([]); setCompetitors([]); })
       .finally(() => setLoading(false));
   }, [rep, stageFilter]);
 
@@ -102,7 +117,7 @@ export default function PipelinePage() {
         <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 10 }}>
           <div>
             <h1 style={{ marginBottom: 2 }}>Pipeline</h1>
-            <p className="small muted">Track customers through the funnel from first contact to paying customer.</p>
+            <p className="small muted">Track customers through the funnel from first contact to paying customer, and why some drop out.</p>
           </div>
           <Link href="/customers/new" className="primary">+ New Customer</Link>
         </div>
@@ -159,6 +174,26 @@ export default function PipelinePage() {
                 </div>
               );
             })}
+            {/* off the pipeline, so outside the conversion rates */}
+            <div className="row" style={{ gap: 8, flexWrap: "wrap", borderTop: "1px solid var(--border)", paddingTop: 10, marginTop: 4 }}>
+              {CLOSED_STAGES.map(({ value: stage }) => {
+                const colors = STAGE_COLORS[stage];
+                const isActive = stageFilter === stage;
+                return (
+                  <button
+                    key={stage}
+                    type="button"
+                    onClick={() => setStageFilter(isActive ? "" : stage)}
+                    style={{
+                      padding: "4px 12px", borderRadius: 999, fontSize: "0.8rem", fontWeight: 600, cursor: "pointer",
+                      background: colors.bg, color: colors.fg, border: isActive ? "2px solid " + colors.bar : "1px solid var(--border)",
+                    }}
+                  >
+                    {STAGE_LABELS[stage]} {counts[stage] ?? 0}
+                  </button>
+                );
+              })}
+            </div>
             {stageFilter && (
               <button className="btn" style={{ fontSize: "0.8rem", marginTop: 4, width: "fit-content" }} onClick={() => setStageFilter("")}>
                 Clear filter
@@ -168,6 +203,73 @@ export default function PipelinePage() {
         )}
       </section>
 
+      {/* Why customers left the pipeline */}
+      {!loading && lossReasons.length > 0 && (
+        <section className="card">
+          <h2 style={{ marginBottom: 12 }}>Loss Reasons</h2>
+          <table className="table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th align="left">Reason</th>
+                <th align="left">Stage</th>
+                <th align="right">Customers</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lossReasons.map((r) => (
+                <tr key={r.stage + (r.reason ?? "")}>
+                  <td>{r.reason ? LOSS_REASON_LABELS[r.reason] : "Not recorded"}</td>
+                  <td className="small">{STAGE_LABELS[r.stage]}</td>
+                  <td align="right">{r.count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      {/* Win/loss by competitor brand */}
+      {!loading && (
+        <section className="card">
+          <h2 style={{ marginBottom: 2 }}>Competitor Win/Loss</h2>
+          <p className="small muted" style={{ marginBottom: 12 }}>
+            Customers whose calls recorded a competitor brand, and where they are now. Win rate is won against lost.
+          </p>
+          {competitors.length === 0 ? (
+            <p className="small muted">No competitor brands recorded on calls yet.</p>
+          ) : (
+            <div style={{ overflowX: "auto" }}>
+              <table className="table" style={{ width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th align="left">Brand</th>
+                    <th align="right">Customers</th>
+                    <th align="right">Won</th>
+                    <th align="right">Lost</th>
+                    <th align="right">Lost to brand</th>
+                    <th align="right">Dormant</th>
+                    <th align="right">Win rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {competitors.map((c) => (
+                    <tr key={c.brandId}>
+                      <td>{c.brand}</td>
+                      <td align="right">{c.customers}</td>
+                      <td align="right">{c.won}</td>
+                      <td align="right">{c.lost}</td>
+                      <td align="right">{c.lostTo}</td>
+                      <td align="right">{c.dormant}</td>
+                      <td align="right">{c.winRate == null ? "—" : c.winRate + "%"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+
       {/* Customer list */}
       <section className="card">
         <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
@@ -197,6 +299,7 @@ export default function PipelinePage() {
                     </div>
                     <span style={{ padding: "3px 10px", borderRadius: 999, fontSize: "0.72rem", fontWeight: 600, background: colors.bg, color: colors.fg, flexShrink: 0 }}>
                       {STAGE_LABELS[c.stage] || c.stage}
+                      {c.lossReason ? " - " + LOSS_REASON_LABELS[c.lossReason] : ""}
                     </span>
                   </div>
                 </Link>
@@ -11,6 +11,8 @@ type Customer = {
   addressLine1: string;
   town: string | null;
   postCode: string | null;
+  latitude: number | null;
+  longitude: number | null;
   salesRep: string | null;
   routeWeeks: number[];
   routeDays: string[];
@@ -55,6 +57,9 @@ export default function RoutePlanPage() {
   const [selectedDay, setSelectedDay] = useState(getTodayDay());
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(false);
+  // "lat,lng" to start the day's route from; stops are ordered by distance from here
+  const [startFrom, setStartFrom] = useState<string | null>(null);
+  const [locating, setLocating] = useState(false);
   const [briefCustomerId, setBriefCustomerId] = useState<string | null>(null);
   const [briefText, setBriefText] = useState("");
   const [briefLoading, setBriefLoading] = useState(false);
@@ -93,12 +98,30 @@ export default function RoutePlanPage() {
       onlyPlanned: "1",
       limit: "100",
     });
+    if (startFrom) qs.set("from", startFrom);
     fetch("/api/route-planning?" + qs.toString(), { cache: "no-store" })
       .then(r => r.json())
       .then(j => setCustomers(Array.isArray(j) ? j : []))
       .catch(() => setCustomers([]))
       .finally(() => setLoading(false));
-  }, [selectedRepName, selectedWeek, selectedDay]);
+  }, [selectedRepName, selectedWeek, selectedDay, startFrom]);
+
+  function handleStartFromHere() {
+    if (startFrom) {
+      setStartFrom(null);
+      return;
+    }
+    if (!("geolocation" in navigator)) return;
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      pos => {
+        setStartFrom(pos.coords.latitude.toFixed(5) + "," + pos.coords.longitude.toFixed(5));
+        setLocating(false);
+      },
+      () => setLocating(false),
+      { enableHighAccuracy: false, timeout: 8000, maximumAge: 300000 }
+    );
+  }
 
   function handleRepChange(e: React.ChangeEvent<HTMLSelectElement>) {
     setSelectedRepId(e.target.value);
@@ -161,6 +184,7 @@ export default function RoutePlanPage() {
   }
 
   const todayDay = getTodayDay();
+  const unplaced = customers.filter(c => c.latitude == null || c.longitude == null).length;
 
   return (
     <div style={{ display: "grid", gap: 16 }}>
@@ -246,15 +270,25 @@ export default function RoutePlanPage() {
               <p className="small muted">{selectedRepName + " - " + (loading ? "Loading..." : customers.length + " stops")}</p>
             </div>
             {customers.length > 0 && (
-              <a href={"https://www.google.com/maps/dir/" + customers.map(c => encodeURIComponent([c.addressLine1, c.town, c.postCode].filter(Boolean).join(", "))).join("/")} target="_blank" rel="noreferrer" className="btn" style={{ fontSize: "0.8rem" }}>
-                Maps
-              </a>
+              <div style={{ display: "flex", gap: 6 }}>
+                <button className="btn" style={{ fontSize: "0.8rem" }} onClick={handleStartFromHere} disabled={locating} title="Order stops starting from where you are now">
+                  {locating ? "Locating..." : startFrom ? "From my location ✓" : "From my location"}
+                </button>
+                <a href={"https://www.google.com/maps/dir/" + customers.map(c => encodeURIComponent([c.addressLine1, c.town, c.postCode].filter(Boolean).join(", "))).join("/")} target="_blank" rel="noreferrer" className="btn" style={{ fontSize: "0.8rem" }}>
+                  Maps
+                </a>
+              </div>
             )}
           </div>
 
           {!loading && customers.length === 0 && (
             <p className="small muted">No customers scheduled for this day.</p>
           )}
+          {!loading && unplaced > 0 && (
+            <p className="small muted" style={{ marginTop: 0 }}>
+              {unplaced + (unplaced === 1 ? " stop has" : " stops have") + " no map position (postcode unknown or only matched to its area), so " + (unplaced === 1 ? "it's" : "they're") + " listed last in postcode order."}
+            </p>
+          )}
 
           <div style={{ display: "grid", gap: 10 }}>
             {customers.map((c, i) => (
@@ -270,6 +304,7 @@ export default function RoutePlanPage() {
                         {c.customerName && <span className="small muted">{c.customerName}</span>}
                         {c.customerTelephone && <a href={"tel:" + c.customerTelephone} className="small muted" style={{ textDecoration: "none" }}>{c.customerTelephone}</a>}
                         {(c.town || c.postCode) && <span className="small muted">{[c.town, c.postCode].filter(Boolean).join(", ")}</span>}
+                        {c.latitude == null && <span className="small muted">(no position)</span>}
                       </div>
                     </div>
                   </div>
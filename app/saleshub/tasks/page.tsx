@@ -0,0 +1,305 @@
+// app/saleshub/tasks/page.tsx
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+
+type Rep = { id: string; name: string };
+type Priority = "LOW" | "NORMAL" | "HIGH";
+type Status = "OPEN" | "DONE" | "CANCELLED";
+
+type Task = {
+  id: string;
+  title: string;
+  notes: string | null;
+  status: Status;
+  priority: Priority;
+  dueAt: string | null;
+  completedAt: string | null;
+  assigneeRep: { id: string; name: string } | null;
+  completedBy: { fullName: string } | null;
+  customer: { id: string; salonName: string; customerName: string | null } | null;
+  callLog: { id: string; createdAt: string; customerName: string | null } | null;
+  closedByCall: { id: string; createdAt: string } | null;
+};
+
+const PRIORITY_LABELS: Record<Priority, string> = { LOW: "Low", NORMAL: "Normal", HIGH: "High" };
+const STATUS_LABELS: Record<Status, string> = { OPEN: "Open", DONE: "Done", CANCELLED: "Cancelled" };
+
+function pad(n: number) { return n < 10 ? `0${n}` : String(n); }
+function ymdLocal(d: Date) { return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`; }
+/** A picked yyyy-mm-dd as local midday, so the day survives the trip through UTC. */
+function dueFromInput(v: string) { return v ? new Date(`${v}T12:00`).toISOString() : null; }
+
+/** Overdue = due before today; due today gets a softer highlight. */
+function dueState(t: Task, today: string): "overdue" | "today" | null {
+  if (t.status !== "OPEN" || !t.dueAt) return null;
+  const day = ymdLocal(new Date(t.dueAt));
+  if (day < today) return "overdue";
+  return day === today ? "today" : null;
+}
+
+const DUE_COLORS = { overdue: "#dc2626", today: "#ca8a04" } as const;
+
+export default function TasksPage() {
+  const [reps, setReps] = useState<Rep[]>([]);
+  const [assignee, setAssignee] = useState("me");
+  const [status, setStatus] = useState<Status | "ALL">("OPEN");
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [myRepId, setMyRepId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // new task form
+  const [title, setTitle] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [priority, setPriority] = useState<Priority>("NORMAL");
+  const [newRep, setNewRep] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const today = ymdLocal(new Date());
+
+  useEffect(() => {
+    fetch("/api/sales-reps", { cache: "no-store" })
+      .then((r) => r.json())
+      .then((j) => setReps(Array.isArray(j) ? j : []))
+      .catch(() => setReps([]));
+  }, []);
+
+  const load = useCallback(() => {
+    setLoading(true);
+    setErr(null);
+    const q = new URLSearchParams({ status });
+    if (assignee) q.set("assignee", assignee);
+    fetch(`/api/tasks?${q}`, { cache: "no-store" })
+      .then(async (r) => {
+        const j = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(j?.error || "Failed to load tasks");
+        setTasks(Array.isArray(j.tasks) ? j.tasks : []);
+        setMyRepId(j.myRepId ?? null);
+      })
+      .catch((e) => {
+        setErr(e?.message || "Failed to load tasks");
+        setTasks([]);
+      })
+      .finally(() => setLoading(false));
+  }, [assignee, status]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const overdueCount = useMemo(() => tasks.filter((t) => dueState(t, today) === "overdue").length, [tasks, today]);
+
+  async function patch(id: string, body: Record<string, unknown>) {
+    setErr(null);
+    const r = await fetch(`/api/tasks/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) {
+      setErr(j?.error || "Could not save the task");
+      return;
+    }
+    load();
+  }
+
+  async function addTask(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setErr(null);
+    try {
+      const r = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          title,
+          dueAt: dueFromInput(dueAt),
+          priority,
+          assigneeRepId: newRep || myRepId || null,
+        }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Could not create the task");
+      setTitle("");
+      setDueAt("");
+      setPriority("NORMAL");
+      load();
+    } catch (e: any) {
+      setErr(e?.message || "Could not create the task");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card" style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+        <div>
+          <h1 style={{ margin: 0 }}>My Tasks</h1>
+          <p className="small muted" style={{ margin: "4px 0 0" }}>
+            Follow-ups from logged calls and tasks added by hand. Logging a call for the customer can close them too.
+          </p>
+        </div>
+        <div className="row" style={{ gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Assigned to</label>
+            <select value={assignee} onChange={(e) => setAssignee(e.target.value)}>
+              <option value="me">Me</option>
+              <option value="">Everyone</option>
+              <option value="none">Unassigned</option>
+              {reps.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Status</label>
+            <select value={status} onChange={(e) => setStatus(e.target.value as Status | "ALL")}>
+              {(Object.keys(STATUS_LABELS) as Status[]).map((s) => <option key={s} value={s}>{STATUS_LABELS[s]}</option>)}
+              <option value="ALL">All</option>
+            </select>
+          </div>
+          {status === "OPEN" && overdueCount > 0 && (
+            <span className="small" style={{ color: DUE_COLORS.overdue, fontWeight: 600 }}>{overdueCount} overdue</span>
+          )}
+        </div>
+        {assignee === "me" && !myRepId && !loading && (
+          <div className="form-hint">Your login isn’t linked to a sales rep, so only unassigned tasks show here.</div>
+        )}
+      </section>
+
+      <section className="card">
+        <h2 style={{ marginBottom: 12 }}>New Task</h2>
+        <form onSubmit={addTask} className="row" style={{ gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+          <div className="field" style={{ margin: 0, flex: "1 1 240px" }}>
+            <label>Title</label>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Send price list" required />
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Due</label>
+            <input type="date" value={dueAt} onChange={(e) => setDueAt(e.target.value)} />
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Priority</label>
+            <select value={priority} onChange={(e) => setPriority(e.target.value as Priority)}>
+              {(Object.keys(PRIORITY_LABELS) as Priority[]).map((p) => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+            </select>
+          </div>
+          <div className="field" style={{ margin: 0 }}>
+            <label>Assign to</label>
+            <select value={newRep} onChange={(e) => setNewRep(e.target.value)}>
+              <option value="">{myRepId ? "Me" : "Unassigned"}</option>
+              {reps.filter((r) => r.id !== myRepId).map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </div>
+          <button className="primary small" type="submit" disabled={saving || !title.trim()}>
+            {saving ? "Adding…" : "Add task"}
+          </button>
+        </form>
+      </section>
+
+      {err && <div className="form-error">{err}</div>}
+
+      <section className="card">
+        {loading && !tasks.length ? (
+          <p className="small muted">Loading…</p>
+        ) : tasks.length === 0 ? (
+          <p className="small muted">No tasks here.</p>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table className="table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th align="left">Due</th>
+                  <th align="left">Task</th>
+                  <th align="left">Customer</th>
+                  <th align="left">Priority</th>
+                  <th align="left">Assigned to</th>
+                  <th align="left">From</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {tasks.map((t) => {
+                  const due = dueState(t, today);
+                  return (
+                    <tr key={t.id} style={due === "overdue" ? { background: "#fef2f2" } : undefined}>
+                      <td style={{ whiteSpace: "nowrap" }}>
+                        {t.status === "OPEN" ? (
+                          <input
+                            type="date"
+                            value={t.dueAt ? ymdLocal(new Date(t.dueAt)) : ""}
+                            onChange={(e) => patch(t.id, { dueAt: dueFromInput(e.target.value) })}
+                            style={due ? { color: DUE_COLORS[due], fontWeight: 600 } : undefined}
+                          />
+                        ) : (
+                          <span className="small muted">
+                            {STATUS_LABELS[t.status]}
+                            {t.completedAt ? ` ${new Date(t.completedAt).toLocaleDateString()}` : ""}
+                            {t.completedBy ? ` by ${t.completedBy.fullName}` : ""}
+                          </span>
+                        )}
+                        {due === "overdue" && <div className="small" style={{ color: DUE_COLORS.overdue }}>Overdue</div>}
+                      </td>
+                      <td>
+                        <div style={{ fontWeight: 600 }}>{t.title}</div>
+                        {t.notes && <div className="small muted" style={{ whiteSpace: "pre-wrap" }}>{t.notes}</div>}
+                      </td>
+                      <td>
+                        {t.customer ? (
+                          <Link href={`/customers/${t.customer.id}`}>{t.customer.salonName}</Link>
+                        ) : (
+                          <span className="muted">{t.callLog?.customerName || "—"}</span>
+                        )}
+                      </td>
+                      <td>
+                        <select
+                          value={t.priority}
+                          disabled={t.status !== "OPEN"}
+                          onChange={(e) => patch(t.id, { priority: e.target.value })}
+                        >
+                          {(Object.keys(PRIORITY_LABELS) as Priority[]).map((p) => <option key={p} value={p}>{PRIORITY_LABELS[p]}</option>)}
+                        </select>
+                      </td>
+                      <td>
+                        <select
+                          value={t.assigneeRep?.id ?? ""}
+                          disabled={t.status !== "OPEN"}
+                          onChange={(e) => patch(t.id, { assigneeRepId: e.target.value || null })}
+                        >
+                          <option value="">Unassigned</option>
+                          {reps.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                        </select>
+                      </td>
+                      <td className="small">
+                        {t.callLog ? (
+                          <Link href={`/calls/${t.callLog.id}`}>Call {new Date(t.callLog.createdAt).toLocaleDateString()}</Link>
+                        ) : (
+                          <span className="muted">Manual</span>
+                        )}
+                        {t.closedByCall && (
+                          <div>
+                            <Link href={`/calls/${t.closedByCall.id}`}>Closed by call</Link>
+                          </div>
+                        )}
+                      </td>
+                      <td align="right" style={{ whiteSpace: "nowrap" }}>
+                        {t.status === "OPEN" ? (
+                          <>
+                            <button className="primary small" onClick={() => patch(t.id, { status: "DONE" })}>Done</button>{" "}
+                            <button className="btn small" onClick={() => patch(t.id, { status: "CANCELLED" })}>Cancel</button>
+                          </>
+                        ) : (
+                          <button className="btn small" onClick={() => patch(t.id, { status: "OPEN" })}>Reopen</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import GoogleCalendarConnect from "@/components/GoogleCalendarConnect";
+import AccountSessions from "@/components/AccountSessions";
+import AccountTwoFactor from "@/components/AccountTwoFactor";
 
 export const dynamic = "force-dynamic";
 
@@ -233,6 +235,24 @@ export default function AccountSettingsPage() {
             </p>
             <GoogleCalendarConnect />
           </section>
+
+          {/* Two-factor authentication */}
+          <section className="card">
+            <h2 style={{ marginTop: 0 }}>Two-Factor Authentication</h2>
+            <p className="small" style={{ marginTop: 2 }}>
+              Ask for a code from an authenticator app when signing in. Required for admin and manager accounts.
+            </p>
+            <AccountTwoFactor />
+          </section>
+
+          {/* Signed-in devices */}
+          <section className="card">
+            <h2 style={{ marginTop: 0 }}>Signed-in Devices</h2>
+            <p className="small" style={{ marginTop: 2 }}>
+              Sessions end after a period of inactivity. Sign out any device you don&apos;t recognise.
+            </p>
+            <AccountSessions />
+          </section>
         </>
       )}
     </div>
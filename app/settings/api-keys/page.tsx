@@ -0,0 +1,206 @@
+// app/settings/api-keys/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS, type ApiKeyScope } from "@/lib/permissions";
+
+type KeyRow = {
+  id: string;
+  createdAt: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdBy: { fullName: string; email: string } | null;
+};
+
+function fmt(d: string | null) {
+  return d ? new Date(d).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" }) : "—";
+}
+
+function status(k: KeyRow) {
+  if (k.revokedAt) return { label: "Revoked", color: "#b91c1c" };
+  if (k.expiresAt && new Date(k.expiresAt).getTime() <= Date.now()) return { label: "Expired", color: "#92400e" };
+  return { label: "Active", color: "#166534" };
+}
+
+export default function ApiKeysPage() {
+  const [keys, setKeys] = useState<KeyRow[]>([]);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState("365");
+  const [created, setCreated] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    const r = await fetch("/api/admin/api-keys", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) return setMsg(j?.error || "Failed to load keys");
+    setKeys(j.keys ?? []);
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  function toggleScope(s: ApiKeyScope) {
+    setScopes((prev) => (prev.includes(s) ? prev.filter((x) => x !== s) : [...prev, s]));
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setMsg(null);
+    setCreated(null);
+    try {
+      const r = await fetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, scopes, expiresInDays: expiresInDays || null }),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Failed to create key");
+      setCreated(j.key);
+      setName("");
+      setScopes([]);
+      await load();
+    } catch (err: any) {
+      setMsg(err?.message || "Failed to create key");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function revoke(k: KeyRow) {
+    if (!confirm(`Revoke "${k.name}"? Anything using it will stop working immediately.`)) return;
+    const r = await fetch(`/api/admin/api-keys/${k.id}`, { method: "DELETE" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) return setMsg(j?.error || "Failed to revoke key");
+    await load();
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h1>API Keys</h1>
+          <p className="small">
+            Keys for scripts and scheduled jobs. Send as <code>Authorization: Bearer sbp_…</code>; a key can
+            only call the routes its scopes cover.
+          </p>
+        </div>
+        <Link href="/settings" className="btn">Back to Settings</Link>
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>New key</h3>
+        <form onSubmit={create} className="grid" style={{ gap: 10 }}>
+          <div className="field">
+            <label>Name</label>
+            <input className="input" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Vercel cron" />
+          </div>
+          <div className="field">
+            <label>Scopes</label>
+            <div className="grid" style={{ gap: 4 }}>
+              {API_KEY_SCOPES.map((s) => (
+                <label key={s} className="row small" style={{ gap: 6, alignItems: "center" }}>
+                  <input type="checkbox" checked={scopes.includes(s)} onChange={() => toggleScope(s)} />
+                  <code>{s}</code> <span className="muted">{API_KEY_SCOPE_LABELS[s]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="field" style={{ maxWidth: 220 }}>
+            <label>Expires after (days)</label>
+            <input
+              className="input"
+              type="number"
+              min={1}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(e.target.value)}
+              placeholder="blank = never"
+            />
+            <div className="form-hint">Leave blank for a key that never expires.</div>
+          </div>
+          {msg && <div className="form-error">{msg}</div>}
+          <div>
+            <button className="primary" type="submit" disabled={busy || !name.trim() || !scopes.length}>
+              {busy ? "Creating…" : "Create key"}
+            </button>
+          </div>
+        </form>
+
+        {created && (
+          <div style={{ marginTop: 12, padding: 12, border: "1px solid #fcd34d", background: "#fffbeb", borderRadius: 8 }}>
+            <div className="small" style={{ fontWeight: 600, marginBottom: 6 }}>
+              Copy this key now — it won&apos;t be shown again.
+            </div>
+            <code style={{ wordBreak: "break-all" }}>{created}</code>
+            <div style={{ marginTop: 8 }}>
+              <button className="btn small" type="button" onClick={() => navigator.clipboard?.writeText(created)}>
+                Copy
+              </button>
+            </div>
+          </div>
+        )}
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Keys</h3>
+        {keys.length === 0 ? (
+          <div className="small muted">No API keys yet.</div>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table className="table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th align="left">Name</th>
+                  <th align="left">Key</th>
+                  <th align="left">Scopes</th>
+                  <th align="left">Expires</th>
+                  <th align="left">Last used</th>
+                  <th align="left">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {keys.map((k) => {
+                  const st = status(k);
+                  return (
+                    <tr key={k.id}>
+                      <td>
+                        {k.name}
+                        <div className="small muted">
+                          {fmt(k.createdAt)}
+                          {k.createdBy ? ` · ${k.createdBy.fullName || k.createdBy.email}` : ""}
+                        </div>
+                      </td>
+                      <td><code>sbp_{k.prefix}_…</code></td>
+                      <td className="small">{k.scopes.join(", ")}</td>
+                      <td className="small">{k.expiresAt ? fmt(k.expiresAt) : "Never"}</td>
+                      <td className="small">
+                        {fmt(k.lastUsedAt)}
+                        {k.lastUsedIp ? <div className="muted">{k.lastUsedIp}</div> : null}
+                      </td>
+                      <td className="small" style={{ color: st.color, fontWeight: 600 }}>{st.label}</td>
+                      <td align="right">
+                        {!k.revokedAt && (
+                          <button className="btn small" onClick={() => revoke(k)}>Revoke</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
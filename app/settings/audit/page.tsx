@@ -0,0 +1,172 @@
+// app/settings/audit/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import AuditChanges, { ACTION_LABELS, auditActor } from "@/components/AuditChanges";
+
+type Entry = {
+  id: string;
+  createdAt: string;
+  action: string;
+  entityType: string | null;
+  entityId: string | null;
+  details: any;
+  user: { id: string; fullName: string; email: string } | null;
+  impersonator: { id: string; fullName: string; email: string } | null;
+};
+
+type Filters = { userId: string; entityType: string; entityId: string; action: string; from: string; to: string };
+
+const EMPTY: Filters = { userId: "", entityType: "", entityId: "", action: "", from: "", to: "" };
+
+function entityHref(e: Entry) {
+  if (e.entityType === "Customer" && e.entityId) return `/customers/${e.entityId}?tab=history`;
+  if (e.entityType === "Order" && e.entityId) return `/orders/${e.entityId}`;
+  if (e.entityType === "CallLog" && e.entityId) return `/calls/${e.entityId}`;
+  return null;
+}
+
+export default function AuditLogPage() {
+  const [filters, setFilters] = useState<Filters>(EMPTY);
+  const [entries, setEntries] = useState<Entry[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [facets, setFacets] = useState<{ actions: string[]; entityTypes: string[] }>({ actions: [], entityTypes: [] });
+  const [users, setUsers] = useState<{ id: string; fullName: string; email: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load(f: Filters, after: string | null) {
+    setLoading(true);
+    setMsg(null);
+    try {
+      const qs = new URLSearchParams();
+      for (const [k, v] of Object.entries(f)) if (v) qs.set(k, v);
+      if (after) qs.set("cursor", after);
+      const r = await fetch(`/api/admin/audit?${qs.toString()}`, { cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Failed to load audit log");
+      setEntries((prev) => (after ? [...prev, ...j.entries] : j.entries));
+      setCursor(j.nextCursor ?? null);
+      if (j.facets) setFacets(j.facets);
+    } catch (e: any) {
+      setMsg(e?.message || "Failed to load audit log");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load(EMPTY, null);
+    fetch("/api/users", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json() : { users: [] }))
+      .then((j) => setUsers(j?.users ?? []))
+      .catch(() => {});
+  }, []);
+
+  const set = (k: keyof Filters) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilters((f) => ({ ...f, [k]: e.target.value }));
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h1>Audit Log</h1>
+          <p className="small">Edits, refunds, payment links, backfills and sign-in events.</p>
+        </div>
+        <Link href="/settings" className="btn">Back to Settings</Link>
+      </section>
+
+      <section className="card">
+        <form
+          className="grid"
+          style={{ gridTemplateColumns: "repeat(auto-fit, minmax(160px, 1fr))", gap: 8, alignItems: "end" }}
+          onSubmit={(e) => { e.preventDefault(); load(filters, null); }}
+        >
+          <div className="field">
+            <label>User</label>
+            <select className="input" value={filters.userId} onChange={set("userId")}>
+              <option value="">Anyone</option>
+              {users.map((u) => <option key={u.id} value={u.id}>{u.fullName || u.email}</option>)}
+            </select>
+          </div>
+          <div className="field">
+            <label>Entity</label>
+            <select className="input" value={filters.entityType} onChange={set("entityType")}>
+              <option value="">Any</option>
+              {facets.entityTypes.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div className="field">
+            <label>Entity ID</label>
+            <input className="input" value={filters.entityId} onChange={set("entityId")} placeholder="optional" />
+          </div>
+          <div className="field">
+            <label>Action</label>
+            <select className="input" value={filters.action} onChange={set("action")}>
+              <option value="">Any</option>
+              {facets.actions.map((a) => <option key={a} value={a}>{ACTION_LABELS[a] || a}</option>)}
+            </select>
+          </div>
+          <div className="field">
+            <label>From</label>
+            <input type="date" className="input" value={filters.from} onChange={set("from")} />
+          </div>
+          <div className="field">
+            <label>To</label>
+            <input type="date" className="input" value={filters.to} onChange={set("to")} />
+          </div>
+          <div className="row" style={{ gap: 8 }}>
+            <button className="primary" type="submit" disabled={loading}>Filter</button>
+            <button className="btn" type="button" onClick={() => { setFilters(EMPTY); load(EMPTY, null); }}>Clear</button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card">
+        {msg && <div className="form-error" style={{ marginBottom: 10 }}>{msg}</div>}
+        {entries.length === 0 && !loading ? (
+          <div className="small muted">No entries.</div>
+        ) : (
+          <div className="grid" style={{ gap: 8 }}>
+            {entries.map((e) => {
+              const href = entityHref(e);
+              return (
+                <div key={e.id} style={{ padding: "10px 12px", border: "1px solid var(--border)", borderRadius: 8, background: "#fff" }}>
+                  <div className="row" style={{ justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+                    <span style={{ fontWeight: 600, fontSize: "0.875rem" }}>
+                      {ACTION_LABELS[e.action] || e.action}
+                      {e.entityType && (
+                        <span className="small muted" style={{ fontWeight: 400, marginLeft: 8 }}>
+                          {href ? <Link href={href} style={{ textDecoration: "underline" }}>{e.entityType}</Link> : e.entityType}
+                          {e.entityId ? ` · ${e.entityId}` : ""}
+                        </span>
+                      )}
+                    </span>
+                    <span className="small muted">
+                      {new Date(e.createdAt).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" })}
+                      {" · "}{auditActor(e)}
+                    </span>
+                  </div>
+                  <AuditChanges details={e.details} />
+                  {!e.details?.changes && e.details && (
+                    <pre className="small muted" style={{ margin: "4px 0 0", whiteSpace: "pre-wrap", wordBreak: "break-word" }}>
+                      {JSON.stringify(e.details)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+        {cursor && (
+          <div style={{ marginTop: 12 }}>
+            <button className="btn" disabled={loading} onClick={() => load(filters, cursor)}>
+              {loading ? "Loading…" : "Load more"}
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+// app/settings/custom-fields/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type FieldType = "SELECT" | "MULTI_SELECT" | "NUMBER" | "DATE" | "BOOLEAN";
+
+type Field = {
+  id: string;
+  key: string;
+  label: string;
+  type: FieldType;
+  options: string[];
+  sortOrder: number;
+  active: boolean;
+};
+
+const TYPES: { value: FieldType; label: string }[] = [
+  { value: "SELECT", label: "Select" },
+  { value: "MULTI_SELECT", label: "Multi-select" },
+  { value: "NUMBER", label: "Number" },
+  { value: "DATE", label: "Date" },
+  { value: "BOOLEAN", label: "Yes / no" },
+];
+const typeLabel = (t: FieldType) => TYPES.find((x) => x.value === t)?.label ?? t;
+const hasOptions = (t: FieldType) => t === "SELECT" || t === "MULTI_SELECT";
+
+const EMPTY = { label: "", type: "SELECT" as FieldType, options: "" };
+
+export default function CustomFieldsPage() {
+  const [fields, setFields] = useState<Field[]>([]);
+  const [form, setForm] = useState(EMPTY);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [edit, setEdit] = useState({ label: "", options: "" });
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    const r = await fetch("/api/custom-fields?all=1", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) return setMsg(j?.error || "Failed to load fields");
+    setFields(j.fields ?? []);
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      await load();
+      return true;
+    } catch (e: any) {
+      setMsg(e?.message || "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    if (await send("/api/custom-fields", "POST", form)) setForm(EMPTY);
+  }
+
+  async function saveEdit(f: Field) {
+    const body: Record<string, unknown> = { label: edit.label };
+    if (hasOptions(f.type)) body.options = edit.options;
+    if (await send(`/api/custom-fields/${f.id}`, "PATCH", body)) setEditing(null);
+  }
+
+  async function move(f: Field, dir: -1 | 1) {
+    const i = fields.findIndex((x) => x.id === f.id);
+    const other = fields[i + dir];
+    if (!other) return;
+    // swap positions (nudging apart two fields that share one)
+    const a = f.sortOrder === other.sortOrder ? other.sortOrder + dir : other.sortOrder;
+    await send(`/api/custom-fields/${f.id}`, "PATCH", { sortOrder: a });
+    await send(`/api/custom-fields/${other.id}`, "PATCH", { sortOrder: f.sortOrder });
+  }
+
+  async function remove(f: Field) {
+    if (!confirm(`Delete "${f.label}" and every customer's value for it? Retire it instead to keep the values.`)) return;
+    await send(`/api/custom-fields/${f.id}`, "DELETE");
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h1>Custom Fields</h1>
+          <p className="small">
+            Extra fields shown on every customer&apos;s profile, and available as filters on the customer list and
+            drop-off report. A field&apos;s key and type can&apos;t change once it&apos;s created.
+          </p>
+        </div>
+        <Link href="/settings" className="btn">Back to Settings</Link>
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>New field</h3>
+        <form onSubmit={create} className="grid" style={{ gap: 10 }}>
+          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+            <div className="field">
+              <label>Name</label>
+              <input className="input" value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} placeholder="e.g. Salon type" />
+            </div>
+            <div className="field">
+              <label>Type</label>
+              <select className="input" value={form.type} onChange={(e) => setForm({ ...form, type: e.target.value as FieldType })}>
+                {TYPES.map((t) => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </div>
+          </div>
+          {hasOptions(form.type) && (
+            <div className="field">
+              <label>Options</label>
+              <textarea
+                className="input"
+                rows={4}
+                value={form.options}
+                onChange={(e) => setForm({ ...form, options: e.target.value })}
+                placeholder={"One per line, e.g.\nHair\nBarber\nBeauty"}
+              />
+            </div>
+          )}
+          {msg && <div className="form-error">{msg}</div>}
+          <div>
+            <button className="primary" type="submit" disabled={busy || !form.label.trim()}>
+              {busy ? "Saving…" : "Add field"}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Fields</h3>
+        {fields.length === 0 ? (
+          <div className="small muted">No custom fields yet.</div>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table className="table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th align="left">Name</th>
+                  <th align="left">Key</th>
+                  <th align="left">Type</th>
+                  <th align="left">Options</th>
+                  <th align="left">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map((f, i) =>
+                  editing === f.id ? (
+                    <tr key={f.id}>
+                      <td>
+                        <input className="input" value={edit.label} onChange={(e) => setEdit({ ...edit, label: e.target.value })} />
+                      </td>
+                      <td><code>{f.key}</code></td>
+                      <td className="small">{typeLabel(f.type)}</td>
+                      <td>
+                        {hasOptions(f.type) ? (
+                          <>
+                            <textarea className="input" rows={4} value={edit.options} onChange={(e) => setEdit({ ...edit, options: e.target.value })} />
+                            <div className="form-hint">Removing an option clears it from customers that have it.</div>
+                          </>
+                        ) : (
+                          <span className="small muted">—</span>
+                        )}
+                      </td>
+                      <td />
+                      <td align="right" style={{ whiteSpace: "nowrap" }}>
+                        <button className="btn small" disabled={busy} onClick={() => saveEdit(f)}>Save</button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => setEditing(null)}>Cancel</button>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={f.id} style={f.active ? undefined : { opacity: 0.6 }}>
+                      <td>{f.label}</td>
+                      <td><code>{f.key}</code></td>
+                      <td className="small">{typeLabel(f.type)}</td>
+                      <td className="small">{f.options.join(", ") || "—"}</td>
+                      <td className="small">{f.active ? "Active" : "Retired"}</td>
+                      <td align="right" style={{ whiteSpace: "nowrap" }}>
+                        <button className="btn small" disabled={busy || i === 0} onClick={() => move(f, -1)} aria-label="Move up">↑</button>{" "}
+                        <button className="btn small" disabled={busy || i === fields.length - 1} onClick={() => move(f, 1)} aria-label="Move down">↓</button>{" "}
+                        <button
+                          className="btn small"
+                          disabled={busy}
+                          onClick={() => {
+                            setEditing(f.id);
+                            setEdit({ label: f.label, options: f.options.join("\n") });
+                          }}
+                        >
+                          Edit
+                        </button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => send(`/api/custom-fields/${f.id}`, "PATCH", { active: !f.active })}>
+                          {f.active ? "Retire" : "Restore"}
+                        </button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => remove(f)}>Delete</button>
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// app/settings/diagnostics/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+
+type Tool = { id: string; label: string; desc: string; params?: { name: string; placeholder: string }[] };
+
+export default function DiagnosticsPage() {
+  const [enabled, setEnabled] = useState<boolean | null>(null);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [inputs, setInputs] = useState<Record<string, Record<string, string>>>({});
+  const [running, setRunning] = useState<string | null>(null);
+  const [results, setResults] = useState<Record<string, { status: number; body: any }>>({});
+  const [msg, setMsg] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/admin/diagnostics", { cache: "no-store" })
+      .then(async (r) => {
+        const j = await r.json().catch(() => ({}));
+        if (!r.ok) throw new Error(j?.error || "Failed to load diagnostics");
+        setEnabled(!!j.enabled);
+        setTools(j.tools ?? []);
+      })
+      .catch((e) => setMsg(e?.message || "Failed to load diagnostics"));
+  }, []);
+
+  function setInput(tool: string, name: string, value: string) {
+    setInputs((prev) => ({ ...prev, [tool]: { ...(prev[tool] ?? {}), [name]: value } }));
+  }
+
+  async function run(tool: Tool) {
+    setRunning(tool.id);
+    try {
+      const qs = new URLSearchParams();
+      for (const [k, v] of Object.entries(inputs[tool.id] ?? {})) if (v.trim()) qs.set(k, v.trim());
+      const r = await fetch(`/api/admin/diagnostics/${tool.id}?${qs.toString()}`, { cache: "no-store" });
+      const body = await r.json().catch(() => null);
+      setResults((prev) => ({ ...prev, [tool.id]: { status: r.status, body } }));
+    } catch (e: any) {
+      setResults((prev) => ({ ...prev, [tool.id]: { status: 0, body: { error: e?.message || String(e) } } }));
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h1>Diagnostics</h1>
+          <p className="small">
+            Admin-only checks against Shopify, Linnworks and the database. Credentials are redacted from
+            output and every run is recorded in the audit log.
+          </p>
+        </div>
+        <Link href="/settings" className="btn">Back to Settings</Link>
+      </section>
+
+      {msg && <section className="card"><div className="form-error">{msg}</div></section>}
+
+      {enabled === false && (
+        <section className="card">
+          <div className="small muted">Diagnostics are switched off on this deployment. Set DIAGNOSTICS_ENABLED=true to turn them on.</div>
+        </section>
+      )}
+
+      {enabled &&
+        tools.map((t) => {
+          const res = results[t.id];
+          return (
+            <section key={t.id} className="card">
+              <div className="row" style={{ justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <div>
+                  <b>{t.label}</b>
+                  <div className="small muted">{t.desc}</div>
+                </div>
+                <button className="primary" disabled={running === t.id} onClick={() => run(t)}>
+                  {running === t.id ? "Running…" : "Run"}
+                </button>
+              </div>
+              {t.params?.length ? (
+                <div className="row" style={{ gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+                  {t.params.map((p) => (
+                    <input
+                      key={p.name}
+                      className="input"
+                      style={{ maxWidth: 220 }}
+                      placeholder={`${p.name}: ${p.placeholder}`}
+                      value={inputs[t.id]?.[p.name] ?? ""}
+                      onChange={(e) => setInput(t.id, p.name, e.target.value)}
+                    />
+                  ))}
+                </div>
+              ) : null}
+              {res && (
+                <pre
+                  className="small"
+                  style={{
+                    marginTop: 10,
+                    padding: 10,
+                    background: "#f8fafc",
+                    border: "1px solid var(--border)",
+                    borderRadius: 8,
+                    maxHeight: 360,
+                    overflow: "auto",
+                    whiteSpace: "pre-wrap",
+                    wordBreak: "break-word",
+                  }}
+                >
+                  {`HTTP ${res.status}\n`}
+                  {JSON.stringify(res.body, null, 2)}
+                </pre>
+              )}
+            </section>
+          );
+        })}
+    </div>
+  );
+}
@@ -131,6 +131,14 @@ export default async function GlobalSettingsPage() {
         </div>
       </div>
 
+      <div className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h3>Call Outcomes &amp; Types</h3>
+          <p className="small muted">Outcomes, call types and next steps on the Log Call form, and the stage each outcome guarantees.</p>
+        </div>
+        <a className="btn" href="/settings/global/pipeline">Manage</a>
+      </div>
+
       {/* Quick Add section (moved here, admin only) */}
       <div className="card">
         <h3>Quick Add</h3>
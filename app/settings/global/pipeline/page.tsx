@@ -0,0 +1,303 @@
+// app/settings/global/pipeline/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  LOSS_REASONS,
+  LOSS_REASON_LABELS,
+  PIPELINE_OPTION_KINDS,
+  STAGES,
+  STAGE_LABELS,
+  type LossReasonValue,
+  type PipelineOptionKind,
+  type StageValue,
+} from "@/lib/pipeline";
+
+type Option = {
+  id: string;
+  kind: PipelineOptionKind;
+  label: string;
+  stage: StageValue | null;
+  lossReason: LossReasonValue | null;
+  aliases: string[];
+  sortOrder: number;
+  active: boolean;
+};
+
+const NEW_HEADING: Record<PipelineOptionKind, string> = {
+  OUTCOME: "New outcome",
+  CALL_TYPE: "New call type",
+  NEXT_STEP: "New next step",
+};
+
+const EMPTY = { label: "", stage: "", lossReason: "" };
+
+export default function PipelineOptionsPage() {
+  const [options, setOptions] = useState<Option[]>([]);
+  const [kind, setKind] = useState<PipelineOptionKind>("OUTCOME");
+  const [form, setForm] = useState(EMPTY);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [edit, setEdit] = useState({ label: "", stage: "", lossReason: "", aliases: "" });
+  const [rules, setRules] = useState({ dormantAfterDays: "", lostAfterCalls: "" });
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    const r = await fetch("/api/pipeline-options?all=1", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (!r.ok) return setMsg(j?.error || "Failed to load options");
+    setOptions(j.options ?? []);
+  }
+
+  async function loadRules() {
+    const r = await fetch("/api/pipeline-options/rules", { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (r.ok) setRules({ dormantAfterDays: String(j.settings.dormantAfterDays), lostAfterCalls: String(j.settings.lostAfterCalls) });
+  }
+
+  useEffect(() => {
+    load();
+    loadRules();
+  }, []);
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      await load();
+      return true;
+    } catch (e: any) {
+      setMsg(e?.message || "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const rows = options.filter((o) => o.kind === kind);
+  const isOutcome = kind === "OUTCOME";
+
+  async function create(e: React.FormEvent) {
+    e.preventDefault();
+    const body = isOutcome ? { kind, label: form.label, stage: form.stage, lossReason: form.lossReason } : { kind, label: form.label };
+    if (await send("/api/pipeline-options", "POST", body)) setForm(EMPTY);
+  }
+
+  async function saveEdit(o: Option) {
+    const body: Record<string, unknown> = { label: edit.label, aliases: edit.aliases };
+    if (isOutcome) {
+      body.stage = edit.stage;
+      body.lossReason = edit.lossReason;
+    }
+    if (await send(`/api/pipeline-options/${o.id}`, "PATCH", body)) setEditing(null);
+  }
+
+  async function saveRules(e: React.FormEvent) {
+    e.preventDefault();
+    if (await send("/api/pipeline-options/rules", "PATCH", rules)) await loadRules();
+  }
+
+  async function move(o: Option, dir: -1 | 1) {
+    const i = rows.findIndex((x) => x.id === o.id);
+    const other = rows[i + dir];
+    if (!other) return;
+    // swap positions (nudging apart two options that share one)
+    const a = o.sortOrder === other.sortOrder ? other.sortOrder + dir : other.sortOrder;
+    await send(`/api/pipeline-options/${o.id}`, "PATCH", { sortOrder: a });
+    await send(`/api/pipeline-options/${other.id}`, "PATCH", { sortOrder: o.sortOrder });
+  }
+
+  async function remove(o: Option) {
+    if (!confirm(`Delete "${o.label}"? Calls logged with it keep the text but stop counting towards a stage. Retire it instead to keep that.`)) return;
+    await send(`/api/pipeline-options/${o.id}`, "DELETE");
+  }
+
+  const stageSelect = (value: string, onChange: (v: string) => void) => (
+    <select className="input" value={value} onChange={(e) => onChange(e.target.value)}>
+      <option value="">No stage change</option>
+      {STAGES.map((s) => <option key={s.value} value={s.value}>{s.label}</option>)}
+    </select>
+  );
+
+  const lossSelect = (value: string, onChange: (v: string) => void) => (
+    <select className="input" value={value} onChange={(e) => onChange(e.target.value)}>
+      <option value="">Not a losing outcome</option>
+      {LOSS_REASONS.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="grid" style={{ gap: 16 }}>
+      <section className="card row" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h1>Call Outcomes &amp; Types</h1>
+          <p className="small">
+            What reps can pick when logging a call. Each outcome can guarantee a minimum pipeline stage: logging it
+            moves the customer forward to that stage, never back. Losing outcomes count towards the lost rule below.
+            Renamed options keep their old name as an alias so existing calls still count.
+          </p>
+        </div>
+        <Link href="/settings/global" className="btn">Back to Global Settings</Link>
+      </section>
+
+      <div className="row" style={{ gap: 6 }}>
+        {PIPELINE_OPTION_KINDS.map((k) => (
+          <button
+            key={k.value}
+            type="button"
+            className={kind === k.value ? "primary small" : "btn small"}
+            onClick={() => {
+              setKind(k.value);
+              setEditing(null);
+              setForm(EMPTY);
+            }}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>{NEW_HEADING[kind]}</h3>
+        <form onSubmit={create} className="grid" style={{ gap: 10 }}>
+          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+            <div className="field">
+              <label>Name</label>
+              <input className="input" value={form.label} onChange={(e) => setForm({ ...form, label: e.target.value })} />
+            </div>
+            {isOutcome && (
+              <div className="field">
+                <label>Guarantees stage</label>
+                {stageSelect(form.stage, (stage) => setForm({ ...form, stage }))}
+              </div>
+            )}
+            {isOutcome && (
+              <div className="field">
+                <label>Loss reason</label>
+                {lossSelect(form.lossReason, (lossReason) => setForm({ ...form, lossReason }))}
+              </div>
+            )}
+          </div>
+          {msg && <div className="form-error">{msg}</div>}
+          <div>
+            <button className="primary" type="submit" disabled={busy || !form.label.trim()}>
+              {busy ? "Saving…" : "Add"}
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card">
+        {rows.length === 0 ? (
+          <div className="small muted">Nothing here yet.</div>
+        ) : (
+          <div style={{ overflowX: "auto" }}>
+            <table className="table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th align="left">Name</th>
+                  {isOutcome && <th align="left">Guarantees stage</th>}
+                  {isOutcome && <th align="left">Loss reason</th>}
+                  <th align="left">Also matches</th>
+                  <th align="left">Status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((o, i) =>
+                  editing === o.id ? (
+                    <tr key={o.id}>
+                      <td>
+                        <input className="input" value={edit.label} onChange={(e) => setEdit({ ...edit, label: e.target.value })} />
+                      </td>
+                      {isOutcome && <td>{stageSelect(edit.stage, (stage) => setEdit({ ...edit, stage }))}</td>}
+                      {isOutcome && <td>{lossSelect(edit.lossReason, (lossReason) => setEdit({ ...edit, lossReason }))}</td>}
+                      <td>
+                        <textarea className="input" rows={3} value={edit.aliases} onChange={(e) => setEdit({ ...edit, aliases: e.target.value })} />
+                        <div className="form-hint">Older spellings on existing calls, one per line.</div>
+                      </td>
+                      <td />
+                      <td align="right" style={{ whiteSpace: "nowrap" }}>
+                        <button className="btn small" disabled={busy} onClick={() => saveEdit(o)}>Save</button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => setEditing(null)}>Cancel</button>
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr key={o.id} style={o.active ? undefined : { opacity: 0.6 }}>
+                      <td>{o.label}</td>
+                      {isOutcome && <td className="small">{o.stage ? STAGE_LABELS[o.stage] : "—"}</td>}
+                      {isOutcome && <td className="small">{o.lossReason ? LOSS_REASON_LABELS[o.lossReason] : "—"}</td>}
+                      <td className="small">{o.aliases.join(", ") || "—"}</td>
+                      <td className="small">{o.active ? "Active" : "Retired"}</td>
+                      <td align="right" style={{ whiteSpace: "nowrap" }}>
+                        <button className="btn small" disabled={busy || i === 0} onClick={() => move(o, -1)} aria-label="Move up">↑</button>{" "}
+                        <button className="btn small" disabled={busy || i === rows.length - 1} onClick={() => move(o, 1)} aria-label="Move down">↓</button>{" "}
+                        <button
+                          className="btn small"
+                          disabled={busy}
+                          onClick={() => {
+                            setEditing(o.id);
+                            setEdit({ label: o.label, stage: o.stage ?? "", lossReason: o.lossReason ?? "", aliases: o.aliases.join("\n") });
+                          }}
+                        >
+                          Edit
+                        </button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => send(`/api/pipeline-options/${o.id}`, "PATCH", { active: !o.active })}>
+                          {o.active ? "Retire" : "Restore"}
+                        </button>{" "}
+                        <button className="btn small" disabled={busy} onClick={() => remove(o)}>Delete</button>
+                      </td>
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section className="card">
+        <h3 style={{ marginTop: 0 }}>Lost &amp; dormant rules</h3>
+        <form onSubmit={saveRules} className="grid" style={{ gap: 10 }}>
+          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+            <div className="field">
+              <label>Mark lost after</label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={rules.lostAfterCalls}
+                onChange={(e) => setRules({ ...rules, lostAfterCalls: e.target.value })}
+              />
+              <div className="form-hint">Calls in a row with a losing outcome. 0 switches this off.</div>
+            </div>
+            <div className="field">
+              <label>Mark dormant after</label>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                value={rules.dormantAfterDays}
+                onChange={(e) => setRules({ ...rules, dormantAfterDays: e.target.value })}
+              />
+              <div className="form-hint">Days since the last order, checked nightly. 0 switches this off.</div>
+            </div>
+          </div>
+          <div>
+            <button className="primary" type="submit" disabled={busy}>
+              {busy ? "Saving…" : "Save rules"}
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
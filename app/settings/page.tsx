@@ -2,6 +2,7 @@
 
 import { useEffect, useState, Suspense } from "react";
 import { useSearchParams } from "next/navigation";
+import { PERMISSIONS, PERMISSION_LABELS, ROLE_PERMISSIONS } from "@/lib/permissions";
 
 type Me = {
   id: string;
@@ -9,7 +10,7 @@ type Me = {
   fullName?: string | null;
   phone?: string | null;
   role: "ADMIN" | "MANAGER" | "REP" | "VIEWER";
-  features: Record<string, boolean> | null;
+  permissions: string[];
 };
 
 type UserRow = {
@@ -19,7 +20,9 @@ type UserRow = {
   phone?: string | null;
   role: "ADMIN" | "MANAGER" | "REP" | "VIEWER";
   isActive: boolean;
-  features: Record<string, boolean> | null;
+  overrides: { perm: string }[];
+  salesRepId: string | null;
+  managedReps: { id: string }[];
 };
 
 type SalesRep = {
@@ -30,15 +33,6 @@ type SalesRep = {
   territory: string | null;
 };
 
-const FEATURE_LIST: Array<{ key: string; label: string }> = [
-  { key: "salesHub", label: "Sales Hub" },
-  { key: "reports", label: "Reporting (all)" },
-  { key: "reports.calls", label: "Report: Calls" },
-  { key: "reports.gap", label: "Report: GAP Analysis" },
-  { key: "reports.dropoff", label: "Report: Customer Drop-off" },
-  { key: "tools.profitCalculator", label: "Tool: Profit Calculator" },
-];
-
 function SettingsInner() {
   const searchParams = useSearchParams();
   const initialTab = searchParams.get("tab") === "reps" ? "reps" : searchParams.get("tab") === "admin" ? "admin" : "account";
@@ -109,7 +103,7 @@ function SettingsInner() {
   }
 
   useEffect(() => {
-    if (tab === "reps") loadReps();
+    if (tab === "reps" || tab === "admin") loadReps();
   }, [tab]);
 
   async function saveAccount() {
@@ -140,7 +134,12 @@ function SettingsInner() {
     const r = await fetch(`/api/admin/users/${u.id}/permissions`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ role: u.role, features: u.features || {} }),
+      body: JSON.stringify({
+        role: u.role,
+        overrides: (u.overrides || []).map((o) => o.perm),
+        salesRepId: u.salesRepId || null,
+        managedRepIds: (u.managedReps || []).map((r) => r.id),
+      }),
     });
     if (r.ok) {
       setUserMsg("Saved.");
@@ -477,7 +476,8 @@ function SettingsInner() {
           {users.length === 0 ? <p className="small">No users.</p> : (
             <div className="grid" style={{ gap: 12 }}>
               {users.map((u) => {
-                const feats = (u.features || {}) as Record<string, boolean>;
+                const granted = new Set((u.overrides || []).map((o) => o.perm));
+                const defaults = new Set<string>(ROLE_PERMISSIONS[u.role] ?? []);
                 return (
                   <div key={u.id} className="card" style={{ border: "1px solid var(--border)", padding: 12 }}>
                     <div className="row" style={{ justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 8 }}>
@@ -508,15 +508,60 @@ function SettingsInner() {
                         )}
                       </div>
                     </div>
+                    <div className="row" style={{ gap: 8, marginTop: 8, flexWrap: "wrap" }}>
+                      <label className="small row" style={{ gap: 6 }}>
+                        Linked rep:
+                        <select
+                          value={u.salesRepId ?? ""}
+                          onChange={(e) => setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, salesRepId: e.target.value || null } : x)))}
+                        >
+                          <option value="">— none —</option>
+                          {reps.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+                        </select>
+                      </label>
+                      {u.role === "REP" && (
+                        <span className="small muted">Reps only see customers, calls &amp; orders for their linked rep.</span>
+                      )}
+                    </div>
+                    {u.role === "MANAGER" && (
+                      <div style={{ marginTop: 8 }}>
+                        <div className="small muted" style={{ marginBottom: 4 }}>Visible reps (none ticked = all reps)</div>
+                        <div className="row" style={{ gap: 10, flexWrap: "wrap" }}>
+                          {reps.map((r) => {
+                            const on = (u.managedReps || []).some((m) => m.id === r.id);
+                            return (
+                              <label key={r.id} className="row small" style={{ gap: 6 }}>
+                                <input
+                                  type="checkbox"
+                                  checked={on}
+                                  onChange={(e) => {
+                                    const next = (u.managedReps || []).filter((m) => m.id !== r.id);
+                                    if (e.target.checked) next.push({ id: r.id });
+                                    setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, managedReps: next } : x)));
+                                  }}
+                                />
+                                {r.name}
+                              </label>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
                     <div className="grid" style={{ gap: 6, marginTop: 8 }}>
-                      {FEATURE_LIST.map((f) => (
-                        <label key={f.key} className="row small" style={{ gap: 8 }}>
-                          <input type="checkbox" checked={!!feats[f.key]} onChange={(e) => {
-                            const next = { ...(u.features || {}) };
-                            next[f.key] = e.target.checked;
-                            setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, features: next } : x)));
-                          }} />
-                          {f.label}
+                      {PERMISSIONS.map((p) => (
+                        <label key={p} className="row small" style={{ gap: 8 }}>
+                          <input
+                            type="checkbox"
+                            checked={defaults.has(p) || granted.has(p)}
+                            disabled={defaults.has(p)}
+                            onChange={(e) => {
+                              const next = (u.overrides || []).filter((o) => o.perm !== p);
+                              if (e.target.checked) next.push({ perm: p });
+                              setUsers((prev) => prev.map((x) => (x.id === u.id ? { ...x, overrides: next } : x)));
+                            }}
+                          />
+                          {PERMISSION_LABELS[p]}
+                          {defaults.has(p) && <span className="muted">(role default)</span>}
                         </label>
                       ))}
                     </div>
@@ -3,21 +3,11 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { PERMISSIONS, PERMISSION_LABELS, type PermissionValue } from "@/lib/permissions";
 
 export const dynamic = "force-dynamic";
 
-// Must match prisma Permission enum
-const PERMISSIONS = [
-  "VIEW_SALES_HUB",
-  "VIEW_REPORTS",
-  "VIEW_CUSTOMERS",
-  "EDIT_CUSTOMERS",
-  "VIEW_CALLS",
-  "EDIT_CALLS",
-  "VIEW_PROFIT_CALC",
-  "VIEW_SETTINGS",
-] as const;
-type Permission = (typeof PERMISSIONS)[number];
+type Permission = PermissionValue;
 
 // Must match prisma Role enum
 type Role = "ADMIN" | "MANAGER" | "REP" | "VIEWER";
@@ -30,6 +20,9 @@ export default function NewUserPage() {
   const [password, setPassword] = useState("");
   const [confirm, setConfirm] = useState("");
   const [overrides, setOverrides] = useState<Permission[]>([]);
+  // invite = user chooses their own password from an emailed link
+  const [invite, setInvite] = useState(true);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
 
   const [saving, setSaving] = useState(false);
   const [err, setErr] = useState<string | null>(null);
@@ -38,7 +31,7 @@ export default function NewUserPage() {
   // derived validation
   const passTooShort = password.length > 0 && password.length < 8;
   const passwordsMatch = password.length >= 8 && confirm.length > 0 && password === confirm;
-  const canSubmit = !!fullName && !!email && password.length >= 8 && password === confirm;
+  const canSubmit = !!fullName && !!email && (invite || (password.length >= 8 && password === confirm));
 
   // If Admin is selected, ensure VIEW_SETTINGS is included in overrides (harmless if API ignores for admins)
   useEffect(() => {
@@ -58,12 +51,13 @@ export default function NewUserPage() {
     e.preventDefault();
     setErr(null);
     setOk(null);
+    setInviteUrl(null);
 
-    if (password.length < 8) {
+    if (!invite && password.length < 8) {
       setErr("Password must be at least 8 characters.");
       return;
     }
-    if (password !== confirm) {
+    if (!invite && password !== confirm) {
       setErr("Passwords do not match.");
       return;
     }
@@ -79,8 +73,8 @@ export default function NewUserPage() {
           email: email.trim(),
           phone: phone.trim() || null,
           role,                // one of ADMIN | MANAGER | REP | VIEWER
-          password,
-          confirm,             // if your API checks this, it’s here
+          invite,
+          ...(invite ? {} : { password, confirm }),
           overrides,           // fine-grained Permission[] (optional on server)
           permissions: overrides, // keep compatibility if API expects "permissions"
         }),
@@ -89,7 +83,16 @@ export default function NewUserPage() {
       const json = await res.json().catch(() => ({}));
       if (!res.ok) throw new Error(json?.error || "Failed to create user");
 
-      setOk(`User ${json?.user?.email ?? email} created`);
+      if (json?.invited) {
+        setOk(
+          json.emailed
+            ? `Invite sent to ${json?.user?.email ?? email}`
+            : `User created, but the invite email failed — share the link below`
+        );
+        setInviteUrl(json.inviteUrl ?? null);
+      } else {
+        setOk(`User ${json?.user?.email ?? email} created`);
+      }
       setFullName("");
       setEmail("");
       setPhone("");
@@ -174,6 +177,12 @@ export default function NewUserPage() {
             </div>
           </div>
 
+          <label className="row small" style={{ gap: 8 }}>
+            <input type="checkbox" checked={invite} onChange={(e) => setInvite(e.target.checked)} />
+            Email an invite link so the user sets their own password
+          </label>
+
+          {!invite && (
           <div className="grid grid-2" style={{ gap: 12 }}>
             <div className="field">
               <label>Password</label>
@@ -216,6 +225,7 @@ export default function NewUserPage() {
               )}
             </div>
           </div>
+          )}
 
           <div className="field">
             <label>Permission overrides (optional)</label>
@@ -227,7 +237,7 @@ export default function NewUserPage() {
                     checked={overrides.includes(p)}
                     onChange={() => toggleOverride(p)}
                   />
-                  {p}
+                  {PERMISSION_LABELS[p]}
                 </label>
               ))}
             </div>
@@ -243,6 +253,11 @@ export default function NewUserPage() {
             {ok && <span className="small" style={{ color: "#15803d" }}>{ok}</span>}
             {err && <span className="small" style={{ color: "#b91c1c" }}>{err}</span>}
           </div>
+          {inviteUrl && (
+            <div className="small muted" style={{ wordBreak: "break-all" }}>
+              Invite link (single use, expires in 7 days): <code>{inviteUrl}</code>
+            </div>
+          )}
         </form>
       </section>
     </div>
@@ -11,9 +11,12 @@ type UserRow = {
   phone?: string | null;
   role: Role;
   isActive: boolean;
+  lockedUntil: string | null;
   createdAt: string;
 };
 
+const isLocked = (u: UserRow) => !!u.lockedUntil && new Date(u.lockedUntil).getTime() > Date.now();
+
 async function safeJson(res: Response) {
   const txt = await res.text();
   if (!txt) return null;
@@ -50,6 +53,7 @@ export default function UsersPage() {
         phone: u.phone ?? null,
         role: String(u.role) as Role,
         isActive: Boolean(u.isActive),
+        lockedUntil: u.lockedUntil ?? null,
         createdAt: (u.createdAt && new Date(u.createdAt).toISOString()) || new Date().toISOString(),
       })));
     } catch (e: any) {
@@ -74,6 +78,72 @@ export default function UsersPage() {
     }
   }
 
+  async function revokeSessions(u: UserRow) {
+    if (!confirm(`Sign "${u.fullName || u.email}" out on every device?`)) return;
+    setMsg(null);
+    try {
+      const r = await fetch(`/api/admin/users/${u.id}/sessions`, { method: "DELETE", credentials: "include" });
+      const j = await safeJson(r);
+      if (!r.ok) throw new Error((j as any)?.error || "Revoke failed");
+      setMsg(`${u.fullName || u.email}: ${(j as any)?.revoked ?? 0} session(s) revoked.`);
+    } catch (e: any) {
+      setMsg(e?.message || "Revoke failed");
+    }
+  }
+
+  async function unlock(u: UserRow) {
+    setMsg(null);
+    try {
+      const r = await fetch(`/api/admin/users/${u.id}/lock`, { method: "DELETE", credentials: "include" });
+      const j = await safeJson(r);
+      if (!r.ok) throw new Error((j as any)?.error || "Unlock failed");
+      setMsg(`${u.fullName || u.email} unlocked.`);
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || "Unlock failed");
+    }
+  }
+
+  async function sendResetLink(u: UserRow) {
+    if (!confirm(`Email "${u.fullName || u.email}" a password reset link?`)) return;
+    setMsg(null);
+    try {
+      const r = await fetch(`/api/admin/users/${u.id}/reset-link`, {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const j = await safeJson(r);
+      if (!r.ok) throw new Error((j as any)?.error || "Could not send reset link");
+      setMsg(
+        (j as any)?.emailed
+          ? `Reset link sent to ${u.email}.`
+          : `Email failed — share this link with ${u.email}: ${(j as any)?.url}`
+      );
+    } catch (e: any) {
+      setMsg(e?.message || "Could not send reset link");
+    }
+  }
+
+  async function impersonate(u: UserRow) {
+    if (!confirm(`Sign in as "${u.fullName || u.email}"? This is recorded in the audit log.`)) return;
+    setMsg(null);
+    try {
+      const r = await fetch("/api/admin/impersonate", {
+        method: "POST",
+        credentials: "include",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId: u.id }),
+      });
+      const j = await safeJson(r);
+      if (!r.ok) throw new Error((j as any)?.error || "Impersonation failed");
+      window.location.href = "/";
+    } catch (e: any) {
+      setMsg(e?.message || "Impersonation failed");
+    }
+  }
+
   useEffect(() => { load(); }, []);
 
   return (
@@ -87,6 +157,16 @@ export default function UsersPage() {
         </div>
       </div>
 
+      {rows.some(isLocked) && (
+        <div className="card" style={{ borderColor: "#f59e0b", background: "#fffbeb" }}>
+          <b>Locked accounts</b>
+          <div className="small" style={{ marginTop: 4 }}>
+            {rows.filter(isLocked).map((u) => u.fullName || u.email).join(", ")} — locked after repeated
+            failed sign-ins. Unlock below once you&apos;ve checked with them.
+          </div>
+        </div>
+      )}
+
       <div className="card">
         {msg && (
           <div className="form-error" style={{ marginBottom: 10 }}>
@@ -122,16 +202,53 @@ export default function UsersPage() {
                   <div className="small muted">
                     {u.role} · {u.isActive ? "Active" : "Inactive"} · {new Date(u.createdAt).toLocaleDateString("en-GB")}
                   </div>
+                  {isLocked(u) && (
+                    <div className="small" style={{ color: "#b45309" }}>
+                      Locked until {new Date(u.lockedUntil!).toLocaleTimeString("en-GB", { hour: "2-digit", minute: "2-digit" })}
+                    </div>
+                  )}
                 </div>
-                {u.id !== who?.id && (
+                <div className="row" style={{ gap: 8, flexShrink: 0 }}>
+                  {isLocked(u) && (
+                    <button className="btn" style={{ fontSize: "0.85rem" }} onClick={() => unlock(u)}>
+                      Unlock
+                    </button>
+                  )}
                   <button
                     className="btn"
-                    style={{ color: "#dc2626", borderColor: "#dc2626", fontSize: "0.85rem", flexShrink: 0 }}
-                    onClick={() => deleteUser(u)}
+                    style={{ fontSize: "0.85rem" }}
+                    onClick={() => revokeSessions(u)}
                   >
-                    Delete
+                    Revoke all sessions
                   </button>
-                )}
+                  {u.isActive && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: "0.85rem" }}
+                      onClick={() => sendResetLink(u)}
+                    >
+                      Send reset link
+                    </button>
+                  )}
+                  {u.id !== who?.id && u.isActive && (
+                    <button
+                      className="btn"
+                      style={{ fontSize: "0.85rem" }}
+                      onClick={() => impersonate(u)}
+                    >
+                      Impersonate
+                    </button>
+                  )}
+                  {u.id !== who?.id && (
+                    <button
+                      className="btn"
+                      style={{ color: "#dc2626", borderColor: "#dc2626", fontSize: "0.85rem" }}
+                      onClick={() => deleteUser(u)}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
               </div>
             ))}
           </div>
@@ -1,12 +1,14 @@
 // app/shopify/backfill/page.tsx
 import { redirect } from "next/navigation";
+import { cookies, headers } from "next/headers";
 
 const BASE_PATH = "/api/shopify/backfill"; // your existing endpoints prefix
-const ADMIN_TOKEN = process.env.SYNC_ADMIN_TOKEN!;
 
 // Helper to safely build a URL to our internal API
 function apiUrl(path: string, pageInfo?: string | null) {
-  let u = `${BASE_PATH}${path}`;
+  const h = headers();
+  const proto = h.get("x-forwarded-proto") || "http";
+  let u = `${proto}://${h.get("host")}${BASE_PATH}${path}`;
   if (pageInfo) {
     u += `?page_info=${encodeURIComponent(pageInfo)}`;
   }
@@ -32,7 +34,7 @@ export default async function ShopifyBackfillPage({ searchParams }: PageProps) {
 
     const res = await fetch(apiUrl("/customers", pageInfo), {
       method: "POST",
-      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      headers: { cookie: cookies().toString() }, // runs as the signed-in admin
       cache: "no-store",
     });
 
@@ -55,7 +57,7 @@ export default async function ShopifyBackfillPage({ searchParams }: PageProps) {
 
     const res = await fetch(apiUrl("/orders", pageInfo), {
       method: "POST",
-      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      headers: { cookie: cookies().toString() }, // runs as the signed-in admin
       cache: "no-store",
     });
 
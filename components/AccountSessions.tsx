@@ -0,0 +1,134 @@
+// components/AccountSessions.tsx
+"use client";
+import { useEffect, useState } from "react";
+
+type SessionRow = {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: string;
+  userAgent: string | null;
+  ip: string | null;
+  current: boolean;
+};
+
+/** Rough, dependency-free device label from a user agent string */
+function deviceLabel(ua: string | null) {
+  if (!ua) return "Unknown device";
+  const os =
+    /iPhone|iPad/.test(ua) ? "iOS" :
+    /Android/.test(ua) ? "Android" :
+    /Mac OS X/.test(ua) ? "macOS" :
+    /Windows/.test(ua) ? "Windows" :
+    /Linux/.test(ua) ? "Linux" : "Unknown OS";
+  const browser =
+    /Edg\//.test(ua) ? "Edge" :
+    /Chrome\//.test(ua) ? "Chrome" :
+    /Firefox\//.test(ua) ? "Firefox" :
+    /Safari\//.test(ua) ? "Safari" : "Browser";
+  return `${browser} on ${os}`;
+}
+
+function fmt(d: string) {
+  return new Date(d).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function AccountSessions() {
+  const [rows, setRows] = useState<SessionRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const r = await fetch("/api/settings/account/sessions", { cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Failed to load sessions");
+      setRows(j.sessions ?? []);
+    } catch (e: any) {
+      setMsg(e?.message || "Failed to load sessions");
+      setRows([]);
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function revoke(query: string, confirmText: string) {
+    if (!confirm(confirmText)) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch(`/api/settings/account/sessions?${query}`, { method: "DELETE" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Revoke failed");
+      setMsg(j.revoked === 1 ? "1 device signed out." : `${j.revoked ?? 0} devices signed out.`);
+      await load();
+    } catch (e: any) {
+      setMsg(e?.message || "Revoke failed");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const others = (rows ?? []).filter((s) => !s.current);
+
+  return (
+    <div className="grid" style={{ gap: 8 }}>
+      {rows === null ? (
+        <div className="small muted">Loading…</div>
+      ) : rows.length === 0 ? (
+        <div className="small muted">No active sessions.</div>
+      ) : (
+        rows.map((s) => (
+          <div
+            key={s.id}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              padding: "10px 12px",
+              border: "1px solid var(--border)",
+              borderRadius: 8,
+              background: "#fff",
+              gap: 8,
+              flexWrap: "wrap",
+            }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontWeight: 600, fontSize: "0.9rem" }}>
+                {deviceLabel(s.userAgent)}
+                {s.current && <span className="small" style={{ color: "#15803d", marginLeft: 8 }}>This device</span>}
+              </div>
+              <div className="small muted">
+                Signed in {fmt(s.createdAt)} · Last active {fmt(s.lastSeenAt)}
+                {s.ip ? ` · ${s.ip}` : ""}
+              </div>
+            </div>
+            {!s.current && (
+              <button
+                className="btn"
+                style={{ fontSize: "0.8rem", padding: "5px 12px", color: "#dc2626", borderColor: "#dc2626" }}
+                disabled={busy}
+                onClick={() => revoke(`id=${encodeURIComponent(s.id)}`, "Sign out this device?")}
+              >
+                Sign out
+              </button>
+            )}
+          </div>
+        ))
+      )}
+
+      {others.length > 0 && (
+        <div>
+          <button
+            className="btn"
+            disabled={busy}
+            onClick={() => revoke("others=1", `Sign out all ${others.length} other device(s)?`)}
+          >
+            Sign out all other devices
+          </button>
+        </div>
+      )}
+      {msg && <div className="small muted">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// components/AccountTwoFactor.tsx
+"use client";
+import { useEffect, useState } from "react";
+
+type Status = { enabled: boolean; enabledAt: string | null; required: boolean; recoveryCodesLeft: number };
+
+export default function AccountTwoFactor() {
+  const [status, setStatus] = useState<Status | null>(null);
+  const [setup, setSetup] = useState<{ secret: string; qrSvg: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  async function load() {
+    try {
+      const r = await fetch("/api/settings/account/mfa", { cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Failed to load two-factor status");
+      setStatus(j);
+    } catch (e: any) {
+      setMsg(e?.message || "Failed to load two-factor status");
+    }
+  }
+
+  useEffect(() => { load(); }, []);
+
+  async function call(method: "POST" | "DELETE", body: any) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch("/api/settings/account/mfa", {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      return j;
+    } catch (e: any) {
+      setMsg(e?.message || "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function start() {
+    const j = await call("POST", { action: "start" });
+    if (j) { setSetup({ secret: j.secret, qrSvg: j.qrSvg }); setCode(""); setRecoveryCodes(null); }
+  }
+
+  async function confirmSetup() {
+    const j = await call("POST", { action: "confirm", code });
+    if (j) { setSetup(null); setCode(""); setRecoveryCodes(j.recoveryCodes ?? []); await load(); }
+  }
+
+  async function regenerate() {
+    const j = await call("POST", { action: "regenerate", code });
+    if (j) { setCode(""); setRecoveryCodes(j.recoveryCodes ?? []); await load(); }
+  }
+
+  async function disable() {
+    if (!confirm("Turn off two-factor authentication?")) return;
+    const j = await call("DELETE", { code });
+    if (j) { setCode(""); setRecoveryCodes(null); setMsg("Two-factor authentication turned off."); await load(); }
+  }
+
+  if (!status) return <div className="small muted">{msg || "Loading…"}</div>;
+
+  const codeInput = (placeholder: string) => (
+    <input
+      className="input"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={placeholder}
+      autoComplete="one-time-code"
+      style={{ maxWidth: 240 }}
+    />
+  );
+
+  return (
+    <div className="grid" style={{ gap: 10 }}>
+      <div className="small">
+        Status:{" "}
+        {status.enabled ? (
+          <b style={{ color: "#15803d" }}>On</b>
+        ) : (
+          <b style={{ color: status.required ? "#b91c1c" : undefined }}>Off</b>
+        )}
+        {status.enabled && ` · ${status.recoveryCodesLeft} recovery code(s) left`}
+        {status.required && " · required for your role"}
+      </div>
+
+      {recoveryCodes && (
+        <div className="grid" style={{ gap: 6 }}>
+          <div className="small">
+            Store these recovery codes somewhere safe. Each works once and they won&apos;t be shown again.
+          </div>
+          <pre style={{ background: "#f8fafc", padding: 12, borderRadius: 8, margin: 0, maxWidth: 240 }}>
+            {recoveryCodes.join("\n")}
+          </pre>
+        </div>
+      )}
+
+      {!status.enabled && !setup && (
+        <div>
+          <button className="primary" disabled={busy} onClick={start}>Set up authenticator app</button>
+        </div>
+      )}
+
+      {setup && (
+        <div className="grid" style={{ gap: 8 }}>
+          <div className="small">Scan with Google Authenticator, 1Password, Authy or similar, then enter the 6-digit code.</div>
+          <div dangerouslySetInnerHTML={{ __html: setup.qrSvg }} style={{ width: 200, height: 200 }} />
+          <div className="small muted" style={{ wordBreak: "break-all" }}>Key: <b>{setup.secret}</b></div>
+          <div className="row" style={{ gap: 8 }}>
+            {codeInput("6-digit code")}
+            <button className="primary" disabled={busy || !code.trim()} onClick={confirmSetup}>Verify & enable</button>
+            <button className="btn" disabled={busy} onClick={() => setSetup(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {status.enabled && (
+        <div className="row" style={{ gap: 8, flexWrap: "wrap" }}>
+          {codeInput("Current code")}
+          <button className="btn" disabled={busy || !code.trim()} onClick={regenerate}>New recovery codes</button>
+          {!status.required && (
+            <button
+              className="btn"
+              style={{ color: "#dc2626", borderColor: "#dc2626" }}
+              disabled={busy || !code.trim()}
+              onClick={disable}
+            >
+              Turn off
+            </button>
+          )}
+        </div>
+      )}
+
+      {msg && <div className="small muted">{msg}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+// components/AuditChanges.tsx
+// Renders an AuditLog entry's field diffs (details.changes) as "Field: old → new", or
+// for a bulk write (details.ids, details.set) the row count and "Field → new".
+
+const FIELD_LABELS: Record<string, string> = {
+  salesRep: "Sales rep",
+  salesRepId: "Sales rep (linked)",
+  paymentDueLater: "Pay later",
+  paymentTermsName: "Payment terms",
+  paymentTermsDueInDays: "Terms due (days)",
+  refundedTotal: "Refunded total",
+  stage: "Stage",
+  outcome: "Outcome",
+  amount: "Amount",
+  tags: "Tags",
+  shopifyTags: "Shopify tags",
+  assigneeRepId: "Assigned to",
+  dueAt: "Due",
+  status: "Status",
+  priority: "Priority",
+};
+
+/** Fields worth calling out when scanning a history (ownership and money). */
+const HIGHLIGHT = new Set(["salesRep", "salesRepId", "paymentDueLater", "paymentTermsName", "paymentTermsDueInDays", "refundedTotal"]);
+
+export const ACTION_LABELS: Record<string, string> = {
+  "customer.create": "Customer created",
+  "customer.update": "Customer edited",
+  "customer.delete": "Customer deleted",
+  "customer.bulk_update": "Customers bulk edited",
+  "customer.bulk_delete": "Customers bulk deleted",
+  "customer.merge": "Customers merged",
+  "customer.import": "Customers imported",
+  "customer.export": "Customers exported",
+  "customer.fields": "Custom fields edited",
+  "call.update": "Call edited",
+  "call.delete": "Call deleted",
+  "call.bulk_update": "Calls bulk edited",
+  "call.bulk_delete": "Calls bulk deleted",
+  "custom_field.create": "Custom field added",
+  "custom_field.update": "Custom field changed",
+  "custom_field.delete": "Custom field deleted",
+  "pipeline_option.create": "Call option added",
+  "pipeline_option.update": "Call option changed",
+  "pipeline_option.delete": "Call option deleted",
+  "pipeline_settings.update": "Lost/dormant rules changed",
+  "target.create": "Target created",
+  "target.update": "Target changed",
+  "target.delete": "Target deleted",
+  "target.bulk_update": "Targets bulk edited",
+  "target.bulk_delete": "Targets bulk deleted",
+  "task.update": "Task updated",
+  "task.delete": "Task deleted",
+  "task.bulk_update": "Tasks bulk edited",
+  "task.bulk_delete": "Tasks bulk deleted",
+  "order.refund": "Refund issued",
+  "payment_link.create": "Payment link created",
+  "payment_link.paid": "Payment link paid",
+  "backfill.run": "Backfill run",
+  "diagnostics.run": "Diagnostic run",
+  "api_key.create": "API key created",
+  "api_key.revoke": "API key revoked",
+  "impersonation.start": "Impersonation started",
+  "impersonation.stop": "Impersonation ended",
+  "invite.sent": "Invite sent",
+  "password.reset_requested": "Password reset requested",
+  "password.reset_sent": "Reset link sent",
+  "password.reset": "Password reset",
+  "login.success": "Signed in",
+  "login.failed": "Failed sign-in",
+  "login.locked": "Account locked",
+  "login.unlocked": "Account unlocked",
+  "mfa.enable": "Two-factor enabled",
+  "mfa.disable": "Two-factor disabled",
+  "mfa.recovery_codes.regenerate": "Recovery codes regenerated",
+};
+
+type AuditUser = { fullName: string | null; email: string } | null | undefined;
+
+/** Who made an entry: "Name", "Name (impersonated by Admin)", or "System". */
+export function auditActor(e: { user?: AuditUser; impersonator?: AuditUser }) {
+  const name = e.user?.fullName || e.user?.email || "System";
+  const by = e.impersonator?.fullName || e.impersonator?.email;
+  return by ? `${name} (impersonated by ${by})` : name;
+}
+
+function show(v: any) {
+  if (v == null || v === "") return "—";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (typeof v === "object") return JSON.stringify(v);
+  const s = String(v);
+  return s.length > 80 ? s.slice(0, 77) + "…" : s;
+}
+
+export default function AuditChanges({ details }: { details: any }) {
+  if (Array.isArray(details?.ids)) {
+    const set: Record<string, any> = details.set ?? {};
+    return (
+      <div className="small" style={{ display: "grid", gap: 2 }}>
+        <div className="muted">{details.ids.length} record{details.ids.length === 1 ? "" : "s"}</div>
+        {Object.keys(set).map((k) => (
+          <div key={k} style={HIGHLIGHT.has(k) ? { fontWeight: 600 } : undefined}>
+            {FIELD_LABELS[k] || k} → {show(set[k])}
+          </div>
+        ))}
+      </div>
+    );
+  }
+  const changes: Record<string, { from: any; to: any }> = details?.changes ?? {};
+  const keys = Object.keys(changes);
+  if (!keys.length) return null;
+  return (
+    <div className="small" style={{ display: "grid", gap: 2 }}>
+      {keys.map((k) => (
+        <div key={k} style={HIGHLIGHT.has(k) ? { fontWeight: 600 } : undefined}>
+          {FIELD_LABELS[k] || k}: <span className="muted">{show(changes[k].from)}</span> → {show(changes[k].to)}
+        </div>
+      ))}
+    </div>
+  );
+}
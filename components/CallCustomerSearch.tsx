@@ -1,89 +1,137 @@
 "use client";
 
 import * as React from "react";
-import { usePathname, useRouter, useSearchParams } from "next/navigation";
+
+export type PickedCustomer = { id: string; name: string };
+
+type Hit = { id: string; name: string; extra: string };
 
 /**
- * Filters visible call rows by customer name.
- * Expects each rendered row to have: data-customer="Customer Name"
- * and the container that holds all rows to have: class="call-rows".
+ * Customer box for the call log. Typing filters the loaded calls by name (which
+ * also covers leads without a customer record) and offers ranked, typo-tolerant
+ * matches from /api/search/customers; picking one narrows the log to that
+ * customer's calls.
  */
 export default function CallCustomerSearch({
+  query,
+  onQueryChange,
+  selected,
+  onSelect,
   placeholder = "Search customer…",
 }: {
+  query: string;
+  onQueryChange: (q: string) => void;
+  selected: PickedCustomer | null;
+  onSelect: (c: PickedCustomer | null) => void;
   placeholder?: string;
 }) {
-  const router = useRouter();
-  const pathname = usePathname();
-  const sp = useSearchParams();
-  const initialQ = (sp.get("q") ?? "").trim();
+  const [hits, setHits] = React.useState<Hit[]>([]);
+  const [open, setOpen] = React.useState(false);
+  const [active, setActive] = React.useState(0);
 
-  const [q, setQ] = React.useState(initialQ);
+  React.useEffect(() => {
+    const q = query.trim();
+    if (selected || q.length < 2) {
+      setHits([]);
+      return;
+    }
+    const controller = new AbortController();
+    const t = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search/customers?q=${encodeURIComponent(q)}&limit=8`, { signal: controller.signal });
+        if (res.ok) {
+          const j = await res.json();
+          setHits(Array.isArray(j?.results) ? j.results : []);
+          setActive(0);
+        }
+      } catch {
+        /* ignore */
+      }
+    }, 200);
+    return () => {
+      clearTimeout(t);
+      controller.abort();
+    };
+  }, [query, selected]);
 
-  // Apply filtering to DOM rows (progressive enhancement)
-  const applyFilter = React.useCallback(
-    (query: string) => {
-      const rows = document.querySelectorAll<HTMLElement>(".call-rows [data-customer]");
-      const needle = query.toLowerCase();
-      let shown = 0;
-      rows.forEach((el) => {
-        const hay = (el.getAttribute("data-customer") || "").toLowerCase();
-        const match = !needle || hay.includes(needle);
-        el.style.display = match ? "" : "none";
-        if (match) shown++;
-      });
-      // Optional: update a count badge if you add one later
-      return shown;
-    },
-    []
-  );
+  function pick(h: Hit) {
+    onSelect({ id: h.id, name: h.name });
+    onQueryChange("");
+    setOpen(false);
+  }
 
-  // Run once on mount (so ?q= in the URL filters immediately on reload)
-  React.useEffect(() => {
-    applyFilter(initialQ);
-  }, [initialQ, applyFilter]);
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!open || !hits.length) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (i + (e.key === "ArrowDown" ? 1 : hits.length - 1)) % hits.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      pick(hits[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  }
 
-  // Push q to the URL (so it’s shareable) without a full reload
-  const syncUrl = React.useCallback(
-    (query: string) => {
-      const params = new URLSearchParams(sp?.toString());
-      if (query) params.set("q", query);
-      else params.delete("q");
-      router.replace(`${pathname}?${params.toString()}`, { scroll: false });
-    },
-    [pathname, router, sp]
-  );
+  if (selected) {
+    return (
+      <div className="row" style={{ gap: 8, alignItems: "center" }}>
+        <span className="small">
+          Calls for <strong>{selected.name}</strong>
+        </span>
+        <button type="button" className="btn" onClick={() => onSelect(null)}>
+          Clear
+        </button>
+      </div>
+    );
+  }
 
   return (
-    <div className="row" style={{ gap: 8, alignItems: "center" }}>
+    <div style={{ position: "relative" }}>
       <input
         type="search"
         inputMode="search"
         autoComplete="off"
         spellCheck={false}
         placeholder={placeholder}
-        value={q}
+        value={query}
         onChange={(e) => {
-          const v = e.target.value;
-          setQ(v);
-          applyFilter(v);
-          syncUrl(v);
+          onQueryChange(e.target.value);
+          setOpen(true);
         }}
-        style={{ width: 260 }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        role="combobox"
+        aria-expanded={open && hits.length > 0}
+        aria-controls="call-customer-search-list"
       />
-      {q ? (
-        <button
-          type="button"
-          className="btn"
-          onClick={() => {
-            setQ("");
-            applyFilter("");
-            syncUrl("");
-          }}
+      {open && hits.length > 0 && (
+        <ul
+          id="call-customer-search-list"
+          role="listbox"
+          className="card"
+          style={{ position: "absolute", zIndex: 20, left: 0, right: 0, top: "100%", margin: "4px 0 0", padding: 4, listStyle: "none" }}
         >
-          Clear
-        </button>
-      ) : null}
+          {hits.map((h, i) => (
+            <li
+              key={h.id}
+              role="option"
+              aria-selected={i === active}
+              // mousedown, so the pick lands before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                pick(h);
+              }}
+              onMouseEnter={() => setActive(i)}
+              style={{ padding: "6px 8px", borderRadius: 6, cursor: "pointer", background: i === active ? "var(--surface-2)" : undefined }}
+            >
+              <div style={{ fontWeight: 600 }}>{h.name}</div>
+              {h.extra && <div className="small muted">{h.extra}</div>}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
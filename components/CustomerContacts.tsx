@@ -0,0 +1,157 @@
+// components/CustomerContacts.tsx
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type Contact = {
+  id: string;
+  name: string;
+  role: string;
+  phone: string | null;
+  email: string | null;
+  isPrimary: boolean;
+  marketingConsent: boolean;
+};
+
+const ROLES = [
+  { value: "OWNER", label: "Owner" },
+  { value: "MANAGER", label: "Manager" },
+  { value: "ORDERING", label: "Ordering" },
+  { value: "OTHER", label: "Other" },
+];
+const roleLabel = (r: string) => ROLES.find((x) => x.value === r)?.label ?? r;
+
+const EMPTY = { name: "", role: "OTHER", phone: "", email: "", marketingConsent: false };
+
+export default function CustomerContacts({ customerId, initial }: { customerId: string; initial: Contact[] }) {
+  const router = useRouter();
+  const [contacts, setContacts] = useState<Contact[]>(initial);
+  const [editing, setEditing] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState(EMPTY);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const base = `/api/customers/${customerId}/contacts`;
+
+  async function reload() {
+    const r = await fetch(base, { cache: "no-store" });
+    const j = await r.json().catch(() => ({}));
+    if (r.ok) setContacts(j.contacts ?? []);
+    // the primary contact is mirrored onto the customer, so refresh the rest of the page too
+    router.refresh();
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      await reload();
+      return true;
+    } catch (e: any) {
+      setErr(e?.message || "Request failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function startEdit(c: Contact | null) {
+    setErr(null);
+    setEditing(c ? c.id : "new");
+    setForm(c ? { name: c.name, role: c.role, phone: c.phone ?? "", email: c.email ?? "", marketingConsent: c.marketingConsent } : EMPTY);
+  }
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault();
+    const ok = editing === "new" ? await send(base, "POST", form) : await send(`${base}/${editing}`, "PATCH", form);
+    if (ok) setEditing(null);
+  }
+
+  async function remove(c: Contact) {
+    if (!confirm(`Remove ${c.name}?`)) return;
+    await send(`${base}/${c.id}`, "DELETE");
+  }
+
+  return (
+    <section className="card">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12 }}>
+        <h2>Contacts</h2>
+        {editing === null && (
+          <button className="btn" style={{ fontSize: "0.85rem" }} onClick={() => startEdit(null)}>+ Add contact</button>
+        )}
+      </div>
+
+      {contacts.length === 0 && editing === null && <p className="small muted">No contacts yet.</p>}
+
+      <div style={{ display: "grid", gap: 8 }}>
+        {contacts.map((c) => (
+          <div key={c.id} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 10, flexWrap: "wrap", padding: "8px 0", borderBottom: "1px solid var(--border)" }}>
+            <div style={{ minWidth: 0 }}>
+              <div style={{ fontWeight: 600 }}>
+                {c.name} <span className="small muted">· {roleLabel(c.role)}</span>
+                {c.isPrimary && <span className="small" style={{ marginLeft: 6, color: "var(--pink)" }}>Primary</span>}
+              </div>
+              <div className="small muted" style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+                {c.phone && <a href={"tel:" + c.phone} style={{ textDecoration: "none" }}>📞 {c.phone}</a>}
+                {c.email && <a href={"mailto:" + c.email} style={{ textDecoration: "none" }}>✉ {c.email}</a>}
+                <span>{c.marketingConsent ? "Marketing: opted in" : "Marketing: no consent"}</span>
+              </div>
+            </div>
+            <div style={{ display: "flex", gap: 6 }}>
+              {!c.isPrimary && (
+                <button className="btn small" disabled={busy} onClick={() => send(`${base}/${c.id}`, "PATCH", { isPrimary: true })}>
+                  Make primary
+                </button>
+              )}
+              <button className="btn small" disabled={busy} onClick={() => startEdit(c)}>Edit</button>
+              <button className="btn small" disabled={busy} onClick={() => remove(c)}>Remove</button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing !== null && (
+        <form onSubmit={save} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(180px, 1fr))", gap: 10 }}>
+            <div className="field">
+              <label>Name</label>
+              <input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required />
+            </div>
+            <div className="field">
+              <label>Role</label>
+              <select value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })}>
+                {ROLES.map((r) => <option key={r.value} value={r.value}>{r.label}</option>)}
+              </select>
+            </div>
+            <div className="field">
+              <label>Phone</label>
+              <input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+            </div>
+            <div className="field">
+              <label>Email</label>
+              <input type="email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} />
+            </div>
+          </div>
+          <label className="row small" style={{ gap: 6 }}>
+            <input type="checkbox" checked={form.marketingConsent} onChange={(e) => setForm({ ...form, marketingConsent: e.target.checked })} />
+            Agreed to receive marketing
+          </label>
+          {err && <div className="form-error">{err}</div>}
+          <div style={{ display: "flex", gap: 8 }}>
+            <button className="primary" type="submit" disabled={busy}>{busy ? "Saving…" : "Save contact"}</button>
+            <button className="btn" type="button" onClick={() => setEditing(null)}>Cancel</button>
+          </div>
+        </form>
+      )}
+      {editing === null && err && <div className="form-error" style={{ marginTop: 8 }}>{err}</div>}
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+// components/CustomerHealthCard.tsx
+import { HEALTH_FACTOR_LABELS, healthBand, type HealthFactors } from "@/lib/healthScore";
+
+type Props = {
+  score: number | null;
+  factors: HealthFactors | null;
+  /** Daily scores, oldest first. */
+  history: { date: string; score: number }[];
+  /** True when the score was worked out for this page view rather than read from the nightly run. */
+  live: boolean;
+};
+
+function Sparkline({ points }: { points: { date: string; score: number }[] }) {
+  const w = 260;
+  const h = 48;
+  const step = points.length > 1 ? w / (points.length - 1) : 0;
+  const y = (s: number) => h - (s / 100) * h;
+  const d = points.map((p, i) => `${i ? "L" : "M"}${(i * step).toFixed(1)},${y(p.score).toFixed(1)}`).join(" ");
+  return (
+    <svg width="100%" viewBox={`0 0 ${w} ${h}`} preserveAspectRatio="none" style={{ height: h, display: "block" }}>
+      {/* band boundaries */}
+      <line x1={0} x2={w} y1={y(70)} y2={y(70)} stroke="#dcfce7" strokeWidth={1} />
+      <line x1={0} x2={w} y1={y(40)} y2={y(40)} stroke="#fee2e2" strokeWidth={1} />
+      <path d={d} fill="none" stroke="var(--pink)" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+export default function CustomerHealthCard({ score, factors, history, live }: Props) {
+  const band = healthBand(score);
+  return (
+    <section className="card">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", marginBottom: 12, gap: 8 }}>
+        <h2>Health</h2>
+        {band && (
+          <span style={{ padding: "3px 12px", borderRadius: 999, fontSize: "0.75rem", fontWeight: 700, background: band.color, color: band.text }}>
+            {band.label} · {score}/100
+          </span>
+        )}
+      </div>
+
+      {!factors ? (
+        <p className="small muted">No orders yet, so there&apos;s nothing to score.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 8 }}>
+          {(Object.keys(HEALTH_FACTOR_LABELS) as (keyof HealthFactors)[]).map((k) => {
+            const f = factors[k];
+            if (!f) return null;
+            return (
+              <div key={k} style={{ display: "grid", gap: 3 }}>
+                <div style={{ display: "flex", justifyContent: "space-between", gap: 8 }}>
+                  <span className="small" style={{ fontWeight: 600 }}>{HEALTH_FACTOR_LABELS[k]}</span>
+                  <span className="small muted">{f.points}/{f.max}</span>
+                </div>
+                <div style={{ height: 6, borderRadius: 999, background: "var(--surface-2)", overflow: "hidden" }}>
+                  <div style={{ width: `${(f.points / f.max) * 100}%`, height: "100%", background: "var(--pink)" }} />
+                </div>
+                <span className="small muted">{f.detail}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <div style={{ marginTop: 14 }}>
+          <div className="small muted" style={{ marginBottom: 4 }}>Last {history.length} days</div>
+          <Sparkline points={history} />
+        </div>
+      )}
+      {live && factors && <p className="small muted" style={{ marginTop: 8 }}>Not yet in the nightly scores; worked out just now.</p>}
+    </section>
+  );
+}
@@ -0,0 +1,444 @@
+// components/CustomerListFilters.tsx
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  CUSTOMER_SORTS,
+  EXPORT_COLUMNS,
+  ROUTE_DAYS,
+  filtersToParams,
+  hasFilters,
+  type CustomFieldFilter,
+  type CustomerFilters,
+  type CustomerSort,
+  type ExportColumn,
+} from "@/lib/customerFilters";
+
+type View = {
+  id: string;
+  name: string;
+  filters: CustomerFilters;
+  columns: ExportColumn[];
+  shared: boolean;
+  ownerId: string;
+  owner: { fullName: string } | null;
+};
+
+type Props = {
+  filters: CustomerFilters;
+  sort: CustomerSort;
+  columns: ExportColumn[];
+  views: View[];
+  activeViewId: string | null;
+  reps: { id: string; name: string }[];
+  brands: string[];
+  /** CRM tags in use. */
+  tags: string[];
+  /** Active custom fields (lib/customFields.ts). */
+  fields: { key: string; label: string; type: string; options: string[] }[];
+  meId: string;
+  admin: boolean;
+};
+
+const STAGES = [
+  { value: "LEAD", label: "Lead" },
+  { value: "APPOINTMENT_BOOKED", label: "Appointment" },
+  { value: "SAMPLING", label: "Sampling" },
+  { value: "CUSTOMER", label: "Customer" },
+  { value: "DORMANT", label: "Dormant" },
+  { value: "LOST", label: "Lost" },
+];
+
+const HEALTH = [
+  { value: "healthy", label: "Healthy (70+)" },
+  { value: "watch", label: "Watch (40–69)" },
+  { value: "at_risk", label: "At risk (under 40)" },
+] as const;
+
+const toggle = <T,>(list: T[] | undefined, v: T) =>
+  (list ?? []).includes(v) ? (list ?? []).filter((x) => x !== v) : [...(list ?? []), v];
+
+function Chip({ on, onClick, children }: { on: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button type="button" className={on ? "primary small" : "btn small"} onClick={onClick}>
+      {children}
+    </button>
+  );
+}
+
+export default function CustomerListFilters({ filters, sort, columns, views, activeViewId, reps, brands, tags, fields, meId, admin }: Props) {
+  const router = useRouter();
+  const [f, setF] = useState<CustomerFilters>(filters);
+  const [postcodeText, setPostcodeText] = useState((filters.postcodes ?? []).join(", "));
+  const [cols, setCols] = useState<ExportColumn[]>(columns);
+  const [open, setOpen] = useState(false);
+  const [viewName, setViewName] = useState("");
+  const [shared, setShared] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const active = views.find((v) => v.id === activeViewId) ?? null;
+  const canEdit = !!active && (active.ownerId === meId || admin);
+
+  const set = (patch: Partial<CustomerFilters>) => setF({ ...f, ...patch });
+
+  const fieldFilter = (key: string) => f.fields?.find((c) => c.key === key) ?? { key };
+  function setField(key: string, patch: Partial<CustomFieldFilter>) {
+    const next = { ...fieldFilter(key), ...patch };
+    for (const k of Object.keys(next) as (keyof CustomFieldFilter)[]) {
+      const v = next[k];
+      if (v === undefined || v === "" || (Array.isArray(v) && !v.length)) delete next[k];
+    }
+    const rest = (f.fields ?? []).filter((c) => c.key !== key);
+    const all = Object.keys(next).length > 1 ? [...rest, next] : rest;
+    set({ fields: all.length ? all : undefined });
+  }
+
+  function apply(next = f, nextSort = sort) {
+    const sp = filtersToParams(next);
+    if (active) sp.set("view", active.id);
+    if (nextSort !== "newest") sp.set("sort", nextSort);
+    router.push(`/customers${sp.toString() ? `?${sp}` : ""}`);
+  }
+
+  function exportHref(format: "csv" | "xlsx") {
+    const sp = filtersToParams(f);
+    if (active) sp.set("view", active.id);
+    sp.set("columns", cols.join(","));
+    sp.set("format", format);
+    return `/api/customers/export?${sp}`;
+  }
+
+  async function send(url: string, method: string, body?: unknown) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      return j;
+    } catch (e: any) {
+      setMsg(e?.message || "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveNew() {
+    const j = await send("/api/customer-views", "POST", { name: viewName, filters: f, columns: cols, shared });
+    if (j?.view) {
+      setViewName("");
+      router.push(`/customers?view=${j.view.id}`);
+      router.refresh();
+    }
+  }
+
+  async function updateActive() {
+    if (!active) return;
+    const j = await send(`/api/customer-views/${active.id}`, "PATCH", { filters: f, columns: cols });
+    if (j?.view) {
+      setMsg("View updated.");
+      router.push(`/customers?view=${active.id}`);
+      router.refresh();
+    }
+  }
+
+  async function toggleShared() {
+    if (!active) return;
+    const j = await send(`/api/customer-views/${active.id}`, "PATCH", { shared: !active.shared });
+    if (j?.view) router.refresh();
+  }
+
+  async function deleteActive() {
+    if (!active || !confirm(`Delete the view "${active.name}"?`)) return;
+    const j = await send(`/api/customer-views/${active.id}`, "DELETE");
+    if (j) {
+      router.push("/customers");
+      router.refresh();
+    }
+  }
+
+  return (
+    <section className="card grid" style={{ gap: 12 }}>
+      {/* views + search */}
+      <div className="row" style={{ gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+        <select
+          className="input"
+          style={{ maxWidth: 260 }}
+          value={active?.id ?? ""}
+          onChange={(e) => router.push(e.target.value ? `/customers?view=${e.target.value}` : "/customers")}
+        >
+          <option value="">All customers</option>
+          {views.map((v) => (
+            <option key={v.id} value={v.id}>
+              {v.name}
+              {v.ownerId !== meId ? ` (${v.owner?.fullName ?? "shared"})` : v.shared ? " (shared)" : ""}
+            </option>
+          ))}
+        </select>
+        <form
+          style={{ display: "flex", gap: 8, flex: 1, minWidth: 220 }}
+          onSubmit={(e) => {
+            e.preventDefault();
+            apply();
+          }}
+        >
+          <input
+            type="text"
+            placeholder="Search name, email, town, postcode..."
+            value={f.q ?? ""}
+            onChange={(e) => set({ q: e.target.value || undefined })}
+            style={{ flex: 1 }}
+          />
+          <button type="submit" className="primary">Search</button>
+        </form>
+        <select
+          className="input"
+          style={{ maxWidth: 220 }}
+          value={sort}
+          onChange={(e) => apply(filters, e.target.value as CustomerSort)}
+          aria-label="Sort"
+        >
+          {CUSTOMER_SORTS.map((s) => <option key={s.key} value={s.key}>{s.label}</option>)}
+        </select>
+        {hasFilters(filters) && (
+          <button type="button" className="btn" onClick={() => apply({})}>Clear</button>
+        )}
+        <button type="button" className="btn" onClick={() => setOpen(!open)}>
+          {open ? "Hide filters" : "Filters & export"}
+        </button>
+      </div>
+
+      {open && (
+        <div className="grid" style={{ gap: 12 }}>
+          <div className="field">
+            <label>Stage</label>
+            <div className="row" style={{ gap: 6, flexWrap: "wrap" }}>
+              {STAGES.map((s) => (
+                <Chip key={s.value} on={!!f.stages?.includes(s.value)} onClick={() => set({ stages: toggle(f.stages, s.value) })}>
+                  {s.label}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div className="field">
+            <label>Health</label>
+            <div className="row" style={{ gap: 6, flexWrap: "wrap" }}>
+              {HEALTH.map((h) => (
+                <Chip key={h.value} on={!!f.health?.includes(h.value)} onClick={() => set({ health: toggle(f.health, h.value) })}>
+                  {h.label}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+            <div className="field">
+              <label>Sales rep</label>
+              <select
+                className="input"
+                multiple
+                size={Math.min(5, Math.max(2, reps.length))}
+                value={f.repIds ?? []}
+                onChange={(e) => set({ repIds: Array.from(e.target.selectedOptions, (o) => o.value) })}
+              >
+                {reps.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+            </div>
+            <div className="field">
+              <label>Stocked brands (has ordered)</label>
+              <select
+                className="input"
+                multiple
+                size={Math.min(5, Math.max(2, brands.length))}
+                value={f.brands ?? []}
+                onChange={(e) => set({ brands: Array.from(e.target.selectedOptions, (o) => o.value) })}
+              >
+                {brands.map((b) => <option key={b} value={b}>{b}</option>)}
+              </select>
+            </div>
+            {tags.length > 0 && (
+              <div className="field">
+                <label>Tags (any of)</label>
+                <select
+                  className="input"
+                  multiple
+                  size={Math.min(5, Math.max(2, tags.length))}
+                  value={f.tags ?? []}
+                  onChange={(e) => {
+                    const picked = Array.from(e.target.selectedOptions, (o) => o.value);
+                    set({ tags: picked.length ? picked : undefined });
+                  }}
+                >
+                  {tags.map((t) => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+            )}
+            <div className="field">
+              <label>Town</label>
+              <input className="input" value={f.town ?? ""} onChange={(e) => set({ town: e.target.value || undefined })} />
+            </div>
+            <div className="field">
+              <label>County</label>
+              <input className="input" value={f.county ?? ""} onChange={(e) => set({ county: e.target.value || undefined })} />
+            </div>
+            <div className="field">
+              <label>Postcode starts with</label>
+              <input
+                className="input"
+                placeholder="e.g. M1, SK, WA14"
+                value={postcodeText}
+                onChange={(e) => {
+                  setPostcodeText(e.target.value);
+                  const pcs = e.target.value.split(",").map((s) => s.trim().toUpperCase()).filter(Boolean);
+                  set({ postcodes: pcs.length ? pcs : undefined });
+                }}
+              />
+            </div>
+            <div className="field">
+              <label>Last order between</label>
+              <div className="row" style={{ gap: 6 }}>
+                <input type="date" className="input" value={f.lastOrderFrom ?? ""} onChange={(e) => set({ lastOrderFrom: e.target.value || undefined })} />
+                <input type="date" className="input" value={f.lastOrderTo ?? ""} onChange={(e) => set({ lastOrderTo: e.target.value || undefined })} />
+              </div>
+              <label className="row small" style={{ gap: 6, marginTop: 4 }}>
+                <input type="checkbox" checked={!!f.neverOrdered} onChange={(e) => set({ neverOrdered: e.target.checked || undefined })} />
+                Never ordered
+              </label>
+            </div>
+          </div>
+
+          <div className="field">
+            <label>Route plan</label>
+            <div className="row" style={{ gap: 6, flexWrap: "wrap", alignItems: "center" }}>
+              <select
+                className="input"
+                style={{ maxWidth: 160 }}
+                value={f.routePlan ?? ""}
+                onChange={(e) => set({ routePlan: (e.target.value || undefined) as CustomerFilters["routePlan"] })}
+              >
+                <option value="">Any</option>
+                <option value="yes">On route plan</option>
+                <option value="no">Not on route plan</option>
+              </select>
+              {[1, 2, 3, 4].map((w) => (
+                <Chip key={w} on={!!f.routeWeeks?.includes(w)} onClick={() => set({ routeWeeks: toggle(f.routeWeeks, w) })}>
+                  Week {w}
+                </Chip>
+              ))}
+              {ROUTE_DAYS.map((d) => (
+                <Chip key={d} on={!!f.routeDays?.includes(d)} onClick={() => set({ routeDays: toggle(f.routeDays, d) })}>
+                  {d.slice(0, 3).toLowerCase().replace(/^./, (c) => c.toUpperCase())}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          {fields.length > 0 && (
+            <div className="grid" style={{ gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 10 }}>
+              {fields.map((fd) => {
+                const c = fieldFilter(fd.key);
+                return (
+                  <div key={fd.key} className="field">
+                    <label>{fd.label}</label>
+                    {(fd.type === "SELECT" || fd.type === "MULTI_SELECT") && (
+                      <div className="row" style={{ gap: 6, flexWrap: "wrap" }}>
+                        {fd.options.map((o) => (
+                          <Chip key={o} on={!!c.options?.includes(o)} onClick={() => setField(fd.key, { options: toggle(c.options, o) })}>
+                            {o}
+                          </Chip>
+                        ))}
+                      </div>
+                    )}
+                    {(fd.type === "NUMBER" || fd.type === "DATE") && (
+                      <div className="row" style={{ gap: 6 }}>
+                        <input
+                          className="input"
+                          type={fd.type === "DATE" ? "date" : "number"}
+                          placeholder="From"
+                          value={c.min ?? ""}
+                          onChange={(e) => setField(fd.key, { min: e.target.value || undefined })}
+                        />
+                        <input
+                          className="input"
+                          type={fd.type === "DATE" ? "date" : "number"}
+                          placeholder="To"
+                          value={c.max ?? ""}
+                          onChange={(e) => setField(fd.key, { max: e.target.value || undefined })}
+                        />
+                      </div>
+                    )}
+                    {fd.type === "BOOLEAN" && (
+                      <select
+                        className="input"
+                        value={c.is ?? ""}
+                        onChange={(e) => setField(fd.key, { is: (e.target.value || undefined) as CustomFieldFilter["is"] })}
+                      >
+                        <option value="">Any</option>
+                        <option value="yes">Yes</option>
+                        <option value="no">No</option>
+                      </select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="row" style={{ gap: 8 }}>
+            <button type="button" className="primary" onClick={() => apply()}>Apply filters</button>
+            <button type="button" className="btn" onClick={() => apply({})}>Clear</button>
+          </div>
+
+          <div className="field">
+            <label>Export columns</label>
+            <div className="row" style={{ gap: 10, flexWrap: "wrap" }}>
+              {EXPORT_COLUMNS.map((c) => (
+                <label key={c.key} className="row small" style={{ gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={cols.includes(c.key)}
+                    onChange={() => setCols(EXPORT_COLUMNS.map((x) => x.key).filter((k) => (k === c.key ? !cols.includes(k) : cols.includes(k))))}
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="row" style={{ gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            <a className="btn" href={exportHref("csv")}>Export CSV</a>
+            <a className="btn" href={exportHref("xlsx")}>Export Excel</a>
+            <span className="small muted">Exports use the filters above (apply them first to check the list).</span>
+          </div>
+
+          <div className="row" style={{ gap: 8, flexWrap: "wrap", alignItems: "center", borderTop: "1px solid var(--border)", paddingTop: 10 }}>
+            <input className="input" style={{ maxWidth: 240 }} placeholder="Save as view…" value={viewName} onChange={(e) => setViewName(e.target.value)} />
+            <label className="row small" style={{ gap: 4 }}>
+              <input type="checkbox" checked={shared} onChange={(e) => setShared(e.target.checked)} />
+              Share with everyone
+            </label>
+            <button type="button" className="btn" disabled={busy || !viewName.trim()} onClick={saveNew}>Save view</button>
+            {canEdit && (
+              <>
+                <button type="button" className="btn" disabled={busy} onClick={updateActive}>Update “{active!.name}”</button>
+                <button type="button" className="btn" disabled={busy} onClick={toggleShared}>
+                  {active!.shared ? "Stop sharing" : "Share"}
+                </button>
+                <button type="button" className="btn" disabled={busy} onClick={deleteActive}>Delete view</button>
+              </>
+            )}
+            {msg && <span className="small">{msg}</span>}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,7 +1,7 @@
 // components/CustomerPicker.tsx
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 
 type Customer = {
   id: string;
@@ -14,6 +14,8 @@ type Customer = {
   postCode: string | null;
 };
 
+const labelOf = (c: Customer) => `${c.salonName} — ${c.customerName}`;
+
 export default function CustomerPicker({
   name = "customerId",
   required = true,
@@ -26,14 +28,15 @@ export default function CustomerPicker({
   const [query, setQuery] = useState("");
   const [results, setResults] = useState<Customer[]>([]);
   const [selected, setSelected] = useState<Customer | null>(null);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
   const fetchCtrl = useRef<AbortController | null>(null);
 
-  // Fetch customers as you type (server must support `?search=`)
+  // Ranked, typo-tolerant matches as you type (lib/customerSearch.ts)
   useEffect(() => {
     const q = query.trim();
-    if (!q) {
+    if (q.length < 2 || (selected && q === labelOf(selected))) {
       setResults([]);
-      setSelected(null);
       return;
     }
 
@@ -43,13 +46,14 @@ export default function CustomerPicker({
 
     const t = setTimeout(async () => {
       try {
-        const res = await fetch(`/api/customers?search=${encodeURIComponent(q)}`, {
+        const res = await fetch(`/api/search/customers?q=${encodeURIComponent(q)}&limit=10`, {
           signal: controller.signal,
           headers: { "accept": "application/json" },
         });
         if (res.ok) {
-          const data = (await res.json()) as Customer[];
-          setResults(data);
+          const data = await res.json();
+          setResults(Array.isArray(data?.results) ? data.results : []);
+          setActive(0);
         }
       } catch {
         /* ignore */
@@ -60,47 +64,76 @@ export default function CustomerPicker({
       clearTimeout(t);
       controller.abort();
     };
-  }, [query]);
+  }, [query, selected]);
 
-  // Build a label for each customer for the datalist
-  const options = useMemo(
-    () =>
-      results.map((c) => ({
-        value: `${c.salonName} — ${c.customerName}`,
-        key: c.id,
-        c,
-      })),
-    [results]
-  );
+  function pick(c: Customer) {
+    setSelected(c);
+    setQuery(labelOf(c));
+    setOpen(false);
+  }
 
-  // When user leaves the field, snap to a matching option (if any)
-  function onBlur() {
-    const match = options.find((o) => o.value.toLowerCase() === query.trim().toLowerCase());
-    if (match) {
-      setSelected(match.c);
-      setQuery(match.value);
-    } else {
-      // if the user typed something that doesn't match, clear selection
-      setSelected(null);
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (!open || !results.length) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setActive((i) => (i + (e.key === "ArrowDown" ? 1 : results.length - 1)) % results.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault(); // pick, don't submit the form
+      pick(results[active]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
     }
   }
 
   return (
     <div>
       <label>{label} {required ? "*" : ""}</label>
-      <input
-        list="customer-picker-list"
-        placeholder="Search by salon, person, email, town…"
-        value={query}
-        onChange={(e) => setQuery(e.target.value)}
-        onBlur={onBlur}
-        required={required}
-      />
-      <datalist id="customer-picker-list">
-        {options.map((o) => (
-          <option key={o.key} value={o.value} />
-        ))}
-      </datalist>
+      <div style={{ position: "relative" }}>
+        <input
+          placeholder="Search by salon, person, phone, postcode…"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            // typing again drops the previous pick until a suggestion is chosen
+            setSelected(null);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={onKeyDown}
+          required={required}
+          autoComplete="off"
+          role="combobox"
+          aria-expanded={open && results.length > 0}
+          aria-controls="customer-picker-list"
+        />
+        {open && results.length > 0 && (
+          <ul
+            id="customer-picker-list"
+            role="listbox"
+            className="card"
+            style={{ position: "absolute", zIndex: 20, left: 0, right: 0, top: "100%", margin: "4px 0 0", padding: 4, listStyle: "none", maxHeight: 320, overflowY: "auto" }}
+          >
+            {results.map((c, i) => (
+              <li
+                key={c.id}
+                role="option"
+                aria-selected={i === active}
+                // mousedown, so the pick lands before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(c);
+                }}
+                onMouseEnter={() => setActive(i)}
+                style={{ padding: "6px 8px", borderRadius: 6, cursor: "pointer", background: i === active ? "var(--surface-2)" : undefined }}
+              >
+                <div style={{ fontWeight: 600 }}>{labelOf(c)}</div>
+                <div className="small">{[c.town, c.postCode].filter(Boolean).join(" · ")}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
 
       {/* Hidden field that actually posts the chosen id */}
       <input type="hidden" name={name} value={selected?.id ?? ""} />
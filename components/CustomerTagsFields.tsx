@@ -0,0 +1,217 @@
+// components/CustomerTagsFields.tsx
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+type FieldType = "SELECT" | "MULTI_SELECT" | "NUMBER" | "DATE" | "BOOLEAN";
+
+type Field = {
+  key: string;
+  label: string;
+  type: FieldType;
+  options: string[];
+  value: string[] | number | string | boolean | null;
+};
+
+type Props = {
+  customerId: string;
+  tags: string[];
+  /** Tags used on other customers, offered as suggestions. */
+  knownTags: string[];
+  fields: Field[];
+  /** Linked to Shopify, so tag changes are pushed there too. */
+  linked: boolean;
+};
+
+function display(f: Field) {
+  const v = f.value;
+  if (v == null || (Array.isArray(v) && !v.length)) return null;
+  if (Array.isArray(v)) return v.join(", ");
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (f.type === "DATE") return new Date(`${v}T00:00:00Z`).toLocaleDateString("en-GB", { timeZone: "UTC" });
+  return String(v);
+}
+
+/** Form state per field: strings for inputs, lists for multi-selects. */
+function draftOf(fields: Field[]) {
+  const out: Record<string, string | string[]> = {};
+  for (const f of fields) {
+    if (f.type === "MULTI_SELECT") out[f.key] = Array.isArray(f.value) ? f.value : [];
+    else if (f.type === "BOOLEAN") out[f.key] = f.value == null ? "" : f.value ? "yes" : "no";
+    else out[f.key] = f.value == null ? "" : String(f.value);
+  }
+  return out;
+}
+
+export default function CustomerTagsFields({ customerId, tags: initialTags, knownTags, fields: initialFields, linked }: Props) {
+  const router = useRouter();
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [fields, setFields] = useState<Field[]>(initialFields);
+  const [newTag, setNewTag] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(() => draftOf(initialFields));
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function send(url: string, body: unknown) {
+    setBusy(true);
+    setErr(null);
+    try {
+      const r = await fetch(url, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Request failed");
+      router.refresh();
+      return j;
+    } catch (e: any) {
+      setErr(e?.message || "Request failed");
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveTags(next: string[]) {
+    const j = await send(`/api/customers/${customerId}/tags`, { tags: next });
+    if (j) {
+      setTags(j.tags ?? next);
+      if (linked && !j.synced) setErr("Saved, but Shopify couldn't be updated; it will catch up on the next sync.");
+    }
+  }
+
+  function addTag(e: React.FormEvent) {
+    e.preventDefault();
+    const t = newTag.trim();
+    if (!t) return;
+    setNewTag("");
+    if (!tags.some((x) => x.toLowerCase() === t.toLowerCase())) saveTags([...tags, t]);
+  }
+
+  async function saveFields(e: React.FormEvent) {
+    e.preventDefault();
+    const j = await send(`/api/customers/${customerId}/fields`, { values: draft });
+    if (j?.fields) {
+      setFields(j.fields);
+      setDraft(draftOf(j.fields));
+      setEditing(false);
+    }
+  }
+
+  const suggestions = knownTags.filter((t) => !tags.some((x) => x.toLowerCase() === t.toLowerCase()));
+
+  return (
+    <section className="card">
+      <h2 style={{ marginBottom: 12 }}>Tags &amp; Fields</h2>
+
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", alignItems: "center", marginBottom: 10 }}>
+        {tags.length === 0 && <span className="small muted">No tags.</span>}
+        {tags.map((t) => (
+          <span key={t} style={{ display: "inline-flex", alignItems: "center", gap: 4, padding: "2px 6px 2px 10px", borderRadius: 999, fontSize: "0.75rem", fontWeight: 600, background: "var(--surface-2)" }}>
+            {t}
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => saveTags(tags.filter((x) => x !== t))}
+              aria-label={`Remove ${t}`}
+              style={{ border: 0, background: "transparent", cursor: "pointer", padding: "0 2px", color: "inherit" }}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+      </div>
+      <form onSubmit={addTag} style={{ display: "flex", gap: 6, marginBottom: 4 }}>
+        <input list={`tags-${customerId}`} value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="Add a tag…" style={{ flex: 1 }} />
+        <datalist id={`tags-${customerId}`}>
+          {suggestions.map((t) => <option key={t} value={t} />)}
+        </datalist>
+        <button className="btn" type="submit" disabled={busy || !newTag.trim()} style={{ fontSize: "0.85rem" }}>Add</button>
+      </form>
+      <p className="small muted" style={{ marginTop: 0 }}>
+        {linked ? "Kept in step with the customer's Shopify tags (sales-rep tags are managed separately)." : "Sent to Shopify once the customer is linked."}
+      </p>
+
+      {fields.length > 0 && !editing && (
+        <div style={{ display: "grid", gap: 6, marginTop: 12 }}>
+          {fields.map((f) => (
+            <div key={f.key} style={{ display: "flex", justifyContent: "space-between", gap: 8, padding: "6px 0", borderBottom: "1px solid var(--border)" }}>
+              <span className="small muted">{f.label}</span>
+              <span className="small" style={{ fontWeight: 500, textAlign: "right" }}>{display(f) ?? "—"}</span>
+            </div>
+          ))}
+          <div>
+            <button className="btn" style={{ fontSize: "0.85rem", marginTop: 6 }} onClick={() => setEditing(true)}>Edit fields</button>
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <form onSubmit={saveFields} style={{ display: "grid", gap: 10, marginTop: 12 }}>
+          {fields.map((f) => (
+            <div key={f.key} className="field">
+              <label>{f.label}</label>
+              {f.type === "SELECT" && (
+                <select value={draft[f.key] as string} onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}>
+                  <option value="">—</option>
+                  {f.options.map((o) => <option key={o} value={o}>{o}</option>)}
+                </select>
+              )}
+              {f.type === "MULTI_SELECT" && (
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  {f.options.map((o) => {
+                    const picked = draft[f.key] as string[];
+                    const on = picked.includes(o);
+                    return (
+                      <button
+                        key={o}
+                        type="button"
+                        className={on ? "primary small" : "btn small"}
+                        onClick={() => setDraft({ ...draft, [f.key]: on ? picked.filter((x) => x !== o) : [...picked, o] })}
+                      >
+                        {o}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              {f.type === "NUMBER" && (
+                <input type="number" step="any" value={draft[f.key] as string} onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })} />
+              )}
+              {f.type === "DATE" && (
+                <input type="date" value={draft[f.key] as string} onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })} />
+              )}
+              {f.type === "BOOLEAN" && (
+                <select value={draft[f.key] as string} onChange={(e) => setDraft({ ...draft, [f.key]: e.target.value })}>
+                  <option value="">—</option>
+                  <option value="yes">Yes</option>
+                  <option value="no">No</option>
+                </select>
+              )}
+            </div>
+          ))}
+          <div style={{ display: "flex", gap: 8 }}>
+            <button className="btn" type="submit" disabled={busy} style={{ fontSize: "0.85rem" }}>Save</button>
+            <button
+              className="btn"
+              type="button"
+              disabled={busy}
+              style={{ fontSize: "0.85rem" }}
+              onClick={() => {
+                setDraft(draftOf(fields));
+                setEditing(false);
+              }}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {err && <p className="small" style={{ color: "#b91c1c", marginTop: 8 }}>{err}</p>}
+    </section>
+  );
+}
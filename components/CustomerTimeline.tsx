@@ -0,0 +1,165 @@
+// components/CustomerTimeline.tsx
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+
+type ItemType =
+  | "call"
+  | "visit"
+  | "note"
+  | "order"
+  | "refund"
+  | "education_request"
+  | "education_booking"
+  | "stage_change"
+  | "payment_link";
+
+type Item = {
+  key: string;
+  type: ItemType;
+  at: string;
+  title: string;
+  detail: string | null;
+  by: string | null;
+  amount: number | null;
+  href: string | null;
+  sinceLastVisit: boolean;
+};
+
+type Page = { items: Item[]; nextCursor: string | null; lastVisitAt: string | null };
+
+const TYPES: { value: ItemType; label: string; icon: string }[] = [
+  { value: "call", label: "Calls", icon: "📞" },
+  { value: "visit", label: "Visits", icon: "🚗" },
+  { value: "note", label: "Notes", icon: "📝" },
+  { value: "order", label: "Orders", icon: "🛒" },
+  { value: "refund", label: "Refunds", icon: "↩️" },
+  { value: "education_request", label: "Education requests", icon: "🎓" },
+  { value: "education_booking", label: "Education bookings", icon: "📅" },
+  { value: "stage_change", label: "Stage changes", icon: "🏷️" },
+  { value: "payment_link", label: "Payment links", icon: "💳" },
+];
+const iconOf = (t: ItemType) => TYPES.find((x) => x.value === t)?.icon ?? "•";
+
+function money(n: number) {
+  return new Intl.NumberFormat("en-GB", { style: "currency", currency: "GBP" }).format(n);
+}
+
+function when(iso: string) {
+  return new Date(iso).toLocaleString("en-GB", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function CustomerTimeline({ customerId, initial }: { customerId: string; initial: Page }) {
+  const [items, setItems] = useState<Item[]>(initial.items);
+  const [cursor, setCursor] = useState<string | null>(initial.nextCursor);
+  const [lastVisitAt, setLastVisitAt] = useState<string | null>(initial.lastVisitAt);
+  const [types, setTypes] = useState<ItemType[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  async function load(nextTypes: ItemType[], before: string | null) {
+    setBusy(true);
+    setErr(null);
+    try {
+      const sp = new URLSearchParams();
+      if (nextTypes.length) sp.set("type", nextTypes.join(","));
+      if (before) sp.set("before", before);
+      const r = await fetch(`/api/customers/${customerId}/timeline?${sp}`, { cache: "no-store" });
+      const j = await r.json().catch(() => ({}));
+      if (!r.ok) throw new Error(j?.error || "Failed to load activity");
+      setItems((prev) => (before ? [...prev, ...j.items] : j.items));
+      setCursor(j.nextCursor);
+      setLastVisitAt(j.lastVisitAt);
+    } catch (e: any) {
+      setErr(e?.message || "Failed to load activity");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function toggle(t: ItemType) {
+    const next = types.includes(t) ? types.filter((x) => x !== t) : [...types, t];
+    setTypes(next);
+    load(next, null);
+  }
+
+  // the "last visit" divider goes above the first item from before it
+  const dividerAt = lastVisitAt ? items.findIndex((i) => !i.sinceLastVisit) : -1;
+  const newCount = items.filter((i) => i.sinceLastVisit).length;
+
+  return (
+    <section className="card">
+      <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", flexWrap: "wrap", gap: 8, marginBottom: 12 }}>
+        <h2 style={{ margin: 0 }}>Activity</h2>
+        {lastVisitAt && (
+          <span className="small muted">
+            {newCount}{cursor && dividerAt === -1 ? "+" : ""} since the last visit ({new Date(lastVisitAt).toLocaleDateString("en-GB")})
+          </span>
+        )}
+      </div>
+
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginBottom: 14 }}>
+        <button type="button" className={types.length ? "btn small" : "primary small"} disabled={busy} onClick={() => { setTypes([]); load([], null); }}>
+          All
+        </button>
+        {TYPES.map((t) => (
+          <button key={t.value} type="button" className={types.includes(t.value) ? "primary small" : "btn small"} disabled={busy} onClick={() => toggle(t.value)}>
+            {t.icon} {t.label}
+          </button>
+        ))}
+      </div>
+
+      {items.length === 0 && !busy ? (
+        <p className="small muted">No activity{types.length ? " of these types" : ""} yet.</p>
+      ) : (
+        <div style={{ display: "grid", gap: 8 }}>
+          {items.map((i, n) => (
+            <div key={i.key}>
+              {n === dividerAt && (
+                <div className="small muted" style={{ display: "flex", alignItems: "center", gap: 8, margin: "6px 0 4px" }}>
+                  <span style={{ flex: 1, borderTop: "1px dashed var(--border)" }} />
+                  Last visit · {new Date(lastVisitAt!).toLocaleDateString("en-GB")}
+                  <span style={{ flex: 1, borderTop: "1px dashed var(--border)" }} />
+                </div>
+              )}
+              <div
+                style={{
+                  display: "flex", gap: 10, alignItems: "flex-start", padding: "10px 12px", borderRadius: 10,
+                  border: "1px solid var(--border)", background: i.sinceLastVisit ? "#fdf2f8" : "#fff",
+                  borderLeft: i.sinceLastVisit ? "3px solid var(--pink)" : "1px solid var(--border)",
+                }}
+              >
+                <span aria-hidden style={{ width: 22, textAlign: "center" }}>{iconOf(i.type)}</span>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 8, flexWrap: "wrap" }}>
+                    <span style={{ fontWeight: 600, fontSize: "0.875rem" }}>
+                      {i.href ? (
+                        i.href.startsWith("/") ? <Link href={i.href}>{i.title}</Link> : <a href={i.href} target="_blank" rel="noreferrer">{i.title}</a>
+                      ) : (
+                        i.title
+                      )}
+                      {i.amount != null && <span style={{ marginLeft: 8 }}>{money(i.amount)}</span>}
+                    </span>
+                    <span className="small muted">{when(i.at)}</span>
+                  </div>
+                  {i.detail && <div className="small muted" style={{ marginTop: 2, whiteSpace: "pre-wrap" }}>{i.detail}</div>}
+                  {i.by && <div className="small muted">{i.by}</div>}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {err && <p className="small" style={{ color: "#b91c1c", marginTop: 8 }}>{err}</p>}
+      {cursor && (
+        <div style={{ marginTop: 12 }}>
+          <button type="button" className="btn" disabled={busy} onClick={() => load(types, cursor)}>
+            {busy ? "Loading…" : "Load more"}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -18,6 +18,9 @@ type CustomerLite = {
 } | null;
 
 type Brand = { id: string; name: string };
+type ContactLite = { id: string; name: string; role: string; phone: string | null; email: string | null; isPrimary: boolean };
+
+const ROLE_LABEL: Record<string, string> = { OWNER: "Owner", MANAGER: "Manager", ORDERING: "Ordering", OTHER: "Other" };
 
 const EDU_TYPES = [
   { value: "Permanent colour", label: "Permanent Colour", icon: "🎨" },
@@ -26,8 +29,10 @@ const EDU_TYPES = [
   { value: "Styling Range", label: "Styling Range", icon: "💁" },
 ] as const;
 
-export default function EducationRequestForm({ customer }: { customer: CustomerLite }) {
+export default function EducationRequestForm({ customer, contacts = [] }: { customer: CustomerLite; contacts?: ContactLite[] }) {
   const [brands, setBrands] = useState<Brand[]>([]);
+  const [contactId, setContactId] = useState(contacts.find(c => c.isPrimary)?.id ?? contacts[0]?.id ?? "");
+  const contact = contacts.find(c => c.id === contactId) ?? null;
   const [selectedBrands, setSelectedBrands] = useState<string[]>([]);
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const [submitting, setSubmitting] = useState(false);
@@ -101,17 +106,31 @@ export default function EducationRequestForm({ customer }: { customer: CustomerL
         <div style={{ display: "grid", gridTemplateColumns: "repeat(auto-fit, minmax(200px, 1fr))", gap: 8 }}>
           <div>
             <div style={{ fontWeight: 700, fontSize: "1rem" }}>{customer.salonName || "Unknown Salon"}</div>
-            {customer.customerName && <div className="small muted">{customer.customerName}</div>}
+            {(contact?.name ?? customer.customerName) && <div className="small muted">{contact?.name ?? customer.customerName}</div>}
             {address && <div className="small muted">{address}</div>}
           </div>
           <div>
-            {customer.customerTelephone && <div className="small muted">📞 {customer.customerTelephone}</div>}
-            {customer.customerEmailAddress && <div className="small muted">✉ {customer.customerEmailAddress}</div>}
+            {(contact ? contact.phone : customer.customerTelephone) && <div className="small muted">📞 {contact ? contact.phone : customer.customerTelephone}</div>}
+            {(contact ? contact.email : customer.customerEmailAddress) && <div className="small muted">✉ {contact ? contact.email : customer.customerEmailAddress}</div>}
             {customer.salesRep && <div className="small muted">🧑‍💼 {customer.salesRep}</div>}
           </div>
         </div>
       </div>
 
+      {contacts.length > 1 && (
+        <div className="field" style={{ marginTop: -12, marginBottom: 24 }}>
+          <label>Contact for this request</label>
+          <select value={contactId} onChange={e => setContactId(e.target.value)}>
+            {contacts.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name} ({ROLE_LABEL[c.role] ?? c.role}){c.phone ? ` • ${c.phone}` : ""}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <input type="hidden" name="contactId" value={contactId} />
+
       {/* Hidden fields to pass address details to API */}
       <input type="hidden" name="salonName" value={customer.salonName || ""} />
       <input type="hidden" name="customerName" value={customer.customerName || ""} />
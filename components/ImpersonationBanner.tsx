@@ -0,0 +1,66 @@
+// components/ImpersonationBanner.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Who = { name: string; by: string };
+
+/** Shown on every page while an admin is acting as another user. */
+export default function ImpersonationBanner() {
+  const [who, setWho] = useState<Who | null>(null);
+  const [stopping, setStopping] = useState(false);
+
+  useEffect(() => {
+    if (window.location.pathname === "/login") return;
+    (async () => {
+      try {
+        const r = await fetch("/api/me", { cache: "no-store" });
+        if (!r.ok) return;
+        const j = await r.json().catch(() => null);
+        if (!j?.impersonator) return;
+        setWho({
+          name: j.fullName || j.email,
+          by: j.impersonator.fullName || j.impersonator.email,
+        });
+      } catch {}
+    })();
+  }, []);
+
+  async function stop() {
+    setStopping(true);
+    try {
+      const r = await fetch("/api/admin/impersonate", { method: "DELETE" });
+      const j = await r.json().catch(() => null);
+      window.location.href = j?.redirectTo || "/login";
+    } catch {
+      setStopping(false);
+    }
+  }
+
+  if (!who) return null;
+
+  return (
+    <div
+      role="status"
+      style={{
+        background: "#fef3c7",
+        borderBottom: "1px solid #f59e0b",
+        color: "#92400e",
+        padding: "8px 16px",
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        gap: 12,
+        flexWrap: "wrap",
+        fontSize: "0.9rem",
+      }}
+    >
+      <span>
+        Viewing as <b>{who.name}</b> (impersonated by {who.by})
+      </span>
+      <button className="btn" style={{ fontSize: "0.85rem" }} onClick={stop} disabled={stopping}>
+        {stopping ? "Stopping…" : "Stop impersonating"}
+      </button>
+    </div>
+  );
+}
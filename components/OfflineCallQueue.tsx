@@ -0,0 +1,121 @@
+// components/OfflineCallQueue.tsx
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  listQueuedCalls,
+  registerCallServiceWorker,
+  removeQueuedCall,
+  syncQueuedCalls,
+  type QueuedCall,
+} from "@/lib/offlineCalls";
+
+/**
+ * Calls saved on this device while offline (lib/offlineCalls.ts). Registers the
+ * service worker, sends the queue when the page opens online, the connection comes
+ * back or the worker's background sync asks, and lists calls the server turned down
+ * so they can be discarded.
+ * `refreshKey` changes when the form has just queued a call.
+ */
+export default function OfflineCallQueue({ refreshKey = 0 }: { refreshKey?: number }) {
+  const [calls, setCalls] = useState<QueuedCall[]>([]);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [note, setNote] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    listQueuedCalls().then(setCalls).catch(() => setCalls([]));
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return null;
+    setSyncing(true);
+    try {
+      const r = await syncQueuedCalls();
+      if (r.sent) setNote(`${r.sent} offline call${r.sent === 1 ? "" : "s"} sent.`);
+      return r;
+    } catch (e) {
+      console.error("[offline] sync failed:", e);
+      return null;
+    } finally {
+      setSyncing(false);
+      refresh();
+    }
+  }, [refresh]);
+
+  useEffect(() => {
+    if (typeof indexedDB === "undefined") return;
+    setOnline(navigator.onLine);
+    registerCallServiceWorker();
+    sync();
+
+    const goOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const goOffline = () => setOnline(false);
+    // background sync (public/sw.js): send the queue and report what's left
+    const fromWorker = async (e: MessageEvent) => {
+      if (e.data?.type !== "call-queue-sync") return;
+      const r = await sync();
+      e.ports[0]?.postMessage({ remaining: r ? r.remaining : null });
+    };
+    window.addEventListener("online", goOnline);
+    window.addEventListener("offline", goOffline);
+    navigator.serviceWorker?.addEventListener("message", fromWorker);
+    return () => {
+      window.removeEventListener("online", goOnline);
+      window.removeEventListener("offline", goOffline);
+      navigator.serviceWorker?.removeEventListener("message", fromWorker);
+    };
+  }, [sync, refresh]);
+
+  useEffect(() => {
+    if (refreshKey && typeof indexedDB !== "undefined") refresh();
+  }, [refreshKey, refresh]);
+
+  async function discard(key: string) {
+    if (!confirm("Discard this call? It hasn’t been saved to the CRM.")) return;
+    await removeQueuedCall(key);
+    refresh();
+  }
+
+  const waiting = calls.filter((c) => !c.failed);
+  const failed = calls.filter((c) => c.failed);
+
+  if (!calls.length && online && !note) return null;
+
+  return (
+    <section className="card" style={{ background: "var(--surface-2)", display: "grid", gap: 8 }}>
+      {!online && (
+        <div className="small" style={{ fontWeight: 600 }}>
+          You’re offline. Calls you log now are saved on this device and sent when you’re back online.
+        </div>
+      )}
+      {note && <div className="small">{note}</div>}
+      {waiting.length > 0 && (
+        <div className="row" style={{ gap: 8, alignItems: "center", justifyContent: "space-between", flexWrap: "wrap" }}>
+          <span className="small">
+            <b>{waiting.length}</b> call{waiting.length === 1 ? "" : "s"} waiting to sync:{" "}
+            {waiting.map((c) => c.label).join(", ")}
+            {waiting[0].lastError && <span className="muted"> ({waiting[0].lastError})</span>}
+          </span>
+          <button type="button" className="btn small" onClick={sync} disabled={syncing || !online}>
+            {syncing ? "Sending…" : "Sync now"}
+          </button>
+        </div>
+      )}
+      {failed.map((c) => (
+        <div key={c.key} className="row" style={{ gap: 8, alignItems: "center", justifyContent: "space-between", flexWrap: "wrap" }}>
+          <div className="small">
+            <div style={{ color: "#b91c1c" }}>
+              Not saved: {c.label}, logged {new Date(c.queuedAt).toLocaleString()} — {c.lastError}
+            </div>
+            {typeof c.fields.summary === "string" && <div className="muted">“{c.fields.summary}”</div>}
+          </div>
+          <button type="button" className="btn small" onClick={() => discard(c.key)}>Discard</button>
+        </div>
+      ))}
+    </section>
+  );
+}
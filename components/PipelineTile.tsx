@@ -3,8 +3,9 @@
 
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { LOSS_REASON_LABELS, STAGE_LABELS, type LossReasonValue, type StageValue } from "@/lib/pipeline";
 
-type Stage = "LEAD" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER";
+type Stage = StageValue;
 
 type Row = {
   id: string;
@@ -12,25 +13,18 @@ type Row = {
   customerName: string | null;
   salesRep: string | null;
   stage: Stage;
+  lossReason: LossReasonValue | null;
   createdAt: string; // ISO
 };
 
-type Counts = {
-  LEAD: number;
-  APPOINTMENT_BOOKED: number;
-  SAMPLING: number;
-  CUSTOMER: number;
-  total: number;
-};
+type Counts = Record<Stage, number> & { total: number };
 
 type ApiResponse = { counts: Counts; items: Row[] };
 
-const STAGE_LABELS: Record<Stage, string> = {
-  LEAD: "Lead",
-  APPOINTMENT_BOOKED: "Appointment booked",
-  SAMPLING: "Sampling",
-  CUSTOMER: "Customer",
-};
+// lost/dormant rows show why
+const stageText = (r: Row) => STAGE_LABELS[r.stage] + (r.lossReason ? ` (${LOSS_REASON_LABELS[r.lossReason]})` : "");
+
+const PILLS: Stage[] = ["LEAD", "ENGAGED", "APPOINTMENT_BOOKED", "SAMPLING", "CUSTOMER", "DORMANT", "LOST"];
 
 export default function PipelineTile() {
   const [rep, setRep] = useState<string>("");
@@ -148,18 +142,11 @@ export default function PipelineTile() {
 
       {/* Stage pills (NOW CLICKABLE) */}
       <div className="row" style={{ gap: 8, flexWrap: "wrap", marginBottom: 12 }}>
-        <Pill value="LEAD" count={data?.counts?.LEAD ?? 0}>
-          {STAGE_LABELS.LEAD}
-        </Pill>
-        <Pill value="APPOINTMENT_BOOKED" count={data?.counts?.APPOINTMENT_BOOKED ?? 0}>
-          {STAGE_LABELS.APPOINTMENT_BOOKED}
-        </Pill>
-        <Pill value="SAMPLING" count={data?.counts?.SAMPLING ?? 0}>
-          {STAGE_LABELS.SAMPLING}
-        </Pill>
-        <Pill value="CUSTOMER" count={data?.counts?.CUSTOMER ?? 0}>
-          {STAGE_LABELS.CUSTOMER}
-        </Pill>
+        {PILLS.map((p) => (
+          <Pill key={p} value={p} count={data?.counts?.[p] ?? 0}>
+            {STAGE_LABELS[p]}
+          </Pill>
+        ))}
         <Pill value="" count={data?.counts?.total ?? 0}>Total</Pill>
       </div>
 
@@ -175,7 +162,7 @@ export default function PipelineTile() {
                 <span className="small muted">{new Date(r.createdAt).toLocaleDateString("en-GB")}</span>
               </div>
               <div className="small muted">{r.customerName || "—"}{r.salesRep ? " - " + r.salesRep : ""}</div>
-              <div className="small" style={{ marginTop: 4, fontWeight: 600 }}>{STAGE_LABELS[r.stage]}</div>
+              <div className="small" style={{ marginTop: 4, fontWeight: 600 }}>{stageText(r)}</div>
             </div>
           </Link>
         ))}
@@ -217,7 +204,7 @@ export default function PipelineTile() {
                     </Link>
                   </td>
                   <td className="small">{r.customerName || "—"}</td>
-                  <td className="small">{STAGE_LABELS[r.stage]}</td>
+                  <td className="small">{stageText(r)}</td>
                   <td className="small">{r.salesRep || "—"}</td>
                   <td className="small">
                     {new Date(r.createdAt).toLocaleDateString("en-GB")}
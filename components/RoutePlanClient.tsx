@@ -16,6 +16,8 @@ type Customer = {
   county: string | null;
   postCode: string | null;
   country: string | null;
+  latitude: number | null;
+  longitude: number | null;
   customerNumber: string | null;
   customerEmailAddress: string | null;
   salesRep: string | null;
@@ -252,12 +254,14 @@ export default function RoutePlanClient({ reps }: { reps: Rep[] }) {
   }
 
   async function reorderByFurthestFromMe(addrs: string[]): Promise<string[]> {
+    let lat: number | null = null;
+    let lng: number | null = null;
     try {
       const pos = await getPosition();
-      const lat = pos.coords.latitude;
-      const lng = pos.coords.longitude;
+      lat = pos.coords.latitude;
+      lng = pos.coords.longitude;
 
-      if (!apiKey) return postcodeHeuristicFurthest(addrs);
+      if (!apiKey) return straightLineFurthest(addrs, lat, lng);
 
       const destinations = addrs.map(encodeURIComponent).join("|");
       const url = `https://maps.googleapis.com/maps/api/distancematrix/json?origins=${lat},${lng}&destinations=${destinations}&mode=driving&key=${apiKey}`;
@@ -279,10 +283,29 @@ export default function RoutePlanClient({ reps }: { reps: Rep[] }) {
       paired.sort((a, b) => b.metric - a.metric); // DESC
       return paired.map((p) => p.addr);
     } catch {
-      return postcodeHeuristicFurthest(addrs);
+      return lat != null && lng != null
+        ? straightLineFurthest(addrs, lat, lng)
+        : postcodeHeuristicFurthest(addrs);
     }
   }
 
+  // Without driving times: straight-line distance to each customer's geocoded position;
+  // stops with no position go last, in postcode order
+  function straightLineFurthest(addrs: string[], lat: number, lng: number): string[] {
+    const byAddr = new Map(rows.map((r) => [geocodeAddress(r), r]));
+    const km = (addr: string) => {
+      const r = byAddr.get(addr);
+      if (r?.latitude == null || r?.longitude == null) return -1;
+      const rad = (d: number) => (d * Math.PI) / 180;
+      const h =
+        Math.sin(rad(r.latitude - lat) / 2) ** 2 +
+        Math.cos(rad(lat)) * Math.cos(rad(r.latitude)) * Math.sin(rad(r.longitude - lng) / 2) ** 2;
+      return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+    };
+    const placed = addrs.filter((a) => km(a) >= 0).sort((a, b) => km(b) - km(a));
+    return [...placed, ...postcodeHeuristicFurthest(addrs.filter((a) => km(a) < 0))];
+  }
+
   function postcodeHeuristicFurthest(addrs: string[]): string[] {
     const token = (s: string) =>
       (s.match(/[A-Z]{1,2}\d{1,2}\s*\d[A-Z]{2}$/i) || [""])[0].toUpperCase();
@@ -120,6 +120,11 @@ export default function SettingsMenu() {
               <SectionLabel label="Admin" />
               <MenuItem href="/settings?tab=admin" emoji="🔐" label="User Permissions" desc="Roles and feature access" />
               <MenuItem href="/settings?tab=tools" emoji="🔧" label="Admin Tools" desc="Bulk operations and data tools" />
+              <MenuItem href="/settings/custom-fields" emoji="🗂️" label="Custom Fields" desc="Extra fields on every customer" />
+              <MenuItem href="/settings/global/pipeline" emoji="📋" label="Call Outcomes & Types" desc="Call form options and the stage each outcome sets" />
+              <MenuItem href="/settings/audit" emoji="📜" label="Audit Log" desc="Who changed what, and when" />
+              <MenuItem href="/settings/diagnostics" emoji="🩺" label="Diagnostics" desc="Integration checks and lookups (logged)" />
+              <MenuItem href="/settings/api-keys" emoji="🔑" label="API Keys" desc="Scoped keys for backfills, cron and report pulls" />
             </>
           )}
 
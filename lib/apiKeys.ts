@@ -0,0 +1,109 @@
+// lib/apiKeys.ts
+// Scoped API keys for machine callers (backfills, cron, report pulls). Keys look like
+// "sbp_<prefix>_<secret>": the prefix finds the row, the secret is checked against a
+// sha256 hash (it's 32 random bytes, so a slow hash buys nothing).
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requestMeta, requireAccess } from "@/lib/auth";
+import { isApiKeyScope, type ApiKeyScope } from "@/lib/permissions";
+
+export const API_KEY_MARK = "sbp_";
+
+// lastUsedAt is bumped at most this often per key
+const TOUCH_EVERY_MS = 60_000;
+
+export type ApiKeyIdentity = { id: string; name: string; scopes: ApiKeyScope[] };
+
+function hashSecret(secret: string) {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+function parseKey(raw: string) {
+  const m = /^sbp_([a-f0-9]{12})_([A-Za-z0-9_-]{32,})$/.exec(String(raw || "").trim());
+  return m ? { prefix: m[1], secret: m[2] } : null;
+}
+
+/** The raw key from `Authorization: Bearer sbp_…`, if the request carries one. */
+export function bearerApiKey(req: Request) {
+  const auth = req.headers.get("authorization") || "";
+  const m = /^Bearer\s+(\S+)$/i.exec(auth);
+  return m && m[1].startsWith(API_KEY_MARK) ? m[1] : null;
+}
+
+/** Create a key. The full key is only ever returned here. */
+export async function createApiKey(input: {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date | null;
+  createdById?: string | null;
+}) {
+  const prefix = crypto.randomBytes(6).toString("hex");
+  const secret = crypto.randomBytes(32).toString("base64url");
+  const row = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      prefix,
+      secretHash: hashSecret(secret),
+      scopes: input.scopes,
+      expiresAt: input.expiresAt ?? null,
+      createdById: input.createdById ?? null,
+    },
+    select: { id: true, name: true, prefix: true, scopes: true, expiresAt: true, createdAt: true },
+  });
+  return { key: `${API_KEY_MARK}${prefix}_${secret}`, apiKey: row };
+}
+
+/** The live key row for a raw key, or null if malformed, unknown, revoked, expired or the secret is wrong. */
+async function liveKey(raw: string) {
+  const parsed = parseKey(raw);
+  if (!parsed) return null;
+
+  const row = await prisma.apiKey.findUnique({ where: { prefix: parsed.prefix } });
+  if (!row || row.revokedAt) return null;
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) return null;
+
+  const expected = Buffer.from(row.secretHash, "hex");
+  const got = Buffer.from(hashSecret(parsed.secret), "hex");
+  if (expected.length !== got.length || !crypto.timingSafeEqual(expected, got)) return null;
+  return row;
+}
+
+/** Whether a raw key is live, without recording a use (data scoping, see lib/scope.ts). */
+export async function isLiveApiKey(raw: string) {
+  return !!(await liveKey(raw));
+}
+
+/** Check a raw key: null if malformed, unknown, revoked, expired or the secret is wrong. */
+export async function verifyApiKey(raw: string, ip?: string | null): Promise<ApiKeyIdentity | null> {
+  const row = await liveKey(raw);
+  if (!row) return null;
+
+  if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > TOUCH_EVERY_MS) {
+    await prisma.apiKey
+      .update({ where: { id: row.id }, data: { lastUsedAt: new Date(), lastUsedIp: ip ?? null } })
+      .catch(() => {});
+  }
+  return { id: row.id, name: row.name, scopes: row.scopes.filter(isApiKeyScope) };
+}
+
+/**
+ * Route guard for endpoints machines call: an API key holding `scope`, or failing
+ * that a signed-in user with `fallback` access (ADMIN by default).
+ * Returns a 401/403 response, or null when the caller may proceed.
+ */
+export async function requireApiScope(
+  req: Request,
+  scope: ApiKeyScope,
+  fallback: Parameters<typeof requireAccess>[0] = "ADMIN"
+): Promise<NextResponse | null> {
+  const raw = bearerApiKey(req);
+  if (!raw) return requireAccess(fallback);
+
+  const key = await verifyApiKey(raw, requestMeta(req).ip);
+  if (!key) return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+  if (!key.scopes.includes(scope)) {
+    return NextResponse.json({ error: `API key lacks scope ${scope}` }, { status: 403 });
+  }
+  return null;
+}
@@ -0,0 +1,115 @@
+// lib/audit.ts
+import { prisma, unscopedPrisma } from "@/lib/prisma";
+import type { Prisma } from "@prisma/client";
+import { currentActor } from "@/lib/auditTrail";
+
+/**
+ * Append an AuditLog row. Never throws: a failed audit write is logged but must not
+ * break the action being audited. `userId` defaults to the signed-in user; pass
+ * null for system events. Rows written while an admin impersonates someone also
+ * record the admin.
+ */
+export async function writeAudit(entry: {
+  userId?: string | null;
+  action: string;
+  entityType?: string;
+  entityId?: string | null;
+  details?: Prisma.InputJsonValue;
+}) {
+  try {
+    const actor = await currentActor(unscopedPrisma);
+    const userId = entry.userId === undefined ? actor?.userId ?? null : entry.userId;
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        // not when the admin is the one named (ending an impersonation)
+        impersonatorId: actor?.impersonatorId && actor.impersonatorId !== userId ? actor.impersonatorId : null,
+        action: entry.action,
+        entityType: entry.entityType ?? null,
+        entityId: entry.entityId ?? null,
+        details: entry.details ?? undefined,
+      },
+    });
+  } catch (e) {
+    console.error("[audit] write failed:", entry.action, e);
+  }
+}
+
+/** One summary row per admin backfill run (row-level diffs come from the audit trail). */
+export function auditBackfill(name: string, summary: Prisma.InputJsonObject) {
+  return writeAudit({ action: "backfill.run", entityType: "Backfill", entityId: name, details: summary });
+}
+
+/** Stripe payment link created for a customer (shown in the customer's history). */
+export function auditPaymentLink(
+  customerId: string | null | undefined,
+  link: { id: string; url: string },
+  info: { amountPence: number; draftOrderId?: string | number | null; via: string; sentTo?: string }
+) {
+  return writeAudit({
+    action: "payment_link.create",
+    entityType: "Customer",
+    entityId: customerId || null,
+    details: {
+      customerId: customerId || null,
+      paymentLinkId: link.id,
+      url: link.url,
+      amount: info.amountPence / 100,
+      draftOrderId: info.draftOrderId == null ? null : String(info.draftOrderId),
+      via: info.via,
+      ...(info.sentTo ? { sentTo: info.sentTo } : {}),
+    },
+  });
+}
+
+/**
+ * Stripe payment link paid (from the Stripe webhook). Filed under the customer the
+ * link was created for; links created outside the CRM are skipped.
+ */
+export async function auditPaymentLinkPaid(paymentLinkId: string, paid: { amountPence: number | null; currency?: string | null; sessionId: string }) {
+  const created = await prisma.auditLog
+    .findFirst({
+      where: { action: "payment_link.create", details: { path: ["paymentLinkId"], equals: paymentLinkId } },
+      select: { entityId: true, details: true },
+    })
+    .catch(() => null);
+  if (!created?.entityId) return;
+  // Stripe retries webhooks
+  const seen = await prisma.auditLog
+    .count({ where: { action: "payment_link.paid", details: { path: ["checkoutSessionId"], equals: paid.sessionId } } })
+    .catch(() => 0);
+  if (seen) return;
+  const link = created.details as Prisma.JsonObject;
+  return writeAudit({
+    userId: null,
+    action: "payment_link.paid",
+    entityType: "Customer",
+    entityId: created.entityId,
+    details: {
+      customerId: created.entityId,
+      paymentLinkId,
+      amount: paid.amountPence == null ? link.amount ?? null : paid.amountPence / 100,
+      currency: paid.currency?.toUpperCase() ?? null,
+      draftOrderId: link.draftOrderId ?? null,
+      checkoutSessionId: paid.sessionId,
+    },
+  });
+}
+
+/** Audit rows about one customer: its own edits plus calls, refunds and links tied to it. */
+export function customerHistory(customerId: string, take = 100) {
+  return prisma.auditLog.findMany({
+    where: {
+      OR: [
+        { entityType: "Customer", entityId: customerId },
+        { details: { path: ["customerId"], equals: customerId } },
+      ],
+    },
+    orderBy: { createdAt: "desc" },
+    take,
+    include: {
+      user: { select: { id: true, fullName: true, email: true } },
+      impersonator: { select: { id: true, fullName: true, email: true } },
+    },
+  });
+}
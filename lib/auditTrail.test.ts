@@ -0,0 +1,171 @@
+// lib/auditTrail.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const req = vi.hoisted(() => ({ cookie: undefined as string | undefined }));
+
+vi.mock("next/headers", () => ({
+  cookies: () => ({ get: () => (req.cookie ? { value: req.cookie } : undefined) }),
+}));
+// session tokens here are just "<userId>:<sid>"
+vi.mock("@/lib/session", () => ({
+  SESSION_COOKIE: "sbp_session",
+  verifySessionToken: (t?: string | null) => {
+    const [userId, sid] = (t ?? "").split(":");
+    return userId ? { userId, sid, exp: Infinity } : null;
+  },
+}));
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { auditExtension, diffRecords, withDeferredTrail } from "@/lib/auditTrail";
+import { writeAudit } from "@/lib/audit";
+
+const audited = () => fakeDb.client.$extends(auditExtension(fakeDb.client));
+
+beforeEach(() => {
+  req.cookie = undefined;
+  fakeDb.reset({
+    session: [
+      { id: "own", userId: "amy", impersonatorId: null },
+      { id: "as-amy", userId: "amy", impersonatorId: "admin" },
+    ],
+    customer: [
+      { id: "c1", salonName: "Old name", salesRep: "Amy" },
+      { id: "c2", salonName: "Other", salesRep: "Amy" },
+    ],
+  });
+});
+
+describe("audit trail actor", () => {
+  it("records the signed-in user on their own edits", async () => {
+    req.cookie = "amy:own";
+    await audited().customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+
+    expect(fakeDb.rows("auditLog")).toMatchObject([{ userId: "amy", impersonatorId: null, action: "customer.update" }]);
+  });
+
+  it("records the admin behind an impersonated edit", async () => {
+    req.cookie = "amy:as-amy";
+    await audited().customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+
+    expect(fakeDb.rows("auditLog")).toMatchObject([{ userId: "amy", impersonatorId: "admin" }]);
+  });
+
+  it("records the admin on manual entries too", async () => {
+    req.cookie = "amy:as-amy";
+    await writeAudit({ action: "customer.export" });
+    // ending the impersonation is filed under the admin alone
+    await writeAudit({ userId: "admin", action: "impersonation.stop" });
+
+    expect(fakeDb.rows("auditLog")).toMatchObject([
+      { userId: "amy", impersonatorId: "admin", action: "customer.export" },
+      { userId: "admin", impersonatorId: null, action: "impersonation.stop" },
+    ]);
+  });
+
+  it("doesn't audit writes without a signed-in user", async () => {
+    await audited().customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+
+    expect(fakeDb.rows("auditLog")).toEqual([]);
+  });
+});
+
+describe("audit trail diffs", () => {
+  beforeEach(() => {
+    req.cookie = "amy:own";
+  });
+
+  it("records only the fields that changed", async () => {
+    await audited().customer.update({ where: { id: "c1" }, data: { salonName: "New name", salesRep: "Amy" } });
+
+    expect(fakeDb.rows("auditLog")[0]).toMatchObject({
+      entityType: "Customer",
+      entityId: "c1",
+      details: { changes: { salonName: { from: "Old name", to: "New name" } } },
+    });
+    expect(Object.keys(fakeDb.rows("auditLog")[0].details.changes)).toEqual(["salonName"]);
+  });
+
+  it("writes nothing for an edit that changes nothing", async () => {
+    await audited().customer.update({ where: { id: "c1" }, data: { salonName: "Old name" } });
+
+    expect(fakeDb.rows("auditLog")).toEqual([]);
+  });
+
+  it("records creates and deletes against the whole row", async () => {
+    await audited().customer.create({ data: { id: "c3", salonName: "New salon" } });
+    await audited().customer.delete({ where: { id: "c1" } });
+
+    const [created, deleted] = fakeDb.rows("auditLog");
+    expect(created).toMatchObject({ action: "customer.create", entityId: "c3" });
+    expect(created.details.changes.salonName).toEqual({ from: null, to: "New salon" });
+    expect(deleted).toMatchObject({ action: "customer.delete", entityId: "c1" });
+    expect(deleted.details.changes.salonName).toEqual({ from: "Old name", to: null });
+  });
+
+  it("records bulk edits as one entry listing the ids", async () => {
+    await audited().customer.updateMany({ where: { salesRep: "Amy" }, data: { salesRep: "Bob" } });
+
+    expect(fakeDb.rows("auditLog")).toMatchObject([
+      { action: "customer.bulk_update", entityId: null, details: { count: 2, ids: ["c1", "c2"], set: { salesRep: "Bob" } } },
+    ]);
+  });
+
+  it("leaves calls' customer id on their entries", async () => {
+    fakeDb.rows("callLog").push({ id: "call1", customerId: "c1", outcome: "No answer" });
+    await audited().callLog.update({ where: { id: "call1" }, data: { outcome: "Ordered" } });
+
+    expect(fakeDb.rows("auditLog")[0].details).toMatchObject({ customerId: "c1", changes: { outcome: { from: "No answer", to: "Ordered" } } });
+  });
+
+  it("compares dates by value and ignores timestamps", () => {
+    const at = new Date("2026-01-01T00:00:00Z");
+    expect(diffRecords({ dueAt: at, updatedAt: at }, { dueAt: new Date(at), updatedAt: new Date() })).toEqual({});
+  });
+});
+
+describe("withDeferredTrail", () => {
+  const inTransaction = <R>(fn: (tx: any) => Promise<R>, db: any = fakeDb.client) =>
+    withDeferredTrail(db, (run: (tx: any) => Promise<R>) => audited().$transaction(run), fn);
+
+  beforeEach(() => {
+    req.cookie = "amy:own";
+  });
+
+  it("writes the transaction's entries once it commits", async () => {
+    await inTransaction(async (tx) => {
+      await tx.customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+      await tx.customer.delete({ where: { id: "c2" } });
+      expect(fakeDb.rows("auditLog")).toEqual([]);
+    });
+
+    expect(fakeDb.rows("auditLog").map((e) => e.action)).toEqual(["customer.update", "customer.delete"]);
+  });
+
+  it("writes nothing when the transaction fails", async () => {
+    await expect(
+      inTransaction(async (tx) => {
+        await tx.customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+        throw new Error("rolled back");
+      })
+    ).rejects.toThrow("rolled back");
+
+    expect(fakeDb.rows("auditLog")).toEqual([]);
+  });
+
+  it("doesn't fail the transaction when the trail can't be written", async () => {
+    const down = new Proxy(fakeDb.client, {
+      get: (db, key) => (key === "auditLog" ? { createMany: async () => Promise.reject(new Error("db down")) } : db[key]),
+    });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await inTransaction(async (tx) => {
+      await tx.customer.update({ where: { id: "c1" }, data: { salonName: "New name" } });
+      return "done";
+    }, down);
+
+    expect(result).toBe("done");
+    expect(error).toHaveBeenCalledWith("[audit] trail write failed:", "customer.update", expect.any(Error));
+    error.mockRestore();
+  });
+});
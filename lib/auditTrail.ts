@@ -0,0 +1,195 @@
+// lib/auditTrail.ts
+// Automatic before/after AuditLog entries for edits to customers, calls, targets and tasks.
+// Applied to the shared Prisma client and to systemPrisma (see lib/prisma.ts), so
+// every route, server action, webhook and backfill that writes these models is covered.
+// Interactive transactions that edit them use auditedTransaction (lib/prisma.ts).
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { cookies } from "next/headers";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+type AuditedModel = { entity: string; prefix: string; ops: Set<string> };
+
+const BULK = ["updateMany", "deleteMany"];
+
+/**
+ * What gets recorded per model. Call creation is routine and left out. Bulk writes
+ * are one entry per call listing the affected ids.
+ */
+const AUDITED: Record<string, AuditedModel> = {
+  Customer: { entity: "Customer", prefix: "customer", ops: new Set(["create", "update", "upsert", "delete", ...BULK]) },
+  CallLog: { entity: "CallLog", prefix: "call", ops: new Set(["update", "upsert", "delete", ...BULK]) },
+  Target: { entity: "Target", prefix: "target", ops: new Set(["create", "update", "upsert", "delete", ...BULK]) },
+  Task: { entity: "Task", prefix: "task", ops: new Set(["update", "delete", ...BULK]) },
+};
+
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+function sessionPayload() {
+  try {
+    return verifySessionToken(cookies().get(SESSION_COOKIE)?.value);
+  } catch {
+    return null;
+  }
+}
+
+/** Signed-in user behind the current request, or null (webhooks, cron, scripts). */
+export function currentActorId(): string | null {
+  return sessionPayload()?.userId ?? null;
+}
+
+export type Actor = { userId: string; impersonatorId: string | null };
+
+// A session's impersonator is fixed when it is created, so cache it per session id
+const impersonators = new Map<string, string | null>();
+
+/**
+ * Signed-in user plus the admin impersonating them, if any (null outside a signed-in
+ * request). Audit entries record both so impersonated edits trace back to the admin.
+ */
+export async function currentActor(db: PrismaClient): Promise<Actor | null> {
+  const payload = sessionPayload();
+  if (!payload) return null;
+  const sid = payload.sid;
+  if (!sid) return { userId: payload.userId, impersonatorId: null };
+  if (!impersonators.has(sid)) {
+    const s = await db.session.findUnique({ where: { id: sid }, select: { impersonatorId: true } }).catch(() => null);
+    if (!s) return { userId: payload.userId, impersonatorId: null };
+    if (impersonators.size > 500) impersonators.clear();
+    impersonators.set(sid, s.impersonatorId);
+  }
+  return { userId: payload.userId, impersonatorId: impersonators.get(sid) ?? null };
+}
+
+function plain(v: any): any {
+  if (v == null) return null;
+  if (v instanceof Date) return v.toISOString();
+  if (Prisma.Decimal.isDecimal(v)) return v.toString();
+  return v;
+}
+
+export type FieldChange = { from: any; to: any };
+
+/** Scalar fields that differ between two rows, as { field: { from, to } }. */
+export function diffRecords(before: Record<string, any> | null, after: Record<string, any> | null) {
+  const changes: Record<string, FieldChange> = {};
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const k of keys) {
+    if (IGNORED_FIELDS.has(k)) continue;
+    const from = plain(before?.[k]);
+    const to = plain(after?.[k]);
+    if (JSON.stringify(from) !== JSON.stringify(to)) changes[k] = { from, to };
+  }
+  return changes;
+}
+
+type TrailEntry = Prisma.AuditLogCreateManyInput;
+
+/** The reads the trail needs on an audited model (its before/after snapshots). */
+type SnapshotDelegate = {
+  findUnique(args: { where: object }): Promise<Record<string, any> | null>;
+  findMany(args: { where?: object; select: { id: true } }): Promise<{ id: string }[]>;
+};
+
+const delegate = (db: object, model: string) =>
+  (db as Record<string, SnapshotDelegate>)[model.charAt(0).toLowerCase() + model.slice(1)];
+
+/** Interactive transaction in flight (see withDeferredTrail) and the entries it has made. */
+const pendingTrail = new AsyncLocalStorage<{ tx: object; entries: TrailEntry[] }>();
+
+async function writeTrail(db: PrismaClient, entries: TrailEntry[]) {
+  if (!entries.length) return;
+  try {
+    await db.auditLog.createMany({ data: entries });
+  } catch (e) {
+    console.error("[audit] trail write failed:", entries.map((e) => e.action).join(", "), e);
+  }
+}
+
+/**
+ * Run `fn` in the interactive transaction `transaction` opens, holding its trail
+ * entries back until it commits. Snapshots are read through the transaction so they
+ * see its own writes; the entries are written afterwards with `db`, so a failed
+ * insert can't abort the caller's transaction and rolled-back edits leave no trail.
+ */
+export async function withDeferredTrail<Tx extends object, R>(
+  db: PrismaClient,
+  transaction: (run: (tx: Tx) => Promise<R>) => Promise<R>,
+  fn: (tx: Tx) => Promise<R>
+): Promise<R> {
+  const entries: TrailEntry[] = [];
+  const result = await transaction((tx) => pendingTrail.run({ tx, entries }, () => fn(tx)));
+  await writeTrail(db, entries);
+  return result;
+}
+
+/** Prisma client extension that records who changed what on audited models. */
+export function auditExtension(db: PrismaClient) {
+  return Prisma.defineExtension({
+    name: "auditTrail",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          const cfg = AUDITED[model];
+          if (!cfg || !cfg.ops.has(operation)) return query(args);
+
+          // System writes (Shopify sync, cron) have no actor and aren't audited
+          const actor = await currentActor(db);
+          if (!actor) return query(args);
+
+          const pending = pendingTrail.getStore();
+          const table = delegate(pending?.tx ?? db, model);
+          const a = (args ?? {}) as { where?: object; data?: Record<string, unknown> };
+          const where = a.where;
+
+          const record = async (action: string, entityId: string | null, details: Prisma.InputJsonObject) => {
+            const entry: TrailEntry = {
+              userId: actor.userId,
+              impersonatorId: actor.impersonatorId,
+              action: `${cfg.prefix}.${action}`,
+              entityType: cfg.entity,
+              entityId,
+              details,
+            };
+            if (pending) pending.entries.push(entry);
+            else await writeTrail(db, [entry]);
+          };
+
+          if (BULK.includes(operation)) {
+            const ids = (await table.findMany({ where, select: { id: true } })).map((r) => r.id);
+            const result = await query(args);
+            const count = (result as { count?: number } | null)?.count;
+            if (!ids.length || !count) return result;
+            const data = a.data ?? {};
+            await record(operation === "deleteMany" ? "bulk_delete" : "bulk_update", null, {
+              count,
+              ids,
+              ...(operation === "updateMany"
+                ? { set: Object.fromEntries(Object.entries(data).map(([k, v]) => [k, plain(v)])) }
+                : {}),
+            });
+            return result;
+          }
+
+          const before = where ? await table.findUnique({ where }).catch(() => null) : null;
+
+          const result = await query(args);
+
+          const id: string | undefined = before?.id ?? (result as { id?: string } | null)?.id;
+          const after =
+            operation === "delete" || !id ? null : await table.findUnique({ where: { id } }).catch(() => null);
+          const changes = diffRecords(before, after);
+          if (!Object.keys(changes).length) return result;
+
+          const verb = operation === "delete" ? "delete" : before ? "update" : "create";
+          const row = after ?? before;
+          await record(verb, id ?? null, {
+            changes,
+            ...(row?.customerId ? { customerId: row.customerId } : {}),
+          });
+          return result;
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,23 @@
+// lib/auth.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => ({ prisma: {} }));
+
+import { clientIp } from "@/lib/auth";
+
+const req = (headers: Record<string, string>) => new Request("http://localhost/api/auth/login", { headers });
+
+describe("clientIp", () => {
+  it("prefers x-real-ip", () => {
+    expect(clientIp(req({ "x-real-ip": "203.0.113.7", "x-forwarded-for": "1.2.3.4, 203.0.113.7" }))).toBe("203.0.113.7");
+  });
+
+  it("ignores client-supplied x-forwarded-for entries and takes the proxy's hop", () => {
+    expect(clientIp(req({ "x-forwarded-for": "1.2.3.4, 198.51.100.9" }))).toBe("198.51.100.9");
+    expect(clientIp(req({ "x-forwarded-for": "198.51.100.9" }))).toBe("198.51.100.9");
+  });
+
+  it("is null without either header", () => {
+    expect(clientIp(req({}))).toBeNull();
+  });
+});
@@ -1,65 +1,150 @@
 // lib/auth.ts
 import { prisma } from "@/lib/prisma";
-import { headers as nextHeaders, cookies as nextCookies } from "next/headers";
+import { cookies as nextCookies } from "next/headers";
 import type { User } from "@prisma/client";
-import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { resolvePermissions, hasAccess, type Access, type PermissionValue } from "@/lib/permissions";
+import { SESSION_COOKIE, signSessionPayload, verifySessionToken } from "@/lib/session";
 
 export type SafeUser = Pick<
   User,
   "id" | "fullName" | "email" | "phone" | "role" | "isActive" | "createdAt" | "updatedAt"
 >;
 
-const COOKIE_NAME = "sbp_session";
-const LEGACY_EMAIL_COOKIE = "sbp_email";
+const SAFE_USER_SELECT = {
+  id: true,
+  fullName: true,
+  email: true,
+  phone: true,
+  role: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
 
-type TokenPayload = { userId: string; exp: number };
+// ----- server-side sessions -----
+const IDLE_MS = (Number(process.env.SESSION_IDLE_HOURS) || 72) * 60 * 60 * 1000;
+const TOUCH_MS = 5 * 60 * 1000; // don't write lastSeenAt on every request
 
-// ----- token helpers (Node HMAC; middleware mirrors with WebCrypto) -----
-function sign(payloadB64: string) {
-  const secret = process.env.AUTH_SECRET || "dev-insecure-secret-change-me";
-  return crypto.createHmac("sha256", secret).update(payloadB64).digest("base64url");
+export type SessionMeta = {
+  userAgent?: string | null;
+  ip?: string | null;
+  /** Admin acting as this user (see /api/admin/impersonate) */
+  impersonatorId?: string | null;
+};
+
+/**
+ * Caller's address as the proxy in front of the app saw it: x-real-ip, else the last
+ * x-forwarded-for hop. Earlier hops are whatever the client sent, so they can't be
+ * trusted for login throttling.
+ */
+export function clientIp(req: Request): string | null {
+  const real = req.headers.get("x-real-ip")?.trim();
+  if (real) return real;
+  const hops = (req.headers.get("x-forwarded-for") || "").split(",").map((h) => h.trim()).filter(Boolean);
+  return hops[hops.length - 1] || null;
 }
 
-export function createSessionToken(userId: string, maxAgeSec = 60 * 60 * 24 * 30) {
-  const payload: TokenPayload = { userId, exp: Math.floor(Date.now() / 1000) + maxAgeSec };
-  const p = Buffer.from(JSON.stringify(payload)).toString("base64url");
-  const sig = sign(p);
-  return `${p}.${sig}`;
+/** Device details recorded against a new session (shown in the session list). */
+export function requestMeta(req: Request): SessionMeta {
+  return {
+    userAgent: req.headers.get("user-agent"),
+    ip: clientIp(req),
+  };
 }
 
-function verifySessionToken(token?: string | null): TokenPayload | null {
-  if (!token) return null;
-  const parts = token.split(".");
-  if (parts.length !== 2) return null;
-  const [p, sig] = parts;
-  const expected = sign(p);
-  if (sig !== expected) return null;
+/** Create a Session row and return the signed cookie value pointing at it. */
+export async function createSessionToken(
+  userId: string,
+  maxAgeSec = 60 * 60 * 24 * 30,
+  meta: SessionMeta = {}
+) {
+  const expiresAt = new Date(Date.now() + maxAgeSec * 1000);
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      expiresAt,
+      userAgent: meta.userAgent ? meta.userAgent.slice(0, 300) : null,
+      ip: meta.ip ?? null,
+      impersonatorId: meta.impersonatorId ?? null,
+    },
+    select: { id: true },
+  });
+  return signSessionPayload({ userId, sid: session.id, exp: Math.floor(expiresAt.getTime() / 1000) });
+}
+
+/**
+ * Check a cookie value against the Session table: signature, revocation, absolute
+ * and idle expiry, and that the user is still active. Rolls the idle window forward.
+ */
+export async function validateSession(
+  token?: string | null
+): Promise<{ sessionId: string; user: SafeUser; impersonatorId: string | null } | null> {
+  const payload = verifySessionToken(token);
+  if (!payload?.sid) return null;
+
+  const s = await prisma.session.findUnique({
+    where: { id: payload.sid },
+    select: {
+      id: true,
+      userId: true,
+      expiresAt: true,
+      lastSeenAt: true,
+      revokedAt: true,
+      impersonatorId: true,
+      user: { select: SAFE_USER_SELECT },
+    },
+  });
+  if (!s || s.revokedAt || s.userId !== payload.userId || !s.user.isActive) return null;
+
+  const now = Date.now();
+  if (s.expiresAt.getTime() <= now) return null;
+  if (s.lastSeenAt.getTime() + IDLE_MS <= now) return null;
 
+  if (now - s.lastSeenAt.getTime() > TOUCH_MS) {
+    await prisma.session
+      .update({ where: { id: s.id }, data: { lastSeenAt: new Date(now) } })
+      .catch(() => {});
+  }
+  return { sessionId: s.id, user: s.user, impersonatorId: s.impersonatorId };
+}
+
+/** Session behind the current request's cookie (null if missing/revoked/expired). */
+export async function getCurrentSession() {
   try {
-    const json = JSON.parse(Buffer.from(p, "base64url").toString()) as TokenPayload;
-    if (!json?.userId || typeof json.exp !== "number") return null;
-    if (json.exp < Math.floor(Date.now() / 1000)) return null;
-    return json;
+    return await validateSession(nextCookies().get(SESSION_COOKIE)?.value);
   } catch {
     return null;
   }
 }
 
+export async function revokeSession(sessionId: string, userId?: string) {
+  const res = await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null, ...(userId ? { userId } : {}) },
+    data: { revokedAt: new Date() },
+  });
+  return res.count;
+}
+
+/** "Log out everywhere": revoke every live session of a user (optionally keeping one). */
+export async function revokeAllSessions(userId: string, exceptSessionId?: string) {
+  const res = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return res.count;
+}
+
 // ----- user lookups -----
 export async function getUserByEmail(email: string): Promise<SafeUser | null> {
   if (!email) return null;
   return prisma.user.findUnique({
     where: { email: email.toLowerCase() },
-    select: {
-      id: true,
-      fullName: true,
-      email: true,
-      phone: true,
-      role: true,
-      isActive: true,
-      createdAt: true,
-      updatedAt: true,
-    },
+    select: SAFE_USER_SELECT,
   });
 }
 
@@ -67,49 +152,46 @@ export async function getUserById(id: string): Promise<SafeUser | null> {
   if (!id) return null;
   return prisma.user.findUnique({
     where: { id },
-    select: {
-      id: true,
-      fullName: true,
-      email: true,
-      phone: true,
-      role: true,
-      isActive: true,
-      createdAt: true,
-      updatedAt: true,
-    },
+    select: SAFE_USER_SELECT,
   });
 }
 
 /**
- * Current user helper (server-side):
- * 1) Prefer sbp_session HMAC token (matches middleware).
- * 2) Fallback to legacy x-user-email / sbp_email for previews.
+ * Current user helper (server-side): the sbp_session cookie, validated against the
+ * Session table. There is no header/email fallback — use impersonation instead.
  */
 export async function getCurrentUser(): Promise<SafeUser | null> {
-  try {
-    const hdrs = nextHeaders();
-    const cookies = nextCookies();
-
-    // 1) New signed session cookie
-    const token = cookies.get(COOKIE_NAME)?.value;
-    const payload = verifySessionToken(token);
-    if (payload?.userId) {
-      return getUserById(payload.userId);
-    }
-
-    // 2) Legacy preview/dev fallback
-    const emailFromHeader = hdrs.get("x-user-email") || hdrs.get("x-user");
-    const emailFromCookie = cookies.get(LEGACY_EMAIL_COOKIE)?.value || cookies.get("email")?.value;
-    const email = (emailFromHeader || emailFromCookie || "").trim().toLowerCase();
-    if (email) return getUserByEmail(email);
-
-    return null;
-  } catch {
-    return null;
-  }
+  const session = await getCurrentSession();
+  return session?.user ?? null;
 }
 
 /** Convenience guard */
 export function isAdmin(user: SafeUser | null | undefined): boolean {
   return !!user && user.isActive && user.role === "ADMIN";
 }
+
+// ----- permissions -----
+/** Role defaults merged with the user's UserPermission overrides (fresh from the DB). */
+export async function getUserPermissions(
+  userId: string
+): Promise<{ role: string | null; perms: PermissionValue[] }> {
+  const row = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true, isActive: true, overrides: { select: { perm: true } } },
+  });
+  if (!row || !row.isActive) return { role: null, perms: [] };
+  return { role: row.role, perms: resolvePermissions(row.role, row.overrides.map((o) => o.perm)) };
+}
+
+/** Route guard: returns a 401/403 response, or null when the current user has `access`. */
+export async function requireAccess(access: Access): Promise<NextResponse | null> {
+  const me = await getCurrentUser();
+  if (!me || !me.isActive) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const granted = await getUserPermissions(me.id);
+  if (!hasAccess(granted, access)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  return null;
+}
@@ -0,0 +1,150 @@
+// lib/authTokens.ts
+// Invite and password-reset links. The link carries a signed { tid, exp } payload;
+// the AuthToken row it names makes it single-use and revocable.
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import type { AuthTokenPurpose } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { revokeAllSessions } from "@/lib/auth";
+import { sendMail } from "@/lib/mailer";
+
+const TTL_SEC: Record<AuthTokenPurpose, number> = {
+  INVITE: 7 * 24 * 60 * 60, // 7 days
+  RESET: 60 * 60, // 1 hour
+};
+
+type LinkPayload = { tid: string; exp: number };
+
+// Separate key domain from session cookies so one can never stand in for the other
+function sign(payloadB64: string) {
+  const secret = process.env.AUTH_SECRET || "dev-insecure-secret-change-me";
+  return crypto.createHmac("sha256", `auth-link:${secret}`).update(payloadB64).digest("base64url");
+}
+
+function verify(token: string): LinkPayload | null {
+  const [p, sig] = String(token || "").split(".");
+  if (!p || !sig) return null;
+  const expected = Buffer.from(sign(p));
+  const got = Buffer.from(sig);
+  if (expected.length !== got.length || !crypto.timingSafeEqual(expected, got)) return null;
+  try {
+    const json = JSON.parse(Buffer.from(p, "base64url").toString()) as LinkPayload;
+    if (!json?.tid || typeof json.exp !== "number") return null;
+    if (json.exp < Math.floor(Date.now() / 1000)) return null;
+    return json;
+  } catch {
+    return null;
+  }
+}
+
+export class AuthLinkError extends Error {}
+
+/**
+ * Origin for emailed links: APP_URL only. The request's Host is client-controlled and
+ * /api/auth/forgot is public, so building links from it would let anyone mail a user
+ * a reset link pointing at their own host. Local development falls back to localhost.
+ */
+export function appOrigin() {
+  if (process.env.APP_URL) return process.env.APP_URL.replace(/\/$/, "");
+  if (process.env.NODE_ENV === "development") return "http://localhost:3000";
+  throw new AuthLinkError("APP_URL is not set, so invite and reset links can't be sent");
+}
+
+/** A bcrypt hash nobody knows the password for (invited users until they accept). */
+export function unusablePasswordHash() {
+  return bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10);
+}
+
+/** Issue a new link, cancelling any earlier unused one of the same purpose. */
+export async function issueAuthToken(userId: string, purpose: AuthTokenPurpose, createdById?: string | null) {
+  const now = new Date();
+  await prisma.authToken.updateMany({
+    where: { userId, purpose, usedAt: null },
+    data: { usedAt: now },
+  });
+
+  const expiresAt = new Date(now.getTime() + TTL_SEC[purpose] * 1000);
+  const row = await prisma.authToken.create({
+    data: { userId, purpose, expiresAt, createdById: createdById ?? null },
+    select: { id: true },
+  });
+
+  const p = Buffer.from(
+    JSON.stringify({ tid: row.id, exp: Math.floor(expiresAt.getTime() / 1000) } satisfies LinkPayload)
+  ).toString("base64url");
+  return { token: `${p}.${sign(p)}`, expiresAt };
+}
+
+/** The live token row + its user, or null if forged, expired, used or the user is inactive. */
+export async function readAuthToken(token: string) {
+  const payload = verify(token);
+  if (!payload) return null;
+  const row = await prisma.authToken.findUnique({
+    where: { id: payload.tid },
+    select: {
+      id: true,
+      purpose: true,
+      expiresAt: true,
+      usedAt: true,
+      user: { select: { id: true, email: true, fullName: true, isActive: true } },
+    },
+  });
+  if (!row || row.usedAt || row.expiresAt.getTime() <= Date.now() || !row.user.isActive) return null;
+  return row;
+}
+
+/**
+ * Set the user's password from a link. Marks the token used (atomically, so two
+ * submits can't both win) and signs the user out everywhere.
+ */
+export async function consumeAuthToken(token: string, newPassword: string) {
+  const row = await readAuthToken(token);
+  if (!row) return null;
+
+  const claimed = await prisma.authToken.updateMany({
+    where: { id: row.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (!claimed.count) return null;
+
+  const passwordHash = await bcrypt.hash(newPassword, 10);
+  // a fresh password from a mailed link also lifts any brute-force lock
+  await prisma.user.update({ where: { id: row.user.id }, data: { passwordHash, lockedUntil: null } });
+  await revokeAllSessions(row.user.id);
+  return row;
+}
+
+/* ---- emails ---- */
+
+export async function sendInviteEmail(
+  user: { email: string; fullName: string },
+  token: string,
+  origin: string
+) {
+  const url = `${origin}/reset/${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "You've been invited to SBP CRM",
+    text:
+      `Hi ${user.fullName || "there"},\n\n` +
+      `An account has been created for you on the Salon Brands Pro CRM.\n` +
+      `Choose your password here (the link works once and expires in 7 days):\n\n${url}\n`,
+  });
+}
+
+export async function sendResetEmail(
+  user: { email: string; fullName: string },
+  token: string,
+  origin: string
+) {
+  const url = `${origin}/reset/${token}`;
+  await sendMail({
+    to: user.email,
+    subject: "Reset your SBP CRM password",
+    text:
+      `Hi ${user.fullName || "there"},\n\n` +
+      `Someone asked to reset the password for your account. If it was you, choose a new one here ` +
+      `(the link works once and expires in 1 hour):\n\n${url}\n\n` +
+      `If you didn't ask for this, you can ignore this email.\n`,
+  });
+}
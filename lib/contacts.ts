@@ -0,0 +1,218 @@
+// lib/contacts.ts
+// Customer contacts (owner, manager, ordering contact…). The primary contact is
+// mirrored onto Customer.customerName/customerTelephone/customerEmailAddress, which
+// the Shopify sync and older screens still read, and customers created before
+// contacts existed get a primary contact built from those fields on first use.
+import type { ContactRole } from "@prisma/client";
+import { auditedTransaction, prisma, systemPrisma, type Tx } from "@/lib/prisma";
+import { indexCustomerSearch } from "@/lib/customerSearch";
+
+export const CONTACT_ROLES = ["OWNER", "MANAGER", "ORDERING", "OTHER"] as const;
+
+export const CONTACT_ROLE_LABELS: Record<ContactRole, string> = {
+  OWNER: "Owner",
+  MANAGER: "Manager",
+  ORDERING: "Ordering",
+  OTHER: "Other",
+};
+
+export class ContactError extends Error {}
+
+export const CONTACT_SELECT = {
+  id: true,
+  name: true,
+  role: true,
+  phone: true,
+  email: true,
+  isPrimary: true,
+  marketingConsent: true,
+  marketingConsentAt: true,
+} as const;
+
+const norm = (v: unknown) => {
+  if (v == null) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+};
+
+export function normalizeContactRole(v: unknown): ContactRole {
+  const s = String(v ?? "").trim().toUpperCase();
+  return (CONTACT_ROLES as readonly string[]).includes(s) ? (s as ContactRole) : "OTHER";
+}
+
+/** Validate a create/update body. Fields left out of `body` stay out of the result. */
+export function parseContactInput(body: any, partial: boolean) {
+  const out: {
+    name?: string;
+    role?: ContactRole;
+    phone?: string | null;
+    email?: string | null;
+    marketingConsent?: boolean;
+    isPrimary?: boolean;
+  } = {};
+  if (body?.name !== undefined || !partial) {
+    const name = norm(body?.name);
+    if (!name) throw new ContactError("Contact name is required");
+    out.name = name;
+  }
+  if (body?.role !== undefined || !partial) out.role = normalizeContactRole(body?.role);
+  if (body?.phone !== undefined || !partial) out.phone = norm(body?.phone);
+  if (body?.email !== undefined || !partial) {
+    const email = norm(body?.email)?.toLowerCase() ?? null;
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new ContactError(`"${email}" is not a valid email`);
+    out.email = email;
+  }
+  if (body?.marketingConsent !== undefined || !partial) out.marketingConsent = !!body?.marketingConsent;
+  if (body?.isPrimary !== undefined) out.isPrimary = !!body?.isPrimary;
+  return out;
+}
+
+/** Copy the primary contact onto the Customer row (customerName is required, so keep it when there is none). */
+async function mirrorPrimary(tx: Tx, customerId: string) {
+  const primary = await tx.contact.findFirst({ where: { customerId, isPrimary: true } });
+  if (!primary) return;
+  await tx.customer.update({
+    where: { id: customerId },
+    data: {
+      customerName: primary.name,
+      customerTelephone: primary.phone,
+      customerEmailAddress: primary.email,
+    },
+  });
+}
+
+/** Customers from before contacts existed: turn the legacy fields into a primary contact. */
+export async function ensureContacts(customerId: string) {
+  const count = await prisma.contact.count({ where: { customerId } });
+  if (count) return;
+  const c = await prisma.customer.findUnique({
+    where: { id: customerId },
+    select: { customerName: true, customerTelephone: true, customerEmailAddress: true },
+  });
+  if (!c?.customerName?.trim()) return;
+  await prisma.contact.create({
+    data: {
+      customerId,
+      name: c.customerName.trim(),
+      phone: c.customerTelephone,
+      email: c.customerEmailAddress,
+      isPrimary: true,
+    },
+  });
+}
+
+export async function listContacts(customerId: string) {
+  await ensureContacts(customerId);
+  return prisma.contact.findMany({
+    where: { customerId },
+    orderBy: [{ isPrimary: "desc" }, { role: "asc" }, { name: "asc" }],
+    select: CONTACT_SELECT,
+  });
+}
+
+export async function createContact(customerId: string, body: any) {
+  const input = parseContactInput(body, false);
+  await ensureContacts(customerId);
+  const created = await auditedTransaction(async (tx) => {
+    const hasPrimary = await tx.contact.count({ where: { customerId, isPrimary: true } });
+    const isPrimary = input.isPrimary || !hasPrimary;
+    if (isPrimary) await tx.contact.updateMany({ where: { customerId }, data: { isPrimary: false } });
+    const contact = await tx.contact.create({
+      data: {
+        customerId,
+        name: input.name!,
+        role: input.role!,
+        phone: input.phone ?? null,
+        email: input.email ?? null,
+        marketingConsent: !!input.marketingConsent,
+        marketingConsentAt: input.marketingConsent ? new Date() : null,
+        isPrimary,
+      },
+      select: CONTACT_SELECT,
+    });
+    if (isPrimary) await mirrorPrimary(tx, customerId);
+    return contact;
+  });
+  await indexCustomerSearch(customerId);
+  return created;
+}
+
+export async function updateContact(customerId: string, contactId: string, body: any) {
+  const input = parseContactInput(body, true);
+  const updated = await auditedTransaction(async (tx) => {
+    const existing = await tx.contact.findFirst({ where: { id: contactId, customerId } });
+    if (!existing) throw new ContactError("Contact not found");
+    if (input.isPrimary === false && existing.isPrimary) {
+      throw new ContactError("Make another contact primary instead");
+    }
+    if (input.isPrimary && !existing.isPrimary) {
+      await tx.contact.updateMany({ where: { customerId }, data: { isPrimary: false } });
+    }
+    const consentChanged = input.marketingConsent !== undefined && input.marketingConsent !== existing.marketingConsent;
+    const contact = await tx.contact.update({
+      where: { id: contactId },
+      data: { ...input, ...(consentChanged ? { marketingConsentAt: new Date() } : {}) },
+      select: CONTACT_SELECT,
+    });
+    if (contact.isPrimary) await mirrorPrimary(tx, customerId);
+    return contact;
+  });
+  await indexCustomerSearch(customerId);
+  return updated;
+}
+
+/** Deleting the primary promotes the next contact (if any). */
+export async function deleteContact(customerId: string, contactId: string) {
+  await auditedTransaction(async (tx) => {
+    const existing = await tx.contact.findFirst({ where: { id: contactId, customerId } });
+    if (!existing) throw new ContactError("Contact not found");
+    await tx.contact.delete({ where: { id: contactId } });
+    if (existing.isPrimary) {
+      const next = await tx.contact.findFirst({ where: { customerId }, orderBy: { createdAt: "asc" } });
+      if (next) {
+        await tx.contact.update({ where: { id: next.id }, data: { isPrimary: true } });
+        await mirrorPrimary(tx, customerId);
+      }
+    }
+  });
+  await indexCustomerSearch(customerId);
+}
+
+/**
+ * Customer form edits to name/phone/email land on the primary contact, so the two
+ * never drift apart. Creates the primary contact if there is none yet. Unscoped, as
+ * Shopify webhooks call it too.
+ */
+export async function syncPrimaryFromCustomer(customerId: string) {
+  const c = await systemPrisma.customer.findUnique({
+    where: { id: customerId },
+    select: { customerName: true, customerTelephone: true, customerEmailAddress: true },
+  });
+  if (!c?.customerName?.trim()) return;
+  const primary = await prisma.contact.findFirst({ where: { customerId, isPrimary: true }, select: { id: true } });
+  const data = { name: c.customerName.trim(), phone: c.customerTelephone, email: c.customerEmailAddress };
+  if (primary) await prisma.contact.update({ where: { id: primary.id }, data });
+  else await prisma.contact.create({ data: { customerId, ...data, isPrimary: true } });
+}
+
+/** A contact of this customer, or null when the id is blank or belongs elsewhere. */
+export async function contactOf(customerId: string | null | undefined, contactId: unknown) {
+  const id = norm(contactId);
+  if (!customerId || !id) return null;
+  return prisma.contact.findFirst({ where: { id, customerId }, select: CONTACT_SELECT });
+}
+
+/** Who gets order-related messages: the ordering contact with a phone, else the primary, else any. */
+export async function orderingContact(customerId: string) {
+  await ensureContacts(customerId);
+  const withPhone = await prisma.contact.findMany({
+    where: { customerId, phone: { not: null } },
+    select: CONTACT_SELECT,
+  });
+  return (
+    withPhone.find((c) => c.role === "ORDERING") ??
+    withPhone.find((c) => c.isPrimary) ??
+    withPhone[0] ??
+    null
+  );
+}
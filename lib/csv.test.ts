@@ -0,0 +1,22 @@
+// lib/csv.test.ts
+import { describe, expect, it } from "vitest";
+import { csvEscape, formatCsv, parseCsv } from "@/lib/csv";
+
+describe("csvEscape", () => {
+  it.each(["=HYPERLINK(\"http://x\")", "+441234567890", "-2+3", "@SUM(A1)", "\tcmd", "\rcmd"])(
+    "defuses formula-like text %j",
+    (v) => expect(parseCsv(csvEscape(v), ",")[0][0]).toBe(`'${v}`)
+  );
+
+  it("leaves numbers and ordinary text alone", () => {
+    expect(csvEscape(-12.5)).toBe("-12.5");
+    expect(csvEscape("Salon A")).toBe("Salon A");
+    expect(csvEscape('Say "hi", then')).toBe('"Say ""hi"", then"');
+    expect(csvEscape(null)).toBe("");
+  });
+
+  it("round-trips through formatCsv and parseCsv", () => {
+    const rows = [["Salon", "Spend"], ["=cmd|' /C calc'!A0", -3]];
+    expect(parseCsv(formatCsv(rows))).toEqual([["Salon", "Spend"], ["'=cmd|' /C calc'!A0", "-3"]]);
+  });
+});
@@ -0,0 +1,91 @@
+// lib/csv.ts
+// Small RFC 4180 CSV reader/writer: quoted fields, doubled quotes, CR/LF line ends and a
+// leading BOM (Excel's "CSV UTF-8"). No dependencies, so it runs anywhere.
+
+/** Comma, semicolon or tab — whichever appears most in the header line. */
+export function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const counts = [",", ";", "\t"].map((d) => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ",";
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  // drop blank lines
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/** First row as headers, the rest as records keyed by header. */
+export function parseCsvRecords(text: string) {
+  const [head = [], ...body] = parseCsv(text);
+  const headers = head.map((h) => h.trim());
+  const records = body.map((r) => {
+    const rec: Record<string, string> = {};
+    headers.forEach((h, i) => {
+      if (h) rec[h] = (r[i] ?? "").trim();
+    });
+    return rec;
+  });
+  return { headers: headers.filter(Boolean), records };
+}
+
+/* ---- writing ---- */
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * One CSV field. Text that would open as a formula (=, +, -, @, tab or CR first) gets a
+ * leading apostrophe so a customer name can't run in the reader's spreadsheet; numbers
+ * are left alone, so negative amounts stay numeric.
+ */
+export function csvEscape(v: unknown): string {
+  let raw = v == null ? "" : String(v);
+  if (typeof v === "string" && FORMULA_START.test(raw)) raw = `'${raw}`;
+  return /[",\r\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw;
+}
+
+/** Rows → CSV text with a BOM, so Excel opens it as UTF-8. */
+export function formatCsv(rows: unknown[][]): string {
+  return "\uFEFF" + rows.map((r) => r.map(csvEscape).join(",")).join("\r\n") + "\r\n";
+}
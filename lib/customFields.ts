@@ -0,0 +1,295 @@
+// lib/customFields.ts
+// Admin-defined customer fields (select, multi-select, number, date, yes/no). Admins
+// manage the definitions in /settings/custom-fields; each customer's values live in
+// CustomerFieldValue, one typed row per field, so the list filters in
+// lib/customerFilters.ts can query them by field key.
+import type { CustomFieldType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+import { CUSTOM_FIELD_KEY } from "@/lib/customerFilters";
+
+export const CUSTOM_FIELD_TYPES = ["SELECT", "MULTI_SELECT", "NUMBER", "DATE", "BOOLEAN"] as const;
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  SELECT: "Select",
+  MULTI_SELECT: "Multi-select",
+  NUMBER: "Number",
+  DATE: "Date",
+  BOOLEAN: "Yes / no",
+};
+
+export class CustomFieldError extends Error {}
+
+export const CUSTOM_FIELD_SELECT = {
+  id: true,
+  key: true,
+  label: true,
+  type: true,
+  options: true,
+  sortOrder: true,
+  active: true,
+} as const;
+
+export type CustomFieldDef = Prisma.CustomFieldGetPayload<{ select: typeof CUSTOM_FIELD_SELECT }>;
+
+/** A stored value as the UI sees it: options for selects, YYYY-MM-DD for dates. */
+export type CustomFieldValue = string[] | number | string | boolean | null;
+
+const norm = (v: unknown) => {
+  if (v == null) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+};
+
+/** "Chairs (total)" → "chairs_total" */
+export function slugifyFieldKey(label: string) {
+  const s = label.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[a-z]/.test(s) ? s : `f_${s}`;
+}
+
+function parseOptions(v: unknown): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === "string" ? v.split(/\r?\n/) : [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const o of raw) {
+    const s = norm(o);
+    if (!s || seen.has(s.toLowerCase())) continue;
+    if (s.includes(",")) throw new CustomFieldError(`Option "${s}" can't contain a comma`);
+    seen.add(s.toLowerCase());
+    out.push(s);
+  }
+  return out;
+}
+
+const hasOptions = (type: CustomFieldType) => type === "SELECT" || type === "MULTI_SELECT";
+
+/** Validate a definition create/update body. Fields left out of `body` stay out of the result. */
+export function parseCustomFieldInput(body: any, partial: boolean) {
+  const out: {
+    key?: string;
+    label?: string;
+    type?: CustomFieldType;
+    options?: string[];
+    sortOrder?: number;
+    active?: boolean;
+  } = {};
+  if (body?.label !== undefined || !partial) {
+    const label = norm(body?.label);
+    if (!label) throw new CustomFieldError("Field name is required");
+    out.label = label;
+  }
+  if (!partial) {
+    const type = String(body?.type ?? "").toUpperCase();
+    if (!(CUSTOM_FIELD_TYPES as readonly string[]).includes(type)) throw new CustomFieldError("Pick a field type");
+    out.type = type as CustomFieldType;
+    const key = norm(body?.key) ?? slugifyFieldKey(out.label!);
+    if (!CUSTOM_FIELD_KEY.test(key)) {
+      throw new CustomFieldError("Key must start with a letter and use only lowercase letters, digits and _");
+    }
+    out.key = key;
+  }
+  if (body?.options !== undefined || !partial) out.options = parseOptions(body?.options);
+  if (body?.sortOrder !== undefined) {
+    const n = Number(body.sortOrder);
+    if (!Number.isInteger(n)) throw new CustomFieldError("Sort order must be a whole number");
+    out.sortOrder = n;
+  }
+  if (body?.active !== undefined) out.active = !!body.active;
+  return out;
+}
+
+export function listCustomFields(opts: { includeInactive?: boolean } = {}) {
+  return prisma.customField.findMany({
+    where: opts.includeInactive ? {} : { active: true },
+    orderBy: [{ sortOrder: "asc" }, { label: "asc" }],
+    select: CUSTOM_FIELD_SELECT,
+  });
+}
+
+export async function createCustomField(body: any) {
+  const input = parseCustomFieldInput(body, false);
+  if (hasOptions(input.type!) && !input.options!.length) throw new CustomFieldError("Add at least one option");
+  if (!hasOptions(input.type!)) input.options = [];
+  if (await prisma.customField.findUnique({ where: { key: input.key! }, select: { id: true } })) {
+    throw new CustomFieldError(`A field with key "${input.key}" already exists`);
+  }
+  if (input.sortOrder === undefined) {
+    const last = await prisma.customField.aggregate({ _max: { sortOrder: true } });
+    input.sortOrder = (last._max.sortOrder ?? 0) + 10;
+  }
+  const field = await prisma.customField.create({
+    data: input as Prisma.CustomFieldCreateInput,
+    select: CUSTOM_FIELD_SELECT,
+  });
+  await writeAudit({ action: "custom_field.create", entityType: "CustomField", entityId: field.id, details: { field } });
+  return field;
+}
+
+/**
+ * Rename, reorder, retire or change a field's options. The key and type are fixed
+ * once created (saved views and stored values depend on them); options taken off a
+ * select are removed from customers that had them.
+ */
+export async function updateCustomField(id: string, body: any) {
+  const before = await prisma.customField.findUnique({ where: { id }, select: CUSTOM_FIELD_SELECT });
+  if (!before) return null;
+  const input = parseCustomFieldInput(body, true);
+  if (!hasOptions(before.type)) delete input.options;
+  else if (input.options && !input.options.length) throw new CustomFieldError("Add at least one option");
+
+  const removed = input.options ? before.options.filter((o) => !input.options!.includes(o)) : [];
+  const field = await prisma.$transaction(async (tx) => {
+    if (removed.length) {
+      const affected = await tx.customerFieldValue.findMany({
+        where: { fieldId: id, options: { hasSome: removed } },
+        select: { id: true, options: true },
+      });
+      for (const v of affected) {
+        const options = v.options.filter((o) => !removed.includes(o));
+        if (options.length) await tx.customerFieldValue.update({ where: { id: v.id }, data: { options } });
+        else await tx.customerFieldValue.delete({ where: { id: v.id } });
+      }
+    }
+    return tx.customField.update({ where: { id }, data: input, select: CUSTOM_FIELD_SELECT });
+  });
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const k of Object.keys(input) as (keyof typeof input)[]) {
+    if (JSON.stringify(before[k]) !== JSON.stringify(field[k])) changes[k] = { from: before[k], to: field[k] };
+  }
+  if (Object.keys(changes).length) {
+    await writeAudit({ action: "custom_field.update", entityType: "CustomField", entityId: id, details: { changes } });
+  }
+  return field;
+}
+
+/** Delete a field and every customer's value for it (retire it with active=false to keep them). */
+export async function deleteCustomField(id: string) {
+  const field = await prisma.customField.findUnique({ where: { id }, select: CUSTOM_FIELD_SELECT });
+  if (!field) return false;
+  const values = await prisma.customerFieldValue.count({ where: { fieldId: id } });
+  await prisma.customField.delete({ where: { id } });
+  await writeAudit({ action: "custom_field.delete", entityType: "CustomField", entityId: id, details: { field, values } });
+  return true;
+}
+
+/* ---- values ---- */
+
+type ValueRow = { options: string[]; number: number | null; date: Date | null; bool: boolean | null };
+
+function valueOf(type: CustomFieldType, row: ValueRow | undefined): CustomFieldValue {
+  if (!row) return null;
+  switch (type) {
+    case "SELECT":
+      return row.options[0] ?? null;
+    case "MULTI_SELECT":
+      return row.options;
+    case "NUMBER":
+      return row.number;
+    case "DATE":
+      return row.date ? row.date.toISOString().slice(0, 10) : null;
+    case "BOOLEAN":
+      return row.bool;
+  }
+}
+
+/** Display text for a value ("" when empty). */
+export function formatFieldValue(value: CustomFieldValue) {
+  if (value == null) return "";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T00:00:00Z`).toLocaleDateString("en-GB", { timeZone: "UTC" });
+  }
+  return String(value);
+}
+
+/** Active fields with this customer's values, in display order. */
+export async function customerFieldValues(customerId: string) {
+  const [fields, rows] = await Promise.all([
+    listCustomFields(),
+    prisma.customerFieldValue.findMany({
+      where: { customerId },
+      select: { fieldId: true, options: true, number: true, date: true, bool: true },
+    }),
+  ]);
+  const byField = new Map(rows.map((r) => [r.fieldId, r]));
+  return fields.map((f) => ({ ...f, value: valueOf(f.type, byField.get(f.id)) }));
+}
+
+/** Submitted value → the typed columns to store, or null to clear it. */
+function parseValue(field: CustomFieldDef, raw: unknown): ValueRow | null {
+  const empty = { options: [] as string[], number: null, date: null, bool: null };
+  if (raw == null || raw === "" || (Array.isArray(raw) && !raw.length)) return null;
+  switch (field.type) {
+    case "SELECT":
+    case "MULTI_SELECT": {
+      const picked = (Array.isArray(raw) ? raw : [raw]).map((v) => String(v).trim()).filter(Boolean);
+      const bad = picked.find((v) => !field.options.includes(v));
+      if (bad) throw new CustomFieldError(`"${bad}" isn't an option for ${field.label}`);
+      if (field.type === "SELECT" && picked.length > 1) throw new CustomFieldError(`${field.label} takes one option`);
+      const options = field.options.filter((o) => picked.includes(o));
+      return options.length ? { ...empty, options } : null;
+    }
+    case "NUMBER": {
+      const n = Number(raw);
+      if (!Number.isFinite(n)) throw new CustomFieldError(`${field.label} must be a number`);
+      return { ...empty, number: n };
+    }
+    case "DATE": {
+      const s = String(raw).trim();
+      const d = new Date(`${s}T00:00:00.000Z`);
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || Number.isNaN(d.getTime())) {
+        throw new CustomFieldError(`${field.label} must be a date (YYYY-MM-DD)`);
+      }
+      return { ...empty, date: d };
+    }
+    case "BOOLEAN": {
+      const s = String(raw).trim().toLowerCase();
+      if (["true", "yes", "1", "on"].includes(s)) return { ...empty, bool: true };
+      if (["false", "no", "0", "off"].includes(s)) return { ...empty, bool: false };
+      throw new CustomFieldError(`${field.label} must be yes or no`);
+    }
+  }
+}
+
+/**
+ * Set some of a customer's field values ({ key: value }; null or "" clears one).
+ * Keys not in `values` are left as they are. Audited as one entry with the fields
+ * that changed.
+ */
+export async function setCustomerFieldValues(customerId: string, values: Record<string, unknown>) {
+  if (!values || typeof values !== "object" || Array.isArray(values)) {
+    throw new CustomFieldError("Send values as { fieldKey: value }");
+  }
+  const fields = await listCustomFields();
+  const byKey = new Map(fields.map((f) => [f.key, f]));
+  const unknown = Object.keys(values).find((k) => !byKey.has(k));
+  if (unknown) throw new CustomFieldError(`Unknown field "${unknown}"`);
+
+  const parsed = Object.entries(values).map(([key, raw]) => ({ field: byKey.get(key)!, data: parseValue(byKey.get(key)!, raw) }));
+  const before = await customerFieldValues(customerId);
+
+  await prisma.$transaction(
+    parsed.map(({ field, data }) =>
+      data
+        ? prisma.customerFieldValue.upsert({
+            where: { customerId_fieldId: { customerId, fieldId: field.id } },
+            create: { customerId, fieldId: field.id, ...data },
+            update: data,
+          })
+        : prisma.customerFieldValue.deleteMany({ where: { customerId, fieldId: field.id } })
+    )
+  );
+
+  const after = await customerFieldValues(customerId);
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const f of after) {
+    const was = before.find((b) => b.id === f.id)?.value ?? null;
+    if (JSON.stringify(was) !== JSON.stringify(f.value)) changes[f.label] = { from: was, to: f.value };
+  }
+  if (Object.keys(changes).length) {
+    await writeAudit({ action: "customer.fields", entityType: "Customer", entityId: customerId, details: { changes } });
+  }
+  return after;
+}
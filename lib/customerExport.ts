@@ -0,0 +1,102 @@
+// lib/customerExport.ts
+// Customer list export (CSV/XLSX) for /customers and saved views. Runs on the
+// row-scoped client, so reps only ever export their own customers.
+import type { Customer } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { formatCsv } from "@/lib/csv";
+import { buildXlsx, type XlsxCell } from "@/lib/xlsx";
+import { customerWhere, EXPORT_COLUMNS, type CustomerFilters, type ExportColumn } from "@/lib/customerFilters";
+
+export const MAX_EXPORT_ROWS = 20000;
+
+export class ExportError extends Error {}
+
+const ORDER_STATS: ExportColumn[] = ["lastOrderAt", "orderCount", "totalSpend"];
+
+type OrderStats = { lastOrderAt: Date | null; orderCount: number; totalSpend: number };
+
+async function orderStats(customerIds: string[]) {
+  const out = new Map<string, OrderStats>();
+  // keep the IN list well under Postgres' bind-parameter limit
+  for (let i = 0; i < customerIds.length; i += 5000) {
+    const grouped = await prisma.order.groupBy({
+      by: ["customerId"],
+      where: { customerId: { in: customerIds.slice(i, i + 5000) } },
+      _max: { processedAt: true },
+      _count: { _all: true },
+      _sum: { total: true },
+    });
+    for (const g of grouped) {
+      if (!g.customerId) continue;
+      out.set(g.customerId, {
+        lastOrderAt: g._max.processedAt,
+        orderCount: g._count._all,
+        totalSpend: Number(g._sum.total ?? 0),
+      });
+    }
+  }
+  return out;
+}
+
+/** Header + rows for the selected columns. Dates stay Dates so XLSX can format them. */
+export async function customerExportRows(filters: CustomerFilters, columns: ExportColumn[]) {
+  const customers = await prisma.customer.findMany({
+    where: customerWhere(filters),
+    orderBy: { salonName: "asc" },
+    take: MAX_EXPORT_ROWS + 1,
+    include: { rep: { select: { name: true } } },
+  });
+  if (customers.length > MAX_EXPORT_ROWS) {
+    throw new ExportError(`More than ${MAX_EXPORT_ROWS} customers match; narrow the filters`);
+  }
+
+  const stats = columns.some((c) => ORDER_STATS.includes(c))
+    ? await orderStats(customers.map((c) => c.id))
+    : new Map<string, OrderStats>();
+
+  const header: XlsxCell[] = columns.map((k) => EXPORT_COLUMNS.find((c) => c.key === k)?.label ?? k);
+  const rows: XlsxCell[][] = customers.map((c) => {
+    const s = stats.get(c.id);
+    return columns.map((k): XlsxCell => {
+      switch (k) {
+        case "salesRep":
+          return c.rep?.name ?? c.salesRep ?? "";
+        case "paymentTerms":
+          return c.paymentDueLater ? c.paymentTermsName ?? "Due later" : "";
+        case "routePlanEnabled":
+          return c.routePlanEnabled ? "Yes" : "No";
+        case "routeWeeks":
+          return c.routeWeeks.join(", ");
+        case "routeDays":
+          return c.routeDays.join(", ");
+        case "tags":
+          return c.tags.join(", ");
+        case "shopifyTags":
+          return c.shopifyTags.join(", ");
+        case "lastOrderAt":
+          return s?.lastOrderAt ?? null;
+        case "orderCount":
+          return s?.orderCount ?? 0;
+        case "totalSpend":
+          return s ? Math.round(s.totalSpend * 100) / 100 : 0;
+        default: {
+          // the remaining columns are Customer fields as they are
+          const field: keyof Customer = k;
+          return c[field] ?? null;
+        }
+      }
+    });
+  });
+
+  return { header, rows };
+}
+
+const ymd = (d: Date) => (isNaN(d.getTime()) ? "" : d.toISOString().slice(0, 10));
+
+export function exportCsv(header: XlsxCell[], rows: XlsxCell[][]) {
+  return formatCsv([header, ...rows].map((r) => r.map((v) => (v instanceof Date ? ymd(v) : v))));
+}
+
+export function exportXlsx(header: XlsxCell[], rows: XlsxCell[][]) {
+  return buildXlsx([header, ...rows], "Customers");
+}
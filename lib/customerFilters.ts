@@ -0,0 +1,311 @@
+// lib/customerFilters.ts
+// Customer list filters, as used by /customers, saved views and the export. Pure
+// (no Prisma client), so the filter panel can share the query-string encoding.
+import type { Prisma } from "@prisma/client";
+import { ALL_STAGES } from "@/lib/pipeline";
+import { bandRange, isHealthBand, type HealthBand } from "@/lib/healthScore";
+
+export type CustomerFilters = {
+  q?: string;
+  stages?: string[];
+  repIds?: string[];
+  town?: string;
+  county?: string;
+  /** Postcode prefixes, e.g. ["M1", "SK"]. */
+  postcodes?: string[];
+  /** Brand (Shopify vendor) names the customer has ordered. */
+  brands?: string[];
+  /** Last order date range, YYYY-MM-DD. */
+  lastOrderFrom?: string;
+  lastOrderTo?: string;
+  neverOrdered?: boolean;
+  routePlan?: "yes" | "no";
+  routeDays?: string[];
+  routeWeeks?: number[];
+  /** Health score bands (lib/healthScore.ts). */
+  health?: HealthBand[];
+  /** CRM tags; matches customers with any of them. */
+  tags?: string[];
+  /** Custom field conditions (lib/customFields.ts), all of which must match. */
+  fields?: CustomFieldFilter[];
+};
+
+/**
+ * One custom field condition, by field key. `options` matches SELECT/MULTI_SELECT
+ * values (any of them); `min`/`max` bound a NUMBER, or a DATE when given as
+ * YYYY-MM-DD; `is` checks a BOOLEAN ("no" includes customers with no value).
+ */
+export type CustomFieldFilter = { key: string; options?: string[]; min?: string; max?: string; is?: "yes" | "no" };
+
+/** Custom field keys: lowercase slug, as made by lib/customFields.ts. */
+export const CUSTOM_FIELD_KEY = /^[a-z][a-z0-9_]*$/;
+
+export const ROUTE_DAYS = ["MONDAY", "TUESDAY", "WEDNESDAY", "THURSDAY", "FRIDAY"] as const;
+
+/** Columns the export can include, in default order. */
+export const EXPORT_COLUMNS = [
+  { key: "salonName", label: "Salon" },
+  { key: "customerName", label: "Contact" },
+  { key: "customerEmailAddress", label: "Email" },
+  { key: "customerTelephone", label: "Phone" },
+  { key: "addressLine1", label: "Address 1" },
+  { key: "addressLine2", label: "Address 2" },
+  { key: "town", label: "Town" },
+  { key: "county", label: "County" },
+  { key: "postCode", label: "Postcode" },
+  { key: "country", label: "Country" },
+  { key: "salesRep", label: "Sales rep" },
+  { key: "stage", label: "Stage" },
+  { key: "customerNumber", label: "Customer number" },
+  { key: "numberOfChairs", label: "Chairs" },
+  { key: "paymentTerms", label: "Payment terms" },
+  { key: "routePlanEnabled", label: "On route plan" },
+  { key: "routeWeeks", label: "Route weeks" },
+  { key: "routeDays", label: "Route days" },
+  { key: "lastOrderAt", label: "Last order" },
+  { key: "orderCount", label: "Orders" },
+  { key: "totalSpend", label: "Total spend" },
+  { key: "healthScore", label: "Health score" },
+  { key: "shopifyCustomerId", label: "Shopify ID" },
+  { key: "tags", label: "Tags" },
+  { key: "shopifyTags", label: "Shopify tags" },
+  { key: "createdAt", label: "Created" },
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number]["key"];
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "salonName",
+  "customerName",
+  "customerEmailAddress",
+  "customerTelephone",
+  "town",
+  "postCode",
+  "salesRep",
+  "stage",
+  "lastOrderAt",
+];
+
+export function isExportColumn(v: unknown): v is ExportColumn {
+  return EXPORT_COLUMNS.some((c) => c.key === v);
+}
+
+/* ---- query string ---- */
+
+const list = (sp: URLSearchParams, k: string) =>
+  sp.getAll(k).flatMap((v) => v.split(",")).map((v) => v.trim()).filter(Boolean);
+
+const ymdOrUndefined = (v: string | null) => (v && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : undefined);
+
+const isYmd = (v: string) => /^\d{4}-\d{2}-\d{2}$/.test(v);
+const rangeBound = (v: string | null) => {
+  const s = v?.trim();
+  return s && (isYmd(s) || Number.isFinite(Number(s))) ? s : undefined;
+};
+
+/** Custom field conditions from `cf.<key>=a,b`, `cf.<key>.min`, `cf.<key>.max` and `cf.<key>.is`. */
+function fieldFiltersFromParams(sp: URLSearchParams): CustomFieldFilter[] {
+  const keys = new Set<string>();
+  sp.forEach((_v, name) => {
+    const m = /^cf\.([^.]+)(?:\.(min|max|is))?$/.exec(name);
+    if (m && CUSTOM_FIELD_KEY.test(m[1])) keys.add(m[1]);
+  });
+  const out: CustomFieldFilter[] = [];
+  for (const key of keys) {
+    const c: CustomFieldFilter = { key };
+    const options = list(sp, `cf.${key}`);
+    if (options.length) c.options = options;
+    const min = rangeBound(sp.get(`cf.${key}.min`));
+    if (min) c.min = min;
+    const max = rangeBound(sp.get(`cf.${key}.max`));
+    if (max) c.max = max;
+    const is = sp.get(`cf.${key}.is`);
+    if (is === "yes" || is === "no") c.is = is;
+    if (c.options || c.min || c.max || c.is) out.push(c);
+  }
+  return out;
+}
+
+export function filtersFromParams(sp: URLSearchParams): CustomerFilters {
+  const f: CustomerFilters = {};
+  const q = sp.get("q")?.trim();
+  if (q) f.q = q;
+  const stages = list(sp, "stage").filter((s) => ALL_STAGES.some((st) => st.value === s));
+  if (stages.length) f.stages = stages;
+  if (list(sp, "rep").length) f.repIds = list(sp, "rep");
+  if (sp.get("town")?.trim()) f.town = sp.get("town")!.trim();
+  if (sp.get("county")?.trim()) f.county = sp.get("county")!.trim();
+  if (list(sp, "pc").length) f.postcodes = list(sp, "pc");
+  if (sp.getAll("brand").filter(Boolean).length) f.brands = sp.getAll("brand").filter(Boolean);
+  f.lastOrderFrom = ymdOrUndefined(sp.get("lastOrderFrom"));
+  f.lastOrderTo = ymdOrUndefined(sp.get("lastOrderTo"));
+  if (sp.get("neverOrdered") === "1") f.neverOrdered = true;
+  const rp = sp.get("routePlan");
+  if (rp === "yes" || rp === "no") f.routePlan = rp;
+  const days = list(sp, "routeDay").filter((d) => (ROUTE_DAYS as readonly string[]).includes(d));
+  if (days.length) f.routeDays = days;
+  const weeks = list(sp, "routeWeek").map(Number).filter((n) => Number.isInteger(n) && n > 0);
+  if (weeks.length) f.routeWeeks = weeks;
+  const health = list(sp, "health").filter(isHealthBand);
+  if (health.length) f.health = health;
+  const tags = sp.getAll("tag").map((t) => t.trim()).filter(Boolean);
+  if (tags.length) f.tags = tags;
+  const fields = fieldFiltersFromParams(sp);
+  if (fields.length) f.fields = fields;
+  for (const k of Object.keys(f) as (keyof CustomerFilters)[]) if (f[k] === undefined) delete f[k];
+  return f;
+}
+
+export function filtersToParams(f: CustomerFilters): URLSearchParams {
+  const sp = new URLSearchParams();
+  if (f.q) sp.set("q", f.q);
+  f.stages?.forEach((s) => sp.append("stage", s));
+  f.repIds?.forEach((r) => sp.append("rep", r));
+  if (f.town) sp.set("town", f.town);
+  if (f.county) sp.set("county", f.county);
+  if (f.postcodes?.length) sp.set("pc", f.postcodes.join(","));
+  f.brands?.forEach((b) => sp.append("brand", b));
+  if (f.lastOrderFrom) sp.set("lastOrderFrom", f.lastOrderFrom);
+  if (f.lastOrderTo) sp.set("lastOrderTo", f.lastOrderTo);
+  if (f.neverOrdered) sp.set("neverOrdered", "1");
+  if (f.routePlan) sp.set("routePlan", f.routePlan);
+  f.routeDays?.forEach((d) => sp.append("routeDay", d));
+  f.routeWeeks?.forEach((w) => sp.append("routeWeek", String(w)));
+  f.health?.forEach((h) => sp.append("health", h));
+  f.tags?.forEach((t) => sp.append("tag", t));
+  for (const c of f.fields ?? []) {
+    if (c.options?.length) sp.set(`cf.${c.key}`, c.options.join(","));
+    if (c.min) sp.set(`cf.${c.key}.min`, c.min);
+    if (c.max) sp.set(`cf.${c.key}.max`, c.max);
+    if (c.is) sp.set(`cf.${c.key}.is`, c.is);
+  }
+  return sp;
+}
+
+/** Stored view filters (JSON) → filters, dropping anything unexpected. */
+export function normaliseFilters(raw: unknown): CustomerFilters {
+  if (!raw || typeof raw !== "object") return {};
+  return filtersFromParams(filtersToParams(raw as CustomerFilters));
+}
+
+export function hasFilters(f: CustomerFilters) {
+  return Object.keys(f).length > 0;
+}
+
+/* ---- Prisma where ---- */
+
+const ci = (value: string) => ({ contains: value, mode: "insensitive" as const });
+
+function endOfDay(ymd: string) {
+  const d = new Date(`${ymd}T00:00:00.000Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d;
+}
+
+function fieldWhere(c: CustomFieldFilter): Prisma.CustomerWhereInput[] {
+  const field = { key: c.key };
+  const out: Prisma.CustomerWhereInput[] = [];
+  if (c.options?.length) out.push({ fieldValues: { some: { field, options: { hasSome: c.options } } } });
+  if (c.min || c.max) {
+    const dates = (c.min ? isYmd(c.min) : true) && (c.max ? isYmd(c.max) : true);
+    const range = dates
+      ? {
+          date: {
+            ...(c.min ? { gte: new Date(`${c.min}T00:00:00.000Z`) } : {}),
+            ...(c.max ? { lt: endOfDay(c.max) } : {}),
+          },
+        }
+      : {
+          number: {
+            ...(c.min ? { gte: Number(c.min) } : {}),
+            ...(c.max ? { lte: Number(c.max) } : {}),
+          },
+        };
+    out.push({ fieldValues: { some: { field, ...range } } });
+  }
+  if (c.is === "yes") out.push({ fieldValues: { some: { field, bool: true } } });
+  if (c.is === "no") out.push({ fieldValues: { none: { field, bool: true } } });
+  return out;
+}
+
+export function customerWhere(f: CustomerFilters): Prisma.CustomerWhereInput {
+  const and: Prisma.CustomerWhereInput[] = [];
+
+  if (f.q) {
+    and.push({
+      OR: [
+        { salonName: ci(f.q) },
+        { customerName: ci(f.q) },
+        { customerEmailAddress: ci(f.q) },
+        { town: ci(f.q) },
+        { county: ci(f.q) },
+        { postCode: ci(f.q) },
+        { brandsInterestedIn: ci(f.q) },
+        // contacts, phone digits, notes and numbers (lib/customerSearch.ts; stored lowercased)
+        { searchText: { contains: f.q.toLowerCase().replace(/\s+/g, " ") } },
+      ],
+    });
+  }
+  if (f.stages?.length) and.push({ stage: { in: f.stages as any } });
+  if (f.repIds?.length) and.push({ salesRepId: { in: f.repIds } });
+  if (f.town) and.push({ town: ci(f.town) });
+  if (f.county) and.push({ county: ci(f.county) });
+  if (f.postcodes?.length) {
+    and.push({ OR: f.postcodes.map((p) => ({ postCode: { startsWith: p, mode: "insensitive" as const } })) });
+  }
+  if (f.brands?.length) {
+    and.push({ orders: { some: { lineItems: { some: { productVendor: { in: f.brands } } } } } });
+  }
+
+  // last order in [from, to]: an order on/after `from`, and none after `to`
+  if (f.lastOrderFrom) and.push({ orders: { some: { processedAt: { gte: new Date(`${f.lastOrderFrom}T00:00:00.000Z`) } } } });
+  if (f.lastOrderTo) {
+    and.push({ orders: { some: {} } });
+    and.push({ orders: { none: { processedAt: { gte: endOfDay(f.lastOrderTo) } } } });
+  }
+  if (f.neverOrdered) and.push({ orders: { none: {} } });
+
+  if (f.routePlan) and.push({ routePlanEnabled: f.routePlan === "yes" });
+  if (f.routeDays?.length) and.push({ routeDays: { hasSome: f.routeDays as any } });
+  if (f.routeWeeks?.length) and.push({ routeWeeks: { hasSome: f.routeWeeks } });
+  if (f.health?.length) {
+    and.push({
+      OR: f.health.map((h) => {
+        const [min, max] = bandRange(h);
+        return { healthScore: { gte: min, lte: max } };
+      }),
+    });
+  }
+  if (f.tags?.length) and.push({ tags: { hasSome: f.tags } });
+  for (const c of f.fields ?? []) and.push(...fieldWhere(c));
+
+  return and.length ? { AND: and } : {};
+}
+
+/* ---- sort order (list page only; not part of saved filters) ---- */
+
+export const CUSTOMER_SORTS = [
+  { key: "newest", label: "Newest first" },
+  { key: "name", label: "Name A–Z" },
+  { key: "health_asc", label: "Health: at risk first" },
+  { key: "health_desc", label: "Health: healthiest first" },
+] as const;
+
+export type CustomerSort = (typeof CUSTOMER_SORTS)[number]["key"];
+
+export function parseCustomerSort(v: string | null | undefined): CustomerSort {
+  return CUSTOMER_SORTS.find((s) => s.key === v)?.key ?? "newest";
+}
+
+export function customerOrderBy(sort: CustomerSort): Prisma.CustomerOrderByWithRelationInput[] {
+  switch (sort) {
+    case "name":
+      return [{ salonName: "asc" }];
+    case "health_asc":
+      return [{ healthScore: { sort: "asc", nulls: "last" } }, { salonName: "asc" }];
+    case "health_desc":
+      return [{ healthScore: { sort: "desc", nulls: "last" } }, { salonName: "asc" }];
+    default:
+      return [{ createdAt: "desc" }];
+  }
+}
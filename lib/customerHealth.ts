@@ -0,0 +1,124 @@
+// lib/customerHealth.ts
+// Loads what lib/healthScore.ts needs and records the score once a day per customer
+// (CustomerHealthDay), keeping the latest on Customer.healthScore for sorting and
+// filtering. Runs from the nightly cron; writes go through the unscoped client since
+// the scores are derived data, not edits anyone made.
+import type { Prisma } from "@prisma/client";
+import { unscopedPrisma } from "@/lib/prisma";
+import { scoreHealth, type HealthFactors, type HealthInputs } from "@/lib/healthScore";
+
+const DAY = 86_400_000;
+const CHUNK = 500;
+
+export function utcDay(d = new Date()) {
+  return new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+}
+
+/** Score inputs for a set of customers, as of `now`. */
+async function loadInputs(customerIds: string[], now: Date) {
+  const yearAgo = new Date(now.getTime() - 365 * DAY);
+  const halfYearAgo = new Date(now.getTime() - 180 * DAY);
+
+  const [last, orders, calls] = await Promise.all([
+    unscopedPrisma.order.groupBy({
+      by: ["customerId"],
+      where: { customerId: { in: customerIds }, processedAt: { lte: now } },
+      _max: { processedAt: true },
+    }),
+    unscopedPrisma.order.findMany({
+      where: { customerId: { in: customerIds }, processedAt: { gt: yearAgo, lte: now } },
+      select: {
+        customerId: true,
+        processedAt: true,
+        total: true,
+        refundedTotal: true,
+        lineItems: { select: { productVendor: true } },
+      },
+    }),
+    unscopedPrisma.callLog.findMany({
+      where: { customerId: { in: customerIds }, createdAt: { gt: halfYearAgo, lte: now } },
+      select: { customerId: true, createdAt: true, outcome: true },
+    }),
+  ]);
+
+  const inputs = new Map<string, HealthInputs>();
+  for (const id of customerIds) inputs.set(id, { lastOrderAt: null, orders: [], calls: [] });
+  for (const g of last) if (g.customerId) inputs.get(g.customerId)!.lastOrderAt = g._max.processedAt ?? null;
+  for (const o of orders) {
+    inputs.get(o.customerId!)?.orders.push({
+      at: o.processedAt!,
+      total: Number(o.total ?? 0),
+      refunded: Number(o.refundedTotal ?? 0),
+      vendors: [...new Set(o.lineItems.map((l) => l.productVendor).filter((v): v is string => !!v))],
+    });
+  }
+  for (const c of calls) inputs.get(c.customerId!)?.calls.push({ at: c.createdAt, outcome: c.outcome });
+  return inputs;
+}
+
+/** Score one customer right now, without storing it (profile page before the first nightly run). */
+export async function liveHealth(customerId: string) {
+  const now = new Date();
+  const inputs = await loadInputs([customerId], now);
+  return scoreHealth(inputs.get(customerId)!, now);
+}
+
+/**
+ * Score every customer who has ordered and store today's row (re-running the same
+ * day overwrites it). Customers who no longer have orders, e.g. after a merge,
+ * lose their score.
+ */
+export async function recordCustomerHealth(now = new Date()) {
+  const date = utcDay(now);
+  let scored = 0;
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await unscopedPrisma.customer.findMany({
+      where: { orders: { some: {} } },
+      select: { id: true },
+      orderBy: { id: "asc" },
+      take: CHUNK,
+      ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+    });
+    if (!batch.length) break;
+    cursor = batch[batch.length - 1].id;
+
+    const ids = batch.map((c) => c.id);
+    const inputs = await loadInputs(ids, now);
+    const rows: Prisma.CustomerHealthDayCreateManyInput[] = [];
+    for (const id of ids) {
+      const result = scoreHealth(inputs.get(id)!, now);
+      if (result) rows.push({ customerId: id, date, score: result.score, factors: result.factors as Prisma.InputJsonObject });
+    }
+
+    await unscopedPrisma.$transaction([
+      unscopedPrisma.customerHealthDay.deleteMany({ where: { customerId: { in: ids }, date } }),
+      unscopedPrisma.customerHealthDay.createMany({ data: rows }),
+      ...rows.map((r) =>
+        unscopedPrisma.customer.update({
+          where: { id: r.customerId },
+          data: { healthScore: r.score, healthScoredAt: now },
+        })
+      ),
+    ]);
+    scored += rows.length;
+  }
+
+  const cleared = await unscopedPrisma.customer.updateMany({
+    where: { healthScore: { not: null }, orders: { none: {} } },
+    data: { healthScore: null, healthScoredAt: null },
+  });
+
+  return { date: date.toISOString().slice(0, 10), scored, cleared: cleared.count };
+}
+
+/** Stored daily scores for one customer, oldest first. */
+export async function healthHistory(customerId: string, days = 90) {
+  const rows = await unscopedPrisma.customerHealthDay.findMany({
+    where: { customerId, date: { gte: utcDay(new Date(Date.now() - days * DAY)) } },
+    orderBy: { date: "asc" },
+    select: { date: true, score: true, factors: true },
+  });
+  return rows.map((r) => ({ date: r.date, score: r.score, factors: r.factors as unknown as HealthFactors }));
+}
@@ -0,0 +1,281 @@
+// lib/customerImport.ts
+// CSV import of customers/leads (trade-show lists and the like). The same request
+// runs as a dry run first — mapped values, validation errors, likely duplicates —
+// and is then re-sent to commit.
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { parseCsvRecords } from "@/lib/csv";
+import { normalizeCountry, normalizeStage } from "@/lib/customers";
+import { getOrCreateRepIdByName, normRepName } from "@/lib/reps";
+import { duplicatesWithin, flagDuplicatesOf, matchExistingCustomers, type DuplicateMatch } from "@/lib/duplicates";
+import { pushCustomerToShopifyById } from "@/lib/shopify";
+import { writeAudit } from "@/lib/audit";
+import { geocodeCustomer } from "@/lib/geocode";
+import { indexCustomerSearch } from "@/lib/customerSearch";
+import { recordStageChange } from "@/lib/stageHistory";
+import { isClosedStage } from "@/lib/pipeline";
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export class ImportError extends Error {}
+
+/** Customer fields a column can map onto, with header spellings we recognise. */
+export const IMPORT_FIELDS = [
+  { key: "salonName", label: "Salon name", aliases: ["salon", "salonname", "business", "businessname", "company", "companyname", "name"] },
+  { key: "customerName", label: "Contact name", aliases: ["contact", "contactname", "customer", "customername", "owner"] },
+  { key: "addressLine1", label: "Address line 1", aliases: ["address", "address1", "addressline1", "street"] },
+  { key: "addressLine2", label: "Address line 2", aliases: ["address2", "addressline2"] },
+  { key: "town", label: "Town", aliases: ["town", "city"] },
+  { key: "county", label: "County", aliases: ["county", "region", "province", "state"] },
+  { key: "postCode", label: "Postcode", aliases: ["postcode", "postalcode", "zip", "zipcode"] },
+  { key: "country", label: "Country", aliases: ["country"] },
+  { key: "customerTelephone", label: "Phone", aliases: ["phone", "telephone", "tel", "mobile", "phonenumber"] },
+  { key: "customerEmailAddress", label: "Email", aliases: ["email", "emailaddress"] },
+  { key: "customerNumber", label: "Customer number", aliases: ["customernumber", "accountnumber", "account"] },
+  { key: "salesRep", label: "Sales rep", aliases: ["rep", "salesrep", "salesperson"] },
+  { key: "stage", label: "Stage", aliases: ["stage", "status"] },
+  { key: "numberOfChairs", label: "Chairs", aliases: ["chairs", "numberofchairs"] },
+  { key: "brandsInterestedIn", label: "Brands interested in", aliases: ["brands", "brandsinterestedin", "brandsused"] },
+  { key: "notes", label: "Notes", aliases: ["notes", "comments", "comment"] },
+] as const;
+
+export type ImportFieldKey = (typeof IMPORT_FIELDS)[number]["key"];
+
+/** CSV header → field key ("" = ignore the column). */
+export type ImportMapping = Record<string, ImportFieldKey | "">;
+
+export type ImportDefaults = { salesRep?: string; stage?: string; country?: string };
+
+export type ImportRow = {
+  /** Line in the file (header is line 1). */
+  line: number;
+  data: Prisma.CustomerUncheckedCreateInput & { salesRep: string };
+  errors: string[];
+  warnings: string[];
+  duplicateOf: DuplicateMatch | null;
+  /** Earlier line in the same file that looks like the same salon. */
+  duplicateLine: number | null;
+};
+
+const headerKey = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/** Best-guess mapping from header names; each field is used at most once. */
+export function guessMapping(headers: string[]): ImportMapping {
+  const used = new Set<string>();
+  const mapping: ImportMapping = {};
+  for (const h of headers) {
+    const k = headerKey(h);
+    const field = IMPORT_FIELDS.find((f) => !used.has(f.key) && (headerKey(f.key) === k || (f.aliases as readonly string[]).includes(k)));
+    mapping[h] = field ? field.key : "";
+    if (field) used.add(field.key);
+  }
+  return mapping;
+}
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const blank = (v: unknown) => v == null || String(v).trim() === "";
+
+function toRow(rec: Record<string, string>, line: number, mapping: ImportMapping, defaults: ImportDefaults): ImportRow {
+  const raw: Record<string, string> = {};
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field && !blank(rec[header])) raw[field] = rec[header].trim();
+  }
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const salonName = raw.salonName ?? "";
+  if (!salonName) errors.push("Salon name is missing");
+
+  let customerName = raw.customerName ?? "";
+  if (!customerName && salonName) {
+    customerName = salonName;
+    warnings.push("No contact name; using the salon name");
+  }
+
+  if (!raw.addressLine1) warnings.push("No address");
+
+  const email = raw.customerEmailAddress ? raw.customerEmailAddress.toLowerCase() : null;
+  if (email && !EMAIL_RE.test(email)) errors.push(`"${raw.customerEmailAddress}" is not a valid email`);
+
+  let numberOfChairs: number | null = null;
+  if (raw.numberOfChairs) {
+    numberOfChairs = Number(raw.numberOfChairs);
+    if (!Number.isInteger(numberOfChairs) || numberOfChairs < 0) {
+      errors.push(`Chairs "${raw.numberOfChairs}" is not a whole number`);
+      numberOfChairs = null;
+    }
+  }
+
+  const stageRaw = raw.stage ?? defaults.stage ?? "";
+  const stage = normalizeStage(stageRaw);
+  if (stageRaw && stage === "LEAD" && !/^(lead|prospect)$/i.test(stageRaw.trim())) {
+    warnings.push(`Unknown stage "${stageRaw}"; importing as Lead`);
+  }
+  // lost/dormant need a reason and the file doesn't carry one
+  const lossReason = isClosedStage(stage) ? ("OTHER" as const) : null;
+  if (lossReason) warnings.push(`No loss reason for stage "${stageRaw}"; recording it as Other`);
+
+  const salesRep = normRepName(raw.salesRep ?? defaults.salesRep ?? "");
+  if (!salesRep) errors.push("No sales rep (map a rep column or pick a default)");
+
+  return {
+    line,
+    data: {
+      salonName,
+      customerName,
+      addressLine1: raw.addressLine1 ?? "",
+      addressLine2: raw.addressLine2 ?? null,
+      town: raw.town ?? null,
+      county: raw.county ?? null,
+      postCode: raw.postCode ? raw.postCode.toUpperCase() : null,
+      country: normalizeCountry(raw.country ?? defaults.country),
+      customerTelephone: raw.customerTelephone ?? null,
+      customerEmailAddress: email,
+      customerNumber: raw.customerNumber ?? null,
+      salesRep,
+      stage,
+      lossReason,
+      numberOfChairs,
+      brandsInterestedIn: raw.brandsInterestedIn ?? null,
+      notes: raw.notes ?? null,
+    },
+    errors,
+    warnings,
+    duplicateOf: null,
+    duplicateLine: null,
+  };
+}
+
+/**
+ * Parse, map and validate a CSV without writing anything. Without a mapping the
+ * headers are guessed, so the first call doubles as the preview.
+ */
+export async function dryRunImport(csv: string, mapping: ImportMapping | null, defaults: ImportDefaults = {}) {
+  const { headers, records } = parseCsvRecords(csv);
+  if (!headers.length) throw new ImportError("The file has no header row");
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ImportError(`Too many rows (${records.length}); split the file into batches of ${MAX_IMPORT_ROWS}`);
+  }
+
+  const map = mapping ?? guessMapping(headers);
+  const rows = records.map((rec, i) => toRow(rec, i + 2, map, defaults));
+
+  const cand = rows.map((r) => ({
+    salonName: r.data.salonName,
+    postCode: r.data.postCode,
+    customerTelephone: r.data.customerTelephone,
+    customerEmailAddress: r.data.customerEmailAddress,
+    town: r.data.town,
+  }));
+  const existing = await matchExistingCustomers(cand);
+  existing.forEach((m, i) => (rows[i].duplicateOf = m));
+  for (const p of duplicatesWithin(cand)) {
+    if (rows[p.b].duplicateLine == null) rows[p.b].duplicateLine = rows[p.a].line;
+  }
+
+  // reps that don't exist yet will be created on commit
+  const repNames = Array.from(new Set(rows.map((r) => r.data.salesRep).filter(Boolean)));
+  const known = await prisma.salesRep.findMany({
+    where: { OR: repNames.map((name) => ({ name: { equals: name, mode: "insensitive" as const } })) },
+    select: { name: true },
+  });
+  const knownLower = new Set(known.map((k) => k.name.toLowerCase()));
+  const newReps = repNames.filter((n) => !knownLower.has(n.toLowerCase()));
+  for (const r of rows) {
+    if (r.data.salesRep && !knownLower.has(r.data.salesRep.toLowerCase())) {
+      r.warnings.push(`New sales rep "${r.data.salesRep}" will be created`);
+    }
+  }
+
+  return {
+    headers,
+    mapping: map,
+    rows,
+    newReps,
+    summary: {
+      total: rows.length,
+      valid: rows.filter((r) => !r.errors.length).length,
+      errors: rows.filter((r) => r.errors.length).length,
+      duplicates: rows.filter((r) => !r.errors.length && (r.duplicateOf || r.duplicateLine)).length,
+    },
+  };
+}
+
+/**
+ * Create the valid rows. Likely duplicates are skipped unless `skipDuplicates` is
+ * off, in which case they are created and queued for review. Optionally pushes each
+ * new customer to Shopify (failures are reported, not fatal).
+ */
+export async function commitImport(
+  csv: string,
+  mapping: ImportMapping | null,
+  defaults: ImportDefaults,
+  opts: { skipDuplicates: boolean; pushToShopify: boolean; fileName?: string | null },
+  actorId: string | null
+) {
+  const preview = await dryRunImport(csv, mapping, defaults);
+  const repIds = new Map<string, string | null>();
+  const created: { line: number; id: string }[] = [];
+  const skipped: { line: number; reason: string }[] = [];
+  const shopifyErrors: { line: number; error: string }[] = [];
+
+  for (const r of preview.rows) {
+    if (r.errors.length) {
+      skipped.push({ line: r.line, reason: r.errors.join("; ") });
+      continue;
+    }
+    const dup = r.duplicateOf || r.duplicateLine;
+    if (dup && opts.skipDuplicates) {
+      skipped.push({
+        line: r.line,
+        reason: r.duplicateOf ? `Looks like ${r.duplicateOf.salonName}` : `Same salon as line ${r.duplicateLine}`,
+      });
+      continue;
+    }
+
+    const repKey = r.data.salesRep.toLowerCase();
+    if (!repIds.has(repKey)) repIds.set(repKey, await getOrCreateRepIdByName(r.data.salesRep));
+
+    const c = await prisma.customer.create({
+      data: { ...r.data, salesRepId: repIds.get(repKey) ?? null },
+      select: { id: true, stage: true, lossReason: true },
+    });
+    created.push({ line: r.line, id: c.id });
+    await recordStageChange({
+      userId: actorId,
+      customerId: c.id,
+      from: null,
+      to: c.stage,
+      cause: "IMPORT",
+      loss: c.lossReason ? { reason: c.lossReason } : null,
+    });
+    await geocodeCustomer(c.id);
+    await indexCustomerSearch(c.id);
+    if (dup) await flagDuplicatesOf(c.id);
+
+    if (opts.pushToShopify) {
+      try {
+        await pushCustomerToShopifyById(c.id);
+      } catch (e: any) {
+        shopifyErrors.push({ line: r.line, error: e?.message || String(e) });
+      }
+    }
+  }
+
+  await writeAudit({
+    userId: actorId,
+    action: "customer.import",
+    entityType: "Import",
+    entityId: opts.fileName || null,
+    details: {
+      rows: preview.rows.length,
+      created: created.length,
+      skipped: skipped.length,
+      pushedToShopify: opts.pushToShopify ? created.length - shopifyErrors.length : 0,
+      shopifyErrors: shopifyErrors.length,
+      newReps: preview.newReps,
+    },
+  });
+
+  return { created, skipped, shopifyErrors, newReps: preview.newReps };
+}
@@ -0,0 +1,122 @@
+// lib/customerSearch.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+
+import { Prisma } from "@prisma/client";
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { customerSearchText, indexCustomerSearch, orderByIds, phoneDigits, searchCustomers, searchTerms, type SearchSource } from "@/lib/customerSearch";
+
+function source(fields: Partial<SearchSource> = {}): SearchSource {
+  return {
+    salonName: "The Hair Lounge",
+    customerName: "Amy Pond",
+    addressLine1: "1 High St",
+    addressLine2: null,
+    town: "Birmingham",
+    county: null,
+    postCode: "B1 1AA",
+    customerTelephone: "+44 (0)121 496 0000",
+    customerEmailAddress: "Hello@HairLounge.com",
+    customerNumber: "C-1042",
+    shopifyCustomerId: "7001",
+    notes: null,
+    contacts: [],
+    ...fields,
+  };
+}
+
+/** The raw queries sent, as SQL text with their bound values. */
+function captureRaw() {
+  const sent: Prisma.Sql[] = [];
+  fakeDb.raw = async (strings: TemplateStringsArray, ...values: unknown[]) => {
+    sent.push(Prisma.sql(strings, ...values));
+    return [];
+  };
+  return sent;
+}
+
+describe("customerSearchText", () => {
+  it("indexes every searchable field, lowercased, with phones in both forms", () => {
+    const text = customerSearchText(
+      source({ contacts: [{ name: "Rory Williams", phone: "07700 900123", email: "rory@example.com" }], notes: "Prefers  Tuesdays" })
+    );
+
+    expect(text).toBe(
+      "the hair lounge amy pond rory williams 1 high st birmingham b1 1aa b11aa hello@hairlounge.com rory@example.com " +
+        "441214960000 01214960000 07700900123 c-1042 7001 prefers tuesdays"
+    );
+  });
+
+  it("drops repeats and blanks", () => {
+    const text = customerSearchText(source({ customerName: "The Hair Lounge", postCode: "B11AA", customerTelephone: "n/a" }));
+
+    expect(text).toBe("the hair lounge 1 high st birmingham b11aa hello@hairlounge.com c-1042 7001");
+  });
+});
+
+describe("search queries", () => {
+  it("folds international phone prefixes to the national form", () => {
+    expect(phoneDigits("0044 7700 900123")).toEqual(["447700900123", "07700900123"]);
+    expect(phoneDigits("12345")).toEqual([]);
+  });
+
+  it("keeps a phone number typed with spaces as one term", () => {
+    expect(searchTerms("+44 7700 900 123")).toEqual(["07700900123"]);
+    expect(searchTerms("  Hair   LOUNGE b1 ")).toEqual(["hair", "lounge", "b1"]);
+  });
+
+  it("puts rows back in search order", () => {
+    expect(orderByIds([{ id: "a" }, { id: "b" }, { id: "c" }], ["c", "x", "a"])).toEqual([{ id: "c" }, { id: "a" }]);
+  });
+});
+
+describe("searchCustomers", () => {
+  beforeEach(() => {
+    fakeDb.reset({});
+  });
+
+  it("doesn't query for a single character", async () => {
+    const sent = captureRaw();
+
+    expect(await searchCustomers("h")).toEqual([]);
+    expect(sent).toEqual([]);
+  });
+
+  it("matches short words exactly and longer ones fuzzily, capped at 50 results", async () => {
+    const sent = captureRaw();
+
+    await searchCustomers("Hair b1", { take: 500, stage: "CUSTOMER" });
+
+    const [threshold, query] = sent;
+    expect(threshold.values).toEqual(["0.45"]);
+    expect(query.sql).toContain(`c."searchText" LIKE ? OR ? <% c."searchText"`);
+    expect(query.values).toEqual(expect.arrayContaining(["%hair%", "hair", "%b1%", "CUSTOMER", 50]));
+    expect(query.values).not.toContain("b1");
+  });
+
+  it("escapes LIKE wildcards in the query", async () => {
+    const sent = captureRaw();
+
+    await searchCustomers("100%_cut");
+
+    expect(sent[1].values).toContain("%100\\%\\_cut%");
+  });
+});
+
+describe("indexCustomerSearch", () => {
+  it("stores the search text without failing the caller when the write does", async () => {
+    fakeDb.reset({ customer: [{ id: "c1", ...source() }] });
+    const sent = captureRaw();
+
+    await indexCustomerSearch("c1");
+
+    expect(sent[0].values).toEqual([customerSearchText(source()), expect.any(Date), "c1"]);
+
+    fakeDb.raw = async () => Promise.reject(new Error("db down"));
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    await expect(indexCustomerSearch("c1")).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
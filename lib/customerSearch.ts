@@ -0,0 +1,210 @@
+// lib/customerSearch.ts
+// Ranked, typo-tolerant customer search. Each customer carries Customer.searchText:
+// its salon and contact names, address, postcode, phone digits, emails, notes and
+// customer/Shopify numbers, lowercased into one string with a pg_trgm GIN index.
+// searchCustomers() needs every word of the query to appear in it, exactly or
+// nearly (trigram word similarity), then ranks salon-name matches first.
+//
+// searchText is rebuilt by indexCustomerSearch() after writes that touch those
+// fields (like geocodeCustomer) and nightly by /api/cron/index-customer-search for
+// anything that slipped through.
+import { Prisma, type CustomerStage } from "@prisma/client";
+import { prisma, unscopedPrisma, getDataScope } from "@/lib/prisma";
+import { customerScopeSql } from "@/lib/scope";
+
+/** Notes can be long; only the start is worth matching on. */
+const MAX_NOTES = 2000;
+/** Words of a query that are matched; the rest are ignored. */
+const MAX_TERMS = 6;
+/** pg_trgm word_similarity needed for a fuzzy hit (its default of 0.6 misses most typos). */
+const FUZZY_THRESHOLD = 0.45;
+
+export type SearchSource = {
+  salonName: string;
+  customerName: string;
+  addressLine1: string;
+  addressLine2: string | null;
+  town: string | null;
+  county: string | null;
+  postCode: string | null;
+  customerTelephone: string | null;
+  customerEmailAddress: string | null;
+  customerNumber: string | null;
+  shopifyCustomerId: string | null;
+  notes: string | null;
+  contacts: { name: string; phone: string | null; email: string | null }[];
+};
+
+const SEARCH_SOURCE_SELECT = {
+  salonName: true,
+  customerName: true,
+  addressLine1: true,
+  addressLine2: true,
+  town: true,
+  county: true,
+  postCode: true,
+  customerTelephone: true,
+  customerEmailAddress: true,
+  customerNumber: true,
+  shopifyCustomerId: true,
+  notes: true,
+  contacts: { select: { name: true, phone: true, email: true } },
+} as const;
+
+/** Lowercase, straighten quotes and collapse whitespace. */
+export function normaliseSearch(v: string | null | undefined) {
+  return (v ?? "").toLowerCase().replace(/[‘’`]/g, "'").replace(/\s+/g, " ").trim();
+}
+
+/** "+44 (0)7700 900123" → ["447700900123", "07700900123"]: as typed, and the UK national form. */
+export function phoneDigits(v: string | null | undefined): string[] {
+  let d = (v ?? "").replace(/\(0\)/g, "").replace(/\D/g, "");
+  if (d.length < 6) return [];
+  if (d.startsWith("0044")) d = d.slice(2);
+  return d.startsWith("44") ? [d, `0${d.slice(2)}`] : [d];
+}
+
+/** The text a customer is searched by. */
+export function customerSearchText(c: SearchSource) {
+  const parts = [
+    c.salonName,
+    c.customerName,
+    ...c.contacts.map((x) => x.name),
+    c.addressLine1,
+    c.addressLine2,
+    c.town,
+    c.county,
+    c.postCode,
+    c.postCode?.replace(/\s+/g, ""),
+    c.customerEmailAddress,
+    ...c.contacts.map((x) => x.email),
+    ...phoneDigits(c.customerTelephone),
+    ...c.contacts.flatMap((x) => phoneDigits(x.phone)),
+    c.customerNumber,
+    c.shopifyCustomerId,
+    c.notes?.slice(0, MAX_NOTES),
+  ];
+  const seen = new Set<string>();
+  return parts
+    .map(normaliseSearch)
+    .filter((p) => p && !seen.has(p) && seen.add(p))
+    .join(" ");
+}
+
+/**
+ * Store searchText for the given customers without touching updatedAt. The stamp
+ * comes from this clock, like @updatedAt, so pendingSearchIndex() can compare them.
+ */
+async function indexRows(ids: string[]) {
+  const rows = await unscopedPrisma.customer.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, ...SEARCH_SOURCE_SELECT },
+  });
+  for (const r of rows) {
+    await unscopedPrisma.$executeRaw`
+      UPDATE "Customer" SET "searchText" = ${customerSearchText(r)}, "searchIndexedAt" = ${new Date()}
+      WHERE "id" = ${r.id}`;
+  }
+  return rows.length;
+}
+
+/**
+ * Rebuild one customer's searchText. Call after anything that may change its
+ * names, address, phones, emails, notes or contacts; never throws, since a stale
+ * entry only affects search until the nightly cron catches it.
+ */
+export async function indexCustomerSearch(customerId: string) {
+  try {
+    await indexRows([customerId]);
+  } catch (err) {
+    console.error(`[search] indexing customer ${customerId} failed:`, err);
+  }
+}
+
+/** Customers never indexed, or edited since (contact edits are re-indexed as they happen). */
+export function pendingSearchIndex(): Prisma.CustomerWhereInput {
+  return {
+    OR: [{ searchIndexedAt: null }, { updatedAt: { gt: unscopedPrisma.customer.fields.searchIndexedAt } }],
+  };
+}
+
+const INDEX_BATCH = 500;
+
+/**
+ * Index pending customers in batches until none are left or `deadline` (epoch ms)
+ * passes. `all` re-indexes everyone (e.g. after changing what goes into searchText).
+ */
+export async function indexPendingCustomerSearch(deadline = Date.now() + 50_000, all = false) {
+  const startedAt = new Date();
+  const where: Prisma.CustomerWhereInput = all
+    ? { OR: [{ searchIndexedAt: null }, { searchIndexedAt: { lt: startedAt } }] }
+    : pendingSearchIndex();
+  let processed = 0;
+  while (Date.now() < deadline) {
+    const rows = await unscopedPrisma.customer.findMany({ where, select: { id: true }, orderBy: { id: "asc" }, take: INDEX_BATCH });
+    if (!rows.length) break;
+    processed += await indexRows(rows.map((r) => r.id));
+  }
+  const remaining = await unscopedPrisma.customer.count({ where });
+  return { processed, remaining };
+}
+
+/* ---------------- querying ---------------- */
+
+const likeEscape = (s: string) => s.replace(/[\\%_]/g, (m) => `\\${m}`);
+
+/** Query → words to match. A phone number typed with spaces is kept as one run of digits. */
+export function searchTerms(q: string) {
+  const n = normaliseSearch(q);
+  if (/^[\d\s()+-]+$/.test(n)) {
+    const digits = phoneDigits(n);
+    if (digits.length) return [digits[digits.length - 1]];
+  }
+  return n.split(" ").filter(Boolean).slice(0, MAX_TERMS);
+}
+
+export type CustomerSearchOptions = { take?: number; stage?: CustomerStage | null };
+
+/**
+ * Customers visible to the current user matching `q`, best first. Returns ids with
+ * their relevance score; load the columns you need with orderByIds().
+ */
+export async function searchCustomers(q: string, opts: CustomerSearchOptions = {}) {
+  const terms = searchTerms(q);
+  const phrase = normaliseSearch(q);
+  if (!terms.length || phrase.length < 2) return [];
+  const take = Math.min(Math.max(Math.floor(opts.take || 10), 1), 50);
+
+  // each word must appear as typed or, from 3 letters up, as a near match of a word
+  const matches = terms.map((t) =>
+    t.length < 3
+      ? Prisma.sql`c."searchText" LIKE ${`%${likeEscape(t)}%`}`
+      : Prisma.sql`(c."searchText" LIKE ${`%${likeEscape(t)}%`} OR ${t} <% c."searchText")`
+  );
+  const stage = opts.stage ? Prisma.sql`AND c."stage" = ${opts.stage}::"CustomerStage"` : Prisma.empty;
+  const scope = customerScopeSql(await getDataScope(), "c");
+
+  const [, rows] = await prisma.$transaction([
+    prisma.$queryRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(FUZZY_THRESHOLD)}, true)`,
+    prisma.$queryRaw<{ id: string; score: number }[]>`
+      SELECT c."id",
+        ( word_similarity(${phrase}, c."searchText")
+        + 2 * similarity(${phrase}, lower(c."salonName"))
+        + CASE WHEN lower(c."salonName") = ${phrase} THEN 3
+               WHEN lower(c."salonName") LIKE ${`${likeEscape(phrase)}%`} THEN 1.5
+               ELSE 0 END
+        + ts_rank(to_tsvector('simple', c."searchText"), plainto_tsquery('simple', ${phrase}))
+        )::float8 AS score
+      FROM "Customer" c
+      WHERE ${Prisma.join(matches, " AND ")} ${stage} ${scope}
+      ORDER BY score DESC, c."salonName" ASC
+      LIMIT ${take}`,
+  ]);
+  return rows;
+}
+
+/** Put rows loaded by id back into search order. */
+export function orderByIds<T extends { id: string }>(rows: T[], ids: string[]) {
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return ids.map((id) => byId.get(id)).filter((r): r is T => !!r);
+}
@@ -0,0 +1,68 @@
+// lib/customerTags.ts
+// CRM-managed customer tags. Customer.tags holds the customer's Shopify tags minus
+// the sales-rep tags (those follow Customer.salesRep instead), and both sides can
+// edit them: lib/shopify.ts merges each inbound webhook and outbound push against the
+// tags as they were at the last sync (Customer.shopifyTags), so an add or removal on
+// either side survives a change made on the other in the meantime.
+import { prisma, getDataScope } from "@/lib/prisma";
+import { customerScopeSql } from "@/lib/scope";
+
+export class CustomerTagError extends Error {}
+
+/** Shopify's limit per tag; commas separate tags there, so they can't appear in one. */
+const MAX_TAG_LENGTH = 255;
+
+const tagKey = (t: string) => t.trim().toLowerCase();
+
+/** Trim, drop blanks and case-insensitive repeats (first spelling wins). */
+export function normaliseTags(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : typeof input === "string" ? input.split(",") : [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const v of raw) {
+    const t = String(v ?? "").replace(/\s+/g, " ").trim();
+    if (!t || seen.has(tagKey(t))) continue;
+    seen.add(tagKey(t));
+    out.push(t);
+  }
+  return out;
+}
+
+/** Validate tags sent from the CRM. */
+export function parseTagsInput(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input.map(String) : typeof input === "string" ? [input] : [];
+  if (raw.some((t) => t.includes(","))) throw new CustomerTagError("Tags can't contain commas");
+  const tags = normaliseTags(raw);
+  const long = tags.find((t) => t.length > MAX_TAG_LENGTH);
+  if (long) throw new CustomerTagError(`Tag "${long.slice(0, 40)}…" is longer than ${MAX_TAG_LENGTH} characters`);
+  return tags;
+}
+
+/** `tags` without any whose lowercased form is in `strip` (rep tags). */
+export function withoutTags(tags: string[], strip: Set<string>) {
+  return tags.filter((t) => !strip.has(tagKey(t)));
+}
+
+/**
+ * Three-way merge: start from `base` (both sides' tags at the last sync), keep what
+ * either side added and drop what either side removed. Compared case-insensitively;
+ * `ours` spelling wins, then `theirs`.
+ */
+export function mergeTags(base: string[], ours: string[], theirs: string[]) {
+  const inBase = new Set(base.map(tagKey));
+  const inOurs = new Set(ours.map(tagKey));
+  const inTheirs = new Set(theirs.map(tagKey));
+  return normaliseTags([...ours, ...theirs]).filter((t) => {
+    const k = tagKey(t);
+    return !inBase.has(k) || (inOurs.has(k) && inTheirs.has(k));
+  });
+}
+
+/** Every tag in use on a customer the caller can see, A–Z, for pickers and filters. */
+export async function tagsInUse(): Promise<string[]> {
+  const rows = await prisma.$queryRaw<{ tag: string }[]>`
+    SELECT DISTINCT unnest(c."tags") AS tag FROM "Customer" c
+    WHERE TRUE ${customerScopeSql(await getDataScope(), "c")}
+    ORDER BY tag`;
+  return normaliseTags(rows.map((r) => r.tag));
+}
@@ -0,0 +1,64 @@
+// lib/customerViews.ts
+// Saved customer list views: a name, filters and export columns. A view is visible to
+// its owner, or to everyone once shared; only the owner or an admin can change it.
+import { prisma } from "@/lib/prisma";
+import { isAdmin, type SafeUser } from "@/lib/auth";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  isExportColumn,
+  normaliseFilters,
+  type CustomerFilters,
+  type ExportColumn,
+} from "@/lib/customerFilters";
+
+export const VIEW_SELECT = {
+  id: true,
+  name: true,
+  filters: true,
+  columns: true,
+  shared: true,
+  ownerId: true,
+  updatedAt: true,
+  owner: { select: { fullName: true } },
+} as const;
+
+export class ViewError extends Error {}
+
+export function viewsFor(user: SafeUser) {
+  return prisma.customerView.findMany({
+    where: { OR: [{ ownerId: user.id }, { shared: true }] },
+    orderBy: { name: "asc" },
+    select: VIEW_SELECT,
+  });
+}
+
+/** The view if `user` can see it, else null. */
+export async function visibleView(id: string, user: SafeUser) {
+  const v = await prisma.customerView.findUnique({ where: { id }, select: VIEW_SELECT });
+  if (!v) return null;
+  return v.ownerId === user.id || v.shared || isAdmin(user) ? v : null;
+}
+
+export function canEditView(view: { ownerId: string }, user: SafeUser) {
+  return view.ownerId === user.id || isAdmin(user);
+}
+
+export function viewColumns(raw: unknown): ExportColumn[] {
+  const cols = Array.isArray(raw) ? raw.filter(isExportColumn) : [];
+  return cols.length ? Array.from(new Set(cols)) : DEFAULT_EXPORT_COLUMNS;
+}
+
+/** Validate a create/update body. Fields left out of `body` are left out of the result. */
+export function parseViewInput(body: any, partial: boolean) {
+  const out: { name?: string; filters?: CustomerFilters; columns?: ExportColumn[]; shared?: boolean } = {};
+  if (body?.name !== undefined || !partial) {
+    const name = String(body?.name ?? "").trim();
+    if (!name) throw new ViewError("Name is required");
+    if (name.length > 80) throw new ViewError("Name is too long");
+    out.name = name;
+  }
+  if (body?.filters !== undefined || !partial) out.filters = normaliseFilters(body?.filters);
+  if (body?.columns !== undefined || !partial) out.columns = viewColumns(body?.columns);
+  if (body?.shared !== undefined || !partial) out.shared = !!body?.shared;
+  return out;
+}
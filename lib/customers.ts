@@ -0,0 +1,61 @@
+// lib/customers.ts
+// Field normalisers shared by the customer form API and the CSV import.
+import { parseStage, type StageValue as Stage } from "@/lib/pipeline";
+
+// Normalize incoming country values to ISO-2 codes for Shopify friendliness
+export function normalizeCountry(input: unknown): string | null {
+  if (input == null) return null;
+  const raw = String(input).trim();
+  if (!raw) return null;
+
+  const up = raw.toUpperCase();
+
+  // If already a 2-letter code, accept
+  if (/^[A-Z]{2}$/.test(up)) return up;
+
+  // Common name → code mappings (extend as needed)
+  const map: Record<string, string> = {
+    "UNITED KINGDOM": "GB",
+    "GREAT BRITAIN": "GB",
+    "UK": "GB",
+    "ENGLAND": "GB",
+    "SCOTLAND": "GB",
+    "WALES": "GB",
+    "NORTHERN IRELAND": "GB",
+
+    "UNITED STATES": "US",
+    "UNITED STATES OF AMERICA": "US",
+    "USA": "US",
+    "AMERICA": "US",
+
+    "IRELAND": "IE",
+    "REPUBLIC OF IRELAND": "IE",
+
+    "CANADA": "CA",
+    "AUSTRALIA": "AU",
+    "NEW ZEALAND": "NZ",
+    "FRANCE": "FR",
+    "GERMANY": "DE",
+    "SPAIN": "ES",
+    "ITALY": "IT",
+    "NETHERLANDS": "NL",
+    "BELGIUM": "BE",
+    "SWEDEN": "SE",
+    "NORWAY": "NO",
+    "DENMARK": "DK",
+    "SWITZERLAND": "CH",
+    "AUSTRIA": "AT",
+    "PORTUGAL": "PT",
+    "POLAND": "PL",
+  };
+
+  return map[up] || raw; // fall back to original text if not mapped
+}
+
+/* ---- Customer stage (the stage list itself lives in lib/pipeline.ts) ---- */
+export type { Stage };
+
+/** Stage from a form or CSV value; blank or unrecognised → LEAD. */
+export function normalizeStage(input: unknown): Stage {
+  return parseStage(input) ?? "LEAD";
+}
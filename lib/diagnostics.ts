@@ -0,0 +1,122 @@
+// lib/diagnostics.ts
+// Admin-only troubleshooting tools under /api/admin/diagnostics. Every run is
+// audited, responses are scrubbed of credentials, and the whole area is off (the
+// routes 404) unless DIAGNOSTICS_ENABLED=true — outside production it's on by default.
+import { NextResponse } from "next/server";
+import { getCurrentUser, isAdmin } from "@/lib/auth";
+import { writeAudit } from "@/lib/audit";
+
+export type DiagnosticTool = {
+  id: string;
+  label: string;
+  desc: string;
+  /** Query parameters the tool accepts (shown as inputs on /settings/diagnostics). */
+  params?: { name: string; placeholder: string }[];
+};
+
+export const DIAGNOSTIC_TOOLS: DiagnosticTool[] = [
+  {
+    id: "find-order",
+    label: "Find order",
+    desc: "Look up an order by Shopify number, name or GID and show its customer link.",
+    params: [
+      { name: "number", placeholder: "12345" },
+      { name: "name", placeholder: "#1001" },
+      { name: "id", placeholder: "gid://shopify/Order/…" },
+    ],
+  },
+  { id: "linnworks-auth", label: "Linnworks sign-in", desc: "Check the Linnworks app credentials can authorise." },
+  { id: "linnworks-scripts", label: "Linnworks query scripts", desc: "Sample rows and columns from query scripts 53 and 47." },
+  { id: "shopify-payment-terms", label: "Shopify payment terms", desc: "PaymentTermsInput shape, draft-order terms mutations and templates." },
+];
+
+export function diagnosticsEnabled() {
+  const flag = process.env.DIAGNOSTICS_ENABLED?.trim().toLowerCase();
+  if (!flag) return process.env.NODE_ENV !== "production";
+  return flag === "true";
+}
+
+const SECRET_KEY = /(token|secret|password|passwd|authorization|api[-_]?key|access[-_]?key|cookie)/i;
+
+// Values of these env vars are masked wherever they turn up in a response
+const SECRET_ENV = [
+  "AUTH_SECRET",
+  "DATABASE_URL",
+  "ANTHROPIC_API_KEY",
+  "BACKFILL_SECRET",
+  "GOOGLE_CLIENT_SECRET",
+  "LINNWORKS_APP_SECRET",
+  "LINNWORKS_INSTALL_TOKEN",
+  "SHOPIFY_ACCESS_TOKEN",
+  "SHOPIFY_ADMIN_ACCESS_TOKEN",
+  "SHOPIFY_API_SECRET_KEY",
+  "SHOPIFY_CLIENT_SECRET",
+  "SHOPIFY_WEBHOOK_SECRET",
+  "STRIPE_SECRET_KEY",
+  "STRIPE_WEBHOOK_SECRET",
+  "CRON_SECRET",
+  "TWILIO_AUTH_TOKEN",
+];
+
+function secretEnvValues() {
+  // short values would mask ordinary text
+  return SECRET_ENV.map((k) => process.env[k]).filter((v): v is string => !!v && v.length >= 8);
+}
+
+function maskString(s: string, secrets: string[]) {
+  let out = s;
+  for (const v of secrets) out = out.split(v).join("[redacted]");
+  return out;
+}
+
+/** Deep copy of `value` with credential-looking fields and known secret values masked. */
+export function redactSecrets(value: any, secrets = secretEnvValues()): any {
+  if (value == null) return value;
+  if (typeof value === "string") return maskString(value, secrets);
+  if (Array.isArray(value)) return value.map((v) => redactSecrets(v, secrets));
+  if (value instanceof Date) return value;
+  if (typeof value === "object") {
+    const out: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) {
+      out[k] = SECRET_KEY.test(k) && v != null && typeof v !== "object" ? "[redacted]" : redactSecrets(v, secrets);
+    }
+    return out;
+  }
+  return value;
+}
+
+/**
+ * Wrap a diagnostics handler: 404 when disabled, admin only, audited, and the JSON
+ * body redacted before it leaves the server.
+ */
+export function diagnosticRoute(toolId: string, handler: (req: Request) => Promise<Response>) {
+  return async function GET(req: Request) {
+    if (!diagnosticsEnabled()) {
+      return NextResponse.json({ error: "Diagnostics are disabled" }, { status: 404 });
+    }
+    const me = await getCurrentUser();
+    if (!isAdmin(me)) return NextResponse.json({ error: "Admin only" }, { status: 403 });
+
+    const query = Object.fromEntries(new URL(req.url).searchParams.entries());
+    const res = await handler(req);
+    await writeAudit({
+      userId: me!.id,
+      action: "diagnostics.run",
+      entityType: "Diagnostics",
+      entityId: toolId,
+      details: { query, status: res.status },
+    });
+
+    const text = await res.text();
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      body = { raw: text };
+    }
+    return NextResponse.json(redactSecrets(body), {
+      status: res.status,
+      headers: { "Cache-Control": "no-store" },
+    });
+  };
+}
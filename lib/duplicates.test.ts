@@ -0,0 +1,186 @@
+// lib/duplicates.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/audit", () => ({ writeAudit: vi.fn(async () => {}) }));
+vi.mock("@/lib/contacts", () => ({ ensureContacts: async () => {}, syncPrimaryFromCustomer: async () => {} }));
+vi.mock("@/lib/geocode", () => ({ geocodeCustomer: async () => {} }));
+vi.mock("@/lib/customerSearch", () => ({ indexCustomerSearch: async () => {} }));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { writeAudit } from "@/lib/audit";
+import { duplicatesWithin, flagDuplicatesOf, mergeCustomers } from "@/lib/duplicates";
+
+function customer(id: string, salonName: string) {
+  return {
+    id,
+    salonName,
+    stage: "LEAD",
+    tags: [],
+    shopifyCustomerId: null,
+    shopifyTags: [],
+    mergedShopifyCustomerIds: [],
+  };
+}
+
+function input(salonName: string, fields: { postCode?: string; phone?: string; email?: string; town?: string } = {}) {
+  return {
+    salonName,
+    postCode: fields.postCode ?? null,
+    customerTelephone: fields.phone ?? null,
+    customerEmailAddress: fields.email ?? null,
+    town: fields.town ?? null,
+  };
+}
+
+describe("duplicate detection", () => {
+  it("pairs the same salon written differently", () => {
+    const pairs = duplicatesWithin([
+      input("The Hair Lounge Ltd", { postCode: "b1 1aa", phone: "+44 121 496 0000" }),
+      input("Hair Lounge", { postCode: "B1 1AA", phone: "0121 4960000" }),
+    ]);
+
+    expect(pairs).toEqual([{ a: 0, b: 1, score: 1, reasons: ["phone", "postcode", "name"] }]);
+  });
+
+  it("doesn't pair salons that only share one weak signal", () => {
+    const pairs = duplicatesWithin([
+      // a chain's branches share an email
+      input("Cutting Room Moseley", { email: "info@cuttingroom.co.uk", postCode: "B13 8AA" }),
+      input("Cutting Room Harborne", { email: "info@cuttingroom.co.uk", postCode: "B17 9AA" }),
+      // neighbours share a postcode
+      input("Fringe Benefits", { postCode: "B13 8AA" }),
+    ]);
+
+    expect(pairs).toEqual([]);
+  });
+
+  it("queues a new customer's duplicates once and leaves dismissed pairs alone", async () => {
+    fakeDb.reset(
+      {
+        customer: [
+          { id: "a", ...input("Hair Lounge", { postCode: "B1 1AA", email: "hello@hairlounge.com" }) },
+          { id: "b", ...input("The Hair Lounge", { postCode: "B1 1AA", email: "HELLO@hairlounge.com" }) },
+          { id: "c", ...input("Hair Lounge", { postCode: "B1 1AA", email: "hello@hairlounge.com" }) },
+        ],
+        customerDuplicate: [{ id: "d1", customerAId: "a", customerBId: "c", score: 1, reasons: [], status: "DISMISSED" }],
+      },
+      { unique: { customerDuplicate: [["customerAId", "customerBId"]] } }
+    );
+
+    expect(await flagDuplicatesOf("a")).toBe(2);
+    await flagDuplicatesOf("a");
+
+    expect(fakeDb.rows("customerDuplicate")).toMatchObject([
+      { customerAId: "a", customerBId: "c", status: "DISMISSED" },
+      { customerAId: "a", customerBId: "b", reasons: ["email", "postcode", "name"] },
+    ]);
+  });
+});
+
+describe("mergeCustomers", () => {
+  beforeEach(() => {
+    fakeDb.reset(
+      {
+        customer: [customer("keep", "Salon A"), customer("gone", "Salon A Ltd")],
+        task: [
+          { id: "t1", customerId: "keep", title: "Send samples" },
+          { id: "t2", customerId: "gone", title: "Chase order" },
+          { id: "t3", customerId: "gone", title: "Book education" },
+        ],
+        callLog: [{ id: "call1", customerId: "gone" }],
+      },
+      // tasks go with their customer, as in the schema (Task.customer onDelete: Cascade)
+      { cascade: { customer: { task: "customerId" } } }
+    );
+  });
+
+  it("moves the merged customer's tasks to the survivor before deleting it", async () => {
+    const result = await mergeCustomers("keep", "gone", null);
+
+    expect(fakeDb.rows("customer").map((c) => c.id)).toEqual(["keep"]);
+    expect(fakeDb.rows("task").map((t) => [t.id, t.customerId])).toEqual([
+      ["t1", "keep"],
+      ["t2", "keep"],
+      ["t3", "keep"],
+    ]);
+    expect(result.moved.tasks).toBe(2);
+  });
+
+  it("moves calls too", async () => {
+    const result = await mergeCustomers("keep", "gone", null);
+
+    expect(fakeDb.rows("callLog")).toMatchObject([{ id: "call1", customerId: "keep" }]);
+    expect(result.moved.calls).toBe(1);
+  });
+
+  it("refuses to merge a customer into itself", async () => {
+    await expect(mergeCustomers("keep", "keep", null)).rejects.toThrow();
+  });
+});
+
+describe("mergeCustomers reconciliation", () => {
+  beforeEach(() => {
+    fakeDb.reset({
+      customer: [
+        { ...customer("keep", "Salon A"), customerTelephone: null, town: "Leeds" },
+        { ...customer("gone", "Salon A Ltd"), stage: "SAMPLING", customerTelephone: "0113 496 0000", town: "York", shopifyCustomerId: "900" },
+      ],
+      customerProductPar: [
+        { id: "p1", customerId: "keep", sku: "SHAMPOO", par: 6 },
+        { id: "p2", customerId: "gone", sku: "SHAMPOO", par: 2 },
+        { id: "p3", customerId: "gone", sku: "MASK", par: 4 },
+      ],
+    });
+  });
+
+  it("fills the survivor's blanks, keeps the further stage and takes the Shopify link", async () => {
+    const result = await mergeCustomers("keep", "gone", "amy");
+
+    expect(fakeDb.rows("customer")).toMatchObject([
+      { id: "keep", customerTelephone: "0113 496 0000", town: "Leeds", stage: "SAMPLING", shopifyCustomerId: "900", mergedShopifyCustomerIds: [] },
+    ]);
+    expect(result.filled).toEqual(expect.arrayContaining(["customerTelephone", "stage"]));
+    expect(fakeDb.rows("stageChange")).toMatchObject([
+      { customerId: "keep", fromStage: "LEAD", toStage: "SAMPLING", cause: "MERGE", userId: "amy" },
+    ]);
+  });
+
+  it("keeps the survivor's own Shopify link and remembers the other as an alias", async () => {
+    fakeDb.rows("customer")[0].shopifyCustomerId = "100";
+
+    await mergeCustomers("keep", "gone", null);
+
+    expect(fakeDb.rows("customer")[0]).toMatchObject({ shopifyCustomerId: "100", mergedShopifyCustomerIds: ["900"] });
+  });
+
+  it("keeps the survivor's PAR for a SKU both have", async () => {
+    const result = await mergeCustomers("keep", "gone", null);
+
+    const pars = fakeDb.rows("customerProductPar").filter((p) => p.customerId === "keep");
+    expect(pars.map((p) => [p.sku, p.par])).toEqual([
+      ["SHAMPOO", 6],
+      ["MASK", 4],
+    ]);
+    expect(result.moved.pars).toBe(1);
+  });
+
+  it("records the merge in the audit log", async () => {
+    vi.mocked(writeAudit).mockClear();
+
+    await mergeCustomers("keep", "gone", "amy");
+
+    expect(writeAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "amy",
+        action: "customer.merge",
+        entityId: "keep",
+        details: expect.objectContaining({
+          mergedId: "gone",
+          mergedShopifyCustomerId: "900",
+          changes: expect.objectContaining({ shopifyCustomerId: { from: null, to: "900" } }),
+        }),
+      })
+    );
+  });
+});
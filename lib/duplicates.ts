@@ -0,0 +1,448 @@
+// lib/duplicates.ts
+// Duplicate customer detection (normalised name, postcode, phone, email) and merging.
+// Customers arrive from the form, /api/customers and Shopify sync, so the same salon
+// can exist more than once; suspected pairs go to a review queue (CustomerDuplicate).
+import type { Prisma } from "@prisma/client";
+import { auditedTransaction, prisma, unscopedPrisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+import { ensureContacts, syncPrimaryFromCustomer } from "@/lib/contacts";
+import { geocodeCustomer } from "@/lib/geocode";
+import { indexCustomerSearch } from "@/lib/customerSearch";
+import { normaliseTags } from "@/lib/customerTags";
+import { stageRank } from "@/lib/pipeline";
+import { stageLossData } from "@/lib/stageHistory";
+
+/* ---- normalisation ---- */
+
+const NAME_NOISE = new Set(["the", "ltd", "limited", "llp", "plc", "co", "and", "uk"]);
+
+export function normName(s?: string | null) {
+  return String(s ?? "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .split(/\s+/)
+    .filter((w) => w && !NAME_NOISE.has(w))
+    .join(" ");
+}
+
+export function normPostcode(s?: string | null) {
+  const p = String(s ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  return p.length >= 5 ? p : "";
+}
+
+/** Last 10 digits, with a +44/0044 prefix folded to the national 0. */
+export function normPhone(s?: string | null) {
+  let d = String(s ?? "").replace(/\D/g, "");
+  if (d.startsWith("0044")) d = "0" + d.slice(4);
+  else if (d.startsWith("44") && d.length >= 12) d = "0" + d.slice(2);
+  return d.length >= 9 ? d.slice(-10) : "";
+}
+
+export function normEmail(s?: string | null) {
+  const e = String(s ?? "").trim().toLowerCase();
+  return e.includes("@") ? e : "";
+}
+
+/** Sørensen–Dice coefficient over character bigrams (0..1). */
+export function nameSimilarity(a: string, b: string) {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  const grams = (s: string) => {
+    const t = s.replace(/ /g, "");
+    const m = new Map<string, number>();
+    for (let i = 0; i < t.length - 1; i++) m.set(t.slice(i, i + 2), (m.get(t.slice(i, i + 2)) ?? 0) + 1);
+    return m;
+  };
+  const ga = grams(a);
+  const gb = grams(b);
+  let overlap = 0;
+  let total = 0;
+  for (const [g, n] of ga) {
+    overlap += Math.min(n, gb.get(g) ?? 0);
+    total += n;
+  }
+  for (const n of gb.values()) total += n;
+  return total ? (2 * overlap) / total : 0;
+}
+
+/* ---- scoring ---- */
+
+type Candidate = {
+  id: string;
+  name: string;
+  postcode: string;
+  phone: string;
+  email: string;
+  town: string;
+};
+
+const CANDIDATE_SELECT = {
+  id: true,
+  salonName: true,
+  postCode: true,
+  customerTelephone: true,
+  customerEmailAddress: true,
+  town: true,
+} satisfies Prisma.CustomerSelect;
+
+type CandidateFields = Prisma.CustomerGetPayload<{ select: typeof CANDIDATE_SELECT }>;
+
+function toCandidate(c: CandidateFields): Candidate {
+  return {
+    id: c.id,
+    name: normName(c.salonName),
+    postcode: normPostcode(c.postCode),
+    phone: normPhone(c.customerTelephone),
+    email: normEmail(c.customerEmailAddress),
+    town: normName(c.town),
+  };
+}
+
+/** Pairs at or above this score are queued for review. */
+export const DUPLICATE_THRESHOLD = 0.7;
+
+/**
+ * Evidence that two customers are the same salon. No single signal is enough on
+ * its own: chains share an email, neighbours share a postcode.
+ */
+export function scorePair(a: Candidate, b: Candidate) {
+  let score = 0;
+  const reasons: string[] = [];
+  if (a.email && a.email === b.email) {
+    score += 0.6;
+    reasons.push("email");
+  }
+  if (a.phone && a.phone === b.phone) {
+    score += 0.5;
+    reasons.push("phone");
+  }
+  if (a.postcode && a.postcode === b.postcode) {
+    score += 0.3;
+    reasons.push("postcode");
+  }
+  const sim = nameSimilarity(a.name, b.name);
+  if (sim >= 0.6) {
+    score += 0.5 * sim;
+    reasons.push(sim === 1 ? "name" : "similar name");
+  }
+  if (a.town && a.town === b.town) score += 0.1;
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons };
+}
+
+// Groups bigger than this (a shared office phone, a placeholder email) are noise
+const MAX_BLOCK = 50;
+
+function blockKeys(c: Candidate) {
+  const keys: string[] = [];
+  if (c.email) keys.push(`e:${c.email}`);
+  if (c.phone) keys.push(`p:${c.phone}`);
+  if (c.postcode) keys.push(`z:${c.postcode}`);
+  if (c.name) keys.push(`n:${c.name}`);
+  return keys;
+}
+
+function blockIndex(all: Candidate[]) {
+  const blocks = new Map<string, Candidate[]>();
+  for (const c of all) {
+    for (const k of blockKeys(c)) {
+      const list = blocks.get(k);
+      if (list) list.push(c);
+      else blocks.set(k, [c]);
+    }
+  }
+  return blocks;
+}
+
+function findPairs(all: Candidate[]) {
+  const blocks = blockIndex(all);
+  const pairs = new Map<string, { aId: string; bId: string; score: number; reasons: string[] }>();
+  for (const list of blocks.values()) {
+    if (list.length < 2 || list.length > MAX_BLOCK) continue;
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const [a, b] = list[i].id < list[j].id ? [list[i], list[j]] : [list[j], list[i]];
+        const key = `${a.id}|${b.id}`;
+        if (pairs.has(key)) continue;
+        const { score, reasons } = scorePair(a, b);
+        if (score >= DUPLICATE_THRESHOLD) pairs.set(key, { aId: a.id, bId: b.id, score, reasons });
+      }
+    }
+  }
+  return [...pairs.values()];
+}
+
+export type DuplicateMatch = { id: string; salonName: string; score: number; reasons: string[] };
+
+/**
+ * For records not saved yet (e.g. import rows): the best existing customer each one
+ * would duplicate, or null. Index i of the result answers inputs[i].
+ */
+export async function matchExistingCustomers(
+  inputs: Omit<CandidateFields, "id">[]
+): Promise<(DuplicateMatch | null)[]> {
+  const rows = await unscopedPrisma.customer.findMany({ select: CANDIDATE_SELECT });
+  const names = new Map(rows.map((r) => [r.id, r.salonName]));
+  const blocks = blockIndex(rows.map(toCandidate));
+
+  return inputs.map((input, i) => {
+    const c = toCandidate({ ...input, id: `new:${i}` });
+    let best: DuplicateMatch | null = null;
+    for (const k of blockKeys(c)) {
+      const list = blocks.get(k) ?? [];
+      if (list.length > MAX_BLOCK) continue;
+      for (const other of list) {
+        const { score, reasons } = scorePair(c, other);
+        if (score >= DUPLICATE_THRESHOLD && (!best || score > best.score)) {
+          best = { id: other.id, salonName: names.get(other.id) ?? "", score, reasons };
+        }
+      }
+    }
+    return best;
+  });
+}
+
+/** Pairs of indexes within `inputs` that look like the same salon. */
+export function duplicatesWithin(inputs: Omit<CandidateFields, "id">[]) {
+  // zero-padded so the id order used by findPairs matches index order
+  const pad = (i: number) => String(i).padStart(6, "0");
+  return findPairs(inputs.map((input, i) => toCandidate({ ...input, id: pad(i) }))).map((p) => ({
+    a: Number(p.aId),
+    b: Number(p.bId),
+    score: p.score,
+    reasons: p.reasons,
+  }));
+}
+
+async function saveOpenPairs(pairs: { aId: string; bId: string; score: number; reasons: string[] }[]) {
+  for (const p of pairs) {
+    // dismissed pairs stay dismissed; open ones get a fresh score
+    await prisma.customerDuplicate.upsert({
+      where: { customerAId_customerBId: { customerAId: p.aId, customerBId: p.bId } },
+      create: { customerAId: p.aId, customerBId: p.bId, score: p.score, reasons: p.reasons },
+      update: { score: p.score, reasons: p.reasons },
+    });
+  }
+}
+
+/** Rescan every customer; open pairs that no longer score are dropped. */
+export async function scanDuplicates() {
+  const rows = await unscopedPrisma.customer.findMany({ select: CANDIDATE_SELECT });
+  const pairs = findPairs(rows.map(toCandidate));
+  await saveOpenPairs(pairs);
+
+  const keep = new Set(pairs.map((p) => `${p.aId}|${p.bId}`));
+  const open = await prisma.customerDuplicate.findMany({
+    where: { status: "OPEN" },
+    select: { id: true, customerAId: true, customerBId: true },
+  });
+  const stale = open.filter((d) => !keep.has(`${d.customerAId}|${d.customerBId}`)).map((d) => d.id);
+  if (stale.length) await prisma.customerDuplicate.deleteMany({ where: { id: { in: stale } } });
+
+  return { scanned: rows.length, pairs: pairs.length, removed: stale.length };
+}
+
+/**
+ * Queue likely duplicates of one (usually just-created) customer. Never throws:
+ * detection must not block creating the customer.
+ */
+export async function flagDuplicatesOf(customerId: string) {
+  try {
+    const me = await unscopedPrisma.customer.findUnique({ where: { id: customerId }, select: CANDIDATE_SELECT });
+    if (!me) return 0;
+    const c = toCandidate(me);
+
+    const or: Prisma.CustomerWhereInput[] = [];
+    if (c.email) or.push({ customerEmailAddress: { equals: c.email, mode: "insensitive" } });
+    if (me.postCode && c.postcode) or.push({ postCode: { equals: me.postCode.trim(), mode: "insensitive" } });
+    if (me.customerTelephone) {
+      const tail = c.phone.slice(-6);
+      if (tail) or.push({ customerTelephone: { contains: tail } });
+    }
+    if (c.name) {
+      const first = c.name.split(" ")[0];
+      if (first.length >= 3) or.push({ salonName: { contains: first, mode: "insensitive" } });
+    }
+    if (!or.length) return 0;
+
+    // unscoped: a rep creating a customer can still duplicate another rep's
+    const others = await unscopedPrisma.customer.findMany({
+      where: { id: { not: customerId }, OR: or },
+      select: CANDIDATE_SELECT,
+      take: 200,
+    });
+    const pairs = findPairs([c, ...others.map(toCandidate)]).filter(
+      (p) => p.aId === customerId || p.bId === customerId
+    );
+    await saveOpenPairs(pairs);
+    return pairs.length;
+  } catch (e) {
+    console.error("[duplicates] flag failed:", customerId, e);
+    return 0;
+  }
+}
+
+/* ---- merging ---- */
+
+// Survivor's blank fields are filled from the merged customer
+const FILLABLE = [
+  "customerName",
+  "addressLine1",
+  "addressLine2",
+  "town",
+  "county",
+  "postCode",
+  "country",
+  "daysOpen",
+  "brandsInterestedIn",
+  "notes",
+  "salesRep",
+  "salesRepId",
+  "customerNumber",
+  "customerTelephone",
+  "customerEmailAddress",
+  "openingHours",
+  "numberOfChairs",
+  "paymentTermsName",
+  "paymentTermsDueInDays",
+] as const;
+
+export class MergeError extends Error {}
+
+/**
+ * Merge `mergedId` into `survivorId`: re-point visits, notes, calls, orders,
+ * education requests/bookings, contacts, PARs and tasks, fill gaps on the survivor,
+ * reconcile the Shopify link, then delete the merged customer (its stage history goes
+ * with it; a stage taken over from it is recorded as a MERGE move). Recorded as
+ * customer.merge.
+ */
+export async function mergeCustomers(survivorId: string, mergedId: string, actorId: string | null) {
+  if (survivorId === mergedId) throw new MergeError("Pick two different customers");
+
+  const [survivor, merged] = await Promise.all([
+    prisma.customer.findUnique({ where: { id: survivorId } }),
+    prisma.customer.findUnique({ where: { id: mergedId } }),
+  ]);
+  if (!survivor || !merged) throw new MergeError("Customer not found");
+
+  const fill: Record<string, any> = {};
+  for (const f of FILLABLE) {
+    const have = (survivor as any)[f];
+    const other = (merged as any)[f];
+    if ((have == null || have === "") && other != null && other !== "") fill[f] = other;
+  }
+  // keep the furthest-along stage and the union of CRM tags (the next push adds the
+  // merged customer's to Shopify). shopifyTags is the sync baseline, so it follows
+  // whichever Shopify record the survivor ends up linked to.
+  if (stageRank(merged.stage) > stageRank(survivor.stage)) {
+    fill.stage = merged.stage;
+    // back on the pipeline, so a lost/dormant survivor's reason no longer applies
+    Object.assign(fill, stageLossData(merged.stage, null));
+  }
+  const tags = normaliseTags([...survivor.tags, ...merged.tags]);
+  if (tags.length !== survivor.tags.length) fill.tags = tags;
+  if (!survivor.shopifyCustomerId && merged.shopifyCustomerId) {
+    fill.shopifyTags = merged.shopifyTags;
+    fill.tagsSyncedAt = merged.tagsSyncedAt;
+  }
+
+  // Shopify: survivor takes the merged link if it has none; otherwise the merged
+  // id becomes an alias so its orders and webhooks still land on the survivor
+  const aliases = new Set([...survivor.mergedShopifyCustomerIds, ...merged.mergedShopifyCustomerIds]);
+  let shopifyCustomerId = survivor.shopifyCustomerId;
+  if (merged.shopifyCustomerId) {
+    if (!shopifyCustomerId) shopifyCustomerId = merged.shopifyCustomerId;
+    else if (merged.shopifyCustomerId !== shopifyCustomerId) aliases.add(merged.shopifyCustomerId);
+  }
+  if (shopifyCustomerId) aliases.delete(shopifyCustomerId);
+
+  await Promise.all([ensureContacts(survivorId), ensureContacts(mergedId)]);
+
+  const moved = await auditedTransaction(async (tx) => {
+    const to = { customerId: survivorId };
+    const from = { customerId: mergedId };
+    const visits = await tx.visit.updateMany({ where: from, data: to });
+    const notes = await tx.note.updateMany({ where: from, data: to });
+    const calls = await tx.callLog.updateMany({ where: from, data: to });
+    const orders = await tx.order.updateMany({ where: from, data: to });
+    const educationRequests = await tx.educationRequest.updateMany({ where: from, data: to });
+    const educationBookings = await tx.educationBooking.updateMany({ where: from, data: to });
+    // tasks cascade with their customer, so they must move before the delete
+    const tasks = await tx.task.updateMany({ where: from, data: to });
+
+    // contacts come across as secondary ones unless the survivor has no primary
+    if (await tx.contact.count({ where: { customerId: survivorId, isPrimary: true } })) {
+      await tx.contact.updateMany({ where: from, data: { isPrimary: false } });
+    }
+    const contacts = await tx.contact.updateMany({ where: from, data: to });
+
+    // PARs are unique per customer+SKU: the survivor's own PAR wins
+    const have = await tx.customerProductPar.findMany({ where: { customerId: survivorId }, select: { sku: true } });
+    const pars = await tx.customerProductPar.updateMany({
+      where: { customerId: mergedId, sku: { notIn: have.map((p) => p.sku) } },
+      data: to,
+    });
+
+    // custom field values fill the survivor's blanks
+    const haveFields = await tx.customerFieldValue.findMany({ where: { customerId: survivorId }, select: { fieldId: true } });
+    const fieldValues = await tx.customerFieldValue.updateMany({
+      where: { customerId: mergedId, fieldId: { notIn: haveFields.map((v) => v.fieldId) } },
+      data: to,
+    });
+
+    // free the unique Shopify id before the survivor takes it
+    if (merged.shopifyCustomerId) {
+      await tx.customer.update({ where: { id: mergedId }, data: { shopifyCustomerId: null } });
+    }
+    await tx.customer.update({
+      where: { id: survivorId },
+      data: { ...fill, shopifyCustomerId, mergedShopifyCustomerIds: Array.from(aliases) },
+    });
+    if (fill.stage) {
+      await tx.stageChange.create({
+        data: { customerId: survivorId, fromStage: survivor.stage, toStage: fill.stage, cause: "MERGE", userId: actorId },
+      });
+    }
+    await tx.customer.delete({ where: { id: mergedId } });
+
+    return {
+      visits: visits.count,
+      notes: notes.count,
+      calls: calls.count,
+      orders: orders.count,
+      educationRequests: educationRequests.count,
+      educationBookings: educationBookings.count,
+      tasks: tasks.count,
+      contacts: contacts.count,
+      pars: pars.count,
+      fieldValues: fieldValues.count,
+    };
+  }, { timeout: 30_000 });
+  // phone/email filled from the merged record belong on the primary contact too
+  await syncPrimaryFromCustomer(survivorId);
+  await geocodeCustomer(survivorId);
+  await indexCustomerSearch(survivorId);
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const [k, v] of Object.entries(fill)) changes[k] = { from: (survivor as any)[k] ?? null, to: v };
+  if (shopifyCustomerId !== survivor.shopifyCustomerId) {
+    changes.shopifyCustomerId = { from: survivor.shopifyCustomerId, to: shopifyCustomerId };
+  }
+
+  await writeAudit({
+    userId: actorId,
+    action: "customer.merge",
+    entityType: "Customer",
+    entityId: survivorId,
+    details: {
+      customerId: survivorId,
+      mergedId,
+      mergedSalonName: merged.salonName,
+      mergedShopifyCustomerId: merged.shopifyCustomerId,
+      changes,
+      moved,
+    },
+  });
+
+  return { survivorId, mergedId, moved, filled: Object.keys(fill) };
+}
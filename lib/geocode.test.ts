@@ -0,0 +1,76 @@
+// lib/geocode.test.ts
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+// stands in for the bundled data/postcode-districts.csv (which has no "B" rows here)
+const extract = vi.hoisted(() => "postcode,latitude,longitude\nSW1A 1,51.50200,-0.14229\nSW1A,51.50247,-0.13740\nE1,51.51700,-0.05800\n");
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("fs", async (importOriginal) => {
+  const fs = await importOriginal<typeof import("fs")>();
+  const readFile = (async (file: string, ...rest: unknown[]) =>
+    file === path.resolve(process.cwd(), "data/postcode-districts.csv")
+      ? extract
+      : (fs.promises.readFile as (...a: unknown[]) => unknown)(file, ...rest)) as typeof fs.promises.readFile;
+  const promises = { ...fs.promises, readFile };
+  return { ...fs, promises, default: { ...fs, promises } };
+});
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { geocodeCustomer, registerGeocoder } from "@/lib/geocode";
+
+function customer(id: string, postCode: string) {
+  return { id, postCode, latitude: null, longitude: null, geoPrecision: null, geocodedPostCode: null, geocodedAt: null };
+}
+
+const stored = (id: string) => fakeDb.rows("customer").find((c) => c.id === id);
+
+describe("geocodeCustomer", () => {
+  beforeEach(() => {
+    delete process.env.POSTCODE_CENTROIDS_FILE;
+    delete process.env.GEOCODER;
+    fakeDb.reset({ customer: [customer("a", "b1 1aa"), customer("b", "SW1A 1AA"), customer("c", "e1 6an")] });
+  });
+
+  it("places a full postcode from the bundled extract with nothing configured", async () => {
+    await geocodeCustomer("b");
+    await geocodeCustomer("c");
+
+    expect(stored("b")).toMatchObject({ latitude: 51.502, longitude: -0.14229, geoPrecision: "sector", geocodedPostCode: "SW1A 1AA" });
+    expect(stored("c")).toMatchObject({ latitude: 51.517, longitude: -0.058, geoPrecision: "district" });
+  });
+
+  it("records an area-only match without storing it as a position", async () => {
+    await geocodeCustomer("a");
+
+    expect(stored("a")).toMatchObject({
+      latitude: null,
+      longitude: null,
+      geoPrecision: "area",
+      geocodedPostCode: "B1 1AA",
+    });
+    expect(stored("a")!.geocodedAt).toBeInstanceOf(Date);
+  });
+
+  it("stores finer matches as the customer's position", async () => {
+    registerGeocoder("test", {
+      async geocode() {
+        return new Map([["SW1A 1AA", { latitude: 51.501, longitude: -0.142, precision: "postcode" as const }]]);
+      },
+    });
+    process.env.GEOCODER = "test";
+
+    await geocodeCustomer("b");
+
+    expect(stored("b")).toMatchObject({ latitude: 51.501, longitude: -0.142, geoPrecision: "postcode" });
+  });
+
+  it("skips customers whose postcode was already geocoded", async () => {
+    fakeDb.rows("customer")[0].geocodedPostCode = "B1 1AA";
+    fakeDb.rows("customer")[0].geocodedAt = new Date(0);
+
+    await geocodeCustomer("a");
+
+    expect(stored("a")!.geoPrecision).toBeNull();
+  });
+});
@@ -0,0 +1,320 @@
+// lib/geocode.ts
+// Postcode → coordinates behind a small geocoder interface. GEOCODER picks one:
+//   "bundled" (default) — offline: the centroid extract (POSTCODE_CENTROIDS_FILE,
+//                         or data/postcode-districts.csv when that's unset), then
+//                         the postcode-area table in lib/postcodeAreas.ts
+//   "postcodes.io"      — exact postcode centroids from api.postcodes.io, falling
+//                         back to "bundled" for anything it can't place
+// Register another geocoder with registerGeocoder.
+//
+// The extract is a CSV of `postcode,latitude,longitude` where the key can be a full
+// postcode ("SW1A 1AA"), a sector ("SW1A 1"), a district ("SW1A") or an area
+// ("SW"); the most specific match wins. The bundled data/postcode-districts.csv is
+// built from the ONS Postcode Directory by scripts/build-postcode-centroids.mjs
+// (sector and district centroids).
+//
+// An area match only says which region a customer is in (every "B" postcode lands
+// on the same point), so it's recorded as geoPrecision "area" with no coordinates:
+// maps, routes and distance filters treat those customers as unplaced rather than
+// stacking them on one spot.
+import { promises as fs } from "fs";
+import path from "path";
+import type { Prisma } from "@prisma/client";
+import { unscopedPrisma } from "@/lib/prisma";
+import { POSTCODE_AREAS } from "@/lib/postcodeAreas";
+
+export type GeoPrecision = "postcode" | "sector" | "district" | "area";
+
+export type GeoPoint = { latitude: number; longitude: number; precision: GeoPrecision };
+
+export type Geocoder = {
+  /** Positions keyed by normalised postcode; postcodes it can't place are left out. */
+  geocode(postcodes: string[]): Promise<Map<string, GeoPoint>>;
+};
+
+type PostcodeParts = { full: string | null; sector: string | null; district: string; area: string };
+
+/** Split a UK postcode ("sw1a1aa", "SW1A 1AA", or just "SW1A"); null if it isn't one. */
+export function postcodeParts(v: unknown): PostcodeParts | null {
+  const s = String(v ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const m = /^(([A-Z]{1,2})\d[A-Z\d]?)(\d[A-Z]{2})?$/.exec(s);
+  if (!m) return null;
+  const [, district, area, inward] = m;
+  return {
+    full: inward ? `${district} ${inward}` : null,
+    sector: inward ? `${district} ${inward[0]}` : null,
+    district,
+    area,
+  };
+}
+
+/** "sw1a1aa" → "SW1A 1AA", "sw1a" → "SW1A"; null when it doesn't look like a UK postcode. */
+export function normalisePostcode(v: unknown): string | null {
+  const p = postcodeParts(v);
+  return p ? p.full ?? p.district : null;
+}
+
+/* ---------------- bundled (offline) ---------------- */
+
+/** The extract shipped with the app, used when POSTCODE_CENTROIDS_FILE isn't set. */
+const BUNDLED_CENTROIDS = "data/postcode-districts.csv";
+
+let centroidFile: Promise<Map<string, [number, number]>> | null = null;
+
+/** File keys as written ("SW1A 1", "SW1A") — full postcodes may drop the space. */
+function fileKey(raw: string) {
+  const k = raw.trim().toUpperCase().replace(/\s+/g, " ");
+  const p = !k.includes(" ") ? postcodeParts(k) : null;
+  return p?.full ?? k;
+}
+
+function loadCentroidFile() {
+  const file = path.resolve(process.cwd(), process.env.POSTCODE_CENTROIDS_FILE || BUNDLED_CENTROIDS);
+  if (!centroidFile) centroidFile = fs.readFile(file, "utf8").then(
+    (text) => {
+      const map = new Map<string, [number, number]>();
+      for (const line of text.split(/\r?\n/)) {
+        const [key, lat, lng] = line.split(",");
+        const latitude = Number(lat);
+        const longitude = Number(lng);
+        if (!key || !Number.isFinite(latitude) || !Number.isFinite(longitude) || !lat?.trim() || !lng?.trim()) continue;
+        map.set(fileKey(key.replace(/"/g, "")), [latitude, longitude]);
+      }
+      return map;
+    },
+    (err) => {
+      console.error(`[geocode] could not read postcode centroids ${file} (build it with scripts/build-postcode-centroids.mjs):`, err);
+      return new Map<string, [number, number]>();
+    }
+  );
+  return centroidFile;
+}
+
+const bundledGeocoder: Geocoder = {
+  async geocode(postcodes) {
+    const file = await loadCentroidFile();
+    const out = new Map<string, GeoPoint>();
+    for (const pc of postcodes) {
+      const p = postcodeParts(pc);
+      if (!p) continue;
+      const tries: [string | null, GeoPrecision][] = [
+        [p.full, "postcode"],
+        [p.sector, "sector"],
+        [p.district, "district"],
+        [p.area, "area"],
+      ];
+      for (const [key, precision] of tries) {
+        const hit = key ? file.get(key) ?? (precision === "area" ? POSTCODE_AREAS[key] : undefined) : undefined;
+        if (hit) {
+          out.set(normalisePostcode(pc)!, { latitude: hit[0], longitude: hit[1], precision });
+          break;
+        }
+      }
+    }
+    return out;
+  },
+};
+
+/* ---------------- postcodes.io (online) ---------------- */
+
+const POSTCODES_IO_BATCH = 100; // API limit per bulk lookup
+
+const postcodesIoGeocoder: Geocoder = {
+  async geocode(postcodes) {
+    const out = new Map<string, GeoPoint>();
+    const full = [...new Set(postcodes.map((pc) => postcodeParts(pc)?.full).filter((x): x is string => !!x))];
+    for (let i = 0; i < full.length; i += POSTCODES_IO_BATCH) {
+      const batch = full.slice(i, i + POSTCODES_IO_BATCH);
+      try {
+        const r = await fetch("https://api.postcodes.io/postcodes", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ postcodes: batch }),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!r.ok) throw new Error(`postcodes.io ${r.status}`);
+        const j = await r.json();
+        for (const row of j?.result ?? []) {
+          const lat = Number(row?.result?.latitude);
+          const lng = Number(row?.result?.longitude);
+          if (row?.result && Number.isFinite(lat) && Number.isFinite(lng)) {
+            out.set(normalisePostcode(row.query)!, { latitude: lat, longitude: lng, precision: "postcode" });
+          }
+        }
+      } catch (err) {
+        console.error("[geocode] postcodes.io lookup failed:", err);
+      }
+    }
+    const missing = postcodes.filter((pc) => !out.has(normalisePostcode(pc) ?? ""));
+    if (missing.length) for (const [k, v] of await bundledGeocoder.geocode(missing)) out.set(k, v);
+    return out;
+  },
+};
+
+const geocoders: Record<string, Geocoder> = {
+  bundled: bundledGeocoder,
+  "postcodes.io": postcodesIoGeocoder,
+};
+
+export function registerGeocoder(name: string, geocoder: Geocoder) {
+  geocoders[name] = geocoder;
+}
+
+export function getGeocoder(): Geocoder {
+  const name = (process.env.GEOCODER || "bundled").toLowerCase();
+  const geocoder = geocoders[name];
+  if (!geocoder) throw new Error(`Unknown GEOCODER "${name}"`);
+  return geocoder;
+}
+
+/* ---------------- customers ---------------- */
+
+/** Whether a geocoder result is fine enough to store as the customer's position. */
+export function isPlaceable(point: GeoPoint | null | undefined): point is GeoPoint {
+  return !!point && point.precision !== "area";
+}
+
+/**
+ * Store coordinates for customers whose postcode hasn't been geocoded yet (or has
+ * changed). Postcodes the geocoder can't place are still marked as tried, so the
+ * backfill doesn't keep picking them up; area-only matches keep their precision but
+ * no position. Returns how many got a position and how many only an area.
+ */
+async function geocodeRows(rows: { id: string; postCode: string | null }[]) {
+  const geocoder = getGeocoder();
+  const found = await geocoder.geocode(rows.map((r) => r.postCode ?? "").filter(Boolean));
+  let located = 0;
+  let areaOnly = 0;
+  for (const r of rows) {
+    const pc = normalisePostcode(r.postCode);
+    const hit = pc ? found.get(pc) : undefined;
+    const placed = isPlaceable(hit) ? hit : null;
+    if (placed) located++;
+    else if (hit) areaOnly++;
+    await unscopedPrisma.customer.update({
+      where: { id: r.id },
+      data: {
+        latitude: placed?.latitude ?? null,
+        longitude: placed?.longitude ?? null,
+        geoPrecision: hit?.precision ?? null,
+        geocodedPostCode: pc,
+        geocodedAt: new Date(),
+      },
+    });
+  }
+  return { located, areaOnly };
+}
+
+/**
+ * Keep one customer's coordinates in step with its postcode. Call after anything
+ * that may change the address; never throws, since a missing position only
+ * affects maps and routes.
+ */
+export async function geocodeCustomer(customerId: string) {
+  try {
+    const c = await unscopedPrisma.customer.findUnique({
+      where: { id: customerId },
+      select: { id: true, postCode: true, geocodedPostCode: true, geocodedAt: true },
+    });
+    if (!c) return;
+    if (c.geocodedAt && normalisePostcode(c.postCode) === c.geocodedPostCode) return;
+    await geocodeRows([c]);
+  } catch (err) {
+    console.error(`[geocode] customer ${customerId} failed:`, err);
+  }
+}
+
+/**
+ * Customers with a postcode that have never been through the geocoder, or that
+ * still hold an area-level point as their position (written before area matches
+ * were kept position-less).
+ */
+export const PENDING_GEOCODE: Prisma.CustomerWhereInput = {
+  postCode: { not: null },
+  OR: [{ geocodedAt: null }, { geoPrecision: "area", latitude: { not: null } }],
+};
+
+const GEOCODE_BATCH = 500;
+
+/**
+ * Work through pending customers in batches until none are left or `deadline`
+ * (epoch ms) passes. Safe to re-run: each call picks up where the last stopped.
+ */
+export async function geocodePendingCustomers(deadline = Date.now() + 50_000) {
+  let processed = 0;
+  let located = 0;
+  let areaOnly = 0;
+  while (Date.now() < deadline) {
+    const rows = await unscopedPrisma.customer.findMany({
+      where: PENDING_GEOCODE,
+      select: { id: true, postCode: true },
+      orderBy: { id: "asc" },
+      take: GEOCODE_BATCH,
+    });
+    if (!rows.length) break;
+    const batch = await geocodeRows(rows);
+    located += batch.located;
+    areaOnly += batch.areaOnly;
+    processed += rows.length;
+  }
+  const remaining = await unscopedPrisma.customer.count({ where: PENDING_GEOCODE });
+  return { processed, located, areaOnly, remaining };
+}
+
+/* ---------------- distances ---------------- */
+
+export type LatLng = { latitude: number; longitude: number };
+
+/** Great-circle distance in km. */
+export function distanceKm(a: LatLng, b: LatLng) {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLng = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Parse "52.48,-1.90" (as sent by ?near=) into a point. */
+export function parseLatLng(v: string | null | undefined): LatLng | null {
+  const [a, b] = String(v ?? "").split(",").map((s) => Number(s.trim()));
+  if (!Number.isFinite(a) || !Number.isFinite(b) || Math.abs(a) > 90 || Math.abs(b) > 180) return null;
+  return { latitude: a, longitude: b };
+}
+
+/**
+ * Visit order by nearest neighbour, starting from `start` or else the stop furthest
+ * from the group's centre (so the route sweeps from one end rather than doubling
+ * back). Stops without a position keep their relative order at the end.
+ */
+export function nearestNeighbourOrder<T extends { latitude: number | null; longitude: number | null }>(
+  stops: T[],
+  start?: LatLng | null
+): T[] {
+  const placed = stops.filter((s) => s.latitude != null && s.longitude != null) as (T & LatLng)[];
+  const unplaced = stops.filter((s) => s.latitude == null || s.longitude == null);
+  const out: T[] = [];
+  let here: LatLng | null = start ?? null;
+  if (!here && placed.length) {
+    const centre = {
+      latitude: placed.reduce((s, p) => s + p.latitude, 0) / placed.length,
+      longitude: placed.reduce((s, p) => s + p.longitude, 0) / placed.length,
+    };
+    here = placed.reduce((a, b) => (distanceKm(centre, b) > distanceKm(centre, a) ? b : a));
+  }
+  const left = placed.slice();
+  while (left.length && here) {
+    let best = 0;
+    let bestKm = Infinity;
+    left.forEach((s, i) => {
+      const km = distanceKm(here!, s);
+      if (km < bestKm) {
+        bestKm = km;
+        best = i;
+      }
+    });
+    const [next] = left.splice(best, 1);
+    out.push(next);
+    here = next;
+  }
+  return [...out, ...unplaced];
+}
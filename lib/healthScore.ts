@@ -0,0 +1,143 @@
+// lib/healthScore.ts
+// Customer health score (0–100): how a customer's ordering and call history is
+// trending, so reps see churn risk before the drop-off report would. Pure (no Prisma
+// client), so the list filters can share the bands; lib/customerHealth.ts loads the
+// inputs and stores the daily scores.
+
+export const HEALTH_BANDS = [
+  { key: "healthy", label: "Healthy", min: 70, color: "#dcfce7", text: "#166534" },
+  { key: "watch", label: "Watch", min: 40, color: "#fef9c3", text: "#92400e" },
+  { key: "at_risk", label: "At risk", min: 0, color: "#fee2e2", text: "#991b1b" },
+] as const;
+
+export type HealthBand = (typeof HEALTH_BANDS)[number]["key"];
+
+export function isHealthBand(v: unknown): v is HealthBand {
+  return HEALTH_BANDS.some((b) => b.key === v);
+}
+
+export function healthBand(score: number | null | undefined) {
+  if (score == null) return null;
+  return HEALTH_BANDS.find((b) => score >= b.min) ?? HEALTH_BANDS[HEALTH_BANDS.length - 1];
+}
+
+/** Score range [min, max] covered by a band. */
+export function bandRange(key: HealthBand): [number, number] {
+  const i = HEALTH_BANDS.findIndex((b) => b.key === key);
+  return [HEALTH_BANDS[i].min, i === 0 ? 100 : HEALTH_BANDS[i - 1].min - 1];
+}
+
+/** Call outcomes that count against the customer. */
+export const NEGATIVE_OUTCOMES = ["No Interest", "No Sale", "Sample Reviewed - Negative"];
+
+export type HealthInputs = {
+  lastOrderAt: Date | null;
+  /** Orders from the last year (totals inc. VAT, as Shopify reports them). */
+  orders: { at: Date; total: number; refunded: number; vendors: string[] }[];
+  /** Calls from the last 180 days. */
+  calls: { at: Date; outcome: string | null }[];
+};
+
+export type HealthFactor = { points: number; max: number; detail: string };
+
+export type HealthFactors = Record<
+  "recency" | "frequency" | "value" | "calls" | "outcomes" | "refunds" | "brands",
+  HealthFactor
+>;
+
+export const HEALTH_FACTOR_LABELS: Record<keyof HealthFactors, string> = {
+  recency: "Order recency",
+  frequency: "Order frequency",
+  value: "Spend trend",
+  calls: "Call frequency",
+  outcomes: "Call outcomes",
+  refunds: "Refund rate",
+  brands: "Brand range",
+};
+
+const DAY = 86_400_000;
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const money = (n: number) => `£${Math.round(n).toLocaleString("en-GB")}`;
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+function median(xs: number[]) {
+  const s = [...xs].sort((a, b) => a - b);
+  const m = Math.floor(s.length / 2);
+  return s.length % 2 ? s[m] : (s[m - 1] + s[m]) / 2;
+}
+
+/** Recent vs previous period: full marks when holding steady or growing. */
+function trend(max: number, recent: number, previous: number) {
+  if (!previous) return recent ? max : 0;
+  return max * clamp01(recent / previous);
+}
+
+/** Score one customer as of `now`. Returns null for customers who have never ordered. */
+export function scoreHealth(x: HealthInputs, now = new Date()): { score: number; factors: HealthFactors } | null {
+  if (!x.lastOrderAt) return null;
+  const t = now.getTime();
+  const within = (at: Date, fromDays: number, toDays = 0) => at.getTime() > t - fromDays * DAY && at.getTime() <= t - toDays * DAY;
+
+  // recency: days since the last order against this customer's usual gap
+  const times = x.orders.map((o) => o.at.getTime()).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((v, i) => (v - times[i]) / DAY);
+  const usual = gaps.length ? Math.max(14, median(gaps)) : 45;
+  const since = Math.max(0, Math.floor((t - x.lastOrderAt.getTime()) / DAY));
+  const recency = 25 * clamp01((3 - since / usual) / 2);
+
+  // frequency and spend: last 90 days against the 90 before
+  const recentOrders = x.orders.filter((o) => within(o.at, 90));
+  const prevOrders = x.orders.filter((o) => within(o.at, 180, 90));
+  const net = (os: typeof x.orders) => os.reduce((s, o) => s + o.total - o.refunded, 0);
+  const recentSpend = net(recentOrders);
+  const prevSpend = net(prevOrders);
+
+  // calls: contact in the last 90 days, and how the last 180 days went
+  const recentCalls = x.calls.filter((c) => within(c.at, 90)).length;
+  const negative = x.calls.filter((c) => c.outcome && NEGATIVE_OUTCOMES.includes(c.outcome)).length;
+  const negativeShare = x.calls.length ? negative / x.calls.length : 0;
+
+  // refunds over the year
+  const yearTotal = x.orders.reduce((s, o) => s + o.total, 0);
+  const yearRefunded = x.orders.reduce((s, o) => s + o.refunded, 0);
+  const refundRate = yearTotal > 0 ? yearRefunded / yearTotal : 0;
+
+  // brands: distinct vendors bought in the last 180 days against the 180 before
+  const vendors = (os: typeof x.orders) => new Set(os.flatMap((o) => o.vendors)).size;
+  const recentBrands = vendors(x.orders.filter((o) => within(o.at, 180)));
+  const prevBrands = vendors(x.orders.filter((o) => within(o.at, 365, 180)));
+
+  const factors: HealthFactors = {
+    recency: { points: round1(recency), max: 25, detail: `${count(since, "day")} since last order (usually every ${Math.round(usual)})` },
+    frequency: {
+      points: round1(trend(15, recentOrders.length, prevOrders.length)),
+      max: 15,
+      detail: `${count(recentOrders.length, "order")} in the last 90 days, ${prevOrders.length} in the 90 before`,
+    },
+    value: {
+      points: round1(trend(20, recentSpend, prevSpend)),
+      max: 20,
+      detail: `${money(recentSpend)} in the last 90 days, ${money(prevSpend)} in the 90 before`,
+    },
+    calls: { points: round1(10 * clamp01(recentCalls / 3)), max: 10, detail: `${count(recentCalls, "call")} in the last 90 days` },
+    outcomes: {
+      points: round1(10 * (1 - negativeShare)),
+      max: 10,
+      detail: x.calls.length ? `${negative} of ${count(x.calls.length, "call")} negative (180 days)` : "No calls in 180 days",
+    },
+    refunds: {
+      points: round1(10 * clamp01(1 - refundRate / 0.2)),
+      max: 10,
+      detail: `${Math.round(refundRate * 100)}% of the last year's spend refunded`,
+    },
+    brands: {
+      points: round1(trend(10, recentBrands, prevBrands)),
+      max: 10,
+      detail: `${count(recentBrands, "brand")} in the last 180 days, ${prevBrands} in the 180 before`,
+    },
+  };
+
+  const score = Math.round(Object.values(factors).reduce((s, f) => s + f.points, 0));
+  return { score, factors };
+}
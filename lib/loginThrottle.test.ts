@@ -0,0 +1,112 @@
+// lib/loginThrottle.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/audit", () => ({ writeAudit: async () => {} }));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { loginRetryAfter, recordLoginFailure, recordLoginSuccess, throttleResetRequest } from "@/lib/loginThrottle";
+
+const counter = (key: string) => fakeDb.rows("loginThrottle").find((r) => r.key === key);
+
+// blocks start at a second long; keep the clock still so they're still in force when checked
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+async function fail(times: number, email = "amy@example.com", ip: string | null = "10.0.0.1") {
+  for (let i = 0; i < times; i++) await recordLoginFailure(email, ip, "password");
+}
+
+describe("login throttle", () => {
+  beforeEach(() => {
+    fakeDb.reset({ user: [{ id: "amy", email: "amy@example.com", lockedUntil: null }] });
+  });
+
+  it("counts failures per email and per IP", async () => {
+    await fail(2);
+    await fail(1, "AMY@example.com ", "10.0.0.2");
+
+    expect(counter("email:amy@example.com")!.failures).toBe(3);
+    expect(counter("ip:10.0.0.1")!.failures).toBe(2);
+    expect(counter("ip:10.0.0.2")!.failures).toBe(1);
+  });
+
+  it("counts every one of a burst of concurrent failures", async () => {
+    await Promise.all(Array.from({ length: 6 }, () => recordLoginFailure("amy@example.com", "10.0.0.1", "password")));
+
+    expect(counter("email:amy@example.com")!.failures).toBe(6);
+    expect(counter("ip:10.0.0.1")!.failures).toBe(6);
+  });
+
+  it("backs off exponentially once the free attempts are used", async () => {
+    await fail(2);
+    expect(await loginRetryAfter("amy@example.com", "10.0.0.1")).toBe(0);
+
+    await fail(1);
+    expect(await loginRetryAfter("amy@example.com", "10.0.0.1")).toBe(1);
+
+    await fail(3);
+    expect(await loginRetryAfter("amy@example.com", null)).toBe(8);
+  });
+
+  it("starts over after an hour without failures", async () => {
+    fakeDb.rows("loginThrottle").push({
+      key: "email:amy@example.com",
+      failures: 9,
+      lastFailureAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      blockedUntil: null,
+    });
+
+    await fail(1, "amy@example.com", null);
+
+    expect(counter("email:amy@example.com")).toMatchObject({ failures: 1, blockedUntil: null });
+  });
+
+  it("locks the account after repeated failures", async () => {
+    await fail(10);
+
+    expect(fakeDb.rows("user")[0].lockedUntil).toBeInstanceOf(Date);
+    expect(await loginRetryAfter("amy@example.com", null)).toBeGreaterThan(25 * 60);
+  });
+
+  it("clears the email's counter on success but keeps the IP's", async () => {
+    await fail(4);
+    await recordLoginSuccess("amy", "amy@example.com", "10.0.0.1");
+
+    expect(counter("email:amy@example.com")).toBeUndefined();
+    expect(counter("ip:10.0.0.1")!.failures).toBe(4);
+  });
+});
+
+describe("password reset throttle", () => {
+  beforeEach(() => {
+    fakeDb.reset({});
+  });
+
+  it("lets the first few requests through, then makes the caller wait", async () => {
+    const waits = [];
+    for (let i = 0; i < 4; i++) waits.push(await throttleResetRequest("amy@example.com", "10.0.0.1"));
+
+    expect(waits.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(waits[3]).toBeGreaterThan(0);
+    // a blocked request isn't counted again
+    expect(counter("reset:email:amy@example.com")!.failures).toBe(3);
+  });
+
+  it("limits one IP across many emails", async () => {
+    for (let i = 0; i < 10; i++) expect(await throttleResetRequest(`user${i}@example.com`, "10.0.0.1")).toBe(0);
+
+    expect(await throttleResetRequest("someone@example.com", "10.0.0.1")).toBeGreaterThan(0);
+    expect(await throttleResetRequest("someone@example.com", "10.0.0.2")).toBe(0);
+  });
+
+  it("keeps its counters apart from sign-in failures", async () => {
+    await fail(5);
+
+    expect(await throttleResetRequest("amy@example.com", "10.0.0.1")).toBe(0);
+  });
+});
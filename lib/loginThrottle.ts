@@ -0,0 +1,148 @@
+// lib/loginThrottle.ts
+// Brute-force protection for sign-in: per-email and per-IP failure counters with
+// exponential backoff, plus a temporary account lock after repeated failures.
+// Password-reset requests are rate-limited on the same counters under their own keys.
+import { prisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+
+const EMAIL = { free: 3, maxDelaySec: 15 * 60 }; // backoff starts after 3 misses
+const IP = { free: 20, maxDelaySec: 60 * 60 }; // one IP may try a few accounts
+const LOCK_AFTER = 10; // failures on one email before the account is locked
+const LOCK_MS = 30 * 60 * 1000;
+const RESET_AFTER_MS = 60 * 60 * 1000; // counters start over after an hour of quiet
+
+const RESET_EMAIL = { free: 3, maxDelaySec: 60 * 60 }; // a few retries if the email is slow
+const RESET_IP = { free: 10, maxDelaySec: 60 * 60 };
+
+const emailKey = (email: string) => `email:${email.trim().toLowerCase()}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+const resetKey = (key: string) => `reset:${key}`;
+
+function backoffSec(failures: number, policy: { free: number; maxDelaySec: number }) {
+  if (failures < policy.free) return 0;
+  return Math.min(2 ** (failures - policy.free), policy.maxDelaySec);
+}
+
+/**
+ * Seconds the caller must wait before another attempt (0 = go ahead). Checked
+ * before the password so a blocked caller learns nothing from trying.
+ */
+export async function loginRetryAfter(email: string, ip: string | null): Promise<number> {
+  const keys = [emailKey(email), ...(ip ? [ipKey(ip)] : [])];
+  const [rows, user] = await Promise.all([
+    prisma.loginThrottle.findMany({ where: { key: { in: keys } }, select: { blockedUntil: true } }),
+    prisma.user.findFirst({
+      where: { email: { equals: email.trim(), mode: "insensitive" } },
+      select: { lockedUntil: true },
+    }),
+  ]);
+  return secondsUntil([...rows.map((r) => r.blockedUntil), user?.lockedUntil]);
+}
+
+/** Seconds until the latest of these blocks ends (0 if none is in force). */
+function secondsUntil(blocks: (Date | null | undefined)[]) {
+  const now = Date.now();
+  const until = blocks
+    .filter((d): d is Date => !!d)
+    .map((d) => d.getTime())
+    .filter((t) => t > now);
+  return until.length ? Math.ceil((Math.max(...until) - now) / 1000) : 0;
+}
+
+/**
+ * Add one failure to `key` and return the new count. The count is bumped in the
+ * database (INSERT … ON CONFLICT DO UPDATE … RETURNING) so concurrent attempts
+ * can't overwrite each other; a stale counter is reset to 0 first.
+ */
+async function bump(key: string, policy: { free: number; maxDelaySec: number }) {
+  const now = new Date();
+  await prisma.loginThrottle.updateMany({
+    where: { key, lastFailureAt: { lte: new Date(now.getTime() - RESET_AFTER_MS) } },
+    data: { failures: 0, blockedUntil: null },
+  });
+  const { failures } = await prisma.loginThrottle.upsert({
+    where: { key },
+    create: { key, failures: 1, lastFailureAt: now },
+    update: { failures: { increment: 1 }, lastFailureAt: now },
+    select: { failures: true },
+  });
+
+  const delay = backoffSec(failures, policy);
+  if (delay) {
+    // only while the count is still ours; a later failure sets its own, longer block
+    await prisma.loginThrottle.updateMany({
+      where: { key, failures },
+      data: { blockedUntil: new Date(now.getTime() + delay * 1000) },
+    });
+  }
+  return failures;
+}
+
+/** Count a failed attempt (bad password or bad 2FA code); locks the account past LOCK_AFTER. */
+export async function recordLoginFailure(
+  email: string,
+  ip: string | null,
+  reason: "password" | "mfa"
+) {
+  const failures = await bump(emailKey(email), EMAIL);
+  if (ip) await bump(ipKey(ip), IP);
+
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: email.trim(), mode: "insensitive" } },
+    select: { id: true },
+  });
+  await writeAudit({
+    userId: user?.id ?? null,
+    action: "login.failed",
+    details: { email: email.trim().toLowerCase(), ip, reason, failures },
+  });
+
+  if (user && failures >= LOCK_AFTER) {
+    const lockedUntil = new Date(Date.now() + LOCK_MS);
+    await prisma.user.update({ where: { id: user.id }, data: { lockedUntil } });
+    await writeAudit({
+      userId: user.id,
+      action: "login.locked",
+      details: { email: email.trim().toLowerCase(), ip, failures, lockedUntil: lockedUntil.toISOString() },
+    });
+  }
+}
+
+/** A successful sign-in clears the email's counter (the IP keeps its history). */
+export async function recordLoginSuccess(userId: string, email: string, ip: string | null) {
+  await prisma.loginThrottle.deleteMany({ where: { key: emailKey(email) } });
+  await writeAudit({ userId, action: "login.success", details: { ip } });
+}
+
+/** Admin unlock: clear the lock and the email's failure counter. */
+export async function unlockUser(userId: string, adminId: string) {
+  const user = await prisma.user.update({
+    where: { id: userId },
+    data: { lockedUntil: null },
+    select: { email: true },
+  });
+  await prisma.loginThrottle.deleteMany({ where: { key: emailKey(user.email) } });
+  await writeAudit({
+    userId: adminId,
+    action: "login.unlocked",
+    entityType: "User",
+    entityId: userId,
+    details: { targetUserId: userId, targetEmail: user.email },
+  });
+}
+
+/**
+ * Count a password-reset request and return the seconds the caller must wait before
+ * it is honoured (0 = send the email). Every request counts, whether or not the
+ * email has an account, so the limit doesn't reveal which ones do.
+ */
+export async function throttleResetRequest(email: string, ip: string | null): Promise<number> {
+  const keys = [resetKey(emailKey(email)), ...(ip ? [resetKey(ipKey(ip))] : [])];
+  const rows = await prisma.loginThrottle.findMany({ where: { key: { in: keys } }, select: { blockedUntil: true } });
+  const retryAfter = secondsUntil(rows.map((r) => r.blockedUntil));
+  if (retryAfter) return retryAfter;
+
+  await bump(resetKey(emailKey(email)), RESET_EMAIL);
+  if (ip) await bump(resetKey(ipKey(ip)), RESET_IP);
+  return 0;
+}
@@ -0,0 +1,61 @@
+// lib/mailer.ts
+// Outbound email behind a small transport interface. MAIL_TRANSPORT picks one:
+//   "console" (default) — print to the server log; outside development, link tokens
+//                          are redacted so live invite/reset links never reach the logs
+//   "file"              — write each message as JSON under MAIL_FILE_DIR (default ./.mail)
+// Register another transport (SMTP, an email API…) with registerMailTransport.
+import { promises as fs } from "fs";
+import path from "path";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export type MailTransport = {
+  send(msg: MailMessage & { from: string }): Promise<void>;
+};
+
+/** Invite/reset link tokens (lib/authTokens.ts): `/reset/<payload>.<signature>`. */
+function redactTokens(text: string) {
+  return text.replace(/\/reset\/[^\s]+/g, "/reset/[redacted]");
+}
+
+const consoleTransport: MailTransport = {
+  async send(msg) {
+    const text = process.env.NODE_ENV === "development" ? msg.text : redactTokens(msg.text);
+    console.log(
+      `[mail] to=${msg.to} from=${msg.from}\nSubject: ${msg.subject}\n\n${text}\n[/mail]`
+    );
+  },
+};
+
+const fileTransport: MailTransport = {
+  async send(msg) {
+    const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), ".mail");
+    await fs.mkdir(dir, { recursive: true });
+    const safeTo = msg.to.replace(/[^a-z0-9@._-]/gi, "_");
+    const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeTo}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...msg, sentAt: new Date().toISOString() }, null, 2));
+  },
+};
+
+const transports: Record<string, MailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+};
+
+export function registerMailTransport(name: string, transport: MailTransport) {
+  transports[name] = transport;
+}
+
+/** Send via the configured transport. Throws if the transport fails. */
+export async function sendMail(msg: MailMessage) {
+  const name = (process.env.MAIL_TRANSPORT || "console").toLowerCase();
+  const transport = transports[name];
+  if (!transport) throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  const from = process.env.MAIL_FROM || "SBP CRM <no-reply@salonbrandspro.local>";
+  await transport.send({ ...msg, from });
+}
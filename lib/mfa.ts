@@ -0,0 +1,206 @@
+// lib/mfa.ts
+// Second factor for sign-in: TOTP codes, one-time recovery codes, and forced
+// enrolment for privileged roles. Secrets are sealed with AUTH_SECRET at rest.
+import crypto from "crypto";
+import QRCode from "qrcode";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { generateTotpSecret, otpauthUrl, verifyTotp } from "@/lib/totp";
+
+const RECOVERY_CODE_COUNT = 10;
+
+/** Roles that must enrol before they get a session (override with MFA_REQUIRED_ROLES). */
+export function mfaRequiredForRole(role: string | null | undefined) {
+  const roles = (process.env.MFA_REQUIRED_ROLES ?? "ADMIN,MANAGER")
+    .split(",")
+    .map((r) => r.trim().toUpperCase())
+    .filter(Boolean);
+  return !!role && roles.includes(role);
+}
+
+/* ---- sealing (AES-256-GCM keyed from AUTH_SECRET) ---- */
+
+function key() {
+  const secret = process.env.AUTH_SECRET || "dev-insecure-secret-change-me";
+  return crypto.createHash("sha256").update(`totp:${secret}`).digest();
+}
+
+function seal(plain: string) {
+  const iv = crypto.randomBytes(12);
+  const c = crypto.createCipheriv("aes-256-gcm", key(), iv);
+  const enc = Buffer.concat([c.update(plain, "utf8"), c.final()]);
+  return [iv, c.getAuthTag(), enc].map((b) => b.toString("base64url")).join(".");
+}
+
+function unseal(sealed: string | null | undefined): string | null {
+  if (!sealed) return null;
+  try {
+    const [iv, tag, enc] = sealed.split(".").map((p) => Buffer.from(p, "base64url"));
+    const d = crypto.createDecipheriv("aes-256-gcm", key(), iv);
+    d.setAuthTag(tag);
+    return Buffer.concat([d.update(enc), d.final()]).toString("utf8");
+  } catch {
+    return null;
+  }
+}
+
+/* ---- recovery codes ---- */
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash("sha256").update(code.replace(/[\s-]/g, "").toLowerCase()).digest("hex");
+
+function newRecoveryCodes() {
+  const plain = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const h = crypto.randomBytes(5).toString("hex");
+    return `${h.slice(0, 5)}-${h.slice(5)}`;
+  });
+  return { plain, hashed: plain.map(hashRecoveryCode) };
+}
+
+/* ---- enrolment ---- */
+
+/** Start (or restart) enrolment: store a pending secret and return what the app scans. */
+export async function beginEnrolment(userId: string, email: string) {
+  const secret = generateTotpSecret();
+  await prisma.user.update({ where: { id: userId }, data: { totpPendingSecret: seal(secret) } });
+  const uri = otpauthUrl(secret, email);
+  const qrSvg = await QRCode.toString(uri, { type: "svg", margin: 1, width: 200 });
+  return { secret, otpauthUrl: uri, qrSvg };
+}
+
+/**
+ * Confirm enrolment with a code from the pending secret. Returns the recovery codes
+ * (shown once) or null when the code is wrong / nothing is pending.
+ */
+export async function confirmEnrolment(userId: string, code: string): Promise<string[] | null> {
+  const u = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpPendingSecret: true },
+  });
+  const secret = unseal(u?.totpPendingSecret);
+  if (!secret) return null;
+  const step = verifyTotp(secret, code);
+  if (step == null) return null;
+
+  const codes = newRecoveryCodes();
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpSecret: seal(secret),
+      totpPendingSecret: null,
+      totpEnabledAt: new Date(),
+      totpLastStep: step,
+      totpRecoveryCodes: codes.hashed,
+    },
+  });
+  return codes.plain;
+}
+
+export async function regenerateRecoveryCodes(userId: string) {
+  const codes = newRecoveryCodes();
+  await prisma.user.update({ where: { id: userId }, data: { totpRecoveryCodes: codes.hashed } });
+  return codes.plain;
+}
+
+export async function disableMfa(userId: string) {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      totpSecret: null,
+      totpPendingSecret: null,
+      totpEnabledAt: null,
+      totpLastStep: null,
+      totpRecoveryCodes: [],
+    },
+  });
+}
+
+/* ---- verification ---- */
+
+/**
+ * Check a TOTP code (or a recovery code, which is then spent) for an enrolled user.
+ * Rejects a TOTP code whose time step was already used. Both are claimed with a
+ * conditional update, so two requests racing with the same code can't both pass.
+ */
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const u = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { totpSecret: true, totpLastStep: true, totpRecoveryCodes: true },
+  });
+  if (!u) return false;
+
+  // secret may be unreadable after an AUTH_SECRET rotation; recovery codes still work
+  const secret = unseal(u.totpSecret);
+  const step = secret ? verifyTotp(secret, code) : null;
+  if (step != null) {
+    const claimed = await prisma.user.updateMany({
+      where: { id: userId, OR: [{ totpLastStep: null }, { totpLastStep: { lt: step } }] },
+      data: { totpLastStep: step },
+    });
+    return claimed.count === 1;
+  }
+
+  const hashed = hashRecoveryCode(String(code || ""));
+  if (!u.totpRecoveryCodes.includes(hashed)) return false;
+  // only if the list is still the one read above, so a code can't be spent twice
+  const spent = await prisma.user.updateMany({
+    where: { id: userId, totpRecoveryCodes: { equals: u.totpRecoveryCodes } },
+    data: { totpRecoveryCodes: u.totpRecoveryCodes.filter((h) => h !== hashed) },
+  });
+  return spent.count === 1;
+}
+
+/**
+ * Sign-in gate run after the password check and before the session cookie is set.
+ * Returns a response to send instead of signing in (code needed, enrolment needed,
+ * wrong code — `failed` marks the last so it counts as a failed attempt), or
+ * `{ recoveryCodes }` when sign-in may proceed — recovery codes are only present
+ * when this request just completed forced enrolment.
+ */
+export async function loginSecondFactor(
+  user: { id: string; email: string; role: string },
+  input: { code?: string | null }
+): Promise<{ response?: NextResponse; failed?: boolean; recoveryCodes?: string[] }> {
+  const code = String(input.code ?? "").trim();
+  const row = await prisma.user.findUnique({
+    where: { id: user.id },
+    select: { totpEnabledAt: true, totpPendingSecret: true },
+  });
+
+  if (row?.totpEnabledAt) {
+    if (!code) {
+      return { response: NextResponse.json({ error: "Enter your authentication code", mfaRequired: true }, { status: 401 }) };
+    }
+    if (!(await verifySecondFactor(user.id, code))) {
+      return {
+        failed: true,
+        response: NextResponse.json({ error: "Invalid authentication code", mfaRequired: true }, { status: 401 }),
+      };
+    }
+    return {};
+  }
+
+  if (!mfaRequiredForRole(user.role)) return {};
+
+  // Privileged and not enrolled: enrol as part of this sign-in
+  if (code && row?.totpPendingSecret) {
+    const recoveryCodes = await confirmEnrolment(user.id, code);
+    if (recoveryCodes) return { recoveryCodes };
+    return {
+      failed: true,
+      response: NextResponse.json({ error: "Invalid authentication code", mfaSetupRequired: true }, { status: 401 }),
+    };
+  }
+
+  const setup = await beginEnrolment(user.id, user.email);
+  return {
+    response: NextResponse.json(
+      {
+        error: "Two-factor authentication is required for your role. Scan the QR code to set it up.",
+        mfaSetupRequired: true,
+        setup,
+      },
+      { status: 401 }
+    ),
+  };
+}
@@ -0,0 +1,173 @@
+// lib/offlineCalls.ts
+// Browser-side queue for calls logged without signal (/calls/new). A submission that
+// can't reach /api/calls is kept in IndexedDB with its idempotency key, geolocation
+// and the time it was logged, then posted again by syncQueuedCalls when the
+// connection returns: when the page sees it come back, or when the service worker's
+// background sync (public/sw.js) asks an open page to. The key means a retry of a
+// call that did get through returns it instead of a duplicate.
+
+const DB_NAME = "sbp-offline";
+const STORE = "calls";
+export const CALL_SYNC_TAG = "call-queue";
+
+export type QueuedCall = {
+  /** the submission's idempotency key */
+  key: string;
+  queuedAt: string;
+  /** customer/lead name, for the queue list */
+  label: string;
+  /** the form fields; repeated fields (brand checkboxes) as arrays */
+  fields: Record<string, string | string[]>;
+  attempts: number;
+  lastError: string | null;
+  /** rejected by the server (e.g. validation); kept for the rep to see, not retried */
+  failed: boolean;
+};
+
+export function newIdempotencyKey() {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+/** FormData → plain fields IndexedDB can store. Files aren't part of the call form. */
+export function formFields(fd: FormData) {
+  const out: Record<string, string | string[]> = {};
+  fd.forEach((value, name) => {
+    if (typeof value !== "string") return;
+    const prev = out[name];
+    if (prev === undefined) out[name] = value;
+    else out[name] = Array.isArray(prev) ? [...prev, value] : [prev, value];
+  });
+  return out;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      if (!req.result.objectStoreNames.contains(STORE)) req.result.createObjectStore(STORE, { keyPath: "key" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function listQueuedCalls(): Promise<QueuedCall[]> {
+  const rows = await withStore<QueuedCall[]>("readonly", (s) => s.getAll() as IDBRequest<QueuedCall[]>);
+  return rows.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+}
+
+export function removeQueuedCall(key: string) {
+  return withStore("readwrite", (s) => s.delete(key));
+}
+
+function saveQueuedCall(call: QueuedCall) {
+  return withStore("readwrite", (s) => s.put(call));
+}
+
+/** Keep a call for later and ask the service worker to send it once back online. */
+export async function queueCall(key: string, fields: QueuedCall["fields"], label: string) {
+  const queuedAt = new Date().toISOString();
+  await saveQueuedCall({
+    key,
+    queuedAt,
+    label,
+    // times on the form are HH:mm on the day it was logged, not the day it syncs
+    fields: { clientLoggedAt: queuedAt, ...fields, idempotencyKey: key },
+    attempts: 0,
+    lastError: null,
+    failed: false,
+  });
+  // not awaited: `ready` never settles when the worker didn't register
+  void requestBackgroundSync();
+}
+
+/** Statuses worth retrying later rather than giving up on. */
+const RETRYABLE = new Set([401, 403, 408, 425, 429]);
+
+export type SyncResult = { sent: number; failed: number; remaining: number };
+
+let inFlight: Promise<SyncResult> | null = null;
+
+/**
+ * Post every queued call in the order logged. Stops at the first network or server
+ * error (still offline, or the server is down) and leaves the rest queued; a call
+ * the server rejects outright is marked failed with its error. Overlapping calls
+ * (the `online` event and a background sync together) share one run.
+ */
+export function syncQueuedCalls(): Promise<SyncResult> {
+  inFlight ??= sendQueuedCalls().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
+
+async function sendQueuedCalls(): Promise<SyncResult> {
+  const result: SyncResult = { sent: 0, failed: 0, remaining: 0 };
+  const queued = await listQueuedCalls();
+  for (const call of queued) {
+    if (call.failed) continue;
+    let res: Response;
+    try {
+      res = await fetch("/api/calls", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": call.key },
+        body: JSON.stringify(call.fields),
+        credentials: "same-origin",
+      });
+    } catch {
+      break;
+    }
+    if (res.ok) {
+      await removeQueuedCall(call.key);
+      result.sent++;
+      continue;
+    }
+    const json = await res.json().catch(() => ({}));
+    const lastError = (json as any)?.error || `Server responded ${res.status}`;
+    const permanent = res.status < 500 && !RETRYABLE.has(res.status);
+    await saveQueuedCall({ ...call, attempts: call.attempts + 1, lastError, failed: permanent });
+    if (!permanent) break;
+    result.failed++;
+  }
+  result.remaining = (await listQueuedCalls()).filter((c) => !c.failed).length;
+  return result;
+}
+
+export async function registerCallServiceWorker() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register("/sw.js", { scope: "/" });
+  } catch (e) {
+    console.error("[offline] service worker registration failed:", e);
+    return null;
+  }
+}
+
+/** Background sync where the browser has it (Chromium); elsewhere the page drains on `online`. */
+export async function requestBackgroundSync() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return false;
+  try {
+    const reg: any = await navigator.serviceWorker.ready;
+    if (!reg?.sync) return false;
+    await reg.sync.register(CALL_SYNC_TAG);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,46 @@
+// lib/permissions.test.ts
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { hasAccess, requiredAccess } from "@/lib/permissions";
+
+// let through by middleware before any rule is checked (PUBLIC_PATHS / isPublicPath)
+const PUBLIC = ["/api/auth", "/api/login", "/api/google/oauth", "/api/shopify/webhooks", "/api/webhooks/stripe"];
+
+/** Every API route in the app, with dynamic segments filled in. */
+function apiRoutes(dir = path.join(__dirname, "../app/api"), prefix = "/api"): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap((e) => {
+    if (e.isFile()) return e.name === "route.ts" ? [prefix] : [];
+    const seg = e.name.startsWith("[") ? "x1" : e.name;
+    return apiRoutes(path.join(dir, e.name), `${prefix}/${seg}`);
+  });
+}
+
+describe("requiredAccess", () => {
+  it("closes API routes that have no rule", () => {
+    expect(requiredAccess("/api/not-a-route")).toBe("NOBODY");
+    expect(requiredAccess("/api/not-a-route", "POST")).toBe("NOBODY");
+    expect(hasAccess({ role: "ADMIN", perms: [] }, "NOBODY")).toBe(false);
+  });
+
+  it("has a rule for every API route", () => {
+    const routes = apiRoutes();
+    expect(routes).toContain("/api/customers/x1/contacts");
+    const unruled = routes
+      .filter((p) => !PUBLIC.some((pub) => p === pub || p.startsWith(`${pub}/`)))
+      .filter((p) => requiredAccess(p) === "NOBODY" || requiredAccess(p, "POST") === "NOBODY");
+    expect(unruled).toEqual([]);
+  });
+
+  it("leaves pages without a rule to any signed-in user", () => {
+    expect(requiredAccess("/")).toBeNull();
+    expect(requiredAccess("/settings/account")).toBeNull();
+  });
+
+  it("applies write rules to non-GET methods", () => {
+    expect(requiredAccess("/api/customers/x1")).toBe("VIEW_CUSTOMERS");
+    expect(requiredAccess("/api/customers/x1", "PATCH")).toBe("EDIT_CUSTOMERS");
+    expect(requiredAccess("/api/sales-reps")).toBeNull();
+    expect(requiredAccess("/api/google/calendar/create-event", "POST")).toBe("EDIT_CALLS");
+  });
+});
@@ -1,17 +1,262 @@
 // lib/permissions.ts
-export const FEATURES = {
-  salesHub: "salesHub",
-  reports: "reports",
-  "reports.calls": "reports.calls",
-  "reports.gap": "reports.gap",
-  "reports.dropoff": "reports.dropoff",
-  "tools.profitCalculator": "tools.profitCalculator",
-} as const;
-
-export type FeatureKey = keyof typeof FEATURES | string;
-
-/** default-allow: if a key isn't specified, it's considered allowed */
-export function canFeature(user: any, key: string) {
-  const map = (user?.features ?? {}) as Record<string, boolean>;
-  return map[key] ?? true;
+// Central access policy. Edge-safe (no Prisma import) so middleware can use it too.
+
+export type RoleValue = "ADMIN" | "MANAGER" | "REP" | "VIEWER";
+
+// Must match prisma Permission enum
+export const PERMISSIONS = [
+  "VIEW_SALES_HUB",
+  "VIEW_REPORTS",
+  "VIEW_CUSTOMERS",
+  "EDIT_CUSTOMERS",
+  "VIEW_CALLS",
+  "EDIT_CALLS",
+  "VIEW_PROFIT_CALC",
+  "VIEW_SETTINGS",
+  "CREATE_ORDERS",
+  "ISSUE_REFUNDS",
+  "VIEW_PURCHASING",
+] as const;
+
+export type PermissionValue = (typeof PERMISSIONS)[number];
+
+/** What a route needs: a permission, ADMIN role outright, or NOBODY (unlisted API routes). */
+export type Access = PermissionValue | "ADMIN" | "NOBODY";
+
+export const PERMISSION_LABELS: Record<PermissionValue, string> = {
+  VIEW_SALES_HUB: "Sales Hub",
+  VIEW_REPORTS: "Reporting",
+  VIEW_CUSTOMERS: "View customers",
+  EDIT_CUSTOMERS: "Create & edit customers",
+  VIEW_CALLS: "View calls",
+  EDIT_CALLS: "Log & edit calls",
+  VIEW_PROFIT_CALC: "Profit calculator",
+  VIEW_SETTINGS: "Global settings",
+  CREATE_ORDERS: "Create orders & payment links",
+  ISSUE_REFUNDS: "Issue refunds",
+  VIEW_PURCHASING: "Purchase ordering",
+};
+
+/** Role defaults. Per-user overrides (UserPermission rows) are granted on top. */
+export const ROLE_PERMISSIONS: Record<RoleValue, readonly PermissionValue[]> = {
+  ADMIN: PERMISSIONS,
+  MANAGER: PERMISSIONS,
+  REP: [
+    "VIEW_SALES_HUB",
+    "VIEW_REPORTS",
+    "VIEW_CUSTOMERS",
+    "EDIT_CUSTOMERS",
+    "VIEW_CALLS",
+    "EDIT_CALLS",
+    "VIEW_PROFIT_CALC",
+    "CREATE_ORDERS",
+  ],
+  VIEWER: ["VIEW_SALES_HUB", "VIEW_REPORTS", "VIEW_CUSTOMERS", "VIEW_CALLS"],
+};
+
+export function isPermission(v: unknown): v is PermissionValue {
+  return (PERMISSIONS as readonly string[]).includes(String(v));
+}
+
+/** Role defaults merged with per-user grants (deduped, in enum order). */
+export function resolvePermissions(
+  role: string | null | undefined,
+  overrides: readonly string[] = []
+): PermissionValue[] {
+  const base = ROLE_PERMISSIONS[role as RoleValue] ?? [];
+  const set = new Set<string>([...base, ...overrides]);
+  return PERMISSIONS.filter((p) => set.has(p));
+}
+
+export function hasAccess(
+  user: { role?: string | null; perms?: readonly string[] | null } | null | undefined,
+  access: Access | null
+): boolean {
+  if (!access) return true;
+  if (!user || access === "NOBODY") return false;
+  if (user.role === "ADMIN") return true;
+  if (access === "ADMIN") return false;
+  return (user.perms ?? []).includes(access);
+}
+
+/* ---------------- route policy ---------------- */
+
+/**
+ * Ordered rules: first match wins, so list specific paths before their parents.
+ * `*` matches exactly one path segment; a rule matches its path and everything below it.
+ * `read` applies to GET/HEAD, `write` to everything else (defaults to `read`).
+ * API routes with no rule are closed to everyone, so a new route has to be listed
+ * here (with `read: null` if any signed-in user may call it). Pages with no rule
+ * only need a valid session. Public routes (sign-in, webhooks) are let through by
+ * middleware before this is consulted.
+ */
+type AccessRule = { path: string; read: Access | null; write?: Access | null };
+
+export const ACCESS_RULES: AccessRule[] = [
+  // ---- API: admin ----
+  // stopping impersonation runs as the impersonated user; the handler checks admin for starting
+  { path: "/api/admin/impersonate", read: null },
+  { path: "/api/admin", read: "ADMIN" },
+  { path: "/api/users", read: "ADMIN" },
+  { path: "/api/shopify/backfill", read: "ADMIN" },
+
+  // ---- API: orders & money ----
+  { path: "/api/orders/*/refund", read: "ISSUE_REFUNDS" },
+  { path: "/api/payments/stripe/refund", read: "ISSUE_REFUNDS" },
+  { path: "/api/orders", read: "CREATE_ORDERS" },
+  { path: "/api/payments", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/draft-orders", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/orders", read: "CREATE_ORDERS" },
+  // catalog lookups for the order builder (POSTs here are read-only queries)
+  { path: "/api/shopify/products", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/variant-prices", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/variant-stock", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/collections", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/product-categories", read: "CREATE_ORDERS" },
+  { path: "/api/shopify/product-types", read: "CREATE_ORDERS" },
+
+  // ---- API: purchasing ----
+  { path: "/api/lw", read: "VIEW_PURCHASING" },
+  { path: "/api/shopify/items-by-supplier", read: "VIEW_PURCHASING" },
+  { path: "/api/shopify/oos-days-by-sku", read: "VIEW_PURCHASING" },
+  { path: "/api/shopify/sales-by-sku", read: "VIEW_PURCHASING" },
+  { path: "/api/shopify/suppliers", read: "VIEW_PURCHASING" },
+  { path: "/api/shopify/locations", read: "VIEW_PURCHASING" },
+
+  // ---- API: customers ----
+  { path: "/api/customers/duplicates", read: "ADMIN" },
+  { path: "/api/customers", read: "VIEW_CUSTOMERS", write: "EDIT_CUSTOMERS" },
+  { path: "/api/custom-fields", read: "VIEW_CUSTOMERS", write: "ADMIN" },
+  { path: "/api/search/customers", read: "VIEW_CUSTOMERS" },
+  { path: "/api/customer-views", read: "VIEW_CUSTOMERS" },
+  { path: "/api/visits", read: "VIEW_CUSTOMERS", write: "EDIT_CUSTOMERS" },
+  { path: "/api/par", read: "VIEW_CUSTOMERS", write: "EDIT_CUSTOMERS" },
+  { path: "/api/ai/pre-call-brief", read: "VIEW_CUSTOMERS" },
+  { path: "/api/ai/precall", read: "VIEW_CUSTOMERS", write: "VIEW_CUSTOMERS" },
+  { path: "/api/education", read: "VIEW_SALES_HUB", write: "EDIT_CUSTOMERS" },
+  { path: "/api/educators", read: "VIEW_SALES_HUB", write: "VIEW_SETTINGS" },
+
+  // ---- API: calls ----
+  { path: "/api/calls", read: "VIEW_CALLS", write: "EDIT_CALLS" },
+  { path: "/api/followups", read: "VIEW_CALLS" },
+  { path: "/api/saleshub/calls-geo", read: "VIEW_CALLS" },
+  // follow-up events on the caller's own Google calendar
+  { path: "/api/google/calendar/create-event", read: "EDIT_CALLS" },
+
+  // ---- API: sales hub ----
+  { path: "/api/pipeline", read: "VIEW_SALES_HUB" },
+  { path: "/api/route-planning", read: "VIEW_SALES_HUB" },
+  { path: "/api/tasks", read: "VIEW_SALES_HUB", write: "EDIT_CALLS" },
+
+  // ---- API: reporting (POSTs here are read-only queries) ----
+  { path: "/api/reports", read: "VIEW_REPORTS", write: "VIEW_REPORTS" },
+  { path: "/api/scorecards", read: "VIEW_REPORTS" },
+  { path: "/api/reps", read: "VIEW_REPORTS" },
+  { path: "/api/ai/report", read: "VIEW_REPORTS", write: "VIEW_REPORTS" },
+  { path: "/api/ai/rep-review", read: "VIEW_REPORTS", write: "VIEW_REPORTS" },
+  { path: "/api/targets", read: "VIEW_REPORTS", write: "VIEW_SETTINGS" },
+
+  // ---- API: reference data (readable by all, editable from settings) ----
+  { path: "/api/brands", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/stocked-brands", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/settings/brand-visibility", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/cycle-settings", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/pipeline-options", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/salesreps", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/sales-reps", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/vendors", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/search/vendors", read: null },
+  { path: "/api/settings/visible-stocked-brands", read: null, write: "VIEW_SETTINGS" },
+  { path: "/api/settings/visible-competitor-brands", read: null, write: "VIEW_SETTINGS" },
+
+  // ---- API: the signed-in user's own account ----
+  { path: "/api/me", read: null },
+  { path: "/api/settings/account", read: null },
+  { path: "/api/logout", read: null },
+
+  // ---- API: cron (API keys are checked against API_KEY_RULES instead) ----
+  { path: "/api/cron", read: "ADMIN" },
+
+  // ---- Pages ----
+  { path: "/settings/users", read: "ADMIN" },
+  { path: "/settings/audit", read: "ADMIN" },
+  { path: "/settings/diagnostics", read: "ADMIN" },
+  { path: "/settings/api-keys", read: "ADMIN" },
+  { path: "/settings/custom-fields", read: "ADMIN" },
+  { path: "/shopify/backfill", read: "ADMIN" },
+  { path: "/settings/global", read: "VIEW_SETTINGS" },
+  { path: "/stocked-brands", read: "VIEW_SETTINGS" },
+  { path: "/saleshub", read: "VIEW_SALES_HUB" },
+  { path: "/education", read: "VIEW_SALES_HUB" },
+  { path: "/customers/duplicates", read: "ADMIN" },
+  { path: "/customers/new", read: "EDIT_CUSTOMERS" },
+  { path: "/customers/import", read: "EDIT_CUSTOMERS" },
+  { path: "/customers/*/edit", read: "EDIT_CUSTOMERS" },
+  { path: "/customers", read: "VIEW_CUSTOMERS" },
+  { path: "/calls/new", read: "EDIT_CALLS" },
+  { path: "/calls", read: "VIEW_CALLS" },
+  { path: "/orders/*/refund", read: "ISSUE_REFUNDS" },
+  { path: "/orders", read: "CREATE_ORDERS" },
+  { path: "/reports", read: "VIEW_REPORTS" },
+  { path: "/reps", read: "VIEW_REPORTS" },
+  { path: "/tools/profit-calculator", read: "VIEW_PROFIT_CALC" },
+];
+
+function ruleMatches(rulePath: string, pathname: string) {
+  const want = rulePath.split("/").filter(Boolean);
+  const have = pathname.split("/").filter(Boolean);
+  if (have.length < want.length) return false;
+  return want.every((seg, i) => seg === "*" || seg === have[i]);
+}
+
+/** The access a request needs, or null if any signed-in user may proceed. */
+export function requiredAccess(pathname: string, method = "GET"): Access | null {
+  const rule = ACCESS_RULES.find((r) => ruleMatches(r.path, pathname));
+  if (!rule) return ruleMatches("/api", pathname) ? "NOBODY" : null;
+  const isRead = method === "GET" || method === "HEAD";
+  return isRead ? rule.read : rule.write === undefined ? rule.read : rule.write;
+}
+
+/* ---------------- API keys ---------------- */
+
+/** Scopes an ApiKey can hold. Keys act company-wide (no row scoping), so grant narrowly. */
+export const API_KEY_SCOPES = ["backfill:shopify", "cron:inventory", "cron:geocode", "cron:health", "cron:search", "cron:stages", "reports:read"] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "backfill:shopify": "Shopify backfills (/api/shopify/backfill)",
+  "cron:inventory": "Inventory snapshot cron",
+  "cron:geocode": "Customer geocoding cron",
+  "cron:health": "Customer health score cron",
+  "cron:search": "Customer search index cron",
+  "cron:stages": "Lost/dormant stage rules cron",
+  "reports:read": "Read reports and scorecards",
+};
+
+export function isApiKeyScope(v: unknown): v is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(String(v));
+}
+
+/**
+ * Routes an API key may call, first match wins. Anything not listed is closed to
+ * keys. `readOnly` rules only admit GET/HEAD, except report POSTs, which are queries.
+ */
+const API_KEY_RULES: { path: string; scope: ApiKeyScope; readOnly?: boolean }[] = [
+  { path: "/api/shopify/backfill", scope: "backfill:shopify" },
+  { path: "/api/cron/snapshot-inventory", scope: "cron:inventory" },
+  { path: "/api/cron/geocode-customers", scope: "cron:geocode" },
+  { path: "/api/cron/customer-health", scope: "cron:health" },
+  { path: "/api/cron/index-customer-search", scope: "cron:search" },
+  { path: "/api/cron/stage-rules", scope: "cron:stages" },
+  { path: "/api/reports", scope: "reports:read" },
+  { path: "/api/scorecards", scope: "reports:read", readOnly: true },
+];
+
+/** The scope an API key needs for this request, or null if keys may not call it. */
+export function requiredScope(pathname: string, method = "GET"): ApiKeyScope | null {
+  const rule = API_KEY_RULES.find((r) => ruleMatches(r.path, pathname));
+  if (!rule) return null;
+  if (rule.readOnly && method !== "GET" && method !== "HEAD") return null;
+  return rule.scope;
 }
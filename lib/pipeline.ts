@@ -1,77 +1,200 @@
 // lib/pipeline.ts
-// Maps call outcomes to the minimum guaranteed pipeline stage.
-// Stage only ever moves FORWARD - never backward.
+// The one definition of pipeline stages, and how call outcomes and orders move a
+// customer along them. Along the pipeline, stage only ever moves FORWARD - never
+// backward. LOST and DORMANT sit off it (set by hand or by lib/stageRules.ts, always
+// with a loss reason); real interest or an order brings a customer back.
+//
+// Outcomes, call types and next steps are managed in /settings/global/pipeline and
+// stored as PipelineOption rows (lib/pipelineOptions.ts); the defaults below are what
+// the app uses until they're edited. No database access here, so client forms can
+// import the stage list too.
 
-export type StageValue = "LEAD" | "ENGAGED" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER";
+export type StageValue = "LEAD" | "ENGAGED" | "APPOINTMENT_BOOKED" | "SAMPLING" | "CUSTOMER" | "LOST" | "DORMANT";
 
-const STAGE_ORDER: StageValue[] = ["LEAD", "ENGAGED", "APPOINTMENT_BOOKED", "SAMPLING", "CUSTOMER"];
+/** Pipeline stages in order. */
+export const STAGES: { value: StageValue; label: string }[] = [
+  { value: "LEAD", label: "Lead" },
+  { value: "ENGAGED", label: "Engaged" },
+  { value: "APPOINTMENT_BOOKED", label: "Appointment booked" },
+  { value: "SAMPLING", label: "Sampling" },
+  { value: "CUSTOMER", label: "Customer" },
+];
 
-function stageRank(stage: StageValue): number {
-  const i = STAGE_ORDER.indexOf(stage);
+/** Off-pipeline stages; moving a customer here needs a loss reason. */
+export const CLOSED_STAGES: { value: StageValue; label: string }[] = [
+  { value: "DORMANT", label: "Dormant" },
+  { value: "LOST", label: "Lost" },
+];
+
+export const ALL_STAGES = [...STAGES, ...CLOSED_STAGES];
+
+export const STAGE_ORDER: StageValue[] = STAGES.map((s) => s.value);
+
+export const STAGE_LABELS = Object.fromEntries(ALL_STAGES.map((s) => [s.value, s.label])) as Record<StageValue, string>;
+
+export function isClosedStage(stage: string | null | undefined) {
+  return stage === "LOST" || stage === "DORMANT";
+}
+
+/** Position along the pipeline; off-pipeline stages count as LEAD. */
+export function stageRank(stage: string | null | undefined): number {
+  const i = STAGE_ORDER.indexOf(stage as StageValue);
   return i === -1 ? 0 : i;
 }
 
-// Outcome -> minimum stage it guarantees
-export const OUTCOME_STAGE_MAP: Record<string, StageValue> = {
-  "Not Available": "LEAD",
-  "Left Details / Business Card": "LEAD",
-  "No Interest": "LEAD",
-  "Interested - Follow-up Booked": "ENGAGED",
-  "Interested - Callback Requested": "ENGAGED",
-  "No Sale": "ENGAGED",
-  "Sample Requested": "SAMPLING",
-  "Sample Reviewed - Positive": "SAMPLING",
-  "Sample Reviewed - Negative": "SAMPLING",
-  "Order Placed": "CUSTOMER",
-  // Legacy outcomes (kept for backward compatibility with existing data)
-  "Sale": "CUSTOMER",
-  "Appointment booked": "ENGAGED",
-  "Demo Booked": "ENGAGED",
+export type LossReasonValue =
+  | "PRICE"
+  | "COMPETITOR"
+  | "CLOSED"
+  | "NO_INTEREST"
+  | "NO_RESPONSE"
+  | "NO_RECENT_ORDERS"
+  | "SERVICE"
+  | "OTHER";
+
+export const LOSS_REASONS: { value: LossReasonValue; label: string }[] = [
+  { value: "PRICE", label: "Price" },
+  { value: "COMPETITOR", label: "Went with a competitor" },
+  { value: "CLOSED", label: "Salon closed" },
+  { value: "NO_INTEREST", label: "No interest" },
+  { value: "NO_RESPONSE", label: "Stopped responding" },
+  { value: "NO_RECENT_ORDERS", label: "No recent orders" },
+  { value: "SERVICE", label: "Service / delivery issues" },
+  { value: "OTHER", label: "Other" },
+];
+
+export const LOSS_REASON_LABELS = Object.fromEntries(LOSS_REASONS.map((r) => [r.value, r.label])) as Record<LossReasonValue, string>;
+
+export function parseLossReason(input: unknown): LossReasonValue | null {
+  const s = String(input ?? "").trim().toUpperCase().replace(/[\s-]+/g, "_");
+  return LOSS_REASONS.some((r) => r.value === s) ? (s as LossReasonValue) : null;
+}
+
+// human variants accepted from forms, imports and the API
+const STAGE_ALIASES: Record<string, StageValue> = {
+  "INTERESTED": "ENGAGED",
+  "APPOINTMENT BOOKED": "APPOINTMENT_BOOKED",
+  "APPOINTMENTBOOKED": "APPOINTMENT_BOOKED",
+  "APPT BOOKED": "APPOINTMENT_BOOKED",
+  "APPT": "APPOINTMENT_BOOKED",
+  "SAMPLE": "SAMPLING",
+  "CLIENT": "CUSTOMER",
+  "EXISTING CUSTOMER": "CUSTOMER",
+  "PROSPECT": "LEAD",
+  "CHURNED": "LOST",
+  "LAPSED": "DORMANT",
+  "INACTIVE": "DORMANT",
+};
+
+/** "appointment-booked", "Engaged", "APPT" … → stage; null when unrecognised. */
+export function parseStage(input: unknown): StageValue | null {
+  const s = String(input ?? "").trim().toUpperCase().replace(/[\s_-]+/g, " ");
+  if (!s) return null;
+  const direct = s.replace(/ /g, "_");
+  if (ALL_STAGES.some((st) => st.value === direct)) return direct as StageValue;
+  return STAGE_ALIASES[s] ?? null;
+}
+
+/* ---- Configurable options ---- */
+
+export type PipelineOptionKind = "OUTCOME" | "CALL_TYPE" | "NEXT_STEP";
+
+export const PIPELINE_OPTION_KINDS: { value: PipelineOptionKind; label: string }[] = [
+  { value: "OUTCOME", label: "Outcomes" },
+  { value: "CALL_TYPE", label: "Call types" },
+  { value: "NEXT_STEP", label: "Next steps" },
+];
+
+export type PipelineOptionDef = {
+  kind: PipelineOptionKind;
+  label: string;
+  /** outcomes: the minimum stage this outcome guarantees */
+  stage: StageValue | null;
+  /** outcomes: counts towards the "lost after N calls" rule, with this reason */
+  lossReason: LossReasonValue | null;
+  /** other spellings found on existing calls that mean the same thing */
+  aliases: string[];
+  /** retired options aren't offered on forms but still map old calls */
+  active: boolean;
 };
 
-export const NEXT_STEP_OPTIONS = [
-  "Book Follow-up Call",
-  "Book Sample Review",
-  "Send Samples",
-  "Send Payment Link / Close Sale",
-  "No Further Action",
-  "Escalate to Manager",
-] as const;
-
-export const CALL_TYPE_OPTIONS = [
-  "Cold Call",
-  "1st Booked Call",
-  "Booked Call",
-  "Sample Review",
-  "Demo",
-  "Account Management",
-] as const;
-
-export const OUTCOME_OPTIONS = [
-  "Not Available",
-  "Left Details / Business Card",
-  "No Interest",
-  "Interested - Follow-up Booked",
-  "Interested - Callback Requested",
-  "Sample Requested",
-  "Sample Reviewed - Positive",
-  "Sample Reviewed - Negative",
-  "Order Placed",
-  "No Sale",
-] as const;
+export type PipelineOptions = Record<PipelineOptionKind, PipelineOptionDef[]>;
+
+const opt = (
+  kind: PipelineOptionKind,
+  label: string,
+  stage: StageValue | null = null,
+  aliases: string[] = [],
+  lossReason: LossReasonValue | null = null
+): PipelineOptionDef => ({
+  kind,
+  label,
+  stage,
+  lossReason,
+  aliases,
+  active: true,
+});
+
+export const DEFAULT_PIPELINE_OPTIONS: PipelineOptions = {
+  OUTCOME: [
+    opt("OUTCOME", "Not Available", "LEAD"),
+    opt("OUTCOME", "Left Details / Business Card", "LEAD"),
+    opt("OUTCOME", "No Interest", "LEAD", [], "NO_INTEREST"),
+    // "Appointment booked" and "Demo Booked" are legacy outcomes on older calls
+    opt("OUTCOME", "Interested - Follow-up Booked", "ENGAGED", ["Appointment booked", "Demo Booked"]),
+    opt("OUTCOME", "Interested - Callback Requested", "ENGAGED"),
+    opt("OUTCOME", "Sample Requested", "SAMPLING"),
+    opt("OUTCOME", "Sample Reviewed - Positive", "SAMPLING"),
+    opt("OUTCOME", "Sample Reviewed - Negative", "SAMPLING"),
+    opt("OUTCOME", "Order Placed", "CUSTOMER", ["Sale"]),
+    opt("OUTCOME", "No Sale", "ENGAGED"),
+    opt("OUTCOME", "Education Requested"),
+  ],
+  CALL_TYPE: [
+    opt("CALL_TYPE", "Cold Call"),
+    opt("CALL_TYPE", "1st Booked Call"),
+    opt("CALL_TYPE", "Booked Call"),
+    opt("CALL_TYPE", "Sample Review"),
+    opt("CALL_TYPE", "Demo", null, ["Booked Demo"]),
+    opt("CALL_TYPE", "Account Manage", null, ["Account Management"]),
+    opt("CALL_TYPE", "Education Visit"),
+  ],
+  NEXT_STEP: [
+    opt("NEXT_STEP", "Book Follow-up Call"),
+    opt("NEXT_STEP", "Book Sample Review"),
+    opt("NEXT_STEP", "Send Samples"),
+    opt("NEXT_STEP", "Send Payment Link / Close Sale"),
+    opt("NEXT_STEP", "No Further Action"),
+    opt("NEXT_STEP", "Escalate to Manager"),
+  ],
+};
+
+const key = (s: string) => s.trim().toLowerCase();
+
+/** The option a stored value refers to, by label or alias (case-insensitive), retired ones included. */
+export function findPipelineOption(options: PipelineOptionDef[], value: string | null | undefined) {
+  if (!value) return null;
+  const k = key(value);
+  return options.find((o) => key(o.label) === k) ?? options.find((o) => o.aliases.some((a) => key(a) === k)) ?? null;
+}
 
 /**
  * Given a customer's current stage and a call outcome, returns the new stage.
- * Only ever moves forward - never downgrades.
+ * Only ever moves forward - never downgrades. A LOST or DORMANT customer comes back
+ * only on an outcome that guarantees more than LEAD (and isn't itself a losing one).
  */
 export function resolveStageAfterOutcome(
   currentStage: StageValue | null | undefined,
-  outcome: string | null | undefined
+  outcome: string | null | undefined,
+  outcomes: PipelineOptionDef[]
 ): StageValue | null {
-  if (!outcome) return null;
-  const targetStage = OUTCOME_STAGE_MAP[outcome];
-  if (!targetStage) return null;
+  const option = findPipelineOption(outcomes, outcome);
+  const targetStage = option?.stage;
+  if (!targetStage || isClosedStage(targetStage)) return null;
 
+  if (isClosedStage(currentStage)) {
+    return stageRank(targetStage) > stageRank("LEAD") && !option.lossReason ? targetStage : null;
+  }
   const current = currentStage || "LEAD";
   if (stageRank(targetStage) > stageRank(current)) {
     return targetStage;
@@ -81,6 +204,7 @@ export function resolveStageAfterOutcome(
 
 /**
  * Given an order total, returns the stage it guarantees (or null if no stage change applies).
+ * Any order brings a LOST or DORMANT customer back.
  */
 export function resolveStageAfterOrder(
   currentStage: StageValue | null | undefined,
@@ -88,7 +212,7 @@ export function resolveStageAfterOrder(
 ): StageValue | null {
   const current = currentStage || "LEAD";
   const targetStage: StageValue = orderTotal > 0 ? "CUSTOMER" : "SAMPLING";
-  if (stageRank(targetStage) > stageRank(current)) {
+  if (isClosedStage(current) || stageRank(targetStage) > stageRank(current)) {
     return targetStage;
   }
   return null;
@@ -0,0 +1,105 @@
+// lib/pipelineOptions.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/audit", () => ({ writeAudit: vi.fn(async () => {}) }));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { writeAudit } from "@/lib/audit";
+import { DEFAULT_PIPELINE_OPTIONS, resolveStageAfterOutcome } from "@/lib/pipeline";
+import { deletePipelineOption, getPipelineOptions, PipelineOptionError, updatePipelineOption } from "@/lib/pipelineOptions";
+
+function option(id: string, label: string, fields: { stage?: string | null; aliases?: string[]; sortOrder?: number; active?: boolean } = {}) {
+  return { id, kind: "OUTCOME", label, stage: null, lossReason: null, aliases: [], sortOrder: 10, active: true, ...fields };
+}
+
+beforeEach(() => {
+  vi.mocked(writeAudit).mockClear();
+  fakeDb.reset({});
+});
+
+describe("getPipelineOptions", () => {
+  it("uses the built-in options until a kind has been edited", async () => {
+    expect(await getPipelineOptions()).toEqual(DEFAULT_PIPELINE_OPTIONS);
+  });
+
+  it("replaces only the kinds with stored rows, in their sort order", async () => {
+    fakeDb.reset({
+      pipelineOption: [
+        option("o2", "Trial Booked", { stage: "SAMPLING", sortOrder: 20 }),
+        option("o1", "Voicemail", { stage: "LEAD", sortOrder: 10, active: false }),
+      ],
+    });
+
+    const options = await getPipelineOptions();
+
+    expect(options.OUTCOME.map((o) => [o.label, o.stage, o.active])).toEqual([
+      ["Voicemail", "LEAD", false],
+      ["Trial Booked", "SAMPLING", true],
+    ]);
+    expect(options.CALL_TYPE).toEqual(DEFAULT_PIPELINE_OPTIONS.CALL_TYPE);
+  });
+});
+
+describe("outcome → stage", () => {
+  const outcomes = DEFAULT_PIPELINE_OPTIONS.OUTCOME;
+
+  it("maps legacy outcome text through aliases, ignoring case", () => {
+    expect(resolveStageAfterOutcome("LEAD", "Appointment booked", outcomes)).toBe("ENGAGED");
+    expect(resolveStageAfterOutcome("LEAD", "demo booked", outcomes)).toBe("ENGAGED");
+    expect(resolveStageAfterOutcome("SAMPLING", "SALE", outcomes)).toBe("CUSTOMER");
+  });
+
+  it("only moves forward", () => {
+    expect(resolveStageAfterOutcome("CUSTOMER", "Sample Requested", outcomes)).toBeNull();
+    expect(resolveStageAfterOutcome(null, "Sample Requested", outcomes)).toBe("SAMPLING");
+    expect(resolveStageAfterOutcome("LEAD", "Something else", outcomes)).toBeNull();
+  });
+
+  it("follows a manager's re-mapping, retired options included", () => {
+    const custom = [{ ...outcomes[0], label: "Voicemail", stage: "ENGAGED" as const, active: false }];
+
+    expect(resolveStageAfterOutcome("LEAD", "voicemail", custom)).toBe("ENGAGED");
+  });
+});
+
+describe("updatePipelineOption", () => {
+  beforeEach(() => {
+    fakeDb.reset({
+      pipelineOption: [
+        option("o1", "Sample Requested", { stage: "SAMPLING", aliases: ["Samples"] }),
+        option("o2", "Order Placed", { stage: "CUSTOMER", aliases: ["Sale"] }),
+      ],
+    });
+  });
+
+  it("keeps the old name as an alias so calls saved with it still map", async () => {
+    const updated = await updatePipelineOption("o1", { label: "Samples Sent" });
+
+    expect(updated).toMatchObject({ label: "Samples Sent", aliases: ["Samples", "Sample Requested"] });
+    expect(writeAudit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        action: "pipeline_option.update",
+        details: { changes: { label: { from: "Sample Requested", to: "Samples Sent" }, aliases: { from: ["Samples"], to: ["Samples", "Sample Requested"] } } },
+      })
+    );
+  });
+
+  it("refuses a name another option already answers to", async () => {
+    await expect(updatePipelineOption("o1", { aliases: ["sale"] })).rejects.toThrow('"sale" is already used by "Order Placed"');
+  });
+
+  it("refuses to let an outcome set a closed stage", async () => {
+    await expect(updatePipelineOption("o1", { stage: "LOST" })).rejects.toThrow(PipelineOptionError);
+  });
+});
+
+describe("deletePipelineOption", () => {
+  it("keeps at least one option of each kind", async () => {
+    fakeDb.reset({ pipelineOption: [option("o1", "Voicemail"), option("o2", "Order Placed")] });
+
+    expect(await deletePipelineOption("o1")).toBe(true);
+    await expect(deletePipelineOption("o2")).rejects.toThrow("Keep at least one option of each type");
+    expect(fakeDb.rows("pipelineOption").map((o) => o.id)).toEqual(["o2"]);
+  });
+});
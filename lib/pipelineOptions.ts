@@ -0,0 +1,235 @@
+// lib/pipelineOptions.ts
+// Call outcomes, call types and next steps, managed in /settings/global/pipeline.
+// Until a kind has been edited it has no rows and the defaults in lib/pipeline.ts
+// apply; opening the settings page stores them so they can be changed.
+import type { CustomerStage, LossReason, PipelineOptionKind, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+import {
+  DEFAULT_PIPELINE_OPTIONS,
+  PIPELINE_OPTION_KINDS,
+  isClosedStage,
+  parseLossReason,
+  parseStage,
+  type PipelineOptionDef,
+  type PipelineOptions,
+} from "@/lib/pipeline";
+
+export class PipelineOptionError extends Error {}
+
+export const PIPELINE_OPTION_SELECT = {
+  id: true,
+  kind: true,
+  label: true,
+  stage: true,
+  lossReason: true,
+  aliases: true,
+  sortOrder: true,
+  active: true,
+} as const;
+
+export type PipelineOptionRow = Prisma.PipelineOptionGetPayload<{ select: typeof PIPELINE_OPTION_SELECT }>;
+
+const KINDS = PIPELINE_OPTION_KINDS.map((k) => k.value);
+
+const norm = (v: unknown) => {
+  if (v == null) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+};
+
+function parseAliases(v: unknown): string[] {
+  const raw = Array.isArray(v) ? v : typeof v === "string" ? v.split(/\r?\n/) : [];
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const a of raw) {
+    const s = norm(a);
+    if (!s || seen.has(s.toLowerCase())) continue;
+    seen.add(s.toLowerCase());
+    out.push(s);
+  }
+  return out;
+}
+
+/** Every option by kind, in display order, retired ones included (they still map old calls). */
+export async function getPipelineOptions(): Promise<PipelineOptions> {
+  const rows = await prisma.pipelineOption.findMany({
+    orderBy: [{ sortOrder: "asc" }, { label: "asc" }],
+    select: PIPELINE_OPTION_SELECT,
+  });
+  const out = {} as PipelineOptions;
+  for (const kind of KINDS) {
+    const mine = rows.filter((r) => r.kind === kind);
+    out[kind] = mine.length
+      ? mine.map((r): PipelineOptionDef => ({
+          kind,
+          label: r.label,
+          stage: r.stage,
+          lossReason: r.lossReason,
+          aliases: r.aliases,
+          active: r.active,
+        }))
+      : DEFAULT_PIPELINE_OPTIONS[kind];
+  }
+  return out;
+}
+
+/** Store the defaults for any kind that has no rows yet, so admins have something to edit. */
+async function ensurePipelineOptions() {
+  const have = await prisma.pipelineOption.groupBy({ by: ["kind"], _count: { _all: true } });
+  const missing = KINDS.filter((k) => !have.some((h) => h.kind === k));
+  if (!missing.length) return;
+  await prisma.pipelineOption.createMany({
+    data: missing.flatMap((kind) =>
+      DEFAULT_PIPELINE_OPTIONS[kind].map((o, i) => ({
+        kind,
+        label: o.label,
+        stage: o.stage,
+        lossReason: o.lossReason,
+        aliases: o.aliases,
+        active: o.active,
+        sortOrder: (i + 1) * 10,
+      }))
+    ),
+    skipDuplicates: true,
+  });
+}
+
+/** Stored rows for the settings page. */
+export async function listPipelineOptionRows() {
+  await ensurePipelineOptions();
+  return prisma.pipelineOption.findMany({
+    orderBy: [{ kind: "asc" }, { sortOrder: "asc" }, { label: "asc" }],
+    select: PIPELINE_OPTION_SELECT,
+  });
+}
+
+/** Validate a create/update body. Fields left out of `body` stay out of the result. */
+function parseInput(body: any, partial: boolean) {
+  const out: {
+    kind?: PipelineOptionKind;
+    label?: string;
+    stage?: CustomerStage | null;
+    lossReason?: LossReason | null;
+    aliases?: string[];
+    sortOrder?: number;
+    active?: boolean;
+  } = {};
+  if (!partial) {
+    const kind = String(body?.kind ?? "").toUpperCase();
+    if (!(KINDS as string[]).includes(kind)) throw new PipelineOptionError("Pick an option type");
+    out.kind = kind as PipelineOptionKind;
+  }
+  if (body?.label !== undefined || !partial) {
+    const label = norm(body?.label);
+    if (!label) throw new PipelineOptionError("Name is required");
+    out.label = label;
+  }
+  if (body?.stage !== undefined) {
+    if (norm(body.stage) == null) out.stage = null;
+    else {
+      const stage = parseStage(body.stage);
+      if (!stage) throw new PipelineOptionError(`Unknown stage "${body.stage}"`);
+      // lost/dormant need a reason and come from the lost-after rule instead
+      if (isClosedStage(stage)) throw new PipelineOptionError("An outcome can't set Lost or Dormant; mark it as a losing outcome instead");
+      out.stage = stage;
+    }
+  }
+  if (body?.lossReason !== undefined) {
+    if (norm(body.lossReason) == null) out.lossReason = null;
+    else {
+      const reason = parseLossReason(body.lossReason);
+      if (!reason) throw new PipelineOptionError(`Unknown loss reason "${body.lossReason}"`);
+      out.lossReason = reason;
+    }
+  }
+  if (body?.aliases !== undefined) out.aliases = parseAliases(body.aliases);
+  if (body?.sortOrder !== undefined) {
+    const n = Number(body.sortOrder);
+    if (!Number.isInteger(n)) throw new PipelineOptionError("Sort order must be a whole number");
+    out.sortOrder = n;
+  }
+  if (body?.active !== undefined) out.active = !!body.active;
+  return out;
+}
+
+/** A label or alias may only mean one option of its kind. */
+async function assertUnambiguous(kind: PipelineOptionKind, names: string[], exceptId?: string) {
+  const others = await prisma.pipelineOption.findMany({
+    where: { kind, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    select: { label: true, aliases: true },
+  });
+  for (const n of names) {
+    const k = n.toLowerCase();
+    const clash = others.find((o) => o.label.toLowerCase() === k || o.aliases.some((a) => a.toLowerCase() === k));
+    if (clash) throw new PipelineOptionError(`"${n}" is already used by "${clash.label}"`);
+  }
+}
+
+export async function createPipelineOption(body: any) {
+  await ensurePipelineOptions();
+  const input = parseInput(body, false);
+  if (input.kind !== "OUTCOME") input.stage = input.lossReason = null;
+  input.aliases = (input.aliases ?? []).filter((a) => a.toLowerCase() !== input.label!.toLowerCase());
+  await assertUnambiguous(input.kind!, [input.label!, ...input.aliases]);
+  if (input.sortOrder === undefined) {
+    const last = await prisma.pipelineOption.aggregate({ where: { kind: input.kind }, _max: { sortOrder: true } });
+    input.sortOrder = (last._max.sortOrder ?? 0) + 10;
+  }
+  const option = await prisma.pipelineOption.create({
+    data: input as Prisma.PipelineOptionCreateInput,
+    select: PIPELINE_OPTION_SELECT,
+  });
+  await writeAudit({ action: "pipeline_option.create", entityType: "PipelineOption", entityId: option.id, details: { option } });
+  return option;
+}
+
+/**
+ * Rename, re-map, reorder or retire an option. Calls keep the text they were saved
+ * with, so a renamed option keeps its old name as an alias.
+ */
+export async function updatePipelineOption(id: string, body: any) {
+  const before = await prisma.pipelineOption.findUnique({ where: { id }, select: PIPELINE_OPTION_SELECT });
+  if (!before) return null;
+  const input = parseInput(body, true);
+  if (before.kind !== "OUTCOME") {
+    delete input.stage;
+    delete input.lossReason;
+  }
+
+  const label = input.label ?? before.label;
+  let aliases = input.aliases ?? before.aliases;
+  if (label !== before.label) aliases = [...aliases, before.label];
+  aliases = parseAliases(aliases).filter((a) => a.toLowerCase() !== label.toLowerCase());
+  if (input.label !== undefined || input.aliases !== undefined) {
+    await assertUnambiguous(before.kind, [label, ...aliases], id);
+    input.aliases = aliases;
+  }
+
+  const option = await prisma.pipelineOption.update({ where: { id }, data: input, select: PIPELINE_OPTION_SELECT });
+
+  const changes: Record<string, { from: any; to: any }> = {};
+  for (const k of Object.keys(input) as (keyof typeof input)[]) {
+    if (JSON.stringify(before[k]) !== JSON.stringify(option[k])) changes[k] = { from: before[k], to: option[k] };
+  }
+  if (Object.keys(changes).length) {
+    await writeAudit({ action: "pipeline_option.update", entityType: "PipelineOption", entityId: id, details: { changes } });
+  }
+  return option;
+}
+
+/**
+ * Delete an option. Calls saved with it keep their text but no longer map to a
+ * stage; retire it with active=false to keep the mapping.
+ */
+export async function deletePipelineOption(id: string) {
+  const option = await prisma.pipelineOption.findUnique({ where: { id }, select: PIPELINE_OPTION_SELECT });
+  if (!option) return false;
+  if ((await prisma.pipelineOption.count({ where: { kind: option.kind } })) === 1) {
+    // with no rows left the defaults would come back
+    throw new PipelineOptionError("Keep at least one option of each type");
+  }
+  await prisma.pipelineOption.delete({ where: { id } });
+  await writeAudit({ action: "pipeline_option.delete", entityType: "PipelineOption", entityId: id, details: { option } });
+  return true;
+}
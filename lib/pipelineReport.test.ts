@@ -0,0 +1,95 @@
+// lib/pipelineReport.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { pipelineFunnelCsvRows, pipelineFunnelReport } from "@/lib/pipelineReport";
+
+const at = (d: string) => new Date(`2026-${d}T09:00:00Z`);
+const PERIOD = { from: new Date("2026-01-01T00:00:00Z"), to: new Date("2026-03-01T00:00:00Z") };
+
+function customer(id: string, salesRep: string, created: string, stage: string) {
+  return { id, salesRep, createdAt: at(created), stage };
+}
+
+function moves(customerId: string, ...steps: [string, string][]) {
+  return steps.map(([toStage, day], i) => ({ id: `${customerId}-${i}`, customerId, toStage, createdAt: at(day) }));
+}
+
+beforeEach(() => {
+  fakeDb.reset({
+    customer: [
+      customer("won", "Amy", "01-05", "CUSTOMER"),
+      customer("lost", "Amy", "01-20", "LOST"),
+      customer("new", "Bob", "02-03", "LEAD"),
+      // no stage history (as for customers from before it was kept): only its current stage counts
+      customer("old", "Bob", "02-10", "APPOINTMENT_BOOKED"),
+      { ...customer("earlier", "Amy", "01-01", "CUSTOMER"), createdAt: new Date("2025-12-01T09:00:00Z") },
+    ],
+    stageChange: [
+      ...moves("won", ["LEAD", "01-05"], ["ENGAGED", "01-09"], ["SAMPLING", "01-19"], ["CUSTOMER", "01-25"]),
+      ...moves("lost", ["LEAD", "01-20"], ["ENGAGED", "01-22"], ["LOST", "02-01"]),
+      ...moves("new", ["LEAD", "02-03"]),
+    ],
+  });
+});
+
+describe("pipelineFunnelReport", () => {
+  it("counts how far each customer created in the period got", async () => {
+    const { overall, range } = await pipelineFunnelReport(PERIOD);
+
+    expect(range).toEqual({ from: "2026-01-01", to: "2026-02-28" });
+    expect(overall).toMatchObject({
+      customers: 4,
+      reached: { LEAD: 4, ENGAGED: 3, APPOINTMENT_BOOKED: 2, SAMPLING: 1, CUSTOMER: 1 },
+      conversion: { LEAD: null, ENGAGED: 75, APPOINTMENT_BOOKED: 66.7, SAMPLING: 50, CUSTOMER: 100 },
+      lost: 1,
+      dormant: 0,
+    });
+  });
+
+  it("takes the median days spent in a stage before leaving it", async () => {
+    const { overall } = await pipelineFunnelReport(PERIOD);
+
+    expect(overall.medianDays).toEqual({ LEAD: 3, ENGAGED: 10, APPOINTMENT_BOOKED: null, SAMPLING: 6, CUSTOMER: null });
+  });
+
+  it("breaks the funnel down per rep and per month created", async () => {
+    const { byRep, cohorts } = await pipelineFunnelReport(PERIOD);
+
+    expect(byRep.map((r) => [r.key, r.customers, r.reached.ENGAGED])).toEqual([
+      ["Amy", 2, 2],
+      ["Bob", 2, 1],
+    ]);
+    expect(cohorts.map((r) => [r.key, r.customers, r.reached.CUSTOMER])).toEqual([
+      ["2026-01", 2, 1],
+      ["2026-02", 2, 0],
+    ]);
+  });
+
+  it("narrows to one rep", async () => {
+    const report = await pipelineFunnelReport({ ...PERIOD, rep: "Bob" });
+
+    expect(report.rep).toBe("Bob");
+    expect(report.overall).toMatchObject({ customers: 2, reached: { LEAD: 2, ENGAGED: 1 } });
+    expect(report.byRep.map((r) => r.key)).toEqual(["Bob"]);
+  });
+});
+
+describe("pipelineFunnelCsvRows", () => {
+  it("writes a header and one line per overall, rep and cohort row", async () => {
+    const rows = pipelineFunnelCsvRows(await pipelineFunnelReport(PERIOD));
+
+    expect(rows[0].slice(0, 4)).toEqual(["Group", "Name", "Customers", "Reached Lead"]);
+    expect(rows.map((r) => r.length)).toEqual(Array(6).fill(19));
+    expect(rows.slice(1).map((r) => r.slice(0, 3))).toEqual([
+      ["Overall", "All", 4],
+      ["Rep", "Amy", 2],
+      ["Rep", "Bob", 2],
+      ["Cohort", "2026-01", 2],
+      ["Cohort", "2026-02", 2],
+    ]);
+    expect(rows[1].slice(-2)).toEqual([1, 0]);
+  });
+});
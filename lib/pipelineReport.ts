@@ -0,0 +1,163 @@
+// lib/pipelineReport.ts
+// Funnel and velocity report (/reports/pipeline-funnel) built from StageChange
+// history: for customers created in a period, how far along the pipeline each got,
+// the conversion between consecutive stages, and the median days spent in each
+// stage before moving on. Broken down per rep and per cohort (month created).
+import { prisma } from "@/lib/prisma";
+import { STAGE_LABELS, STAGE_ORDER, isClosedStage, stageRank, type StageValue } from "@/lib/pipeline";
+
+const DAY = 86_400_000;
+
+export type FunnelRow = {
+  key: string;
+  customers: number;
+  /** customers who reached the stage or beyond (every customer reached LEAD) */
+  reached: Record<StageValue, number>;
+  /** % of those reaching the previous stage who reached this one; null for LEAD or when none did */
+  conversion: Record<StageValue, number | null>;
+  /** median days in the stage before leaving it, over customers who left it */
+  medianDays: Record<StageValue, number | null>;
+  lost: number;
+  dormant: number;
+};
+
+export type PipelineFunnelReport = {
+  range: { from: string; to: string };
+  rep: string | null;
+  stages: StageValue[];
+  overall: FunnelRow;
+  byRep: FunnelRow[];
+  cohorts: FunnelRow[];
+};
+
+type Journey = { rep: string; cohort: string; furthest: number; stage: StageValue; days: Partial<Record<StageValue, number[]>> };
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10);
+
+function median(values: number[]) {
+  if (!values.length) return null;
+  const s = [...values].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  const m = s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+  return Math.round(m * 10) / 10;
+}
+
+function summarise(key: string, journeys: Journey[]): FunnelRow {
+  const reached = {} as FunnelRow["reached"];
+  const conversion = {} as FunnelRow["conversion"];
+  const medianDays = {} as FunnelRow["medianDays"];
+  STAGE_ORDER.forEach((stage, i) => {
+    reached[stage] = journeys.filter((j) => j.furthest >= i).length;
+    const prev = i > 0 ? reached[STAGE_ORDER[i - 1]] : 0;
+    conversion[stage] = i > 0 && prev > 0 ? Math.round((reached[stage] / prev) * 1000) / 10 : null;
+    medianDays[stage] = median(journeys.flatMap((j) => j.days[stage] ?? []));
+  });
+  return {
+    key,
+    customers: journeys.length,
+    reached,
+    conversion,
+    medianDays,
+    lost: journeys.filter((j) => j.stage === "LOST").length,
+    dormant: journeys.filter((j) => j.stage === "DORMANT").length,
+  };
+}
+
+function groupRows(journeys: Journey[], keyOf: (j: Journey) => string) {
+  const groups = new Map<string, Journey[]>();
+  for (const j of journeys) {
+    const k = keyOf(j);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(j);
+  }
+  return [...groups].map(([k, js]) => summarise(k, js));
+}
+
+/**
+ * Customers created in [from, to) (optionally one rep's, by name), within the
+ * caller's data scope. Customers from before stage history began only have their
+ * backfilled or current stage, so they count towards reach but not time in stage.
+ */
+export async function pipelineFunnelReport(opts: { from: Date; to: Date; rep?: string | null }): Promise<PipelineFunnelReport> {
+  const customerWhere = {
+    createdAt: { gte: opts.from, lt: opts.to },
+    ...(opts.rep ? { salesRep: opts.rep } : {}),
+  };
+  const customers = await prisma.customer.findMany({
+    where: customerWhere,
+    select: { id: true, salesRep: true, createdAt: true, stage: true },
+  });
+  const ids = new Set(customers.map((c) => c.id));
+  // StageChange isn't row-scoped; keep only the customers the caller can see
+  const changes = (
+    await prisma.stageChange.findMany({
+      where: { customer: customerWhere },
+      orderBy: [{ customerId: "asc" }, { createdAt: "asc" }],
+      select: { customerId: true, toStage: true, createdAt: true },
+    })
+  ).filter((c) => ids.has(c.customerId));
+
+  const byCustomer = new Map<string, typeof changes>();
+  for (const c of changes) {
+    if (!byCustomer.has(c.customerId)) byCustomer.set(c.customerId, []);
+    byCustomer.get(c.customerId)!.push(c);
+  }
+
+  const journeys: Journey[] = customers.map((c) => {
+    const history = byCustomer.get(c.id) ?? [];
+    const days: Journey["days"] = {};
+    let furthest = isClosedStage(c.stage) ? 0 : stageRank(c.stage);
+    history.forEach((h, i) => {
+      if (isClosedStage(h.toStage)) return;
+      furthest = Math.max(furthest, stageRank(h.toStage));
+      const next = history[i + 1];
+      if (next) days[h.toStage] = [...(days[h.toStage] ?? []), (next.createdAt.getTime() - h.createdAt.getTime()) / DAY];
+    });
+    return {
+      rep: c.salesRep || "Unassigned",
+      cohort: c.createdAt.toISOString().slice(0, 7),
+      furthest,
+      stage: c.stage,
+      days,
+    };
+  });
+
+  return {
+    range: { from: ymd(opts.from), to: ymd(new Date(opts.to.getTime() - DAY)) },
+    rep: opts.rep || null,
+    stages: STAGE_ORDER,
+    overall: summarise("All", journeys),
+    byRep: groupRows(journeys, (j) => j.rep).sort((a, b) => b.customers - a.customers || a.key.localeCompare(b.key)),
+    cohorts: groupRows(journeys, (j) => j.cohort).sort((a, b) => a.key.localeCompare(b.key)),
+  };
+}
+
+/** One CSV row per overall/rep/cohort line: reach, conversion and median days per stage. */
+export function pipelineFunnelCsvRows(report: PipelineFunnelReport): unknown[][] {
+  const header = [
+    "Group",
+    "Name",
+    "Customers",
+    ...report.stages.map((s) => `Reached ${STAGE_LABELS[s]}`),
+    ...report.stages.slice(1).map((s) => `Conversion to ${STAGE_LABELS[s]} (%)`),
+    ...report.stages.map((s) => `Median days in ${STAGE_LABELS[s]}`),
+    "Lost",
+    "Dormant",
+  ];
+  const line = (group: string, r: FunnelRow) => [
+    group,
+    r.key,
+    r.customers,
+    ...report.stages.map((s) => r.reached[s]),
+    ...report.stages.slice(1).map((s) => r.conversion[s]),
+    ...report.stages.map((s) => r.medianDays[s]),
+    r.lost,
+    r.dormant,
+  ];
+  return [
+    header,
+    line("Overall", report.overall),
+    ...report.byRep.map((r) => line("Rep", r)),
+    ...report.cohorts.map((r) => line("Cohort", r)),
+  ];
+}
@@ -1,12 +1,48 @@
 // lib/prisma.ts
 import { PrismaClient } from "@prisma/client";
+import { rowScopeExtension, currentDataScope } from "@/lib/scope";
+import { auditExtension, withDeferredTrail } from "@/lib/auditTrail";
 
 const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
 
-export const prisma =
+/**
+ * Raw client: no row-level scoping and no audit trail. For auth and derived fields
+ * (search text, positions, health scores); data writes go through systemPrisma.
+ */
+export const unscopedPrisma =
   globalForPrisma.prisma ??
   new PrismaClient({
     log: process.env.NODE_ENV === "development" ? ["query", "error", "warn"] : ["error"],
   });
 
-if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
+if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = unscopedPrisma;
+
+/**
+ * Shared client; customer/call/order reads are scoped to the signed-in user, and
+ * edits to customers, calls and targets are written to the audit trail.
+ */
+export const prisma = unscopedPrisma
+  .$extends(rowScopeExtension(unscopedPrisma))
+  .$extends(auditExtension(unscopedPrisma));
+
+/**
+ * Unscoped but still audited: webhooks, cron and admin backfills that have to reach
+ * every customer. Writes made under a signed-in admin keep their row-level diffs.
+ */
+export const systemPrisma = unscopedPrisma.$extends(auditExtension(unscopedPrisma));
+
+/** Interactive transaction client of the shared `prisma`. */
+export type Tx = Omit<typeof prisma, "$connect" | "$disconnect" | "$on" | "$transaction" | "$use" | "$extends">;
+
+/**
+ * prisma.$transaction(fn) for edits to audited models: their trail entries are
+ * written once the transaction commits (see withDeferredTrail).
+ */
+export function auditedTransaction<R>(fn: (tx: Tx) => Promise<R>, options?: { maxWait?: number; timeout?: number }) {
+  return withDeferredTrail(unscopedPrisma, (run: (tx: Tx) => Promise<R>) => prisma.$transaction(run, options), fn);
+}
+
+/** Scope of the current request (for raw SQL, see customerScopeSql). */
+export function getDataScope() {
+  return currentDataScope(unscopedPrisma);
+}
@@ -0,0 +1,165 @@
+// lib/scope.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const req = vi.hoisted(() => ({
+  cookie: undefined as string | undefined,
+  authorization: null as string | null,
+  inRequest: true,
+}));
+
+vi.mock("next/headers", () => ({
+  cookies: () => {
+    if (!req.inRequest) throw new Error("cookies() called outside a request scope");
+    return { get: () => (req.cookie ? { value: req.cookie } : undefined) };
+  },
+  headers: () => {
+    if (!req.inRequest) throw new Error("headers() called outside a request scope");
+    return { get: () => req.authorization };
+  },
+}));
+// session tokens here are just "session:<userId>"
+vi.mock("@/lib/session", () => ({
+  SESSION_COOKIE: "sbp_session",
+  verifySessionToken: (t?: string | null) =>
+    t?.startsWith("session:") ? { userId: t.slice("session:".length), exp: Infinity } : null,
+}));
+vi.mock("@/lib/apiKeys", () => ({ isLiveApiKey: async (raw: string) => raw === "sbp_live" }));
+
+import { Prisma } from "@prisma/client";
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { currentDataScope, customerScopeSql, rowScopeExtension } from "@/lib/scope";
+
+const NONE = { all: false, repIds: [], repNames: [] };
+const scoped = () => fakeDb.client.$extends(rowScopeExtension(fakeDb.client));
+
+function signInAs(userId: string) {
+  req.cookie = `session:${userId}`;
+}
+
+beforeEach(() => {
+  req.cookie = undefined;
+  req.authorization = null;
+  req.inRequest = true;
+  fakeDb.reset({
+    user: [
+      { id: "admin", role: "ADMIN", email: "admin@example.com", isActive: true, salesRep: null, managedReps: [] },
+      { id: "amy", role: "REP", email: "amy@example.com", isActive: true, salesRep: { id: "rep-amy", name: "Amy" }, managedReps: [] },
+      { id: "gone", role: "ADMIN", email: "gone@example.com", isActive: false, salesRep: null, managedReps: [] },
+    ],
+    customer: [
+      { id: "c-amy", salonName: "Amy's", salesRepId: "rep-amy", salesRep: "Amy" },
+      { id: "c-legacy", salonName: "Legacy", salesRepId: null, salesRep: "Amy" },
+      { id: "c-bob", salonName: "Bob's", salesRepId: "rep-bob", salesRep: "Bob" },
+    ],
+    callLog: [
+      { id: "call-amy", repId: "rep-amy", staff: "Amy", customerId: "c-bob" },
+      { id: "call-about-amy", repId: "rep-bob", staff: "Bob", customerId: "c-amy" },
+      { id: "call-bob", repId: "rep-bob", staff: "Bob", customerId: "c-bob" },
+    ],
+    task: [
+      { id: "task-amy", assigneeRepId: "rep-amy", customerId: null },
+      { id: "task-bob", assigneeRepId: "rep-bob", customerId: "c-bob" },
+    ],
+    educationRequest: [
+      { id: "edu-amy", customerId: "c-amy" },
+      { id: "edu-bob", customerId: "c-bob" },
+    ],
+  });
+});
+
+describe("currentDataScope", () => {
+  it("sees nothing outside a request", async () => {
+    req.inRequest = false;
+    expect(await currentDataScope(fakeDb.client)).toEqual(NONE);
+  });
+
+  it("sees nothing without a session or API key", async () => {
+    expect(await currentDataScope(fakeDb.client)).toEqual(NONE);
+    req.cookie = "forged";
+    expect(await currentDataScope(fakeDb.client)).toEqual(NONE);
+  });
+
+  it("sees nothing with a revoked or unknown API key", async () => {
+    req.authorization = "Bearer sbp_revoked";
+    expect((await currentDataScope(fakeDb.client)).all).toBe(false);
+  });
+
+  it("sees everything with a live API key", async () => {
+    req.authorization = "Bearer sbp_live";
+    expect((await currentDataScope(fakeDb.client)).all).toBe(true);
+  });
+
+  it("resolves the signed-in user's scope", async () => {
+    signInAs("admin");
+    expect((await currentDataScope(fakeDb.client)).all).toBe(true);
+    signInAs("amy");
+    expect(await currentDataScope(fakeDb.client)).toEqual({ all: false, repIds: ["rep-amy"], repNames: ["Amy"] });
+  });
+
+  it("sees nothing as an inactive user", async () => {
+    signInAs("gone");
+    expect(await currentDataScope(fakeDb.client)).toEqual(NONE);
+  });
+});
+
+describe("rowScopeExtension", () => {
+  const ids = (rows: { id?: string }[]) => rows.map((r) => r.id).sort();
+
+  it("limits a rep to their own customers, including legacy name-only rows", async () => {
+    signInAs("amy");
+    expect(ids(await scoped().customer.findMany())).toEqual(["c-amy", "c-legacy"]);
+    expect(await scoped().customer.findUnique({ where: { id: "c-bob" } })).toBeNull();
+    expect(await scoped().customer.count()).toBe(2);
+  });
+
+  it("shows calls the rep logged or that are about their customers", async () => {
+    signInAs("amy");
+    expect(ids(await scoped().callLog.findMany())).toEqual(["call-about-amy", "call-amy"]);
+  });
+
+  it("shows tasks assigned to the rep or about their customers", async () => {
+    signInAs("amy");
+    expect(ids(await scoped().task.findMany())).toEqual(["task-amy"]);
+  });
+
+  it("scopes education records through their customer", async () => {
+    signInAs("amy");
+    expect(ids(await scoped().educationRequest.findMany())).toEqual(["edu-amy"]);
+  });
+
+  it("won't update or delete another rep's rows", async () => {
+    signInAs("amy");
+    await expect(scoped().customer.update({ where: { id: "c-bob" }, data: { salonName: "Mine now" } })).rejects.toThrow();
+    expect(await scoped().customer.deleteMany({ where: {} })).toEqual({ count: 2 });
+    expect(ids(fakeDb.rows("customer"))).toEqual(["c-bob"]);
+  });
+
+  it("leaves creates alone", async () => {
+    signInAs("amy");
+    await scoped().customer.create({ data: { id: "c-new", salonName: "New", salesRepId: "rep-bob" } });
+    expect(ids(fakeDb.rows("customer"))).toContain("c-new");
+  });
+
+  it("returns nothing without a session", async () => {
+    expect(await scoped().customer.findMany()).toEqual([]);
+    expect(await scoped().callLog.count()).toBe(0);
+  });
+
+  it("leaves admins unrestricted", async () => {
+    signInAs("admin");
+    expect(await scoped().customer.count()).toBe(3);
+  });
+});
+
+describe("customerScopeSql", () => {
+  it("is empty for unrestricted scopes and false for none", () => {
+    expect(customerScopeSql({ all: true, repIds: [], repNames: [] })).toBe(Prisma.empty);
+    expect(customerScopeSql(NONE).sql).toBe("AND FALSE");
+  });
+
+  it("filters by rep id or legacy rep name", () => {
+    const sql = customerScopeSql({ all: false, repIds: ["rep-amy"], repNames: ["Amy"] }, "cu");
+    expect(sql.sql).toBe(`AND ("cu"."salesRepId" IN (?) OR ("cu"."salesRepId" IS NULL AND "cu"."salesRep" IN (?)))`);
+    expect(sql.values).toEqual(["rep-amy", "Amy"]);
+  });
+});
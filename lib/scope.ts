@@ -0,0 +1,200 @@
+// lib/scope.ts
+// Row-level data scoping. REP users only see their own customers, calls and
+// orders; MANAGER users see the reps they manage. Applied to every query on the
+// shared Prisma client (see lib/prisma.ts), so routes don't filter by hand.
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { cookies, headers } from "next/headers";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/session";
+
+/** `all` = unrestricted; otherwise only rows belonging to these reps. */
+export type DataScope = { all: boolean; repIds: string[]; repNames: string[] };
+
+const ALL: DataScope = { all: true, repIds: [], repNames: [] };
+const NONE: DataScope = { all: false, repIds: [], repNames: [] };
+
+/** Models whose rows belong to a rep (directly or through their customer). */
+const SCOPED_MODELS = new Set([
+  "Customer",
+  "CallLog",
+  "Order",
+  "Visit",
+  "Note",
+  "Task",
+  "EducationRequest",
+  "EducationBooking",
+]);
+
+/** Reads and targeted writes. Creates and upserts (Shopify sync) are left alone. */
+const SCOPED_OPERATIONS = new Set([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+  "update",
+  "updateMany",
+  "delete",
+  "deleteMany",
+]);
+
+/** Resolve what a user may see. Unknown/inactive users see nothing. */
+export async function resolveDataScope(db: PrismaClient, userId: string): Promise<DataScope> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      email: true,
+      isActive: true,
+      salesRep: { select: { id: true, name: true } },
+      managedReps: { select: { id: true, name: true } },
+    },
+  });
+  if (!user || !user.isActive) return NONE;
+
+  if (user.role === "REP") {
+    // Not linked yet: fall back to a rep with the same email address
+    const rep =
+      user.salesRep ??
+      (await db.salesRep.findFirst({
+        where: { email: { equals: user.email, mode: "insensitive" } },
+        select: { id: true, name: true },
+      }));
+    return rep ? { all: false, repIds: [rep.id], repNames: [rep.name] } : NONE;
+  }
+
+  if (user.role === "MANAGER" && user.managedReps.length) {
+    const reps = [...user.managedReps, ...(user.salesRep ? [user.salesRep] : [])];
+    return {
+      all: false,
+      repIds: Array.from(new Set(reps.map((r) => r.id))),
+      repNames: Array.from(new Set(reps.map((r) => r.name))),
+    };
+  }
+
+  return ALL;
+}
+
+// Small per-token cache so a report issuing dozens of queries resolves the scope once
+const CACHE_TTL_MS = 30_000;
+const cache = new Map<string, { scope: DataScope; at: number }>();
+
+/** API key on the request in flight (`Authorization: Bearer sbp_…`), if any. */
+function requestApiKey() {
+  try {
+    const m = /^Bearer\s+(sbp_\S+)$/i.exec(headers().get("authorization") || "");
+    return m ? m[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Scope for the request in flight. Fails closed: outside a request (cron, scripts) or
+ * without a session (public webhooks) queries see nothing, so system code must opt in
+ * with unscopedPrisma. API keys are admin-issued for whole-business jobs (reports,
+ * backfills, cron) and middleware only lets them reach routes their scopes cover, so
+ * a live key sees everything.
+ */
+export async function currentDataScope(db: PrismaClient): Promise<DataScope> {
+  let token: string | undefined;
+  try {
+    token = cookies().get(SESSION_COOKIE)?.value;
+  } catch {
+    return NONE;
+  }
+  const payload = verifySessionToken(token);
+  if (!payload) return (await apiKeyScope()) ?? NONE;
+
+  const hit = cache.get(token!);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.scope;
+
+  const scope = await resolveDataScope(db, payload.userId);
+  if (cache.size > 500) cache.clear();
+  cache.set(token!, { scope, at: Date.now() });
+  return scope;
+}
+
+async function apiKeyScope(): Promise<DataScope | null> {
+  const key = requestApiKey();
+  if (!key) return null;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.scope;
+  // imported lazily: lib/apiKeys reads through lib/prisma, which is built on this module
+  const { isLiveApiKey } = await import("@/lib/apiKeys");
+  const scope = (await isLiveApiKey(key)) ? ALL : NONE;
+  if (cache.size > 500) cache.clear();
+  cache.set(key, { scope, at: Date.now() });
+  return scope;
+}
+
+/* ---------------- where builders ---------------- */
+
+export function customerScopeWhere(scope: DataScope): Prisma.CustomerWhereInput {
+  return {
+    OR: [
+      { salesRepId: { in: scope.repIds } },
+      // legacy rows that only carry the free-text rep name
+      { salesRepId: null, salesRep: { in: scope.repNames } },
+    ],
+  };
+}
+
+function scopeWhere(model: string, scope: DataScope): Record<string, any> {
+  const customer = customerScopeWhere(scope);
+  switch (model) {
+    case "Customer":
+      return customer;
+    case "CallLog":
+      // calls logged by the rep, or about one of their customers
+      return {
+        OR: [
+          { repId: { in: scope.repIds } },
+          { repId: null, staff: { in: scope.repNames } },
+          { customer },
+        ],
+      };
+    case "Task":
+      // assigned to the rep, or about one of their customers
+      return { OR: [{ assigneeRepId: { in: scope.repIds } }, { customer }] };
+    default:
+      // Order, Visit, Note and education requests/bookings hang off a customer
+      return { customer };
+  }
+}
+
+/** SQL fragment for raw queries joining "Customer" as `alias`. Empty when unscoped. */
+export function customerScopeSql(scope: DataScope, alias = "c"): Prisma.Sql {
+  if (scope.all) return Prisma.empty;
+  if (!scope.repIds.length && !scope.repNames.length) return Prisma.sql`AND FALSE`;
+  const col = (name: string) => Prisma.raw(`"${alias}"."${name}"`);
+  const ids = scope.repIds.length ? Prisma.join(scope.repIds) : Prisma.sql`NULL`;
+  const names = scope.repNames.length ? Prisma.join(scope.repNames) : Prisma.sql`NULL`;
+  return Prisma.sql`AND (${col("salesRepId")} IN (${ids}) OR (${col("salesRepId")} IS NULL AND ${col("salesRep")} IN (${names})))`;
+}
+
+/** Prisma client extension that ANDs the current scope into every scoped query. */
+export function rowScopeExtension(db: PrismaClient) {
+  return Prisma.defineExtension({
+    name: "rowScope",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!SCOPED_MODELS.has(model) || !SCOPED_OPERATIONS.has(operation)) return query(args);
+
+          const scope = await currentDataScope(db);
+          if (scope.all) return query(args);
+
+          const a: any = args ?? {};
+          const where = a.where ?? {};
+          const and = where.AND == null ? [] : Array.isArray(where.AND) ? where.AND : [where.AND];
+          // keep unique fields at the top level so findUnique/update stay valid
+          a.where = { ...where, AND: [...and, scopeWhere(model, scope)] };
+          return query(a);
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,37 @@
+// lib/session.ts
+// Signed session token helpers (Node HMAC; middleware mirrors with WebCrypto).
+// Kept free of Prisma so lib/prisma can read the session without an import cycle.
+import crypto from "crypto";
+
+export const SESSION_COOKIE = "sbp_session";
+
+/** sid points at the Session row that must still be live for the token to count. */
+export type TokenPayload = { userId: string; sid?: string; exp: number };
+
+function sign(payloadB64: string) {
+  const secret = process.env.AUTH_SECRET || "dev-insecure-secret-change-me";
+  return crypto.createHmac("sha256", secret).update(payloadB64).digest("base64url");
+}
+
+export function signSessionPayload(payload: TokenPayload) {
+  const p = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${p}.${sign(p)}`;
+}
+
+export function verifySessionToken(token?: string | null): TokenPayload | null {
+  if (!token) return null;
+  const parts = token.split(".");
+  if (parts.length !== 2) return null;
+  const [p, sig] = parts;
+  const expected = sign(p);
+  if (sig !== expected) return null;
+
+  try {
+    const json = JSON.parse(Buffer.from(p, "base64url").toString()) as TokenPayload;
+    if (!json?.userId || typeof json.exp !== "number") return null;
+    if (json.exp < Math.floor(Date.now() / 1000)) return null;
+    return json;
+  } catch {
+    return null;
+  }
+}
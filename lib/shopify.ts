@@ -1,6 +1,12 @@
 // lib/shopify.ts
-import { prisma } from "@/lib/prisma";
+import { prisma, systemPrisma } from "@/lib/prisma";
 import { resolveStageAfterOrder } from "@/lib/pipeline";
+import { recordStageChange, setCustomerStage } from "@/lib/stageHistory";
+import { flagDuplicatesOf } from "@/lib/duplicates";
+import { syncPrimaryFromCustomer } from "@/lib/contacts";
+import { geocodeCustomer } from "@/lib/geocode";
+import { indexCustomerSearch } from "@/lib/customerSearch";
+import { mergeTags, withoutTags } from "@/lib/customerTags";
 import crypto from "crypto";
 
 /** ───────────────── Env ───────────────── */
@@ -162,6 +168,7 @@ export function extractShopifyCustomerId(payload: any): string | null {
 }
 
 /** ───────────────── Inbound upserts (Shopify → CRM) ───────────────── */
+// Webhooks and backfills have no user session, so these read and write systemPrisma.
 type UpsertOpts = {
   updateOnly?: boolean; // if true, do not create CRM customers when no match found
   matchBy?: "shopifyIdOnly" | "shopifyIdOrEmail";
@@ -214,26 +221,48 @@ export async function upsertCustomerFromShopify(
   const matchMode = opts?.matchBy ?? "shopifyIdOrEmail";
   let existing: { id: string } | null = null;
   if (shopifyId) {
-    existing = await prisma.customer.findFirst({ where: { shopifyCustomerId: shopifyId } });
+    existing = await systemPrisma.customer.findFirst({ where: { shopifyCustomerId: shopifyId } });
+    // Merged away into another CRM customer: leave the survivor's details alone
+    if (!existing && (await customerByMergedShopifyId(shopifyId))) return;
   }
   if (!existing && matchMode === "shopifyIdOrEmail" && email) {
-    existing = await prisma.customer.findFirst({ where: { customerEmailAddress: email } });
+    existing = await systemPrisma.customer.findFirst({ where: { customerEmailAddress: email } });
   }
 
   if (existing) {
     const data: any = { ...base };
-    if ("tags" in shop) data.shopifyTags = { set: tags };
+    if ("tags" in shop) {
+      data.shopifyTags = { set: tags };
+      data.tags = { set: await mergeInboundTags(existing.id, tags) };
+      data.tagsSyncedAt = new Date();
+    }
     if (repName) data.salesRep = repName;
-    await prisma.customer.update({ where: { id: existing.id }, data });
+    await systemPrisma.customer.update({ where: { id: existing.id }, data });
+    await syncPrimaryFromCustomer(existing.id);
+    await geocodeCustomer(existing.id);
+    await indexCustomerSearch(existing.id);
     return;
   }
 
   if (opts?.updateOnly) return;
 
   const createData: any = { ...base };
-  if ("tags" in shop) createData.shopifyTags = tags;
+  if ("tags" in shop) {
+    createData.shopifyTags = tags;
+    createData.tags = withoutTags(tags, await allRepTagsToStripLower());
+    createData.tagsSyncedAt = new Date();
+  }
   if (repName) createData.salesRep = repName;
-  await prisma.customer.create({ data: createData });
+  const created = await systemPrisma.customer.create({ data: createData });
+  await recordStageChange({ customerId: created.id, from: null, to: created.stage, cause: "CREATED" });
+  await geocodeCustomer(created.id);
+  await indexCustomerSearch(created.id);
+  await flagDuplicatesOf(created.id);
+}
+
+/** CRM customer that a (since merged) Shopify customer id now belongs to. */
+function customerByMergedShopifyId(shopifyId: string) {
+  return systemPrisma.customer.findFirst({ where: { mergedShopifyCustomerIds: { has: shopifyId } } });
 }
 
 /** Orders (Shopify → CRM) */
@@ -241,15 +270,17 @@ export async function upsertOrderFromShopify(order: any, _shopDomain: string) {
   const orderId = String(order.id);
   const custShopId = order.customer ? String(order.customer.id) : null;
 
-  const linkedCustomer =
-    custShopId ? await prisma.customer.findFirst({ where: { shopifyCustomerId: custShopId } }) : null;
+  const linkedCustomer = custShopId
+    ? (await systemPrisma.customer.findFirst({ where: { shopifyCustomerId: custShopId } })) ??
+      (await customerByMergedShopifyId(custShopId))
+    : null;
 
   const shippingFromSet =
     order?.total_shipping_price_set?.shop_money?.amount ??
     order?.total_shipping_price_set?.presentment_money?.amount ?? null;
   const shipping = toNumber(shippingFromSet) ?? toNumber(order?.shipping_lines?.[0]?.price) ?? null;
 
-  const ord = await prisma.order.upsert({
+  const ord = await systemPrisma.order.upsert({
     where: { shopifyOrderId: orderId },
     create: {
       shopifyOrderId: orderId,
@@ -289,7 +320,7 @@ export async function upsertOrderFromShopify(order: any, _shopDomain: string) {
   });
 
   // Recreate line items
-  await prisma.orderLineItem.deleteMany({ where: { orderId: ord.id } });
+  await systemPrisma.orderLineItem.deleteMany({ where: { orderId: ord.id } });
 
   const itemsData = (order.line_items || []).map((li: any) => {
     const qty = Number(li.quantity ?? 0);
@@ -309,18 +340,15 @@ export async function upsertOrderFromShopify(order: any, _shopDomain: string) {
     };
   });
 
-  if (itemsData.length) await prisma.orderLineItem.createMany({ data: itemsData });
+  if (itemsData.length) await systemPrisma.orderLineItem.createMany({ data: itemsData });
 
   // Auto-advance pipeline stage based on order value (forward-only)
   if (linkedCustomer) {
     try {
       const total = toNumber(order.total_price) ?? 0;
-      const newStage = resolveStageAfterOrder(linkedCustomer.stage as any, total);
+      const newStage = resolveStageAfterOrder(linkedCustomer.stage, total);
       if (newStage) {
-        await prisma.customer.update({
-          where: { id: linkedCustomer.id },
-          data: { stage: newStage as any },
-        });
+        await setCustomerStage(linkedCustomer.id, newStage, "ORDER", { orderId: ord.id, system: true });
       }
     } catch (e) {
       console.error("Auto-advance stage from order failed:", e);
@@ -331,6 +359,10 @@ export async function upsertOrderFromShopify(order: any, _shopDomain: string) {
 }
 
 /** ───────────────── Outbound push (CRM → Shopify) ───────────────── */
+/** Tag fields to store once Shopify has confirmed `shopTags`: both sides now agree. */
+function syncedTags(shopTags: string[], repUniverse: Set<string>) {
+  return { shopifyTags: shopTags, tags: withoutTags(shopTags, repUniverse), tagsSyncedAt: new Date() };
+}
 async function tagForSalesRepName(repName: string): Promise<string> {
   const rep = await prisma.salesRep.findFirst({ where: { name: repName }, select: { id: true, name: true } });
   if (!rep) return repName;
@@ -347,9 +379,24 @@ async function allRepTagsToStripLower(): Promise<Set<string>> {
   for (const r of reps) if (r.name) s.add(r.name.toLowerCase().trim());
   return s;
 }
-async function fetchShopifyCustomerTags(shopifyId: string): Promise<string[]> {
+/**
+ * CRM tags after a Shopify change: what Shopify added or removed since the last sync
+ * applied to the CRM's tags. Before the first sync Shopify's tags are taken as they are
+ * (alongside any the CRM already had), rather than treating the CRM's empty list as
+ * removals.
+ */
+async function mergeInboundTags(customerId: string, shopTags: string[]): Promise<string[]> {
+  const c = await systemPrisma.customer.findUnique({
+    where: { id: customerId },
+    select: { tags: true, shopifyTags: true, tagsSyncedAt: true },
+  });
+  const reps = await allRepTagsToStripLower();
+  const base = c?.tagsSyncedAt ? withoutTags(c.shopifyTags, reps) : [];
+  return mergeTags(base, c?.tags ?? [], withoutTags(shopTags, reps));
+}
+async function fetchShopifyCustomerTags(shopifyId: string): Promise<string[] | null> {
   const res = await shopifyRest(`/customers/${shopifyId}.json`, { method: "GET" });
-  if (!res.ok) return [];
+  if (!res.ok) return null;
   const json = await res.json();
   return parseShopifyTags(json?.customer?.tags);
 }
@@ -380,11 +427,15 @@ export async function pushCustomerToShopifyById(crmCustomerId: string) {
   let existingShopifyId = c.shopifyCustomerId || null;
   let existingTags: string[] = [];
   if (existingShopifyId) {
-    try { existingTags = await fetchShopifyCustomerTags(existingShopifyId); } catch { existingTags = []; }
+    // if Shopify can't be read, assume nothing changed there since the last sync
+    try { existingTags = (await fetchShopifyCustomerTags(existingShopifyId)) ?? c.shopifyTags; } catch { existingTags = c.shopifyTags; }
   }
 
+  // CRM tags merged with whatever changed on Shopify since the last sync; rep tags
+  // are replaced by the current rep's
   const repUniverse = await allRepTagsToStripLower();
-  const kept = existingTags.filter(t => !repUniverse.has(t.toLowerCase().trim()));
+  const base = c.tagsSyncedAt ? withoutTags(c.shopifyTags, repUniverse) : [];
+  const kept = mergeTags(base, withoutTags(c.tags, repUniverse), withoutTags(existingTags, repUniverse));
   const newTags = repTag ? [...kept, repTag] : kept;
 
   const payload: any = {
@@ -409,7 +460,7 @@ export async function pushCustomerToShopifyById(crmCustomerId: string) {
         data: {
           shopifyCustomerId: shopifyId,
           shopifyLastSyncedAt: new Date(),
-          shopifyTags: parseShopifyTags(json?.customer?.tags),
+          ...syncedTags(parseShopifyTags(json?.customer?.tags), repUniverse),
         },
       });
     }
@@ -424,7 +475,7 @@ export async function pushCustomerToShopifyById(crmCustomerId: string) {
       where: { id: c.id },
       data: {
         shopifyLastSyncedAt: new Date(),
-        shopifyTags: parseShopifyTags(json?.customer?.tags),
+        ...syncedTags(parseShopifyTags(json?.customer?.tags), repUniverse),
       },
     });
   }
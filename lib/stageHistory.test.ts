@@ -0,0 +1,71 @@
+// lib/stageHistory.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const actor = vi.hoisted(() => ({ id: null as string | null }));
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/auditTrail", () => ({ currentActorId: () => actor.id }));
+
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { recordStageChange, setCustomerStage, StageError } from "@/lib/stageHistory";
+
+beforeEach(() => {
+  actor.id = "amy";
+  fakeDb.reset({
+    customer: [{ id: "c1", stage: "ENGAGED", lossReason: null, lossBrandId: null, lossNote: null }],
+  });
+});
+
+describe("setCustomerStage", () => {
+  it("moves the customer and records the move with its cause, actor and call", async () => {
+    expect(await setCustomerStage("c1", "SAMPLING", "CALL", { callLogId: "call1" })).toBe("ENGAGED");
+
+    expect(fakeDb.rows("customer")[0].stage).toBe("SAMPLING");
+    expect(fakeDb.rows("stageChange")).toMatchObject([
+      { customerId: "c1", fromStage: "ENGAGED", toStage: "SAMPLING", cause: "CALL", userId: "amy", callLogId: "call1", orderId: null },
+    ]);
+    expect(fakeDb.rows("stageChange")[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it("records nothing when the stage doesn't change", async () => {
+    expect(await setCustomerStage("c1", "ENGAGED", "MANUAL")).toBeNull();
+    expect(await setCustomerStage("missing", "CUSTOMER", "ORDER")).toBeNull();
+
+    expect(fakeDb.rows("stageChange")).toEqual([]);
+  });
+
+  it("keeps moves from webhooks and rules without a signed-in user", async () => {
+    actor.id = null;
+
+    await setCustomerStage("c1", "CUSTOMER", "ORDER", { orderId: "o1", system: true });
+
+    expect(fakeDb.rows("stageChange")).toMatchObject([{ cause: "ORDER", orderId: "o1", userId: null }]);
+  });
+});
+
+describe("recordStageChange", () => {
+  it("takes an explicit actor over the signed-in user", async () => {
+    await recordStageChange({ customerId: "c1", from: null, to: "LEAD", cause: "IMPORT", userId: "importer" });
+
+    expect(fakeDb.rows("stageChange")).toMatchObject([{ fromStage: null, toStage: "LEAD", cause: "IMPORT", userId: "importer" }]);
+  });
+
+  it("doesn't fail the caller when the history can't be written", async () => {
+    // make the insert collide, standing in for any database error
+    fakeDb.reset({ stageChange: [{ id: "s0", customerId: "c1" }] }, { unique: { stageChange: [["customerId"]] } });
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(recordStageChange({ customerId: "c1", from: "LEAD", to: "ENGAGED", cause: "MANUAL" })).resolves.toBeUndefined();
+
+    expect(error).toHaveBeenCalledWith("[stage] history write failed:", "c1", expect.any(Error));
+    error.mockRestore();
+  });
+});
+
+describe("closed stages", () => {
+  it("need a loss reason", async () => {
+    await expect(setCustomerStage("c1", "LOST", "MANUAL")).rejects.toThrow(StageError);
+
+    expect(fakeDb.rows("customer")[0].stage).toBe("ENGAGED");
+  });
+});
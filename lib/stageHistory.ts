@@ -0,0 +1,103 @@
+// lib/stageHistory.ts
+// Customer.stage only holds the current stage; every move is also written to
+// StageChange (from/to, cause, actor, and the call or order behind it) so pipeline
+// velocity can be reported. Anything that changes a customer's stage goes through
+// setCustomerStage(); new customers get a CREATED/IMPORT row from recordStageChange().
+// Moves to LOST or DORMANT carry a loss reason, kept on the customer until they come
+// back into the pipeline.
+import type { CustomerStage, LossReason, StageChangeCause } from "@prisma/client";
+import { prisma, systemPrisma } from "@/lib/prisma";
+import { currentActorId } from "@/lib/auditTrail";
+import { isClosedStage, parseLossReason } from "@/lib/pipeline";
+
+export const STAGE_CHANGE_CAUSE_LABELS: Record<StageChangeCause, string> = {
+  CREATED: "Created",
+  MANUAL: "Edited",
+  CALL: "Call",
+  ORDER: "Order",
+  IMPORT: "Import",
+  MERGE: "Merge",
+  BACKFILL: "Backfill",
+  RULE: "Automatic rule",
+};
+
+export class StageError extends Error {}
+
+export type StageLoss = { reason: LossReason; brandId?: string | null; note?: string | null };
+
+type StageRefs = { callLogId?: string | null; orderId?: string | null; loss?: StageLoss | null };
+
+/** Extra options for setCustomerStage(). `system`: Shopify sync and other callers with no user scope. */
+type StageOpts = StageRefs & { system?: boolean };
+
+/**
+ * Loss details from a request body ({ lossReason, lossBrandId, lossNote }); null for
+ * pipeline stages. Throws StageError when a LOST/DORMANT move has no usable reason.
+ */
+export function parseStageLoss(to: CustomerStage, body: any): StageLoss | null {
+  if (!isClosedStage(to)) return null;
+  const reason = parseLossReason(body?.lossReason);
+  if (!reason) throw new StageError("Pick a reason for marking the customer lost or dormant");
+  const brandId = body?.lossBrandId ? String(body.lossBrandId) : null;
+  if (reason === "COMPETITOR" && !brandId) throw new StageError("Pick the brand the customer went with");
+  const note = String(body?.lossNote ?? "").trim() || null;
+  return { reason, brandId: reason === "COMPETITOR" ? brandId : null, note };
+}
+
+/** Customer loss columns for a stage: filled on LOST/DORMANT, cleared otherwise. */
+export function stageLossData(to: CustomerStage, loss: StageLoss | null | undefined) {
+  const keep = isClosedStage(to) && loss ? loss : null;
+  return {
+    lossReason: keep?.reason ?? null,
+    lossBrandId: keep?.brandId ?? null,
+    lossNote: keep?.note ?? null,
+  };
+}
+
+/**
+ * Append a StageChange row. Never throws: the stage itself has already been saved,
+ * and a missing history row shouldn't fail the request that moved it. `userId`
+ * defaults to the signed-in user, as in writeAudit().
+ */
+export async function recordStageChange(entry: {
+  userId?: string | null;
+  customerId: string;
+  from: CustomerStage | null;
+  to: CustomerStage;
+  cause: StageChangeCause;
+} & StageRefs) {
+  const loss = stageLossData(entry.to, entry.loss);
+  try {
+    await prisma.stageChange.create({
+      data: {
+        customerId: entry.customerId,
+        fromStage: entry.from,
+        toStage: entry.to,
+        cause: entry.cause,
+        userId: entry.userId === undefined ? currentActorId() : entry.userId,
+        callLogId: entry.callLogId ?? null,
+        orderId: entry.orderId ?? null,
+        lossReason: loss.lossReason,
+        lossBrandId: loss.lossBrandId,
+      },
+    });
+  } catch (e) {
+    console.error("[stage] history write failed:", entry.customerId, e);
+  }
+}
+
+/**
+ * Move a customer to `to` and record it. No-op when the customer is already there.
+ * Moving to LOST or DORMANT needs `refs.loss`. Returns the previous stage when it
+ * moved, otherwise null. `system` callers (webhooks) bypass row scoping.
+ */
+export async function setCustomerStage(customerId: string, to: CustomerStage, cause: StageChangeCause, opts: StageOpts = {}) {
+  const { system, ...refs } = opts;
+  if (isClosedStage(to) && !refs.loss) throw new StageError("A reason is needed to mark a customer lost or dormant");
+  const db = system ? systemPrisma : prisma;
+  const current = await db.customer.findUnique({ where: { id: customerId }, select: { stage: true } });
+  if (!current || current.stage === to) return null;
+  await db.customer.update({ where: { id: customerId }, data: { stage: to, ...stageLossData(to, refs.loss) } });
+  await recordStageChange({ customerId, from: current.stage, to, cause, ...refs });
+  return current.stage;
+}
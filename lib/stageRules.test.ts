@@ -0,0 +1,113 @@
+// lib/stageRules.test.ts
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+vi.mock("@/lib/audit", () => ({ writeAudit: async () => {} }));
+vi.mock("@/lib/auditTrail", () => ({ currentActorId: () => "amy" }));
+
+import type { Prisma } from "@prisma/client";
+import { fakeDb } from "@/lib/testing/fakeDb";
+import { DEFAULT_PIPELINE_OPTIONS, resolveStageAfterOrder, resolveStageAfterOutcome } from "@/lib/pipeline";
+import { parseStageLoss, setCustomerStage, StageError } from "@/lib/stageHistory";
+import { applyCallRules, markDormantCustomers } from "@/lib/stageRules";
+
+const OUTCOMES = DEFAULT_PIPELINE_OPTIONS.OUTCOME;
+const DAY = 86_400_000;
+
+function call(id: string, outcome: string, daysAgo: number) {
+  return { id, customerId: "c1", outcome, createdAt: new Date(Date.now() - daysAgo * DAY) };
+}
+
+beforeEach(() => {
+  fakeDb.reset({
+    customer: [{ id: "c1", stage: "ENGAGED", lossReason: null, lossBrandId: null, lossNote: null }],
+  });
+});
+
+describe("lost after repeated losing calls", () => {
+  it("marks the customer LOST once the last calls all had a losing outcome", async () => {
+    fakeDb.rows("callLog").push(call("k1", "No Interest", 3), call("k2", "no interest", 2), call("k3", "No Interest", 1));
+
+    expect(await applyCallRules("c1", "k3", OUTCOMES)).toBe("ENGAGED");
+
+    expect(fakeDb.rows("customer")[0]).toMatchObject({ stage: "LOST", lossReason: "NO_INTEREST" });
+    expect(fakeDb.rows("stageChange")).toMatchObject([
+      { fromStage: "ENGAGED", toStage: "LOST", cause: "RULE", callLogId: "k3", lossReason: "NO_INTEREST" },
+    ]);
+  });
+
+  it("leaves the customer alone while any recent call went better", async () => {
+    fakeDb.rows("callLog").push(call("k1", "No Interest", 3), call("k2", "Sample Requested", 2), call("k3", "No Interest", 1));
+
+    expect(await applyCallRules("c1", "k3", OUTCOMES)).toBeNull();
+    expect(fakeDb.rows("customer")[0].stage).toBe("ENGAGED");
+  });
+
+  it("can be switched off", async () => {
+    fakeDb.rows("pipelineSettings").push({ id: 1, dormantAfterDays: 365, lostAfterCalls: 0 });
+    fakeDb.rows("callLog").push(call("k1", "No Interest", 3), call("k2", "No Interest", 2), call("k3", "No Interest", 1));
+
+    expect(await applyCallRules("c1", "k3", OUTCOMES)).toBeNull();
+  });
+});
+
+describe("dormant after no recent orders", () => {
+  it("marks every customer the query finds DORMANT and records why", async () => {
+    fakeDb.rows("customer").push({ id: "c2", stage: "CUSTOMER" });
+    let cutoff: unknown;
+    fakeDb.raw = async (query: Prisma.Sql) => {
+      cutoff = query.values[0];
+      return [{ id: "c1", stage: "ENGAGED" }, { id: "c2", stage: "CUSTOMER" }];
+    };
+    const now = new Date("2026-06-01T00:00:00Z");
+
+    expect(await markDormantCustomers(now)).toEqual({ dormantAfterDays: 365, marked: 2 });
+
+    expect(cutoff).toEqual(new Date("2025-06-01T00:00:00Z"));
+    expect(fakeDb.rows("customer").map((c) => [c.stage, c.lossReason])).toEqual([
+      ["DORMANT", "NO_RECENT_ORDERS"],
+      ["DORMANT", "NO_RECENT_ORDERS"],
+    ]);
+    expect(fakeDb.rows("stageChange")).toMatchObject([
+      { customerId: "c1", fromStage: "ENGAGED", toStage: "DORMANT", cause: "RULE", userId: null },
+      { customerId: "c2", fromStage: "CUSTOMER", toStage: "DORMANT", cause: "RULE", userId: null },
+    ]);
+  });
+});
+
+describe("loss reasons", () => {
+  it("are required to close a customer, with the brand when a competitor won", () => {
+    expect(() => parseStageLoss("LOST", {})).toThrow(StageError);
+    expect(() => parseStageLoss("LOST", { lossReason: "COMPETITOR" })).toThrow("Pick the brand the customer went with");
+    expect(parseStageLoss("LOST", { lossReason: "COMPETITOR", lossBrandId: "b1", lossNote: " Cheaper " })).toEqual({
+      reason: "COMPETITOR",
+      brandId: "b1",
+      note: "Cheaper",
+    });
+    expect(parseStageLoss("LOST", { lossReason: "CLOSED", lossBrandId: "b1" })).toEqual({ reason: "CLOSED", brandId: null, note: null });
+    expect(parseStageLoss("ENGAGED", {})).toBeNull();
+  });
+
+  it("are kept while closed and cleared when the customer comes back", async () => {
+    await setCustomerStage("c1", "LOST", "MANUAL", { loss: { reason: "COMPETITOR", brandId: "b1", note: "Price" } });
+    expect(fakeDb.rows("customer")[0]).toMatchObject({ stage: "LOST", lossReason: "COMPETITOR", lossBrandId: "b1", lossNote: "Price" });
+    expect(fakeDb.rows("stageChange")[0]).toMatchObject({ toStage: "LOST", lossReason: "COMPETITOR", lossBrandId: "b1" });
+
+    await setCustomerStage("c1", "ENGAGED", "MANUAL");
+    expect(fakeDb.rows("customer")[0]).toMatchObject({ stage: "ENGAGED", lossReason: null, lossBrandId: null, lossNote: null });
+  });
+});
+
+describe("coming back from LOST or DORMANT", () => {
+  it("takes an outcome beyond LEAD, but not another losing one", () => {
+    expect(resolveStageAfterOutcome("LOST", "Sample Requested", OUTCOMES)).toBe("SAMPLING");
+    expect(resolveStageAfterOutcome("LOST", "No Interest", OUTCOMES)).toBeNull();
+    expect(resolveStageAfterOutcome("DORMANT", "Not Available", OUTCOMES)).toBeNull();
+  });
+
+  it("takes any order", () => {
+    expect(resolveStageAfterOrder("DORMANT", 120)).toBe("CUSTOMER");
+    expect(resolveStageAfterOrder("LOST", 0)).toBe("SAMPLING");
+    expect(resolveStageAfterOrder("CUSTOMER", 0)).toBeNull();
+  });
+});
@@ -0,0 +1,119 @@
+// lib/stageRules.ts
+// The rules that take customers off the pipeline without anyone editing them:
+// - lost: the last N calls all had a losing outcome (a PipelineOption with a
+//   lossReason), checked as each call is logged;
+// - dormant: ordered before, but nothing in the last N days, checked nightly by
+//   /api/cron/stage-rules.
+// Both thresholds live in the single PipelineSettings row (0 switches a rule off).
+import { Prisma } from "@prisma/client";
+import { prisma, systemPrisma } from "@/lib/prisma";
+import { writeAudit } from "@/lib/audit";
+import { findPipelineOption, isClosedStage, type PipelineOptionDef } from "@/lib/pipeline";
+import { setCustomerStage } from "@/lib/stageHistory";
+
+const DAY = 86_400_000;
+const CHUNK = 500;
+
+export class PipelineSettingsError extends Error {}
+
+export const DEFAULT_PIPELINE_SETTINGS = { dormantAfterDays: 365, lostAfterCalls: 3 };
+
+export type PipelineRuleSettings = typeof DEFAULT_PIPELINE_SETTINGS;
+
+export async function getPipelineSettings(): Promise<PipelineRuleSettings> {
+  const row = await prisma.pipelineSettings.findUnique({ where: { id: 1 } });
+  return row ? { dormantAfterDays: row.dormantAfterDays, lostAfterCalls: row.lostAfterCalls } : DEFAULT_PIPELINE_SETTINGS;
+}
+
+export async function updatePipelineSettings(body: any) {
+  const before = await getPipelineSettings();
+  const data: Partial<PipelineRuleSettings> = {};
+  for (const k of Object.keys(DEFAULT_PIPELINE_SETTINGS) as (keyof PipelineRuleSettings)[]) {
+    if (body?.[k] === undefined) continue;
+    const n = Number(body[k]);
+    if (!Number.isInteger(n) || n < 0) throw new PipelineSettingsError("Enter a whole number, or 0 to switch the rule off");
+    data[k] = n;
+  }
+  const row = await prisma.pipelineSettings.upsert({
+    where: { id: 1 },
+    create: { id: 1, ...DEFAULT_PIPELINE_SETTINGS, ...data },
+    update: data,
+  });
+  const after = { dormantAfterDays: row.dormantAfterDays, lostAfterCalls: row.lostAfterCalls };
+
+  const changes: Record<string, { from: number; to: number }> = {};
+  for (const k of Object.keys(after) as (keyof PipelineRuleSettings)[]) {
+    if (before[k] !== after[k]) changes[k] = { from: before[k], to: after[k] };
+  }
+  if (Object.keys(changes).length) {
+    await writeAudit({ action: "pipeline_settings.update", entityType: "PipelineSettings", entityId: "1", details: { changes } });
+  }
+  return after;
+}
+
+/**
+ * After a call is logged: mark the customer LOST when their last `lostAfterCalls`
+ * calls all had a losing outcome, with the reason from the latest one. Returns the
+ * previous stage when it moved, otherwise null.
+ */
+export async function applyCallRules(customerId: string, callLogId: string, outcomes: PipelineOptionDef[]) {
+  const { lostAfterCalls } = await getPipelineSettings();
+  if (lostAfterCalls <= 0) return null;
+
+  const customer = await prisma.customer.findUnique({ where: { id: customerId }, select: { stage: true } });
+  if (!customer || isClosedStage(customer.stage)) return null;
+
+  const calls = await prisma.callLog.findMany({
+    where: { customerId },
+    orderBy: { createdAt: "desc" },
+    take: lostAfterCalls,
+    select: { outcome: true },
+  });
+  if (calls.length < lostAfterCalls) return null;
+  const reasons = calls.map((c) => findPipelineOption(outcomes, c.outcome)?.lossReason ?? null);
+  if (reasons.some((r) => !r)) return null;
+
+  return setCustomerStage(customerId, "LOST", "RULE", { callLogId, loss: { reason: reasons[0]! } });
+}
+
+/**
+ * Nightly: customers still on the pipeline whose last order is more than
+ * `dormantAfterDays` old go DORMANT with NO_RECENT_ORDERS. Customers who never
+ * ordered are left alone; an order brings a dormant customer back (resolveStageAfterOrder).
+ */
+export async function markDormantCustomers(now = new Date()) {
+  const { dormantAfterDays } = await getPipelineSettings();
+  if (dormantAfterDays <= 0) return { dormantAfterDays, marked: 0 };
+  const cutoff = new Date(now.getTime() - dormantAfterDays * DAY);
+
+  const rows = await systemPrisma.$queryRaw<{ id: string; stage: string }[]>(Prisma.sql`
+    SELECT c."id", c."stage"::text AS "stage"
+    FROM "Customer" c
+    JOIN (
+      SELECT "customerId", max(coalesce("processedAt", "createdAt")) AS "lastAt"
+      FROM "Order" WHERE "customerId" IS NOT NULL GROUP BY "customerId"
+    ) o ON o."customerId" = c."id"
+    WHERE c."stage"::text NOT IN ('LOST', 'DORMANT') AND o."lastAt" < ${cutoff}
+  `);
+
+  for (let i = 0; i < rows.length; i += CHUNK) {
+    const batch = rows.slice(i, i + CHUNK);
+    await systemPrisma.$transaction([
+      systemPrisma.customer.updateMany({
+        where: { id: { in: batch.map((r) => r.id) }, stage: { notIn: ["LOST", "DORMANT"] } },
+        data: { stage: "DORMANT", lossReason: "NO_RECENT_ORDERS", lossBrandId: null, lossNote: null },
+      }),
+      systemPrisma.stageChange.createMany({
+        data: batch.map((r) => ({
+          customerId: r.id,
+          fromStage: r.stage as Prisma.StageChangeCreateManyInput["fromStage"],
+          toStage: "DORMANT" as const,
+          cause: "RULE" as const,
+          userId: null,
+          lossReason: "NO_RECENT_ORDERS" as const,
+        })),
+      }),
+    ]);
+  }
+  return { dormantAfterDays, marked: rows.length };
+}
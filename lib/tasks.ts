@@ -0,0 +1,221 @@
+// lib/tasks.ts
+// Follow-up tasks: raised automatically when a call is logged with a follow-up date,
+// or added by hand from /saleshub/tasks. Each is assigned to a rep (scoped like
+// their calls), links back to the customer and the call, and is closed by hand or
+// from the next call logged for that customer.
+import type { Prisma, TaskPriority, TaskStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { currentActorId } from "@/lib/auditTrail";
+
+export class TaskError extends Error {}
+
+const STATUSES: TaskStatus[] = ["OPEN", "DONE", "CANCELLED"];
+const PRIORITIES: TaskPriority[] = ["LOW", "NORMAL", "HIGH"];
+
+export const TASK_SELECT = {
+  id: true,
+  createdAt: true,
+  title: true,
+  notes: true,
+  status: true,
+  priority: true,
+  dueAt: true,
+  completedAt: true,
+  assigneeRep: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, fullName: true } },
+  completedBy: { select: { id: true, fullName: true } },
+  customer: { select: { id: true, salonName: true, customerName: true } },
+  callLog: { select: { id: true, createdAt: true, customerName: true } },
+  closedByCall: { select: { id: true, createdAt: true } },
+} as const;
+
+export type TaskRow = Prisma.TaskGetPayload<{ select: typeof TASK_SELECT }>;
+
+const norm = (v: unknown) => {
+  if (v == null) return null;
+  const s = String(v).trim();
+  return s === "" ? null : s;
+};
+
+function parseDue(v: unknown): Date | null {
+  const s = norm(v);
+  if (!s) return null;
+  const d = new Date(s);
+  if (isNaN(d.getTime())) throw new TaskError(`"${s}" is not a valid due date`);
+  return d;
+}
+
+/** The rep linked to a user's login, if any ("my" tasks). */
+export async function repIdOfUser(userId: string | null | undefined) {
+  if (!userId) return null;
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { salesRepId: true } });
+  return user?.salesRepId ?? null;
+}
+
+/** Validate a create/update body. Fields left out of `body` stay out of the result. */
+async function parseInput(body: any, partial: boolean) {
+  const out: {
+    title?: string;
+    notes?: string | null;
+    priority?: TaskPriority;
+    dueAt?: Date | null;
+    assigneeRepId?: string | null;
+    customerId?: string | null;
+  } = {};
+  if (body?.title !== undefined || !partial) {
+    const title = norm(body?.title);
+    if (!title) throw new TaskError("Title is required");
+    out.title = title;
+  }
+  if (body?.notes !== undefined) out.notes = norm(body.notes);
+  if (body?.priority !== undefined) {
+    const p = String(body.priority).toUpperCase() as TaskPriority;
+    if (!PRIORITIES.includes(p)) throw new TaskError(`Unknown priority "${body.priority}"`);
+    out.priority = p;
+  }
+  if (body?.dueAt !== undefined) out.dueAt = parseDue(body.dueAt);
+  if (body?.assigneeRepId !== undefined) {
+    const id = norm(body.assigneeRepId);
+    if (id && !(await prisma.salesRep.findUnique({ where: { id }, select: { id: true } }))) {
+      throw new TaskError("Unknown sales rep");
+    }
+    out.assigneeRepId = id;
+  }
+  if (!partial && body?.customerId !== undefined) {
+    const id = norm(body.customerId);
+    if (id && !(await prisma.customer.findUnique({ where: { id }, select: { id: true } }))) {
+      throw new TaskError("Unknown customer");
+    }
+    out.customerId = id;
+  }
+  return out;
+}
+
+export type TaskFilter = {
+  /** a rep id, "none" for unassigned; omitted for every task the caller can see */
+  assigneeRepId?: string | null;
+  status?: TaskStatus | "ALL";
+  customerId?: string | null;
+  overdue?: boolean;
+  take?: number;
+};
+
+export function parseTaskStatus(v: unknown): TaskStatus | "ALL" | null {
+  const s = String(v ?? "").toUpperCase();
+  return s === "ALL" || (STATUSES as string[]).includes(s) ? (s as TaskStatus | "ALL") : null;
+}
+
+/** Tasks soonest-due first (undated last), most urgent first within a day. */
+export function listTasks(filter: TaskFilter = {}) {
+  const where: Prisma.TaskWhereInput = {};
+  if (filter.assigneeRepId === "none") where.assigneeRepId = null;
+  else if (filter.assigneeRepId) where.assigneeRepId = filter.assigneeRepId;
+  const status = filter.status ?? "OPEN";
+  if (status !== "ALL") where.status = status;
+  if (filter.customerId) where.customerId = filter.customerId;
+  if (filter.overdue) {
+    where.status = "OPEN";
+    where.dueAt = { lt: new Date() };
+  }
+  return prisma.task.findMany({
+    where,
+    orderBy: [{ dueAt: { sort: "asc", nulls: "last" } }, { priority: "desc" }, { createdAt: "asc" }],
+    take: Math.min(Math.max(filter.take ?? 200, 1), 500),
+    select: TASK_SELECT,
+  });
+}
+
+export async function createTask(body: any) {
+  const input = await parseInput(body, false);
+  return prisma.task.create({
+    data: { ...input, title: input.title!, createdById: currentActorId() },
+    select: TASK_SELECT,
+  });
+}
+
+/**
+ * Edit, reassign, reschedule or change status. Marking a task DONE records who and
+ * when; reopening it clears that.
+ */
+export async function updateTask(id: string, body: any) {
+  const before = await prisma.task.findUnique({ where: { id }, select: { status: true } });
+  if (!before) return null;
+  const data: Prisma.TaskUncheckedUpdateInput = await parseInput(body, true);
+  if (body?.status !== undefined) {
+    const status = parseTaskStatus(body.status);
+    if (!status || status === "ALL") throw new TaskError(`Unknown status "${body.status}"`);
+    data.status = status;
+    if (status !== before.status) {
+      const done = status === "DONE";
+      data.completedAt = done ? new Date() : null;
+      data.completedById = done ? currentActorId() : null;
+      data.closedByCallId = null;
+    }
+  }
+  return prisma.task.update({ where: { id }, data, select: TASK_SELECT });
+}
+
+export async function deleteTask(id: string) {
+  const task = await prisma.task.findUnique({ where: { id }, select: { id: true } });
+  if (!task) return false;
+  await prisma.task.delete({ where: { id } });
+  return true;
+}
+
+/**
+ * The follow-up task for a newly logged call with a follow-up date, assigned to the
+ * rep who logged it. Never throws: the call is already saved.
+ */
+export async function createFollowUpTask(call: {
+  id: string;
+  customerId: string | null;
+  label: string;
+  staff: string;
+  nextStep: string | null;
+  summary: string;
+  followUpAt: Date | null;
+}) {
+  if (!call.followUpAt) return null;
+  try {
+    const rep = await prisma.salesRep.findFirst({
+      where: { name: { equals: call.staff, mode: "insensitive" } },
+      select: { id: true },
+    });
+    return await prisma.task.create({
+      data: {
+        title: `${call.nextStep || "Follow up"}: ${call.label}`,
+        notes: call.summary || null,
+        dueAt: call.followUpAt,
+        assigneeRepId: rep?.id ?? null,
+        customerId: call.customerId,
+        callLogId: call.id,
+        createdById: currentActorId(),
+      },
+      select: { id: true },
+    });
+  } catch (e) {
+    console.error("[tasks] follow-up task failed:", call.id, e);
+    return null;
+  }
+}
+
+/**
+ * Mark the picked open tasks of a customer DONE from a newly logged call. Tasks of
+ * other customers, or already closed, are ignored. Returns how many were closed.
+ */
+export async function closeTasksFromCall(customerId: string, callLogId: string, taskIds: string[]) {
+  if (!taskIds.length) return 0;
+  const open = await prisma.task.findMany({
+    where: { id: { in: taskIds }, customerId, status: "OPEN" },
+    select: { id: true },
+  });
+  const completedById = currentActorId();
+  // one at a time so each close lands in the audit trail
+  for (const t of open) {
+    await prisma.task.update({
+      where: { id: t.id },
+      data: { status: "DONE", completedAt: new Date(), completedById, closedByCallId: callLogId },
+    });
+  }
+  return open.length;
+}
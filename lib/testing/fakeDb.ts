@@ -0,0 +1,290 @@
+// lib/testing/fakeDb.ts
+// In-memory stand-in for the Prisma client in unit tests. Rows live in one array per
+// model (keyed by delegate name, e.g. "callLog"); where clauses support the
+// operators lib code uses, including to-one relation filters ({ customer: {...} }
+// via customerId). $transaction runs against the same store, and $extends applies
+// query extensions, so rowScopeExtension/auditExtension can be tested on top.
+//
+// In a test file:
+//   vi.mock("@/lib/prisma", () => import("@/lib/testing/fakeDb").then((m) => m.prismaModule()));
+//   import { fakeDb } from "@/lib/testing/fakeDb";
+//   beforeEach(() => fakeDb.reset({ customer: [{ id: "c1", salonName: "A" }] }));
+
+type Row = Record<string, any>;
+type Where = Record<string, any> | undefined;
+
+export type FakeDbOptions = {
+  /** Compound unique keys per model; creates that repeat one throw P2002. */
+  unique?: Record<string, string[][]>;
+  /** Child rows deleted with their parent, e.g. { customer: { task: "customerId" } }. */
+  cascade?: Record<string, Record<string, string>>;
+};
+
+type QueryExtension = {
+  query?: { $allModels?: { $allOperations?: (p: { model: string; operation: string; args: any; query: (a: any) => Promise<any> }) => Promise<any> } };
+};
+
+const modelName = (delegate: string) => delegate.charAt(0).toUpperCase() + delegate.slice(1);
+
+function prismaError(code: string, message: string) {
+  return Object.assign(new Error(message), { code });
+}
+
+function compare(a: any, b: any) {
+  const x = a instanceof Date ? a.getTime() : a;
+  const y = b instanceof Date ? b.getTime() : b;
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function same(a: any, b: any) {
+  if (a instanceof Date || b instanceof Date) return a != null && b != null && compare(a, b) === 0;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+const OPERATORS = new Set(["equals", "in", "notIn", "not", "lt", "lte", "gt", "gte", "has", "hasSome", "contains", "startsWith", "mode"]);
+
+function matchField(value: any, cond: any): boolean {
+  if (cond === null || typeof cond !== "object" || cond instanceof Date || Array.isArray(cond)) return same(value ?? null, cond);
+  const insensitive = cond.mode === "insensitive";
+  const norm = (v: any) => (insensitive && typeof v === "string" ? v.toLowerCase() : v);
+  return Object.entries(cond).every(([op, arg]: [string, any]) => {
+    switch (op) {
+      case "equals": return insensitive ? norm(value) === norm(arg) : same(value ?? null, arg);
+      case "in": return (arg as any[]).some((a) => same(value, a));
+      case "notIn": return !(arg as any[]).some((a) => same(value, a));
+      case "not": return !matchField(value, arg);
+      case "lt": return value != null && compare(value, arg) < 0;
+      case "lte": return value != null && compare(value, arg) <= 0;
+      case "gt": return value != null && compare(value, arg) > 0;
+      case "gte": return value != null && compare(value, arg) >= 0;
+      case "has": return Array.isArray(value) && value.some((v) => same(v, arg));
+      case "hasSome": return Array.isArray(value) && value.some((v) => (arg as any[]).some((a) => same(v, a)));
+      case "contains": return typeof value === "string" && norm(value).includes(norm(arg));
+      case "startsWith": return typeof value === "string" && norm(value).startsWith(norm(arg));
+      case "mode": return true;
+      default: throw new Error(`fakeDb: unsupported filter "${op}"`);
+    }
+  });
+}
+
+function applyData(row: Row, data: Row) {
+  for (const [k, v] of Object.entries(data ?? {})) {
+    // a lone { set | increment | decrement | push } is an update operation; other objects are Json values
+    if (v && typeof v === "object" && !Array.isArray(v) && !(v instanceof Date) && Object.keys(v).length === 1) {
+      if ("set" in v) row[k] = v.set;
+      else if ("increment" in v) row[k] = (row[k] ?? 0) + v.increment;
+      else if ("decrement" in v) row[k] = (row[k] ?? 0) - v.decrement;
+      else if ("push" in v) row[k] = [...(row[k] ?? []), ...[].concat(v.push)];
+      else row[k] = v; // Json columns
+    } else if (v !== undefined) {
+      row[k] = v;
+    }
+  }
+  return row;
+}
+
+function project(row: Row | null, args: any) {
+  if (!row) return null;
+  const copy = { ...row };
+  if (!args?.select) return copy;
+  return Object.fromEntries(Object.entries(args.select).filter(([, on]) => on).map(([k]) => [k, copy[k]]));
+}
+
+export function createFakeDb() {
+  let tables: Record<string, Row[]> = {};
+  let options: FakeDbOptions = {};
+  let seq = 0;
+
+  const table = (delegate: string) => (tables[delegate] ??= []);
+
+  function matches(delegate: string, row: Row, where: Where): boolean {
+    if (!where) return true;
+    return Object.entries(where).every(([k, cond]) => {
+      if (cond === undefined) return true;
+      if (k === "AND") return [].concat(cond).every((w) => matches(delegate, row, w));
+      if (k === "OR") return (cond as Where[]).some((w) => matches(delegate, row, w));
+      if (k === "NOT") return ![].concat(cond).some((w) => matches(delegate, row, w));
+      if (!(k in row) && `${k}Id` in row) {
+        // to-one relation filter: { customer: { ... } } through customerId
+        const parent = table(k).find((p) => p.id === row[`${k}Id`]);
+        return cond === null ? !parent : !!parent && matches(k, parent, cond);
+      }
+      if (!(k in row) && cond && typeof cond === "object" && !OPERATORS.has(Object.keys(cond)[0]) && k.includes("_")) {
+        // compound unique input: { a_b: { a, b } }
+        return matches(delegate, row, cond);
+      }
+      return matchField(row[k], cond);
+    });
+  }
+
+  function checkUnique(delegate: string, row: Row, self?: Row) {
+    for (const keys of [["id"], ...(options.unique?.[delegate] ?? [])]) {
+      if (keys.some((k) => row[k] == null)) continue;
+      if (table(delegate).some((r) => r !== self && keys.every((k) => same(r[k], row[k])))) {
+        throw prismaError("P2002", `Unique constraint failed on ${delegate}(${keys.join(", ")})`);
+      }
+    }
+  }
+
+  function findMany(delegate: string, args: any = {}) {
+    let rows = table(delegate).filter((r) => matches(delegate, r, args.where));
+    for (const order of [].concat(args.orderBy ?? []).reverse()) {
+      const [field, dir] = Object.entries(order as Row)[0];
+      rows = [...rows].sort((a, b) => compare(a[field], b[field]) * (dir === "desc" ? -1 : 1));
+    }
+    if (args.skip) rows = rows.slice(args.skip);
+    if (args.take != null) rows = rows.slice(0, args.take);
+    return rows;
+  }
+
+  function create(delegate: string, data: Row) {
+    const now = new Date();
+    const row = applyData({ id: `${delegate}-${++seq}`, createdAt: now, updatedAt: now }, data);
+    checkUnique(delegate, row);
+    table(delegate).push(row);
+    return row;
+  }
+
+  function remove(delegate: string, row: Row) {
+    tables[delegate] = table(delegate).filter((r) => r !== row);
+    for (const [child, fk] of Object.entries(options.cascade?.[delegate] ?? {})) {
+      for (const c of table(child).filter((r) => r[fk] === row.id)) remove(child, c);
+    }
+  }
+
+  const operations: Record<string, (delegate: string, args: any) => any> = {
+    findUnique: (d, a) => project(findMany(d, { where: a.where })[0] ?? null, a),
+    findUniqueOrThrow: (d, a) => {
+      const row = findMany(d, { where: a.where })[0];
+      if (!row) throw prismaError("P2025", `No ${d} found`);
+      return project(row, a);
+    },
+    findFirst: (d, a = {}) => project(findMany(d, { ...a, take: 1 })[0] ?? null, a),
+    findMany: (d, a = {}) => findMany(d, a).map((r) => project(r, a)),
+    count: (d, a = {}) => findMany(d, { where: a.where }).length,
+    create: (d, a) => project(create(d, a.data), a),
+    createMany: (d, a) => {
+      let count = 0;
+      for (const data of [].concat(a.data)) {
+        try {
+          create(d, data);
+          count++;
+        } catch (e: any) {
+          if (!(a.skipDuplicates && e.code === "P2002")) throw e;
+        }
+      }
+      return { count };
+    },
+    update: (d, a) => {
+      const row = findMany(d, { where: a.where })[0];
+      if (!row) throw prismaError("P2025", `Record to update not found (${d})`);
+      const next = applyData({ ...row, updatedAt: new Date() }, a.data);
+      checkUnique(d, next, row);
+      return project(Object.assign(row, next), a);
+    },
+    updateMany: (d, a) => {
+      const rows = findMany(d, { where: a.where });
+      rows.forEach((r) => applyData(r, { ...a.data, updatedAt: new Date() }));
+      return { count: rows.length };
+    },
+    upsert: (d, a) => {
+      const row = findMany(d, { where: a.where })[0];
+      return row ? operations.update(d, { where: { id: row.id }, data: a.update, select: a.select }) : project(create(d, a.create), a);
+    },
+    delete: (d, a) => {
+      const row = findMany(d, { where: a.where })[0];
+      if (!row) throw prismaError("P2025", `Record to delete does not exist (${d})`);
+      remove(d, row);
+      return project(row, a);
+    },
+    deleteMany: (d, a = {}) => {
+      const rows = findMany(d, { where: a.where });
+      rows.forEach((r) => remove(d, r));
+      return { count: rows.length };
+    },
+  };
+
+  type Hook = NonNullable<NonNullable<QueryExtension["query"]>["$allModels"]>["$allOperations"];
+
+  function client(hooks: Hook[]): any {
+    const run = (delegate: string, operation: string, args: any, i = hooks.length - 1): Promise<any> => {
+      if (i < 0) {
+        const op = operations[operation];
+        if (!op) return Promise.reject(new Error(`fakeDb: unsupported operation ${operation}`));
+        // copy so callers can't mutate stored rows through results
+        return Promise.resolve().then(() => structuredClone(op(delegate, args)));
+      }
+      return hooks[i]!({ model: modelName(delegate), operation, args, query: (a) => run(delegate, operation, a, i - 1) });
+    };
+    const self: any = new Proxy(
+      {},
+      {
+        get(_t, key: string) {
+          if (key === "then") return undefined;
+          if (key === "$transaction") {
+            return (arg: any) => (typeof arg === "function" ? arg(self) : Promise.all(arg));
+          }
+          if (key === "$extends") {
+            return (ext: any) => {
+              const obj: QueryExtension = typeof ext === "function" ? captureExtension(ext) : ext;
+              const hook = obj.query?.$allModels?.$allOperations;
+              return client(hook ? [...hooks, hook] : hooks);
+            };
+          }
+          if (key === "$queryRaw" || key === "$executeRaw") return fake.raw;
+          return new Proxy(
+            {},
+            { get: (_m, op: string) => (args: any) => run(key, op, args) }
+          );
+        },
+      }
+    );
+    return self;
+  }
+
+  // Prisma.defineExtension(obj) hands back (client) => client.$extends(obj)
+  function captureExtension(fn: (c: any) => any): QueryExtension {
+    let captured: QueryExtension = {};
+    fn({ $extends: (obj: QueryExtension) => (captured = obj) });
+    return captured;
+  }
+
+  const fake = {
+    /** The client; pass it wherever the code expects prisma or unscopedPrisma. */
+    client: client([]),
+    /** Replace every table (and options) before a test. */
+    reset(seed: Record<string, Row[]> = {}, opts: FakeDbOptions = {}) {
+      tables = Object.fromEntries(Object.entries(seed).map(([k, rows]) => [k, rows.map((r) => ({ ...r }))]));
+      options = opts;
+      seq = 0;
+      fake.raw = async () => {
+        throw new Error("fakeDb: raw queries need fakeDb.raw set by the test");
+      };
+    },
+    /** Current rows of a model, by delegate name ("callLog"). */
+    rows(delegate: string) {
+      return table(delegate);
+    },
+    /** $queryRaw / $executeRaw handler; tests set it when the code under test uses SQL. */
+    raw: (async () => {
+      throw new Error("fakeDb: raw queries need fakeDb.raw set by the test");
+    }) as (...args: any[]) => Promise<any>,
+  };
+  return fake;
+}
+
+export type FakeDb = ReturnType<typeof createFakeDb>;
+
+/** Shared instance for vi.mock factories and the test body. */
+export const fakeDb = createFakeDb();
+
+/** Module shape of @/lib/prisma backed by `fakeDb` (every client is the same store). */
+export function prismaModule() {
+  return {
+    prisma: fakeDb.client,
+    unscopedPrisma: fakeDb.client,
+    systemPrisma: fakeDb.client,
+    auditedTransaction: (fn: (tx: any) => Promise<any>, _options?: object) => fakeDb.client.$transaction(fn),
+    getDataScope: async () => ({ all: true, repIds: [], repNames: [] }),
+  };
+}
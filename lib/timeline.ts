@@ -0,0 +1,377 @@
+// lib/timeline.ts
+// One account story per customer: calls, visits, notes, orders, refunds, education
+// requests and bookings, stage changes and payment links, newest first. A UNION over
+// the source tables picks each page (keyset on time, then type:id, so pages never
+// overlap or skip); the page's rows are then loaded from each table for display.
+//
+// Refunds come from Shopify's refunds/create webhook log (which also covers refunds
+// issued from the CRM through Shopify) plus audited Stripe-direct refunds, which
+// never reach Shopify. Stage changes come from the stage history, payment links
+// from the audit log.
+import { Prisma } from "@prisma/client";
+import { unscopedPrisma } from "@/lib/prisma";
+import { LOSS_REASON_LABELS, STAGE_LABELS, type StageValue } from "@/lib/pipeline";
+import { STAGE_CHANGE_CAUSE_LABELS } from "@/lib/stageHistory";
+
+export const TIMELINE_TYPES = [
+  "call",
+  "visit",
+  "note",
+  "order",
+  "refund",
+  "education_request",
+  "education_booking",
+  "stage_change",
+  "payment_link",
+] as const;
+
+export type TimelineType = (typeof TIMELINE_TYPES)[number];
+
+export const TIMELINE_TYPE_LABELS: Record<TimelineType, string> = {
+  call: "Calls",
+  visit: "Visits",
+  note: "Notes",
+  order: "Orders",
+  refund: "Refunds",
+  education_request: "Education requests",
+  education_booking: "Education bookings",
+  stage_change: "Stage changes",
+  payment_link: "Payment links",
+};
+
+export function isTimelineType(v: unknown): v is TimelineType {
+  return (TIMELINE_TYPES as readonly string[]).includes(String(v));
+}
+
+export type TimelineItem = {
+  /** `type:id`, unique across the timeline */
+  key: string;
+  type: TimelineType;
+  at: string;
+  title: string;
+  detail: string | null;
+  /** rep or user responsible, when known */
+  by: string | null;
+  amount: number | null;
+  href: string | null;
+  /** after the customer's most recent visit */
+  sinceLastVisit: boolean;
+};
+
+const EDUCATION_TYPE_LABELS: Record<string, string> = {
+  PERMANENT_COLOUR: "Permanent colour",
+  SEMI_PERMANENT_COLOUR: "Semi-permanent colour",
+  CARE_RANGE: "Care range",
+  STYLING_RANGE: "Styling range",
+};
+
+const MAX_TAKE = 100;
+
+type Row = { type: TimelineType; src: string; id: string; at: Date };
+
+/** The SELECT for one type: (type, src, id, at) rows for this customer. */
+function branch(type: TimelineType, customerId: string): Prisma.Sql {
+  switch (type) {
+    case "call":
+      return Prisma.sql`SELECT 'call', 'call', "id", "createdAt" FROM "CallLog" WHERE "customerId" = ${customerId}`;
+    case "visit":
+      return Prisma.sql`SELECT 'visit', 'visit', "id", "date" FROM "Visit" WHERE "customerId" = ${customerId}`;
+    case "note":
+      return Prisma.sql`SELECT 'note', 'note', "id", "createdAt" FROM "Note" WHERE "customerId" = ${customerId}`;
+    case "order":
+      return Prisma.sql`SELECT 'order', 'order', "id", COALESCE("processedAt", "createdAt") FROM "Order" WHERE "customerId" = ${customerId}`;
+    case "refund":
+      return Prisma.sql`
+        SELECT 'refund', 'webhook', w."id", w."createdAt"
+        FROM "WebhookLog" w
+        JOIN "Order" o ON o."shopifyOrderId" = COALESCE(w."payload"->'refund'->>'order_id', w."payload"->>'order_id')
+        WHERE w."topic" = 'refunds/create' AND o."customerId" = ${customerId}
+        UNION ALL
+        SELECT 'refund', 'audit', a."id", a."createdAt"
+        FROM "AuditLog" a
+        WHERE a."action" = 'order.refund' AND a."details"->>'mode' = 'stripe-direct'
+          AND a."details"->>'customerId' = ${customerId}`;
+    case "education_request":
+      return Prisma.sql`SELECT 'education_request', 'education_request', "id", "createdAt" FROM "EducationRequest" WHERE "customerId" = ${customerId}`;
+    case "education_booking":
+      return Prisma.sql`SELECT 'education_booking', 'education_booking', "id", COALESCE("startAt", "createdAt") FROM "EducationBooking" WHERE "customerId" = ${customerId}`;
+    case "stage_change":
+      return Prisma.sql`
+        SELECT 'stage_change', 'stage', "id", "createdAt" FROM "StageChange" WHERE "customerId" = ${customerId}`;
+    case "payment_link":
+      return Prisma.sql`
+        SELECT 'payment_link', 'audit', "id", "createdAt" FROM "AuditLog"
+        WHERE "action" IN ('payment_link.create', 'payment_link.paid')
+          AND "entityType" = 'Customer' AND "entityId" = ${customerId}`;
+  }
+}
+
+/** "2024-05-01T09:00:00.000Z|call:abc" → keyset position; null when malformed. */
+function parseCursor(cursor: string | null | undefined) {
+  const [at, key] = String(cursor ?? "").split("|");
+  const d = new Date(at);
+  return key && !Number.isNaN(d.getTime()) ? { at: d, key } : null;
+}
+
+const num = (v: unknown) => {
+  const n = Number(v);
+  return v == null || v === "" || !Number.isFinite(n) ? null : n;
+};
+
+const clip = (s: string | null | undefined, n = 280) => {
+  const t = (s ?? "").trim();
+  return !t ? null : t.length > n ? `${t.slice(0, n - 1)}…` : t;
+};
+
+const join = (...parts: (string | null | undefined | false)[]) => parts.filter(Boolean).join(" · ") || null;
+
+/** Shopify refund payload → amount refunded (successful refund transactions). */
+function webhookRefundAmount(payload: any) {
+  const refund = payload?.refund ?? payload;
+  const txs: any[] = Array.isArray(refund?.transactions) ? refund.transactions : [];
+  const paid = txs.filter((t) => (t?.kind ?? "refund") === "refund" && (t?.status ?? "success") === "success");
+  return paid.length ? paid.reduce((s, t) => s + (num(t.amount) ?? 0), 0) : null;
+}
+
+/** Load display fields for one page of rows. */
+async function hydrate(rows: Row[]): Promise<Map<string, Omit<TimelineItem, "sinceLastVisit">>> {
+  const ids = (type: TimelineType, src?: string) => rows.filter((r) => r.type === type && (!src || r.src === src)).map((r) => r.id);
+  const db = unscopedPrisma;
+  const auditIds = rows.filter((r) => r.src === "audit").map((r) => r.id);
+  const webhookIds = ids("refund", "webhook");
+
+  const [calls, visits, notes, orders, webhooks, audits, requests, bookings, stageChanges] = await Promise.all([
+    ids("call").length
+      ? db.callLog.findMany({
+          where: { id: { in: ids("call") } },
+          select: { id: true, callType: true, outcome: true, summary: true, staff: true, durationMinutes: true, nextStep: true },
+        })
+      : [],
+    ids("visit").length
+      ? db.visit.findMany({ where: { id: { in: ids("visit") } }, select: { id: true, summary: true, staff: true, durationMinutes: true } })
+      : [],
+    ids("note").length ? db.note.findMany({ where: { id: { in: ids("note") } }, select: { id: true, text: true, staff: true } }) : [],
+    ids("order").length
+      ? db.order.findMany({
+          where: { id: { in: ids("order") } },
+          select: { id: true, shopifyName: true, shopifyOrderNumber: true, shopifyOrderId: true, total: true, refundedTotal: true, financialStatus: true, fulfillmentStatus: true, lineItems: { select: { quantity: true } } },
+        })
+      : [],
+    webhookIds.length ? db.webhookLog.findMany({ where: { id: { in: webhookIds } }, select: { id: true, payload: true } }) : [],
+    auditIds.length
+      ? db.auditLog.findMany({
+          where: { id: { in: auditIds } },
+          select: { id: true, action: true, details: true, user: { select: { fullName: true, email: true } } },
+        })
+      : [],
+    ids("education_request").length
+      ? db.educationRequest.findMany({
+          where: { id: { in: ids("education_request") } },
+          select: { id: true, status: true, brands: true, educationTypes: true, contactName: true, notes: true },
+        })
+      : [],
+    ids("education_booking").length
+      ? db.educationBooking.findMany({
+          where: { id: { in: ids("education_booking") } },
+          select: { id: true, requestId: true, title: true, brand: true, location: true, startAt: true, educator: { select: { name: true } } },
+        })
+      : [],
+    ids("stage_change").length
+      ? db.stageChange.findMany({
+          where: { id: { in: ids("stage_change") } },
+          select: {
+            id: true, fromStage: true, toStage: true, cause: true, callLogId: true, orderId: true, lossReason: true,
+            lossBrand: { select: { name: true } }, user: { select: { fullName: true, email: true } },
+          },
+        })
+      : [],
+  ]);
+
+  // orders behind webhook refunds, by Shopify id
+  const refundOrderIds = webhooks
+    .map((w) => String((w.payload as any)?.refund?.order_id ?? (w.payload as any)?.order_id ?? ""))
+    .filter(Boolean);
+  const refundOrders = refundOrderIds.length
+    ? await db.order.findMany({
+        where: { shopifyOrderId: { in: refundOrderIds } },
+        select: { id: true, shopifyOrderId: true, shopifyName: true, shopifyOrderNumber: true },
+      })
+    : [];
+  const orderName = (o: { shopifyName: string | null; shopifyOrderNumber: number | null } | undefined) =>
+    o?.shopifyName || (o?.shopifyOrderNumber ? `#${o.shopifyOrderNumber}` : "order");
+  const userName = (u: { fullName: string | null; email: string } | null) => u?.fullName || u?.email || null;
+
+  const out = new Map<string, Omit<TimelineItem, "sinceLastVisit">>();
+  const put = (r: Row, v: Omit<TimelineItem, "sinceLastVisit" | "key" | "type" | "at">) =>
+    out.set(`${r.type}:${r.id}`, { key: `${r.type}:${r.id}`, type: r.type, at: r.at.toISOString(), ...v });
+  const byId = <T extends { id: string }>(xs: T[]) => new Map(xs.map((x) => [x.id, x]));
+  const [callMap, visitMap, noteMap, orderMap, webhookMap, auditMap, requestMap, bookingMap, stageMap] = [
+    byId(calls), byId(visits), byId(notes), byId(orders), byId(webhooks), byId(audits), byId(requests), byId(bookings), byId(stageChanges),
+  ];
+  const refundOrderMap = new Map(refundOrders.map((o) => [o.shopifyOrderId, o]));
+
+  for (const r of rows) {
+    switch (r.type) {
+      case "call": {
+        const c = callMap.get(r.id);
+        if (!c) break;
+        put(r, {
+          title: join(c.callType || "Call", c.outcome)!,
+          detail: join(clip(c.summary), c.nextStep && `Next: ${c.nextStep}`),
+          by: c.staff,
+          amount: null,
+          href: `/calls/${c.id}`,
+        });
+        break;
+      }
+      case "visit": {
+        const v = visitMap.get(r.id);
+        if (!v) break;
+        put(r, { title: join("Visit", v.durationMinutes ? `${v.durationMinutes}m` : null)!, detail: clip(v.summary), by: v.staff, amount: null, href: null });
+        break;
+      }
+      case "note": {
+        const n = noteMap.get(r.id);
+        if (!n) break;
+        put(r, { title: "Note", detail: clip(n.text, 600), by: n.staff, amount: null, href: null });
+        break;
+      }
+      case "order": {
+        const o = orderMap.get(r.id);
+        if (!o) break;
+        const units = o.lineItems.reduce((s, li) => s + (li.quantity ?? 0), 0);
+        put(r, {
+          title: `Order ${orderName(o)}`,
+          detail: join(units ? `${units} item${units === 1 ? "" : "s"}` : null, o.financialStatus, o.fulfillmentStatus, num(o.refundedTotal) ? "part refunded" : null),
+          by: null,
+          amount: num(o.total),
+          href: `/orders/${o.id}`,
+        });
+        break;
+      }
+      case "refund": {
+        if (r.src === "webhook") {
+          const w = webhookMap.get(r.id);
+          if (!w) break;
+          const p: any = w.payload;
+          const o = refundOrderMap.get(String(p?.refund?.order_id ?? p?.order_id ?? ""));
+          put(r, {
+            title: `Refund on ${orderName(o)}`,
+            detail: clip(p?.refund?.note ?? p?.note),
+            by: null,
+            amount: webhookRefundAmount(p),
+            href: o ? `/orders/${o.id}` : null,
+          });
+        } else {
+          const a = auditMap.get(r.id);
+          if (!a) break;
+          const d: any = a.details ?? {};
+          put(r, { title: "Refund (card)", detail: null, by: userName(a.user), amount: num(d.amount), href: null });
+        }
+        break;
+      }
+      case "education_request": {
+        const e = requestMap.get(r.id);
+        if (!e) break;
+        put(r, {
+          title: `Education requested (${e.status.toLowerCase()})`,
+          detail: join(e.brands.join(", "), e.educationTypes.map((t) => EDUCATION_TYPE_LABELS[t] ?? t).join(", "), clip(e.notes)),
+          by: e.contactName,
+          amount: null,
+          href: `/education/requests/${e.id}`,
+        });
+        break;
+      }
+      case "education_booking": {
+        const b = bookingMap.get(r.id);
+        if (!b) break;
+        const upcoming = b.startAt && b.startAt.getTime() > Date.now();
+        put(r, {
+          title: `${upcoming ? "Upcoming education" : "Education session"}${b.title ? `: ${b.title}` : ""}`,
+          detail: join(b.brand, b.location),
+          by: b.educator?.name ?? null,
+          amount: null,
+          href: b.requestId ? `/education/requests/${b.requestId}` : null,
+        });
+        break;
+      }
+      case "stage_change": {
+        const c = stageMap.get(r.id);
+        if (!c) break;
+        const label = (v: string | null) => (v == null ? "none" : STAGE_LABELS[v as StageValue] ?? v);
+        put(r, {
+          title: `Stage: ${label(c.fromStage)} → ${label(c.toStage)}`,
+          detail: join(
+            STAGE_CHANGE_CAUSE_LABELS[c.cause],
+            c.lossReason && LOSS_REASON_LABELS[c.lossReason],
+            c.lossBrand && `to ${c.lossBrand.name}`
+          ),
+          by: userName(c.user),
+          amount: null,
+          href: c.callLogId ? `/calls/${c.callLogId}` : c.orderId ? `/orders/${c.orderId}` : null,
+        });
+        break;
+      }
+      case "payment_link": {
+        const a = auditMap.get(r.id);
+        if (!a) break;
+        const d: any = a.details ?? {};
+        const paid = a.action === "payment_link.paid";
+        put(r, {
+          title: paid ? "Payment link paid" : "Payment link created",
+          detail: paid ? null : join(d.via && `via ${d.via}`, d.sentTo && `to ${d.sentTo}`),
+          by: paid ? null : userName(a.user),
+          amount: num(d.amount),
+          href: paid ? null : d.url ?? null,
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * One page of a customer's timeline, newest first. `before` is the `nextCursor`
+ * of the previous page. The caller checks the customer is visible to the user.
+ */
+export async function customerTimeline(
+  customerId: string,
+  opts: { types?: TimelineType[]; before?: string | null; take?: number } = {}
+) {
+  const types = opts.types?.length ? opts.types : [...TIMELINE_TYPES];
+  const take = Math.min(Math.max(Math.floor(opts.take || 30), 1), MAX_TAKE);
+  const cursor = parseCursor(opts.before);
+  const after = cursor
+    ? Prisma.sql`WHERE (t.at, t.type || ':' || t.id) < (${cursor.at}, ${cursor.key})`
+    : Prisma.empty;
+
+  const [rows, lastVisit] = await Promise.all([
+    unscopedPrisma.$queryRaw<Row[]>`
+      SELECT t.type, t.src, t.id, t.at FROM (
+        ${Prisma.join(types.map((t) => branch(t, customerId)), " UNION ALL ")}
+      ) t (type, src, id, at)
+      ${after}
+      ORDER BY t.at DESC, t.type || ':' || t.id DESC
+      LIMIT ${take + 1}`,
+    unscopedPrisma.visit.findFirst({
+      where: { customerId, date: { lte: new Date() } },
+      orderBy: { date: "desc" },
+      select: { date: true },
+    }),
+  ]);
+
+  const page = rows.slice(0, take);
+  const details = await hydrate(page);
+  const lastVisitAt = lastVisit?.date ?? null;
+  const items: TimelineItem[] = page.flatMap((r) => {
+    const item = details.get(`${r.type}:${r.id}`);
+    return item ? [{ ...item, sinceLastVisit: !!lastVisitAt && r.at > lastVisitAt }] : [];
+  });
+  const last = page[page.length - 1];
+  return {
+    items,
+    nextCursor: rows.length > take && last ? `${last.at.toISOString()}|${last.type}:${last.id}` : null,
+    lastVisitAt: lastVisitAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,51 @@
+// lib/totp.test.ts
+import { describe, expect, it } from "vitest";
+import { base32Encode, hotp, totpAt, verifyTotp } from "@/lib/totp";
+
+// RFC 6238 appendix B, SHA-1 column (8 digits)
+const RFC_KEY = Buffer.from("12345678901234567890");
+const RFC_VECTORS: [number, string][] = [
+  [59, "94287082"],
+  [1111111109, "07081804"],
+  [1111111111, "14050471"],
+  [1234567890, "89005924"],
+  [2000000000, "69279037"],
+  [20000000000, "65353130"],
+];
+
+describe("totpAt", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 SHA-1 vector at T=%i", (t, code) => {
+    expect(totpAt(RFC_KEY, t, 8)).toBe(code);
+  });
+
+  it("gives the last 6 digits of the same value by default", () => {
+    expect(totpAt(RFC_KEY, 59)).toBe("287082");
+  });
+});
+
+describe("verifyTotp", () => {
+  const secret = base32Encode(RFC_KEY);
+  const now = 1111111111 * 1000;
+  const step = Math.floor(1111111111 / 30);
+  const codeAt = (s: number) => hotp(RFC_KEY, s);
+
+  it("accepts the current step and returns it", () => {
+    expect(verifyTotp(secret, codeAt(step), now)).toBe(step);
+  });
+
+  it("allows one step of drift either way", () => {
+    expect(verifyTotp(secret, codeAt(step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(secret, codeAt(step + 1), now)).toBe(step + 1);
+  });
+
+  it("rejects codes two steps out", () => {
+    expect(verifyTotp(secret, codeAt(step - 2), now)).toBeNull();
+    expect(verifyTotp(secret, codeAt(step + 2), now)).toBeNull();
+  });
+
+  it("rejects malformed codes", () => {
+    expect(verifyTotp(secret, "", now)).toBeNull();
+    expect(verifyTotp(secret, "12345", now)).toBeNull();
+    expect(verifyTotp(secret, totpAt(RFC_KEY, 1111111111, 8), now)).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// lib/totp.ts
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30s steps) — no network, no dependencies.
+// Checked against the RFC's SHA-1 test vectors in lib/totp.test.ts.
+import crypto from "crypto";
+
+const B32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const STEP_SEC = 30;
+const DIGITS = 6;
+
+export function base32Encode(buf: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of buf) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += B32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += B32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(s: string): Buffer {
+  const clean = s.toUpperCase().replace(/[\s=-]/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const ch of clean) {
+    const idx = B32.indexOf(ch);
+    if (idx < 0) throw new Error("Invalid base32 secret");
+    value = (value << 5) | idx;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** RFC 4226 HOTP with dynamic truncation. */
+export function hotp(key: Buffer, counter: number, digits = DIGITS): string {
+  const msg = Buffer.alloc(8);
+  msg.writeBigUInt64BE(BigInt(counter));
+  const h = crypto.createHmac("sha1", key).update(msg).digest();
+  const off = h[h.length - 1] & 0x0f;
+  const bin =
+    ((h[off] & 0x7f) << 24) | (h[off + 1] << 16) | (h[off + 2] << 8) | h[off + 3];
+  return String(bin % 10 ** digits).padStart(digits, "0");
+}
+
+/** Code for a unix time (seconds). */
+export function totpAt(key: Buffer, unixSec: number, digits = DIGITS): string {
+  return hotp(key, Math.floor(unixSec / STEP_SEC), digits);
+}
+
+/**
+ * Check a 6-digit code for a base32 secret, allowing one step of clock drift either
+ * way. Returns the matched time step so callers can reject replays, or null.
+ */
+export function verifyTotp(secretB32: string, code: string, now = Date.now()): number | null {
+  const c = String(code || "").replace(/\s/g, "");
+  if (!/^\d{6}$/.test(c)) return null;
+  const key = base32Decode(secretB32);
+  const step = Math.floor(now / 1000 / STEP_SEC);
+  for (const d of [0, -1, 1]) {
+    const want = hotp(key, step + d);
+    if (crypto.timingSafeEqual(Buffer.from(want), Buffer.from(c))) return step + d;
+  }
+  return null;
+}
+
+/** New random 160-bit secret, base32 encoded (what authenticator apps expect). */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/** otpauth:// URI for the enrolment QR code. */
+export function otpauthUrl(secretB32: string, account: string, issuer = "SBP CRM"): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const q = new URLSearchParams({
+    secret: secretB32,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SEC),
+  });
+  return `otpauth://totp/${label}?${q.toString()}`;
+}
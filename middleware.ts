@@ -1,7 +1,8 @@
 // middleware.ts
 import { NextResponse, NextRequest } from "next/server";
+import { requiredAccess, hasAccess, requiredScope } from "@/lib/permissions";
 
-/** Edge-safe verification (Web Crypto). Must mirror the server logic from lib/auth. */
+/** Edge-safe verification (Web Crypto). Must mirror the server logic from lib/session. */
 const COOKIE_NAME = "sbp_session";
 
 function b64urlToBytes(s: string) {
@@ -22,7 +23,11 @@ async function hmacSHA256(keyBytes: Uint8Array, msgBytes: Uint8Array) {
   const sig = await crypto.subtle.sign("HMAC", key, msgBytes);
   return new Uint8Array(sig);
 }
-async function verifyToken(token: string | undefined | null): Promise<{ userId: string; exp: number } | null> {
+type SessionClaims = { userId: string; sid: string; exp: number };
+type LiveSession = { userId: string; role: string; perms: string[] };
+
+/** Cheap local check: signature (HMAC over the base64url payload, as lib/session) + expiry. */
+async function verifyToken(token: string | undefined | null): Promise<SessionClaims | null> {
   if (!token) return null;
   const parts = token.split(".");
   if (parts.length !== 2) return null;
@@ -30,14 +35,15 @@ async function verifyToken(token: string | undefined | null): Promise<{ userId:
 
   const secret = process.env.AUTH_SECRET || "dev-insecure-secret-change-me";
   const keyBytes = new TextEncoder().encode(secret);
-  const payloadBytes = b64urlToBytes(p);
-  const expected = await hmacSHA256(keyBytes, payloadBytes);
+  const expected = await hmacSHA256(keyBytes, new TextEncoder().encode(p));
   const expectedB64 = bytesToB64url(expected);
   if (expectedB64 !== sig) return null;
 
   try {
-    const json = JSON.parse(new TextDecoder().decode(payloadBytes)) as { userId: string; exp: number };
+    const json = JSON.parse(new TextDecoder().decode(b64urlToBytes(p))) as SessionClaims;
     if (!json?.userId || typeof json.exp !== "number") return null;
+    // Tokens issued before server-side sessions carry no sid: force a fresh sign-in.
+    if (!json.sid) return null;
     if (json.exp < Math.floor(Date.now() / 1000)) return null;
     return json;
   } catch {
@@ -45,6 +51,70 @@ async function verifyToken(token: string | undefined | null): Promise<{ userId:
   }
 }
 
+/**
+ * Server check against the Session table (revoked / idle / inactive user) plus fresh
+ * role & permissions. Edge can't run Prisma, so ask the Node route; cached briefly
+ * per token so a page load's burst of requests costs one lookup.
+ */
+const SESSION_CACHE_MS = 15_000;
+const sessionCache = new Map<string, { live: LiveSession | null; at: number }>();
+
+async function checkSession(req: NextRequest, token: string | undefined): Promise<LiveSession | null> {
+  if (!(await verifyToken(token))) return null;
+
+  const hit = sessionCache.get(token!);
+  if (hit && Date.now() - hit.at < SESSION_CACHE_MS) return hit.live;
+
+  let live: LiveSession | null = null;
+  try {
+    const r = await fetch(new URL("/api/auth/session", req.url), {
+      headers: { cookie: `${COOKIE_NAME}=${token}` },
+      cache: "no-store",
+    });
+    if (r.ok) live = (await r.json()) as LiveSession;
+  } catch {
+    live = null;
+  }
+
+  if (sessionCache.size > 1000) sessionCache.clear();
+  sessionCache.set(token!, { live, at: Date.now() });
+  return live;
+}
+
+/**
+ * API keys (`Authorization: Bearer sbp_…`) for machine callers, checked by the Node
+ * route like sessions. Keys only reach routes with a scope rule in lib/permissions.
+ */
+const apiKeyCache = new Map<string, { scopes: string[] | null; at: number }>();
+
+async function checkApiKey(req: NextRequest, key: string): Promise<string[] | null> {
+  const hit = apiKeyCache.get(key);
+  if (hit && Date.now() - hit.at < SESSION_CACHE_MS) return hit.scopes;
+
+  let scopes: string[] | null = null;
+  try {
+    const r = await fetch(new URL("/api/auth/api-key", req.url), {
+      headers: {
+        authorization: `Bearer ${key}`,
+        "x-real-ip": req.ip || req.headers.get("x-real-ip") || "",
+      },
+      cache: "no-store",
+    });
+    if (r.ok) scopes = ((await r.json()) as { scopes: string[] }).scopes ?? [];
+  } catch {
+    scopes = null;
+  }
+
+  if (apiKeyCache.size > 1000) apiKeyCache.clear();
+  apiKeyCache.set(key, { scopes, at: Date.now() });
+  return scopes;
+}
+
+function bearerApiKey(req: NextRequest) {
+  const m = /^Bearer\s+(sbp_\S+)$/i.exec(req.headers.get("authorization") || "");
+  return m ? m[1] : null;
+}
+
 /**
  * Public routes (exact paths)
  * - keep login/logout open
@@ -56,6 +126,11 @@ const PUBLIC_PATHS = [
   "/api/login",
   "/api/auth/login",
   "/api/auth/logout",
+  "/api/auth/session", // validates the cookie itself; called by this middleware
+  "/api/auth/api-key", // same, for API keys
+  "/forgot",
+  "/api/auth/forgot",
+  "/api/auth/reset",
   "/api/google/oauth/start",
   "/api/google/oauth/callback",
   "/favicon.ico",
@@ -70,7 +145,7 @@ const PUBLIC_PATHS = [
 const PUBLIC_FILES = /\.(?:png|jpg|jpeg|svg|gif|webp|avif|ico|txt|xml|css|js|map|woff2?|ttf|eot)$/i;
 
 /**
- * Treat these prefixes as public so webhooks, Google OAuth & debug utilities are not blocked by auth.
+ * Treat these prefixes as public so webhooks & Google OAuth are not blocked by auth.
  */
 function isPublicPath(pathname: string) {
   if (PUBLIC_FILES.test(pathname)) return true;
@@ -85,12 +160,12 @@ function isPublicPath(pathname: string) {
   // ✅ Stripe webhooks unauthenticated
   if (pathname.startsWith("/api/webhooks/stripe")) return true;
 
+  // Invite / password-reset links (the token in the path is the credential)
+  if (pathname.startsWith("/reset/")) return true;
+
   // Google OAuth (prefix allow)
   if (pathname.startsWith("/api/google/oauth")) return true;
 
-  // Debug tools (optional; remove if you want them protected)
-  if (pathname.startsWith("/api/debug/")) return true;
-
   return false;
 }
 
@@ -102,7 +177,7 @@ export async function middleware(req: NextRequest) {
     // If logged-in user hits /login, bounce them to next or home
     if (pathname === "/login") {
       const tok = req.cookies.get(COOKIE_NAME)?.value;
-      const ok = await verifyToken(tok);
+      const ok = await checkSession(req, tok);
       if (ok) {
         const next = req.nextUrl.searchParams.get("next") || "/";
         return NextResponse.redirect(new URL(next, req.url));
@@ -111,10 +186,32 @@ export async function middleware(req: NextRequest) {
     return NextResponse.next();
   }
 
+  // Machine callers: an API key with the route's scope, no cookie involved
+  const apiKey = pathname.startsWith("/api/") ? bearerApiKey(req) : null;
+  if (apiKey) {
+    const scopes = await checkApiKey(req, apiKey);
+    if (!scopes) return NextResponse.json({ error: "Invalid API key" }, { status: 401 });
+    const scope = requiredScope(pathname, req.method);
+    if (scope && scopes.includes(scope)) return NextResponse.next();
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
   // Verify session for everything else
   const token = req.cookies.get(COOKIE_NAME)?.value;
-  const sess = await verifyToken(token);
-  if (sess) return NextResponse.next();
+  const sess = await checkSession(req, token);
+  if (sess) {
+    const access = requiredAccess(pathname, req.method);
+    if (hasAccess(sess, access)) return NextResponse.next();
+
+    // Signed in but not allowed: API → 403, page → home
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+    const home = req.nextUrl.clone();
+    home.pathname = "/";
+    home.search = "";
+    return NextResponse.redirect(home);
+  }
 
   // Unauthenticated: page → redirect to /login, API → 401
   if (pathname.startsWith("/api/")) {
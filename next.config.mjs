@@ -2,6 +2,11 @@
 const nextConfig = {
   reactStrictMode: true,
 
+  experimental: {
+    // read at runtime by the bundled geocoder (lib/geocode.ts), so ship it with the functions
+    outputFileTracingIncludes: { "/**/*": ["./data/postcode-districts.csv"] },
+  },
+
   async redirects() {
     return [
       // Redirect old path to the new one
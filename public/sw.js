@@ -0,0 +1,101 @@
+// public/sw.js
+// Service worker for offline call logging (see lib/offlineCalls.ts, which owns the
+// queue and the only send loop).
+//  - background sync "call-queue": ask an open Log Call page to send the queue; with
+//    none open, or calls still left, the browser retries the sync later
+//  - keeps the Log Call page, its lookups and static assets cached so the form opens
+//    with no signal
+
+const CACHE = "sbp-offline-v1";
+const OFFLINE_PAGES = ["/calls/new"];
+// lookups the call form loads on open (reps, outcomes, brand checkboxes)
+const OFFLINE_LOOKUPS = [
+  "/api/sales-reps",
+  "/api/pipeline-options",
+  "/api/settings/visible-stocked-brands",
+  "/api/settings/visible-competitor-brands",
+];
+// how long a page gets to send the queue before the sync counts as failed
+const PAGE_SYNC_TIMEOUT_MS = 60 * 1000;
+
+self.addEventListener("install", (event) => {
+  self.skipWaiting();
+  event.waitUntil(
+    caches.open(CACHE).then((cache) => cache.addAll(OFFLINE_PAGES).catch(() => {}))
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("sbp-offline-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  if (url.origin !== self.location.origin) return;
+
+  // build assets are content-hashed: cache first
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(req).then(
+        (hit) =>
+          hit ||
+          fetch(req).then((res) => {
+            if (res.ok) {
+              const copy = res.clone();
+              caches.open(CACHE).then((cache) => cache.put(req, copy));
+            }
+            return res;
+          })
+      )
+    );
+    return;
+  }
+
+  // the call form and its lookups: network first, cached copy when offline
+  const page = req.mode === "navigate" && OFFLINE_PAGES.includes(url.pathname);
+  if (page || (url.search === "" && OFFLINE_LOOKUPS.includes(url.pathname))) {
+    event.respondWith(
+      fetch(req)
+        .then((res) => {
+          if (res.ok && !res.redirected) {
+            const copy = res.clone();
+            caches.open(CACHE).then((cache) => cache.put(url.pathname, copy));
+          }
+          return res;
+        })
+        .catch(() => caches.match(url.pathname).then((hit) => hit || Response.error()))
+    );
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === "call-queue") event.waitUntil(askPageToSync());
+});
+
+/**
+ * Post "call-queue-sync" to every open window; OfflineCallQueue answers on the
+ * message port once syncQueuedCalls has run. Resolves when a page reports the queue
+ * empty; a rejected promise makes the browser retry the sync later with backoff.
+ */
+async function askPageToSync() {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: "window" });
+  const replies = clients.map(
+    (client) =>
+      new Promise((resolve, reject) => {
+        const channel = new MessageChannel();
+        channel.port1.onmessage = (e) => (e.data?.remaining === 0 ? resolve() : reject(new Error("Calls still queued")));
+        client.postMessage({ type: "call-queue-sync" }, [channel.port2]);
+      })
+  );
+  const timeout = new Promise((_, reject) =>
+    setTimeout(() => reject(new Error("No page sent the call queue")), PAGE_SYNC_TIMEOUT_MS)
+  );
+  await Promise.race([Promise.any(replies), timeout]);
+}
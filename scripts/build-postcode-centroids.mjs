@@ -0,0 +1,63 @@
+// scripts/build-postcode-centroids.mjs
+// Builds data/postcode-districts.csv — the bundled geocoder's centroid extract —
+// from the ONS Postcode Directory (ONSPD) or National Statistics Postcode Lookup
+// (NSPL) CSV, both published under the Open Government Licence:
+//
+//   node scripts/build-postcode-centroids.mjs path/to/NSPL_<date>_UK.csv [out.csv]
+//
+// Every live postcode with a grid reference is averaged into its sector ("SW1A 1")
+// and district ("SW1A"); one row per sector and district is written as
+// `key,latitude,longitude`. Terminated postcodes and the ones ONS has no position
+// for (latitude 99.999999) are skipped.
+import { createReadStream, mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+
+const [source, out = "data/postcode-districts.csv"] = process.argv.slice(2);
+if (!source) {
+  console.error("usage: node scripts/build-postcode-centroids.mjs <ONSPD or NSPL csv> [out.csv]");
+  process.exit(1);
+}
+
+/** Split one CSV line; ONS quotes every field but never embeds commas in the ones we read. */
+const cells = (line) => line.split(",").map((c) => c.replace(/^"|"$/g, "").trim());
+
+const sums = new Map(); // key → [lat total, lng total, count]
+function add(key, lat, lng) {
+  const s = sums.get(key) ?? [0, 0, 0];
+  s[0] += lat;
+  s[1] += lng;
+  s[2]++;
+  sums.set(key, s);
+}
+
+const lines = readline.createInterface({ input: createReadStream(source), crlfDelay: Infinity });
+let columns = null;
+let read = 0;
+for await (const line of lines) {
+  const row = cells(line);
+  if (!columns) {
+    columns = Object.fromEntries(row.map((name, i) => [name.toLowerCase(), i]));
+    for (const name of ["pcds", "lat", "long"]) {
+      if (!(name in columns)) throw new Error(`${source} has no "${name}" column — expected an ONSPD or NSPL CSV`);
+    }
+    continue;
+  }
+  const postcode = row[columns.pcds]?.toUpperCase();
+  const lat = Number(row[columns.lat]);
+  const lng = Number(row[columns.long]);
+  if ("doterm" in columns && row[columns.doterm]) continue;
+  if (!postcode || !Number.isFinite(lat) || !Number.isFinite(lng) || lat > 90) continue;
+  const m = /^([A-Z]{1,2}\d[A-Z\d]?) (\d)[A-Z]{2}$/.exec(postcode);
+  if (!m) continue;
+  add(`${m[1]} ${m[2]}`, lat, lng);
+  add(m[1], lat, lng);
+  read++;
+}
+
+const rows = [...sums]
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([key, [lat, lng, n]]) => `${key},${(lat / n).toFixed(5)},${(lng / n).toFixed(5)}`);
+mkdirSync(path.dirname(out), { recursive: true });
+writeFileSync(out, `postcode,latitude,longitude\n${rows.join("\n")}\n`);
+console.log(`${read} postcodes → ${rows.length} sectors and districts in ${out}`);